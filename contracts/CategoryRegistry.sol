@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Category Registry
+/// @notice On-chain schemas describing the encrypted attributes of each collectible category
+/// @dev A schema is a name plus an ordered list of typed fields. Collectibles store one
+///      ciphertext handle per field, so schemas are immutable once registered.
+///      ShortString fields hold up to 31 UTF-8 bytes packed left-aligned into a uint256,
+///      the same layout as `bytes32("GIA-2231-XK")`. Fields marked `unique` (e.g. serial
+///      and certificate numbers) are compared against other collectibles of the category
+///      to detect duplicate registrations
+contract CategoryRegistry {
+    /// @notice Encrypted type of a category attribute
+    enum AttributeType {
+        Uint64,
+        Uint128,
+        Uint256,
+        ShortString // Stored as euint256
+    }
+
+    struct AttributeField {
+        string name;
+        AttributeType fieldType;
+        bool unique; // Checked for duplicates across the category
+    }
+
+    struct CategorySchema {
+        uint256 categoryId;
+        string name;
+        address creator;
+        AttributeField[] fields;
+        bool exists;
+    }
+
+    mapping(uint256 => CategorySchema) private schemas; // categoryId => schema
+
+    uint256 public nextCategoryId;
+
+    uint256 public constant MAX_FIELDS = 16;
+
+    event CategoryRegistered(
+        uint256 indexed categoryId,
+        address indexed creator,
+        string name,
+        uint256 fieldCount
+    );
+
+    /// @notice Register a new category schema
+    /// @param name The public category name, e.g. "Watch"
+    /// @param fields The ordered attribute names and encrypted types
+    /// @return categoryId The ID of the new category
+    function registerCategory(string calldata name, AttributeField[] calldata fields) external returns (uint256) {
+        require(bytes(name).length > 0, "Name required");
+        require(fields.length > 0, "Fields required");
+        require(fields.length <= MAX_FIELDS, "Too many fields");
+
+        uint256 categoryId = nextCategoryId;
+        nextCategoryId++;
+
+        CategorySchema storage schema = schemas[categoryId];
+        schema.categoryId = categoryId;
+        schema.name = name;
+        schema.creator = msg.sender;
+        schema.exists = true;
+        for (uint256 i = 0; i < fields.length; i++) {
+            require(bytes(fields[i].name).length > 0, "Field name required");
+            schema.fields.push(fields[i]);
+        }
+
+        emit CategoryRegistered(categoryId, msg.sender, name, fields.length);
+        return categoryId;
+    }
+
+    /// @notice Get a category schema
+    /// @param categoryId The ID of the category
+    /// @return schema The category name, creator and ordered attribute fields
+    function getCategory(uint256 categoryId) external view returns (CategorySchema memory schema) {
+        schema = schemas[categoryId];
+        require(schema.exists, "Category does not exist");
+    }
+
+    /// @notice Get the encrypted types of a category's fields, in order
+    /// @param categoryId The ID of the category
+    /// @return fieldTypes One entry per field
+    function getFieldTypes(uint256 categoryId) external view returns (AttributeType[] memory fieldTypes) {
+        CategorySchema storage schema = schemas[categoryId];
+        require(schema.exists, "Category does not exist");
+
+        fieldTypes = new AttributeType[](schema.fields.length);
+        for (uint256 i = 0; i < fieldTypes.length; i++) {
+            fieldTypes[i] = schema.fields[i].fieldType;
+        }
+    }
+
+    /// @notice Get the indices of a category's fields that must be unique
+    /// @param categoryId The ID of the category
+    /// @return fieldIndices Indices of fields marked `unique`, in order
+    function getUniqueFields(uint256 categoryId) external view returns (uint256[] memory fieldIndices) {
+        CategorySchema storage schema = schemas[categoryId];
+        require(schema.exists, "Category does not exist");
+
+        uint256 count = 0;
+        for (uint256 i = 0; i < schema.fields.length; i++) {
+            if (schema.fields[i].unique) {
+                count++;
+            }
+        }
+        fieldIndices = new uint256[](count);
+        count = 0;
+        for (uint256 i = 0; i < schema.fields.length; i++) {
+            if (schema.fields[i].unique) {
+                fieldIndices[count++] = i;
+            }
+        }
+    }
+
+    /// @notice Get total number of registered categories
+    /// @return count The total count
+    function getTotalCategories() external view returns (uint256) {
+        return nextCategoryId;
+    }
+}
@@ -0,0 +1,118 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Admin
+/// @notice Roles, the marketplace fee and its treasury, and the emergency pause
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, like RelicChainAuctions.
+///      The admin grants the fee manager and pauser roles; it holds neither role itself
+///      unless granted. The fee is deducted in `_settleSale`, so it applies to every paid
+///      sale. A pause blocks new listings, offers, approvals, sales and bids, but never
+///      refunds or withdrawals
+contract RelicChainAdmin is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](8);
+        selectors[0] = this.transferAdmin.selector;
+        selectors[1] = this.grantRole.selector;
+        selectors[2] = this.revokeRole.selector;
+        selectors[3] = this.hasRole.selector;
+        selectors[4] = this.setMarketplaceFee.selector;
+        selectors[5] = this.withdrawTreasury.selector;
+        selectors[6] = this.pause.selector;
+        selectors[7] = this.unpause.selector;
+    }
+
+    /// @notice Hand the admin role to another account
+    /// @param newAdmin The new admin
+    function transferAdmin(address newAdmin) external {
+        require(msg.sender == admin, "Only admin");
+        require(newAdmin != address(0), "Invalid admin");
+
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+
+    /// @notice Grant an operational role
+    /// @param role The role to grant
+    /// @param account The account receiving the role
+    function grantRole(Role role, address account) external {
+        require(msg.sender == admin, "Only admin");
+        require(account != address(0), "Invalid account");
+        require(!roles[role][account], "Role already granted");
+
+        roles[role][account] = true;
+
+        emit RoleGranted(role, account);
+    }
+
+    /// @notice Revoke an operational role
+    /// @param role The role to revoke
+    /// @param account The account losing the role
+    function revokeRole(Role role, address account) external {
+        require(msg.sender == admin, "Only admin");
+        require(roles[role][account], "Role not granted");
+
+        roles[role][account] = false;
+
+        emit RoleRevoked(role, account);
+    }
+
+    /// @notice Check whether an account holds a role
+    /// @param role The role to check
+    /// @param account The account to check
+    /// @return granted True if the admin granted the role to the account
+    function hasRole(Role role, address account) external view returns (bool) {
+        return roles[role][account];
+    }
+
+    /// @notice Set the fee taken from every sale price
+    /// @dev Applies to sales settled after the change, including approved offers awaiting the oracle
+    /// @param feeBps The fee in basis points, at most MAX_MARKETPLACE_FEE_BPS
+    function setMarketplaceFee(uint96 feeBps) external {
+        require(roles[Role.FeeManager][msg.sender], "Only fee manager");
+        require(feeBps <= MAX_MARKETPLACE_FEE_BPS, "Fee too high");
+
+        marketplaceFeeBps = feeBps;
+
+        emit MarketplaceFeeUpdated(feeBps);
+    }
+
+    /// @notice Send collected fees out of the treasury
+    /// @param to The recipient, e.g. the company wallet
+    /// @param amount The amount in wei
+    function withdrawTreasury(address to, uint256 amount) external {
+        require(roles[Role.FeeManager][msg.sender], "Only fee manager");
+        require(to != address(0), "Invalid recipient");
+        require(amount > 0 && amount <= treasuryBalance, "Insufficient treasury balance");
+
+        // Reduce the balance before transferring to prevent reentrancy
+        treasuryBalance -= amount;
+
+        (bool success, ) = to.call{value: amount}("");
+        require(success, "Withdrawal failed");
+
+        emit TreasuryWithdrawn(to, amount);
+    }
+
+    /// @notice Stop new listings, offers, approvals, sales and bids, e.g. during an incident
+    function pause() external {
+        require(roles[Role.Pauser][msg.sender], "Only pauser");
+        require(!paused, "Already paused");
+
+        paused = true;
+
+        emit Paused(msg.sender);
+    }
+
+    /// @notice Resume normal operation
+    function unpause() external {
+        require(roles[Role.Pauser][msg.sender], "Only pauser");
+        require(paused, "Not paused");
+
+        paused = false;
+
+        emit Unpaused(msg.sender);
+    }
+}
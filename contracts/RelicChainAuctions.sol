@@ -0,0 +1,236 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, eaddress, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Auctions
+/// @notice Sealed-bid auctions for Relic Chain Verify collectibles
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, so every function
+///      runs on the marketplace's storage and emits from its address. Calling this contract
+///      directly only touches its own, empty storage
+contract RelicChainAuctions is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](10);
+        selectors[0] = this.createAuction.selector;
+        selectors[1] = this.placeBid.selector;
+        selectors[2] = this.revealAuction.selector;
+        selectors[3] = this.onAuctionRevealed.selector;
+        selectors[4] = this.cancelAuction.selector;
+        selectors[5] = this.reclaimBidDeposit.selector;
+        selectors[6] = this.getAuction.selector;
+        selectors[7] = this.getTokenAuctions.selector;
+        selectors[8] = this.getBid.selector;
+        selectors[9] = this.cancelStalledAuction.selector;
+    }
+
+    /// @notice Start a sealed-bid auction for a collectible
+    /// @dev The collectible cannot change hands until the auction is settled or cancelled
+    /// @param tokenId The ID of the collectible
+    /// @param duration Bidding period in seconds
+    /// @return auctionId The ID of the new auction
+    function createAuction(uint256 tokenId, uint256 duration) external returns (uint256) {
+        _requireNotPaused();
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(collectible.owner == msg.sender, "Only owner can create auction");
+        require(!_hasOpenAuction(tokenId), "Auction already open");
+        require(!saleSettling[tokenId], "Sale is settling");
+        require(duration > 0 && duration <= MAX_AUCTION_DURATION, "Invalid auction duration");
+        
+        uint256 auctionId = nextAuctionId;
+        nextAuctionId++;
+        
+        // Start from an encrypted zero bid held by nobody
+        euint64 highestBid = FHE.asEuint64(0);
+        eaddress highestBidder = FHE.asEaddress(address(0));
+        FHE.allowThis(highestBid);
+        FHE.allowThis(highestBidder);
+        
+        auctions[auctionId] = Auction({
+            auctionId: auctionId,
+            tokenId: tokenId,
+            seller: msg.sender,
+            endTime: block.timestamp + duration,
+            highestBid: highestBid,
+            highestBidder: highestBidder,
+            bidCount: 0,
+            decryptionRequestId: 0,
+            status: AuctionStatus.Active,
+            winner: address(0),
+            winningBid: 0
+        });
+        tokenAuctions[tokenId].push(auctionId);
+        
+        // A fixed-price listing would bypass the auction
+        delete salePrices[tokenId];
+        
+        emit AuctionCreated(auctionId, tokenId, msg.sender, block.timestamp + duration);
+        return auctionId;
+    }
+
+    /// @notice Place a sealed bid backed by a public ETH deposit
+    /// @dev Bids above the deposit are treated as zero, so the winner can always pay
+    /// @param auctionId The ID of the auction
+    /// @param encryptedBid Encrypted bid amount in gwei
+    /// @param inputProof The input proof for the encrypted bid
+    function placeBid(uint256 auctionId, externalEuint64 encryptedBid, bytes calldata inputProof) external payable {
+        _requireNotPaused();
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.Active, "Auction is not active");
+        require(block.timestamp < auction.endTime, "Auction has ended");
+        require(auction.seller != msg.sender, "Seller cannot bid");
+        require(bidDeposits[auctionId][msg.sender] == 0, "Already bid");
+        require(msg.value > 0, "Deposit must be greater than 0");
+        require(msg.value / 1 gwei <= type(uint64).max, "Deposit too large");
+        
+        euint64 bid = FHE.fromExternal(encryptedBid, inputProof);
+        
+        // Clamp bids that the deposit cannot cover to zero
+        ebool isCovered = FHE.le(bid, uint64(msg.value / 1 gwei));
+        euint64 validBid = FHE.select(isCovered, bid, FHE.asEuint64(0));
+        
+        // Strictly greater keeps the earliest bidder on ties
+        ebool isHigher = FHE.gt(validBid, auction.highestBid);
+        auction.highestBid = FHE.select(isHigher, validBid, auction.highestBid);
+        auction.highestBidder = FHE.select(isHigher, FHE.asEaddress(msg.sender), auction.highestBidder);
+        FHE.allowThis(auction.highestBid);
+        FHE.allowThis(auction.highestBidder);
+        
+        // Bidders can decrypt their own bid; nobody else (including the seller) can
+        FHE.allowThis(validBid);
+        FHE.allow(validBid, msg.sender);
+        auctionBids[auctionId][msg.sender] = validBid;
+        
+        bidDeposits[auctionId][msg.sender] = msg.value;
+        auction.bidCount++;
+        
+        emit BidPlaced(auctionId, msg.sender, msg.value);
+    }
+
+    /// @notice Close bidding and ask the decryption oracle to reveal the winner
+    /// @dev Callable by anyone after the end time. Auctions without bids are cancelled
+    /// @param auctionId The ID of the auction
+    function revealAuction(uint256 auctionId) external {
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.Active, "Auction is not active");
+        require(block.timestamp >= auction.endTime, "Auction has not ended");
+        
+        if (auction.bidCount == 0) {
+            auction.status = AuctionStatus.Cancelled;
+            emit AuctionCancelled(auctionId, auction.tokenId);
+            return;
+        }
+        
+        bytes32[] memory handles = new bytes32[](2);
+        handles[0] = FHE.toBytes32(auction.highestBid);
+        handles[1] = FHE.toBytes32(auction.highestBidder);
+        uint256 requestId = FHE.requestDecryption(handles, this.onAuctionRevealed.selector);
+        
+        auction.status = AuctionStatus.Revealing;
+        auction.decryptionRequestId = requestId;
+        revealRequests[requestId] = auctionId;
+        oracleRequestedAt[requestId] = block.timestamp;
+        
+        emit AuctionRevealRequested(auctionId, requestId);
+    }
+
+    /// @notice Decryption oracle callback that settles a revealed auction
+    /// @param requestId The oracle request ID
+    /// @param cleartexts ABI-encoded highest bid (gwei) and highest bidder
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onAuctionRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint256 auctionId = revealRequests[requestId];
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.Revealing && auction.decryptionRequestId == requestId, "Auction is not revealing");
+        
+        (uint64 winningBid, address winner) = abi.decode(cleartexts, (uint64, address));
+        auction.status = AuctionStatus.Settled;
+        auction.winner = winner;
+        auction.winningBid = winningBid;
+        
+        // No bid was covered by its deposit; everyone reclaims their deposit
+        if (winner == address(0)) {
+            emit AuctionSettled(auctionId, auction.tokenId, address(0), 0);
+            return;
+        }
+        
+        // The winner pays from their deposit and the rest is credited back
+        uint256 price = uint256(winningBid) * 1 gwei;
+        uint256 deposit = bidDeposits[auctionId][winner];
+        bidDeposits[auctionId][winner] = 0;
+        if (deposit > price) {
+            _creditWithdrawal(winner, deposit - price);
+        }
+        
+        _settleSale(auction.tokenId, auction.seller, winner, price, TransferKind.Auction, auctionId);
+        
+        emit AuctionSettled(auctionId, auction.tokenId, winner, price);
+    }
+
+    /// @notice Cancel an auction that has not received any bids
+    /// @param auctionId The ID of the auction
+    function cancelAuction(uint256 auctionId) external {
+        Auction storage auction = auctions[auctionId];
+        require(auction.seller == msg.sender, "Only seller can cancel auction");
+        require(auction.status == AuctionStatus.Active, "Auction is not active");
+        require(auction.bidCount == 0, "Auction has bids");
+        
+        auction.status = AuctionStatus.Cancelled;
+        
+        emit AuctionCancelled(auctionId, auction.tokenId);
+    }
+
+    /// @notice Cancel an auction whose reveal the oracle has not answered
+    /// @dev Callable by anyone once ORACLE_TIMEOUT has passed since the reveal was requested.
+    ///      The seller keeps the collectible, every bidder can reclaim their deposit and a
+    ///      late oracle answer is rejected
+    /// @param auctionId The ID of the auction
+    function cancelStalledAuction(uint256 auctionId) external {
+        Auction storage auction = auctions[auctionId];
+        require(auction.status == AuctionStatus.Revealing, "Auction is not revealing");
+        require(_isOracleTimedOut(auction.decryptionRequestId), "Reveal has not timed out");
+        
+        auction.status = AuctionStatus.Cancelled;
+        
+        emit AuctionCancelled(auctionId, auction.tokenId);
+    }
+
+    /// @notice Credit a losing bidder's deposit back to their withdrawable balance
+    /// @param auctionId The ID of the auction
+    function reclaimBidDeposit(uint256 auctionId) external {
+        AuctionStatus status = auctions[auctionId].status;
+        require(status == AuctionStatus.Settled || status == AuctionStatus.Cancelled, "Auction is not closed");
+        
+        uint256 deposit = bidDeposits[auctionId][msg.sender];
+        require(deposit > 0, "No deposit to reclaim");
+        
+        bidDeposits[auctionId][msg.sender] = 0;
+        _creditWithdrawal(msg.sender, deposit);
+    }
+
+    /// @notice Get auction details
+    /// @param auctionId The ID of the auction
+    /// @return auction The auction details
+    function getAuction(uint256 auctionId) external view returns (Auction memory auction) {
+        return auctions[auctionId];
+    }
+
+    /// @notice Get all auctions created for a token
+    /// @param tokenId The ID of the collectible
+    /// @return auctionIds Array of auction IDs
+    function getTokenAuctions(uint256 tokenId) external view returns (uint256[] memory auctionIds) {
+        return tokenAuctions[tokenId];
+    }
+
+    /// @notice Get a bidder's encrypted bid (only decryptable by that bidder)
+    /// @param auctionId The ID of the auction
+    /// @param bidder The bidder address
+    /// @return bid Encrypted bid in gwei (zero if the deposit did not cover it)
+    function getBid(uint256 auctionId, address bidder) external view returns (euint64 bid) {
+        return auctionBids[auctionId][bidder];
+    }
+}
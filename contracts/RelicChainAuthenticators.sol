@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Authenticators
+/// @notice Registry of trusted authenticators (brands, grading houses) and their attestations
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, like RelicChainAuctions.
+///      The admin adds and removes authenticators; each authenticator attests collectibles
+///      with an encrypted payload, e.g. a certificate number or grade, and may revoke its
+///      attestations. Attestations of a removed authenticator no longer count as verified
+contract RelicChainAuthenticators is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](10);
+        selectors[0] = this.addAuthenticator.selector;
+        selectors[1] = this.removeAuthenticator.selector;
+        selectors[2] = this.attest.selector;
+        selectors[3] = this.revokeAttestation.selector;
+        selectors[4] = this.claimAttestationAccess.selector;
+        selectors[5] = this.getAuthenticator.selector;
+        selectors[6] = this.getAuthenticators.selector;
+        selectors[7] = this.getAttestation.selector;
+        selectors[8] = this.getTokenAttestations.selector;
+        selectors[9] = this.getVerifiedBy.selector;
+    }
+
+    /// @notice Add a trusted authenticator, or re-activate a removed one
+    /// @param account The authenticator's signing account
+    /// @param name The public display name shown on verified collectibles
+    function addAuthenticator(address account, string calldata name) external {
+        require(msg.sender == admin, "Only admin");
+        require(account != address(0), "Invalid authenticator");
+        require(bytes(name).length > 0, "Name required");
+
+        Authenticator storage authenticator = authenticators[account];
+        require(!authenticator.active, "Already an authenticator");
+        if (authenticator.addedAt == 0) {
+            authenticatorList.push(account);
+        }
+        authenticator.name = name;
+        authenticator.active = true;
+        authenticator.addedAt = block.timestamp;
+
+        emit AuthenticatorAdded(account, name);
+    }
+
+    /// @notice Remove an authenticator; its attestations stop counting as verified
+    /// @param account The authenticator to remove
+    function removeAuthenticator(address account) external {
+        require(msg.sender == admin, "Only admin");
+        require(authenticators[account].active, "Not an authenticator");
+
+        authenticators[account].active = false;
+
+        emit AuthenticatorRemoved(account);
+    }
+
+    /// @notice Attest a collectible as genuine
+    /// @dev One active attestation per authenticator and token; revoke it to attest again
+    /// @param tokenId The ID of the collectible
+    /// @param payload External ciphertext of the attestation data, e.g. a certificate number
+    /// @param inputProof The input proof for the payload
+    /// @return attestationId The ID of the new attestation
+    function attest(
+        uint256 tokenId,
+        externalEuint256 payload,
+        bytes calldata inputProof
+    ) external returns (uint256) {
+        require(authenticators[msg.sender].active, "Only authenticators can attest");
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(activeAttestations[tokenId][msg.sender] == 0, "Already attested");
+
+        uint256 attestationId = nextAttestationId;
+        nextAttestationId++;
+
+        euint256 encryptedPayload = FHE.fromExternal(payload, inputProof);
+        FHE.allowThis(encryptedPayload);
+        FHE.allow(encryptedPayload, msg.sender);
+        FHE.allow(encryptedPayload, collectible.owner);
+
+        Attestation storage attestation = attestations[attestationId];
+        attestation.attestationId = attestationId;
+        attestation.tokenId = tokenId;
+        attestation.authenticator = msg.sender;
+        attestation.payload = encryptedPayload;
+        attestation.attestedAt = block.timestamp;
+        tokenAttestations[tokenId].push(attestationId);
+        activeAttestations[tokenId][msg.sender] = attestationId + 1;
+
+        emit CollectibleAttested(attestationId, tokenId, msg.sender);
+        return attestationId;
+    }
+
+    /// @notice Withdraw an attestation, e.g. after the item was found to be altered
+    /// @param attestationId The ID of the attestation
+    function revokeAttestation(uint256 attestationId) external {
+        Attestation storage attestation = attestations[attestationId];
+        require(attestation.authenticator == msg.sender, "Only the authenticator can revoke");
+        require(!attestation.revoked, "Attestation already revoked");
+
+        attestation.revoked = true;
+        delete activeAttestations[attestation.tokenId][msg.sender];
+
+        emit AttestationRevoked(attestationId, attestation.tokenId, msg.sender);
+    }
+
+    /// @notice Let the current owner decrypt an attestation's payload
+    /// @dev Payloads are only shared with the owner at attestation time, so a new owner
+    ///      calls this after a transfer. The payload describes the item, not the owner,
+    ///      so it is not rotated like the collectible metadata
+    /// @param attestationId The ID of the attestation
+    function claimAttestationAccess(uint256 attestationId) external {
+        Attestation storage attestation = attestations[attestationId];
+        require(attestation.authenticator != address(0), "Attestation does not exist");
+        require(collectibles[attestation.tokenId].owner == msg.sender, "Only owner can access attestation");
+
+        FHE.allow(attestation.payload, msg.sender);
+    }
+
+    /// @notice Get an authenticator's registry entry
+    /// @param account The authenticator's account
+    /// @return authenticator Name, active flag and time added
+    function getAuthenticator(address account) external view returns (Authenticator memory authenticator) {
+        return authenticators[account];
+    }
+
+    /// @notice Get every account ever added as an authenticator, including removed ones
+    /// @return accounts Authenticator accounts in the order they were first added
+    function getAuthenticators() external view returns (address[] memory accounts) {
+        return authenticatorList;
+    }
+
+    /// @notice Get an attestation
+    /// @param attestationId The ID of the attestation
+    /// @return attestation The attestation; `payload` is readable by the authenticator and owner
+    function getAttestation(uint256 attestationId) external view returns (Attestation memory attestation) {
+        attestation = attestations[attestationId];
+        require(attestation.authenticator != address(0), "Attestation does not exist");
+    }
+
+    /// @notice Get all attestations of a collectible, including revoked ones
+    /// @param tokenId The ID of the collectible
+    /// @return attestationIds Attestation IDs in the order they were made
+    function getTokenAttestations(uint256 tokenId) external view returns (uint256[] memory attestationIds) {
+        return tokenAttestations[tokenId];
+    }
+
+    /// @notice Get the authenticators currently vouching for a collectible
+    /// @dev Skips revoked attestations and removed authenticators
+    /// @param tokenId The ID of the collectible
+    /// @return accounts Active authenticators with an unrevoked attestation of the token
+    function getVerifiedBy(uint256 tokenId) external view returns (address[] memory accounts) {
+        return _verifiedBy(tokenId);
+    }
+}
@@ -0,0 +1,383 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {
+    FHE,
+    ebool,
+    euint64,
+    euint128,
+    euint256,
+    externalEuint64,
+    externalEuint128,
+    externalEuint256
+} from "@fhevm/solidity/lib/FHE.sol";
+import {CategoryRegistry} from "./CategoryRegistry.sol";
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Claims
+/// @notice Encrypted checks of a collectible's attributes that reveal only a yes/no answer
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, like RelicChainAuctions.
+///      Claim checks are open to anyone, rate-limited per caller. Threshold proofs reveal
+///      an order relation, which repeated queries could narrow down to the exact value,
+///      so the owner answers each one. Duplicate checks compare a collectible's unique
+///      fields with every collectible of its category already confirmed unique
+contract RelicChainClaims is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](12);
+        selectors[0] = this.verifyClaim.selector;
+        selectors[1] = this.requestThresholdProof.selector;
+        selectors[2] = this.answerThresholdProof.selector;
+        selectors[3] = this.declineThresholdProof.selector;
+        selectors[4] = this.onThresholdProofRevealed.selector;
+        selectors[5] = this.getThresholdProof.selector;
+        selectors[6] = this.getTokenThresholdProofs.selector;
+        selectors[7] = this.checkDuplicates.selector;
+        selectors[8] = this.onDuplicateCheckRevealed.selector;
+        selectors[9] = this.getDuplicateCheck.selector;
+        selectors[10] = this.resetStalledDuplicateCheck.selector;
+        selectors[11] = this.resetStalledThresholdProof.selector;
+    }
+
+    /// @notice Check an encrypted claim against a stored attribute, e.g. the serial number
+    ///         engraved on a watch, without revealing either value
+    /// @dev Only the caller may decrypt the result. Each caller gets one attempt per token
+    ///      every CLAIM_COOLDOWN, and a token takes at most MAX_CLAIMS_PER_WINDOW attempts per
+    ///      window from all callers together, so fresh accounts do not buy more guesses.
+    ///      Short fields like origin codes still fall to a patient guesser: the check is meant
+    ///      for high-entropy values such as serial numbers
+    /// @param tokenId The ID of the collectible
+    /// @param field The schema field index to compare against
+    /// @param claimed External ciphertext of the claimed value, encrypted at the field's width
+    /// @param inputProof The input proof for the claimed value
+    /// @return matches Encrypted true if the claim equals the stored value
+    function verifyClaim(
+        uint256 tokenId,
+        uint256 field,
+        bytes32 claimed,
+        bytes calldata inputProof
+    ) external returns (ebool matches) {
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(field < collectible.encryptedAttributes.length, "Invalid field");
+        require(block.timestamp >= lastClaimAt[tokenId][msg.sender] + CLAIM_COOLDOWN, "Claim cooldown active");
+        lastClaimAt[tokenId][msg.sender] = block.timestamp;
+        
+        ClaimWindow storage window = claimWindows[tokenId];
+        if (block.timestamp >= window.startedAt + CLAIM_COOLDOWN) {
+            window.startedAt = uint64(block.timestamp);
+            window.count = 0;
+        }
+        require(window.count < MAX_CLAIMS_PER_WINDOW, "Token claim limit reached");
+        window.count++;
+        
+        bytes32 stored = collectible.encryptedAttributes[field];
+        CategoryRegistry.AttributeType fieldType = categoryRegistry.getFieldTypes(collectible.categoryId)[field];
+        if (fieldType == CategoryRegistry.AttributeType.Uint64) {
+            matches = FHE.eq(euint64.wrap(stored), FHE.fromExternal(externalEuint64.wrap(claimed), inputProof));
+        } else if (fieldType == CategoryRegistry.AttributeType.Uint128) {
+            matches = FHE.eq(euint128.wrap(stored), FHE.fromExternal(externalEuint128.wrap(claimed), inputProof));
+        } else {
+            matches = FHE.eq(euint256.wrap(stored), FHE.fromExternal(externalEuint256.wrap(claimed), inputProof));
+        }
+        FHE.allowThis(matches);
+        FHE.allow(matches, msg.sender);
+        
+        emit ClaimVerified(tokenId, msg.sender, field, matches);
+    }
+
+    /// @notice Ask the owner to prove that a numeric attribute lies within a range,
+    ///         e.g. "the purchase price was at least 10,000"
+    /// @dev Use 0 or the field's maximum for an open bound
+    /// @param tokenId The ID of the collectible
+    /// @param field The schema field index; must be a Uint64 or Uint128 field
+    /// @param minValue Inclusive lower bound
+    /// @param maxValue Inclusive upper bound
+    /// @return proofId The ID of the new proof request
+    function requestThresholdProof(
+        uint256 tokenId,
+        uint256 field,
+        uint128 minValue,
+        uint128 maxValue
+    ) external returns (uint256) {
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(collectible.owner != msg.sender, "Owner cannot request a proof");
+        require(field < collectible.encryptedAttributes.length, "Invalid field");
+        require(minValue <= maxValue, "Invalid range");
+        
+        // euint256 has no ordering, so only the narrower numeric types can be compared
+        CategoryRegistry.AttributeType fieldType = categoryRegistry.getFieldTypes(collectible.categoryId)[field];
+        require(
+            fieldType == CategoryRegistry.AttributeType.Uint64 || fieldType == CategoryRegistry.AttributeType.Uint128,
+            "Field is not comparable"
+        );
+        require(
+            fieldType == CategoryRegistry.AttributeType.Uint128 || maxValue <= type(uint64).max,
+            "Bound exceeds field width"
+        );
+        
+        uint256 proofId = nextProofId;
+        nextProofId++;
+        
+        ThresholdProof storage proof = thresholdProofs[proofId];
+        proof.proofId = proofId;
+        proof.tokenId = tokenId;
+        proof.requester = msg.sender;
+        proof.field = field;
+        proof.minValue = minValue;
+        proof.maxValue = maxValue;
+        proof.status = ProofStatus.Requested;
+        tokenThresholdProofs[tokenId].push(proofId);
+        
+        emit ThresholdProofRequested(proofId, tokenId, msg.sender, field, minValue, maxValue);
+        return proofId;
+    }
+
+    /// @notice Evaluate a requested range proof against the encrypted attribute
+    /// @dev The requester can always decrypt the result. With `publish`, the owner also
+    ///      consents to the oracle revealing it to everyone
+    /// @param proofId The ID of the proof request
+    /// @param publish Whether to publicly decrypt the result
+    function answerThresholdProof(uint256 proofId, bool publish) external {
+        ThresholdProof storage proof = thresholdProofs[proofId];
+        Collectible storage collectible = collectibles[proof.tokenId];
+        require(proof.status == ProofStatus.Requested, "Proof is not requested");
+        require(collectible.owner == msg.sender, "Only owner can answer proof");
+        
+        bytes32 stored = collectible.encryptedAttributes[proof.field];
+        ebool result;
+        if (categoryRegistry.getFieldTypes(collectible.categoryId)[proof.field] == CategoryRegistry.AttributeType.Uint64) {
+            euint64 value = euint64.wrap(stored);
+            result = FHE.and(FHE.ge(value, uint64(proof.minValue)), FHE.le(value, uint64(proof.maxValue)));
+        } else {
+            euint128 value = euint128.wrap(stored);
+            result = FHE.and(FHE.ge(value, proof.minValue), FHE.le(value, proof.maxValue));
+        }
+        FHE.allowThis(result);
+        FHE.allow(result, proof.requester);
+        proof.result = result;
+        proof.status = ProofStatus.Answered;
+        
+        if (publish) {
+            bytes32[] memory handles = new bytes32[](1);
+            handles[0] = FHE.toBytes32(result);
+            uint256 requestId = FHE.requestDecryption(handles, this.onThresholdProofRevealed.selector);
+            proof.status = ProofStatus.Publishing;
+            proofRevealRequests[requestId] = proofId;
+            proofPublishRequests[proofId] = requestId;
+            oracleRequestedAt[requestId] = block.timestamp;
+        }
+        
+        emit ThresholdProofAnswered(proofId, proof.tokenId, proof.requester, publish);
+    }
+
+    /// @notice Refuse a range proof request
+    /// @param proofId The ID of the proof request
+    function declineThresholdProof(uint256 proofId) external {
+        ThresholdProof storage proof = thresholdProofs[proofId];
+        require(proof.status == ProofStatus.Requested, "Proof is not requested");
+        require(collectibles[proof.tokenId].owner == msg.sender, "Only owner can decline proof");
+        
+        proof.status = ProofStatus.Declined;
+        
+        emit ThresholdProofDeclined(proofId, proof.tokenId);
+    }
+
+    /// @notice Decryption oracle callback that publishes a range proof result
+    /// @param requestId The oracle request ID
+    /// @param cleartexts ABI-encoded result
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onThresholdProofRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint256 proofId = proofRevealRequests[requestId];
+        ThresholdProof storage proof = thresholdProofs[proofId];
+        require(
+            proof.status == ProofStatus.Publishing && proofPublishRequests[proofId] == requestId,
+            "Proof is not publishing"
+        );
+        delete proofRevealRequests[requestId];
+        delete proofPublishRequests[proofId];
+        
+        proof.holds = abi.decode(cleartexts, (bool));
+        proof.status = ProofStatus.Published;
+        
+        emit ThresholdProofPublished(proofId, proof.tokenId, proof.holds);
+    }
+
+    /// @notice Withdraw the publication of a range proof the oracle has not revealed
+    /// @dev Callable by anyone once ORACLE_TIMEOUT has passed since publishing was requested.
+    ///      The proof returns to Answered, so the requester keeps their private result, and a
+    ///      late oracle answer is rejected
+    /// @param proofId The ID of the proof request
+    function resetStalledThresholdProof(uint256 proofId) external {
+        ThresholdProof storage proof = thresholdProofs[proofId];
+        require(proof.status == ProofStatus.Publishing, "Proof is not publishing");
+        uint256 requestId = proofPublishRequests[proofId];
+        require(_isOracleTimedOut(requestId), "Proof has not timed out");
+        
+        delete proofRevealRequests[requestId];
+        delete proofPublishRequests[proofId];
+        proof.status = ProofStatus.Answered;
+        
+        emit ThresholdProofReset(proofId, proof.tokenId);
+    }
+
+    /// @notice Get range proof details
+    /// @param proofId The ID of the proof request
+    /// @return proof The proof details
+    function getThresholdProof(uint256 proofId) external view returns (ThresholdProof memory proof) {
+        return thresholdProofs[proofId];
+    }
+
+    /// @notice Get all range proofs requested for a token
+    /// @param tokenId The ID of the collectible
+    /// @return proofIds Array of proof IDs
+    function getTokenThresholdProofs(uint256 tokenId) external view returns (uint256[] memory proofIds) {
+        return tokenThresholdProofs[tokenId];
+    }
+
+    /// @notice Compare a collectible's unique fields (e.g. serial and certificate numbers) with
+    ///         every collectible of its category already confirmed unique
+    /// @dev Anyone can run or continue a check. Each call compares at most MAX_DUPLICATE_BATCH
+    ///      collectibles, so gas stays bounded as a category grows; once all are compared, the
+    ///      encrypted result is revealed by the oracle. Only one collectible per category is
+    ///      checked at a time, so two copies cannot both pass against the same registry
+    /// @param tokenId The ID of the collectible
+    function checkDuplicates(uint256 tokenId) external {
+        Collectible storage collectible = collectibles[tokenId];
+        DuplicateCheck storage check = duplicateChecks[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(
+            check.status == DuplicateStatus.Unchecked ||
+                (check.status == DuplicateStatus.Checking && check.decryptionRequestId == 0),
+            "Duplicate check not runnable"
+        );
+        
+        uint256 categoryId = collectible.categoryId;
+        uint256 lock = categoryCheckLocks[categoryId];
+        require(lock == 0 || lock == tokenId + 1, "Category check in progress");
+        
+        uint256[] memory uniqueFields = categoryRegistry.getUniqueFields(categoryId);
+        require(uniqueFields.length > 0, "Category has no unique fields");
+        
+        if (check.status == DuplicateStatus.Unchecked) {
+            categoryCheckLocks[categoryId] = tokenId + 1;
+            check.status = DuplicateStatus.Checking;
+            check.found = FHE.asEbool(false);
+        }
+        
+        CategoryRegistry.AttributeType[] memory fieldTypes = categoryRegistry.getFieldTypes(categoryId);
+        uint256[] storage registered = uniqueCollectibles[categoryId];
+        uint256 end = check.checkedCount + MAX_DUPLICATE_BATCH;
+        if (end > registered.length) {
+            end = registered.length;
+        }
+        
+        ebool found = check.found;
+        for (uint256 i = check.checkedCount; i < end; i++) {
+            bytes32[] storage other = collectibles[registered[i]].encryptedAttributes;
+            for (uint256 j = 0; j < uniqueFields.length; j++) {
+                uint256 field = uniqueFields[j];
+                found = FHE.or(
+                    found,
+                    _attributesEqual(collectible.encryptedAttributes[field], other[field], fieldTypes[field])
+                );
+            }
+        }
+        FHE.allowThis(found);
+        check.found = found;
+        check.checkedCount = end;
+        
+        if (end < registered.length) {
+            emit DuplicateCheckProgress(tokenId, end, registered.length);
+            return;
+        }
+        
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(found);
+        uint256 requestId = FHE.requestDecryption(handles, this.onDuplicateCheckRevealed.selector);
+        check.decryptionRequestId = requestId;
+        duplicateRevealRequests[requestId] = tokenId;
+        oracleRequestedAt[requestId] = block.timestamp;
+        
+        emit DuplicateCheckRequested(tokenId, requestId);
+    }
+
+    /// @notice Decryption oracle callback that records a duplicate check result
+    /// @dev Unique collectibles join their category's registry; duplicates are flagged
+    /// @param requestId The oracle request ID
+    /// @param cleartexts ABI-encoded result, true if any unique field matched
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onDuplicateCheckRevealed(uint256 requestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+        
+        uint256 tokenId = duplicateRevealRequests[requestId];
+        DuplicateCheck storage check = duplicateChecks[tokenId];
+        require(
+            check.status == DuplicateStatus.Checking && check.decryptionRequestId == requestId,
+            "Duplicate check is not revealing"
+        );
+        delete duplicateRevealRequests[requestId];
+        
+        uint256 categoryId = collectibles[tokenId].categoryId;
+        bool isDuplicate = abi.decode(cleartexts, (bool));
+        if (isDuplicate) {
+            check.status = DuplicateStatus.Duplicate;
+        } else {
+            check.status = DuplicateStatus.Unique;
+            uniqueCollectibles[categoryId].push(tokenId);
+        }
+        delete categoryCheckLocks[categoryId];
+        
+        emit DuplicateCheckCompleted(tokenId, categoryId, isDuplicate);
+    }
+
+    /// @notice Reset a duplicate check whose result the oracle has not revealed
+    /// @dev Callable by anyone once ORACLE_TIMEOUT has passed since the reveal was requested.
+    ///      The check returns to Unchecked, so it can be run again, the category lock is
+    ///      released and a late oracle answer is rejected
+    /// @param tokenId The ID of the collectible
+    function resetStalledDuplicateCheck(uint256 tokenId) external {
+        DuplicateCheck storage check = duplicateChecks[tokenId];
+        require(
+            check.status == DuplicateStatus.Checking && check.decryptionRequestId != 0,
+            "Duplicate check is not revealing"
+        );
+        require(_isOracleTimedOut(check.decryptionRequestId), "Duplicate check has not timed out");
+        
+        uint256 categoryId = collectibles[tokenId].categoryId;
+        delete duplicateRevealRequests[check.decryptionRequestId];
+        delete duplicateChecks[tokenId];
+        delete categoryCheckLocks[categoryId];
+        
+        emit DuplicateCheckReset(tokenId, categoryId);
+    }
+
+    /// @notice Get the duplicate check state of a collectible
+    /// @param tokenId The ID of the collectible
+    /// @return check The status and progress of the check
+    function getDuplicateCheck(uint256 tokenId) external view returns (DuplicateCheck memory check) {
+        return duplicateChecks[tokenId];
+    }
+
+    /// @notice Compare two encrypted attributes of the same schema field
+    /// @param a The first attribute handle
+    /// @param b The second attribute handle
+    /// @param fieldType The encrypted type declared by the category schema
+    /// @return equal Encrypted true if both hold the same value
+    function _attributesEqual(
+        bytes32 a,
+        bytes32 b,
+        CategoryRegistry.AttributeType fieldType
+    ) internal returns (ebool) {
+        if (fieldType == CategoryRegistry.AttributeType.Uint64) {
+            return FHE.eq(euint64.wrap(a), euint64.wrap(b));
+        }
+        if (fieldType == CategoryRegistry.AttributeType.Uint128) {
+            return FHE.eq(euint128.wrap(a), euint128.wrap(b));
+        }
+        return FHE.eq(euint256.wrap(a), euint256.wrap(b));
+    }
+}
@@ -0,0 +1,104 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {CategoryRegistry} from "./CategoryRegistry.sol";
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Sharing
+/// @notice Time-limited viewer grants over selected encrypted attributes
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, like RelicChainAuctions.
+///      Grants end on transfer; the clean-up runs in the base's _update hook
+contract RelicChainSharing is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](4);
+        selectors[0] = this.grantViewer.selector;
+        selectors[1] = this.revokeViewer.selector;
+        selectors[2] = this.getViewerGrants.selector;
+        selectors[3] = this.getSharedMetadata.selector;
+    }
+
+    /// @notice Let a third party (e.g. an insurer or appraiser) decrypt selected attributes until an expiry
+    /// @dev The viewer gets its own fresh handles, so revoking, expiry or a transfer ends access
+    ///      to everything but that snapshot. Granting again replaces the previous grant
+    /// @param tokenId The ID of the collectible
+    /// @param viewer The account allowed to decrypt
+    /// @param fieldMask Bit i grants schema field i
+    /// @param expiresAt Timestamp after which the handles are no longer served
+    function grantViewer(uint256 tokenId, address viewer, uint256 fieldMask, uint256 expiresAt) external {
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(collectible.owner == msg.sender, "Only owner can grant access");
+        require(viewer != address(0) && viewer != msg.sender, "Invalid viewer");
+        require(expiresAt > block.timestamp, "Expiry must be in the future");
+        
+        bytes32[] storage attributes = collectible.encryptedAttributes;
+        require(fieldMask > 0 && fieldMask >> attributes.length == 0, "Invalid field mask");
+        
+        ViewerGrant[] storage grants = viewerGrants[tokenId];
+        uint256 index = _findViewer(tokenId, viewer);
+        if (index == grants.length) {
+            require(grants.length < MAX_VIEWERS, "Too many viewers");
+            grants.push();
+        }
+        grants[index] = ViewerGrant({viewer: viewer, fieldMask: fieldMask, expiresAt: expiresAt});
+        
+        CategoryRegistry.AttributeType[] memory fieldTypes = categoryRegistry.getFieldTypes(collectible.categoryId);
+        bytes32[] memory handles = new bytes32[](attributes.length);
+        for (uint256 i = 0; i < handles.length; i++) {
+            if (fieldMask & (1 << i) != 0) {
+                handles[i] = _reencryptAttribute(attributes[i], fieldTypes[i], viewer);
+            }
+        }
+        viewerHandles[tokenId][viewer] = handles;
+        
+        emit ViewerGranted(tokenId, viewer, fieldMask, expiresAt);
+    }
+
+    /// @notice Revoke a viewer grant
+    /// @param tokenId The ID of the collectible
+    /// @param viewer The account to revoke
+    function revokeViewer(uint256 tokenId, address viewer) external {
+        require(collectibles[tokenId].owner == msg.sender, "Only owner can revoke access");
+        uint256 index = _findViewer(tokenId, viewer);
+        require(index < viewerGrants[tokenId].length, "Viewer not granted");
+        
+        _revokeViewer(tokenId, index);
+    }
+
+    /// @notice Get all viewer grants made by the current owner, including expired ones
+    /// @param tokenId The ID of the collectible
+    /// @return grants The viewer, field mask and expiry of each grant
+    function getViewerGrants(uint256 tokenId) external view returns (ViewerGrant[] memory) {
+        return viewerGrants[tokenId];
+    }
+
+    /// @notice Get the handles shared with a viewer
+    /// @param tokenId The ID of the collectible
+    /// @param viewer The account the attributes were shared with
+    /// @return categoryId The category whose schema describes the attributes
+    /// @return encryptedAttributes Handles in schema field order; zero for fields not granted
+    function getSharedMetadata(uint256 tokenId, address viewer)
+        external
+        view
+        returns (uint256 categoryId, bytes32[] memory encryptedAttributes)
+    {
+        uint256 index = _findViewer(tokenId, viewer);
+        require(
+            index < viewerGrants[tokenId].length && viewerGrants[tokenId][index].expiresAt > block.timestamp,
+            "No active grant"
+        );
+        return (collectibles[tokenId].categoryId, viewerHandles[tokenId][viewer]);
+    }
+
+    /// @notice Find a viewer's grant
+    /// @param tokenId The ID of the collectible
+    /// @param viewer The account to look up
+    /// @return index The position in viewerGrants[tokenId], or its length if not granted
+    function _findViewer(uint256 tokenId, address viewer) internal view returns (uint256 index) {
+        ViewerGrant[] storage grants = viewerGrants[tokenId];
+        while (index < grants.length && grants[index].viewer != viewer) {
+            index++;
+        }
+    }
+}
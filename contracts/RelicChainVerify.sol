@@ -1,170 +1,143 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32} from "@fhevm/solidity/lib/FHE.sol";
-import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {
+    FHE,
+    euint64,
+    euint128,
+    euint256,
+    externalEuint64,
+    externalEuint128,
+    externalEuint256
+} from "@fhevm/solidity/lib/FHE.sol";
+import {Proxy} from "@openzeppelin/contracts/proxy/Proxy.sol";
+import {Base64} from "@openzeppelin/contracts/utils/Base64.sol";
+import {Strings} from "@openzeppelin/contracts/utils/Strings.sol";
+import {CategoryRegistry} from "./CategoryRegistry.sol";
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
 
 /// @title Relic Chain Verify
 /// @notice A contract for listing and trading collectibles with FHE-encrypted metadata
-/// @dev Metadata is encrypted on-chain and only decryptable by the current owner
-contract RelicChainVerify is SepoliaConfig {
-    struct Collectible {
-        uint256 tokenId;
-        address owner;
-        string name;
-        string imageUri;
-        euint32 encryptedPurchasePrice;    // Encrypted purchase price
-        euint32 encryptedCertificateNumber; // Encrypted certificate number
-        euint32 encryptedSerialNumber;      // Encrypted serial number
-        euint32 encryptedOriginCode;        // Encrypted origin code (encoded)
-        uint256 listedAt;
-        bool exists;
-    }
-
-    struct TransferRecord {
-        address from;
-        address to;
-        uint256 timestamp;
-        bytes32 txHash;
-    }
-
-    struct PurchaseRequest {
-        uint256 requestId;
-        uint256 tokenId;
-        address buyer;
-        uint256 offerAmount;
-        bool isPending;
-        bool isApproved;
-        uint256 timestamp;
+/// @dev Each collectible is an ERC-721 token. Metadata is encrypted on-chain and only
+///      decryptable by the current owner; every transfer path goes through `_update`,
+///      which rotates the ciphertext handles so former owners lose access.
+///      The encrypted attributes of a collectible are described by its category schema
+///      in the `CategoryRegistry`. Sealed-bid auctions (`RelicChainAuctions`), claim checks
+///      (`RelicChainClaims`), authenticator attestations (`RelicChainAuthenticators`), viewer
+///      grants (`RelicChainSharing`), roles, fees and the pause (`RelicChainAdmin`) and
+///      paginated views (`RelicChainViews`) live in modules to keep this contract under the
+///      code size limit; calls not implemented here are delegated to the module registered
+///      for the selector, so modules share this contract's address, storage and ledger
+contract RelicChainVerify is RelicChainVerifyBase, Proxy {
+    constructor(CategoryRegistry categoryRegistry_, IRelicChainModule[] memory modules) {
+        require(address(categoryRegistry_) != address(0), "Invalid registry");
+        categoryRegistry = categoryRegistry_;
+        admin = msg.sender;
+        
+        for (uint256 i = 0; i < modules.length; i++) {
+            require(address(modules[i]).code.length > 0, "Invalid module");
+            bytes4[] memory selectors = modules[i].moduleSelectors();
+            for (uint256 j = 0; j < selectors.length; j++) {
+                require(moduleOf[selectors[j]] == address(0), "Duplicate module selector");
+                moduleOf[selectors[j]] = address(modules[i]);
+            }
+        }
     }
 
-    mapping(uint256 => Collectible) public collectibles;
-    mapping(uint256 => TransferRecord[]) public provenance;
-    mapping(address => uint256[]) public ownerCollectibles;
-    mapping(uint256 => PurchaseRequest) public purchaseRequests; // requestId => PurchaseRequest
-    mapping(uint256 => uint256[]) public tokenPurchaseRequests; // tokenId => requestId[]
-    mapping(address => uint256[]) public buyerRequests; // buyer => requestId[]
-    mapping(address => uint256[]) public ownerPendingRequests; // owner => requestId[]
-    
-    uint256 public nextTokenId;
-    uint256 public nextRequestId;
-    
-    event CollectibleListed(
-        uint256 indexed tokenId,
-        address indexed owner,
-        string name,
-        uint256 timestamp
-    );
-    
-    event PurchaseRequested(
-        uint256 indexed requestId,
-        uint256 indexed tokenId,
-        address indexed buyer,
-        uint256 offerAmount,
-        address owner
-    );
-    
-    event PurchaseApproved(
-        uint256 indexed requestId,
-        uint256 indexed tokenId,
-        address indexed buyer,
-        address seller,
-        uint256 price
-    );
-    
-    event PurchaseRejected(
-        uint256 indexed requestId,
-        uint256 indexed tokenId,
-        address indexed buyer
-    );
-    
-    event CollectiblePurchased(
-        uint256 indexed tokenId,
-        address indexed from,
-        address indexed to,
-        uint256 price,
-        uint256 timestamp
-    );
-
     /// @notice List a new collectible with encrypted metadata
     /// @param name The public name of the collectible
     /// @param imageUri The URI of the collectible image
-    /// @param encryptedPrice Encrypted purchase price
-    /// @param encryptedCert Encrypted certificate number
-    /// @param encryptedSerial Encrypted serial number
-    /// @param encryptedOrigin Encrypted origin code
+    /// @param categoryId The category whose schema describes the attributes
+    /// @param encryptedAttributes External ciphertext handles in schema field order
     /// @param inputProof The input proof for all encrypted values
+    /// @param royaltyBps Royalty paid to the caller on every resale, in basis points
     /// @return tokenId The ID of the newly listed collectible
     function listCollectible(
         string memory name,
         string memory imageUri,
-        externalEuint32 encryptedPrice,
-        externalEuint32 encryptedCert,
-        externalEuint32 encryptedSerial,
-        externalEuint32 encryptedOrigin,
-        bytes calldata inputProof
+        uint256 categoryId,
+        bytes32[] calldata encryptedAttributes,
+        bytes calldata inputProof,
+        uint96 royaltyBps
     ) external returns (uint256) {
+        _requireNotPaused();
         require(bytes(name).length > 0, "Name required");
         require(bytes(imageUri).length > 0, "Image URI required");
+        require(royaltyBps <= MAX_ROYALTY_BPS, "Royalty too high");
+        CategoryRegistry.AttributeType[] memory fieldTypes = categoryRegistry.getFieldTypes(categoryId);
+        require(encryptedAttributes.length == fieldTypes.length, "Attribute count mismatch");
         
         uint256 tokenId = nextTokenId;
         nextTokenId++;
         
-        // Convert external ciphertexts to internal encrypted types
-        euint32 price = FHE.fromExternal(encryptedPrice, inputProof);
-        euint32 cert = FHE.fromExternal(encryptedCert, inputProof);
-        euint32 serial = FHE.fromExternal(encryptedSerial, inputProof);
-        euint32 origin = FHE.fromExternal(encryptedOrigin, inputProof);
-        
-        // Configure ACL for all encrypted fields - allow owner and contract
-        FHE.allowThis(price);
-        FHE.allow(price, msg.sender);
-        FHE.allowThis(cert);
-        FHE.allow(cert, msg.sender);
-        FHE.allowThis(serial);
-        FHE.allow(serial, msg.sender);
-        FHE.allowThis(origin);
-        FHE.allow(origin, msg.sender);
+        // Convert external ciphertexts to internal encrypted types, readable by owner and contract
+        bytes32[] memory handles = new bytes32[](encryptedAttributes.length);
+        for (uint256 i = 0; i < encryptedAttributes.length; i++) {
+            handles[i] = _importAttribute(encryptedAttributes[i], fieldTypes[i], inputProof);
+        }
         
         collectibles[tokenId] = Collectible({
             tokenId: tokenId,
             owner: msg.sender,
             name: name,
             imageUri: imageUri,
-            encryptedPurchasePrice: price,
-            encryptedCertificateNumber: cert,
-            encryptedSerialNumber: serial,
-            encryptedOriginCode: origin,
+            categoryId: categoryId,
+            encryptedAttributes: handles,
             listedAt: block.timestamp,
             exists: true
         });
         
-        ownerCollectibles[msg.sender].push(tokenId);
+        _mint(msg.sender, tokenId);
+        if (royaltyBps > 0) {
+            _setTokenRoyalty(tokenId, msg.sender, royaltyBps);
+        }
         
         emit CollectibleListed(tokenId, msg.sender, name, block.timestamp);
         return tokenId;
     }
 
     /// @notice Request to purchase a collectible (buyer submits offer)
+    /// @dev The escrowed ETH is public and caps the offer; the offer itself stays encrypted
     /// @param tokenId The ID of the collectible to purchase
-    function requestPurchase(uint256 tokenId) external payable {
+    /// @param expiresAt Timestamp after which anyone can refund the offer (0 for no expiry)
+    /// @param encryptedOffer Encrypted offer amount in gwei
+    /// @param inputProof The input proof for the encrypted offer
+    function requestPurchase(
+        uint256 tokenId,
+        uint256 expiresAt,
+        externalEuint64 encryptedOffer,
+        bytes calldata inputProof
+    ) external payable {
+        _requireNotPaused();
         Collectible storage collectible = collectibles[tokenId];
         require(collectible.exists, "Collectible does not exist");
         require(collectible.owner != msg.sender, "Cannot purchase own collectible");
         require(msg.value > 0, "Offer amount must be greater than 0");
+        require(msg.value / 1 gwei <= type(uint64).max, "Offer amount too large");
+        require(expiresAt == 0 || expiresAt > block.timestamp, "Expiry must be in the future");
         
         uint256 requestId = nextRequestId;
         nextRequestId++;
         address owner = collectible.owner;
         
+        // Offers above the escrow are capped to it, so an approved offer is always covered
+        euint64 offer = FHE.fromExternal(encryptedOffer, inputProof);
+        euint64 cap = FHE.asEuint64(uint64(msg.value / 1 gwei));
+        offer = FHE.select(FHE.le(offer, cap), offer, cap);
+        FHE.allowThis(offer);
+        FHE.allow(offer, msg.sender);
+        FHE.allow(offer, owner);
+        
         purchaseRequests[requestId] = PurchaseRequest({
             requestId: requestId,
             tokenId: tokenId,
             buyer: msg.sender,
             offerAmount: msg.value,
+            encryptedOffer: offer,
             isPending: true,
             isApproved: false,
-            timestamp: block.timestamp
+            timestamp: block.timestamp,
+            expiresAt: expiresAt
         });
         
         tokenPurchaseRequests[tokenId].push(requestId);
@@ -175,88 +148,109 @@ contract RelicChainVerify is SepoliaConfig {
     }
 
     /// @notice Approve a purchase request (owner approves buyer's offer)
+    /// @dev Settlement completes in onOfferRevealed once the oracle decrypts the offer.
+    ///      The collectible is locked until then, or until the settlement is cancelled
+    ///      with cancelStalledSettlement after ORACLE_TIMEOUT
     /// @param requestId The ID of the purchase request
     function approvePurchase(uint256 requestId) external {
+        _requireNotPaused();
         PurchaseRequest storage request = purchaseRequests[requestId];
         require(request.requestId == requestId && request.timestamp > 0, "Request does not exist");
         require(request.isPending, "Request is not pending");
+        require(!_isExpired(request), "Request has expired");
         
-        Collectible storage collectible = collectibles[request.tokenId];
+        uint256 tokenId = request.tokenId;
+        Collectible storage collectible = collectibles[tokenId];
         require(collectible.owner == msg.sender, "Only owner can approve");
         require(collectible.exists, "Collectible does not exist");
-        
-        address buyer = request.buyer;
-        address previousOwner = collectible.owner;
-        uint256 offerAmount = request.offerAmount;
+        require(!_hasOpenAuction(tokenId), "Collectible is in auction");
+        require(!saleSettling[tokenId], "Sale is settling");
         
         // Mark request as approved
         request.isPending = false;
         request.isApproved = true;
-        
-        // Transfer payment to previous owner
-        (bool success, ) = previousOwner.call{value: offerAmount}("");
-        require(success, "Payment transfer failed");
-        
-        // Update ownership
-        collectible.owner = buyer;
-        
-        // Update ACL - grant new owner permissions
-        FHE.allow(collectible.encryptedPurchasePrice, buyer);
-        FHE.allow(collectible.encryptedCertificateNumber, buyer);
-        FHE.allow(collectible.encryptedSerialNumber, buyer);
-        FHE.allow(collectible.encryptedOriginCode, buyer);
-        
-        // Auto-reject all other pending requests for this token
-        // This ensures that when ownership changes, all other pending offers are automatically rejected
-        uint256[] storage tokenRequests = tokenPurchaseRequests[request.tokenId];
-        for (uint256 i = 0; i < tokenRequests.length; i++) {
-            uint256 otherRequestId = tokenRequests[i];
-            if (otherRequestId != requestId) {
-                PurchaseRequest storage otherRequest = purchaseRequests[otherRequestId];
-                if (otherRequest.isPending) {
-                    // Mark as rejected
-                    otherRequest.isPending = false;
-                    otherRequest.isApproved = false;
-                    
-                    // Refund the buyer
-                    address otherBuyer = otherRequest.buyer;
-                    uint256 otherAmount = otherRequest.offerAmount;
-                    (bool refundSuccess, ) = otherBuyer.call{value: otherAmount}("");
-                    require(refundSuccess, "Refund failed");
-                    
-                    // Remove from ownerPendingRequests
-                    _removeFromArray(ownerPendingRequests[previousOwner], otherRequestId);
-                    
-                    emit PurchaseRejected(otherRequestId, request.tokenId, otherBuyer);
-                }
-            }
-        }
+        saleSettling[tokenId] = true;
         
         // Remove approved request from ownerPendingRequests
-        _removeFromArray(ownerPendingRequests[previousOwner], requestId);
-        
-        // Update owner collectibles mapping
-        // Remove from old owner (simplified - in production, use proper array removal)
-        uint256[] storage oldOwnerList = ownerCollectibles[previousOwner];
-        for (uint256 i = 0; i < oldOwnerList.length; i++) {
-            if (oldOwnerList[i] == request.tokenId) {
-                oldOwnerList[i] = oldOwnerList[oldOwnerList.length - 1];
-                oldOwnerList.pop();
-                break;
-            }
+        _removeFromArray(ownerPendingRequests[msg.sender], requestId);
+        
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(request.encryptedOffer);
+        uint256 oracleRequestId = FHE.requestDecryption(handles, this.onOfferRevealed.selector);
+        offerSettlements[oracleRequestId] = OfferSettlement({requestId: requestId, active: true});
+        settlementRequests[requestId] = oracleRequestId;
+        oracleRequestedAt[oracleRequestId] = block.timestamp;
+        
+        emit PurchaseSettlementRequested(requestId, tokenId, oracleRequestId);
+    }
+
+    /// @notice Decryption oracle callback that settles an approved offer
+    /// @param oracleRequestId The oracle request ID
+    /// @param cleartexts ABI-encoded offer amount (gwei)
+    /// @param decryptionProof KMS signatures over the cleartexts
+    function onOfferRevealed(uint256 oracleRequestId, bytes memory cleartexts, bytes memory decryptionProof) external {
+        FHE.checkSignatures(oracleRequestId, cleartexts, decryptionProof);
+        
+        OfferSettlement storage settlement = offerSettlements[oracleRequestId];
+        require(settlement.active, "Unknown settlement");
+        settlement.active = false;
+        
+        PurchaseRequest storage request = purchaseRequests[settlement.requestId];
+        uint256 tokenId = request.tokenId;
+        address buyer = request.buyer;
+        address seller = collectibles[tokenId].owner;
+        uint256 price = uint256(abi.decode(cleartexts, (uint64))) * 1 gwei;
+        
+        saleSettling[tokenId] = false;
+        
+        // The buyer gets back whatever they escrowed above their offer
+        if (request.offerAmount > price) {
+            _creditWithdrawal(buyer, request.offerAmount - price);
         }
-        ownerCollectibles[buyer].push(request.tokenId);
         
-        // Record provenance
-        provenance[request.tokenId].push(TransferRecord({
-            from: previousOwner,
-            to: buyer,
-            timestamp: block.timestamp,
-            txHash: bytes32(0) // In production, use tx.origin or hash
-        }));
+        emit PurchaseApproved(settlement.requestId, tokenId, buyer, seller, price);
+        
+        _settleSale(tokenId, seller, buyer, price, TransferKind.Sale, settlement.requestId);
+    }
+
+    /// @notice Set a fixed asking price so buyers can purchase without owner approval
+    /// @param tokenId The ID of the collectible
+    /// @param price The asking price in wei
+    function setSalePrice(uint256 tokenId, uint256 price) external {
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(collectible.owner == msg.sender, "Only owner can set price");
+        require(price > 0, "Price must be greater than 0");
         
-        emit PurchaseApproved(requestId, request.tokenId, buyer, previousOwner, offerAmount);
-        emit CollectiblePurchased(request.tokenId, previousOwner, buyer, offerAmount, block.timestamp);
+        salePrices[tokenId] = price;
+        
+        emit SalePriceSet(tokenId, msg.sender, price);
+    }
+
+    /// @notice Remove a fixed-price listing
+    /// @param tokenId The ID of the collectible
+    function cancelSale(uint256 tokenId) external {
+        Collectible storage collectible = collectibles[tokenId];
+        require(collectible.owner == msg.sender, "Only owner can cancel sale");
+        require(salePrices[tokenId] > 0, "Collectible is not for sale");
+        
+        delete salePrices[tokenId];
+        
+        emit SaleCancelled(tokenId, msg.sender);
+    }
+
+    /// @notice Buy a collectible at its fixed asking price; settles atomically
+    /// @param tokenId The ID of the collectible to buy
+    function buyNow(uint256 tokenId) external payable {
+        _requireNotPaused();
+        Collectible storage collectible = collectibles[tokenId];
+        uint256 price = salePrices[tokenId];
+        require(collectible.exists, "Collectible does not exist");
+        require(price > 0, "Collectible is not for sale");
+        require(collectible.owner != msg.sender, "Cannot purchase own collectible");
+        require(msg.value == price, "Incorrect payment amount");
+        
+        _settleSale(tokenId, collectible.owner, msg.sender, price, TransferKind.BuyNow, 0);
     }
 
     /// @notice Reject a purchase request (owner rejects buyer's offer and refunds)
@@ -270,15 +264,13 @@ contract RelicChainVerify is SepoliaConfig {
         require(collectible.owner == msg.sender, "Only owner can reject");
         
         address buyer = request.buyer;
-        uint256 offerAmount = request.offerAmount;
         
         // Mark request as rejected
         request.isPending = false;
         request.isApproved = false;
         
-        // Refund the buyer
-        (bool success, ) = buyer.call{value: offerAmount}("");
-        require(success, "Refund failed");
+        // Credit the refund to the buyer
+        _creditWithdrawal(buyer, request.offerAmount);
         
         // Remove from ownerPendingRequests
         _removeFromArray(ownerPendingRequests[msg.sender], requestId);
@@ -286,30 +278,89 @@ contract RelicChainVerify is SepoliaConfig {
         emit PurchaseRejected(requestId, request.tokenId, buyer);
     }
 
-    /// @notice Internal function to complete purchase (only called after approval)
-    /// @dev This is kept for backward compatibility but should not be called directly
-    function _completePurchase(uint256 tokenId, address buyer, uint256 price) internal {
+    /// @notice Cancel a pending purchase request and refund the buyer
+    /// @dev The buyer can cancel at any time; anyone can cancel once the request has expired
+    /// @param requestId The ID of the purchase request
+    function cancelPurchaseRequest(uint256 requestId) external {
+        PurchaseRequest storage request = purchaseRequests[requestId];
+        require(request.requestId == requestId && request.timestamp > 0, "Request does not exist");
+        require(request.isPending, "Request is not pending");
+        require(request.buyer == msg.sender || _isExpired(request), "Only buyer can cancel before expiry");
+        
+        address buyer = request.buyer;
+        
+        // Mark request as cancelled
+        request.isPending = false;
+        request.isApproved = false;
+        
+        // Remove from the current owner's pending requests
+        _removeFromArray(ownerPendingRequests[collectibles[request.tokenId].owner], requestId);
+        
+        // Credit the refund to the buyer
+        _creditWithdrawal(buyer, request.offerAmount);
+        
+        emit PurchaseCancelled(requestId, request.tokenId, buyer, msg.sender);
+    }
+
+    /// @notice Cancel an approved offer whose settlement the oracle has not answered and refund the buyer
+    /// @dev The buyer or the owner can cancel once ORACLE_TIMEOUT has passed since the approval.
+    ///      This unlocks the collectible; a late oracle answer is rejected
+    /// @param requestId The ID of the approved purchase request
+    function cancelStalledSettlement(uint256 requestId) external {
+        PurchaseRequest storage request = purchaseRequests[requestId];
+        uint256 oracleRequestId = settlementRequests[requestId];
+        OfferSettlement storage settlement = offerSettlements[oracleRequestId];
+        require(
+            request.isApproved && settlement.active && settlement.requestId == requestId,
+            "Settlement is not pending"
+        );
+        uint256 tokenId = request.tokenId;
+        address buyer = request.buyer;
+        require(
+            msg.sender == buyer || msg.sender == collectibles[tokenId].owner,
+            "Only buyer or owner can cancel settlement"
+        );
+        require(_isOracleTimedOut(oracleRequestId), "Settlement has not timed out");
+        
+        settlement.active = false;
+        request.isApproved = false;
+        saleSettling[tokenId] = false;
+        
+        _creditWithdrawal(buyer, request.offerAmount);
+        
+        emit PurchaseCancelled(requestId, tokenId, buyer, msg.sender);
+    }
+
+    /// @notice Transfer a collectible without payment (gift, inheritance, cold wallet)
+    /// @dev Goes through the same _update hook as purchases, so pending offers are
+    ///      auto-rejected and the recipient is granted access to the encrypted metadata
+    /// @param tokenId The ID of the collectible to transfer
+    /// @param to The recipient address
+    function transferCollectible(uint256 tokenId, address to) external {
         Collectible storage collectible = collectibles[tokenId];
-        address previousOwner = collectible.owner;
+        require(collectible.exists, "Collectible does not exist");
+        require(collectible.owner == msg.sender, "Only owner can transfer");
+        require(to != address(0), "Invalid recipient");
+        require(to != msg.sender, "Cannot transfer to self");
         
-        collectible.owner = buyer;
+        transferContext.kind = TransferKind.Gift;
+        _transfer(msg.sender, to, tokenId);
         
-        FHE.allow(collectible.encryptedPurchasePrice, buyer);
-        FHE.allow(collectible.encryptedCertificateNumber, buyer);
-        FHE.allow(collectible.encryptedSerialNumber, buyer);
-        FHE.allow(collectible.encryptedOriginCode, buyer);
+        emit CollectibleTransferred(tokenId, msg.sender, to, block.timestamp);
+    }
+
+    /// @notice Withdraw all ETH credited to the caller (sale proceeds and refunds)
+    function withdraw() external {
+        uint256 amount = pendingWithdrawals[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
         
-        ownerCollectibles[previousOwner].pop();
-        ownerCollectibles[buyer].push(tokenId);
+        // Zero the balance before transferring to prevent reentrancy
+        pendingWithdrawals[msg.sender] = 0;
         
-        provenance[tokenId].push(TransferRecord({
-            from: previousOwner,
-            to: buyer,
-            timestamp: block.timestamp,
-            txHash: bytes32(0)
-        }));
+        (bool success, ) = msg.sender.call{value: amount}("");
+        require(success, "Withdrawal failed");
         
-        emit CollectiblePurchased(tokenId, previousOwner, buyer, price, block.timestamp);
+        emit Withdrawn(msg.sender, amount);
     }
 
     /// @notice Get collectible public information
@@ -342,31 +393,19 @@ contract RelicChainVerify is SepoliaConfig {
 
     /// @notice Get encrypted metadata (only decryptable by current owner)
     /// @param tokenId The ID of the collectible
-    /// @return encryptedPrice Encrypted purchase price
-    /// @return encryptedCert Encrypted certificate number
-    /// @return encryptedSerial Encrypted serial number
-    /// @return encryptedOrigin Encrypted origin code
+    /// @return categoryId The category whose schema describes the attributes
+    /// @return encryptedAttributes Encrypted attribute handles in schema field order
     function getEncryptedMetadata(uint256 tokenId)
         external
         view
-        returns (
-            euint32 encryptedPrice,
-            euint32 encryptedCert,
-            euint32 encryptedSerial,
-            euint32 encryptedOrigin
-        )
+        returns (uint256 categoryId, bytes32[] memory encryptedAttributes)
     {
-        Collectible memory collectible = collectibles[tokenId];
+        Collectible storage collectible = collectibles[tokenId];
         require(collectible.exists, "Collectible does not exist");
-        return (
-            collectible.encryptedPurchasePrice,
-            collectible.encryptedCertificateNumber,
-            collectible.encryptedSerialNumber,
-            collectible.encryptedOriginCode
-        );
+        return (collectible.categoryId, collectible.encryptedAttributes);
     }
 
-    /// @notice Get provenance history for a collectible
+    /// @notice Get provenance history for a collectible, starting with its mint
     /// @param tokenId The ID of the collectible
     /// @return records Array of transfer records
     function getProvenance(uint256 tokenId)
@@ -438,17 +477,55 @@ contract RelicChainVerify is SepoliaConfig {
         return buyerRequests[buyer];
     }
 
-    /// @notice Internal helper function to remove an element from an array
-    /// @param array The array to modify
-    /// @param value The value to remove
-    function _removeFromArray(uint256[] storage array, uint256 value) internal {
-        for (uint256 i = 0; i < array.length; i++) {
-            if (array[i] == value) {
-                array[i] = array[array.length - 1];
-                array.pop();
-                break;
-            }
+    /// @notice Get the token metadata URI built from the public name and image
+    /// @param tokenId The ID of the collectible
+    /// @return uri A base64-encoded JSON data URI
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        Collectible storage collectible = collectibles[tokenId];
+        
+        bytes memory json = abi.encodePacked(
+            '{"name":"',
+            Strings.escapeJSON(collectible.name),
+            '","description":"Collectible with FHE-encrypted metadata","image":"',
+            Strings.escapeJSON(collectible.imageUri),
+            '"}'
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(json));
+    }
+
+    /// @notice Verify an external attribute ciphertext and grant access to the contract and sender
+    /// @param input The external ciphertext handle
+    /// @param fieldType The encrypted type declared by the category schema
+    /// @param inputProof The input proof shared by all attributes of the listing
+    /// @return handle The stored handle
+    function _importAttribute(
+        bytes32 input,
+        CategoryRegistry.AttributeType fieldType,
+        bytes calldata inputProof
+    ) internal returns (bytes32 handle) {
+        if (fieldType == CategoryRegistry.AttributeType.Uint64) {
+            euint64 value = FHE.fromExternal(externalEuint64.wrap(input), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            return euint64.unwrap(value);
+        }
+        if (fieldType == CategoryRegistry.AttributeType.Uint128) {
+            euint128 value = FHE.fromExternal(externalEuint128.wrap(input), inputProof);
+            FHE.allowThis(value);
+            FHE.allow(value, msg.sender);
+            return euint128.unwrap(value);
         }
+        euint256 wide = FHE.fromExternal(externalEuint256.wrap(input), inputProof);
+        FHE.allowThis(wide);
+        FHE.allow(wide, msg.sender);
+        return euint256.unwrap(wide);
     }
-}
 
+    /// @notice Module that handles calls not implemented by this contract
+    /// @return module The module registered for the called selector
+    function _implementation() internal view override returns (address module) {
+        module = moduleOf[msg.sig];
+        require(module != address(0), "Unknown function");
+    }
+}
@@ -0,0 +1,766 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, ebool, euint64, euint128, euint256, eaddress} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC2981} from "@openzeppelin/contracts/token/common/ERC2981.sol";
+import {CategoryRegistry} from "./CategoryRegistry.sol";
+
+/// @title Relic Chain Module
+/// @notice Implemented by every module RelicChainVerify delegates to
+interface IRelicChainModule {
+    /// @notice The function selectors this module serves through RelicChainVerify
+    /// @return selectors One entry per external function, excluding this one
+    function moduleSelectors() external pure returns (bytes4[] memory selectors);
+}
+
+/// @title Relic Chain Verify Base
+/// @notice Storage, events and the shared transfer hook of the Relic Chain marketplace
+/// @dev RelicChainVerify delegates calls it does not implement to its modules, which run on
+///      its storage. Every contract in that set inherits this base and declares no state of
+///      its own, so the storage layouts always match
+abstract contract RelicChainVerifyBase is SepoliaConfig, ERC721, ERC2981 {
+    struct Collectible {
+        uint256 tokenId;
+        address owner;
+        string name;
+        string imageUri;
+        uint256 categoryId;
+        bytes32[] encryptedAttributes; // Handles in category schema field order
+        uint256 listedAt;
+        bool exists;
+    }
+
+    /// @notice How a collectible changed hands
+    enum TransferKind {
+        Transfer, // Plain ERC-721 transferFrom / safeTransferFrom
+        Mint,
+        Sale,     // Approved purchase request
+        BuyNow,
+        Auction,
+        Gift      // transferCollectible
+    }
+
+    struct TransferRecord {
+        address from;
+        address to;
+        uint256 timestamp;
+        uint256 blockNumber;     // Joins the record with the transaction's event logs
+        TransferKind kind;
+        uint256 price;           // Sale price in wei, 0 when no payment was made
+        uint256 requestId;       // Purchase request ID for Sale, auction ID for Auction, otherwise 0
+    }
+
+    /// @notice Context of the transfer in progress, set right before `_transfer` and
+    ///         consumed by `_update` when it records provenance
+    struct TransferContext {
+        TransferKind kind;
+        uint256 price;
+        uint256 requestId;
+    }
+
+    struct PurchaseRequest {
+        uint256 requestId;
+        uint256 tokenId;
+        address buyer;
+        uint256 offerAmount;     // Escrowed ETH, a public cap on the encrypted offer
+        euint64 encryptedOffer;  // Actual offer in gwei, decryptable by buyer and owner
+        bool isPending;
+        bool isApproved;
+        uint256 timestamp;
+        uint256 expiresAt; // 0 means the offer never expires
+    }
+
+    enum AuctionStatus {
+        None,
+        Active,
+        Revealing,
+        Settled,
+        Cancelled
+    }
+
+    struct Auction {
+        uint256 auctionId;
+        uint256 tokenId;
+        address seller;
+        uint256 endTime;
+        euint64 highestBid;      // Encrypted highest valid bid (in gwei)
+        eaddress highestBidder;  // Encrypted address of the highest bidder
+        uint256 bidCount;
+        uint256 decryptionRequestId;
+        AuctionStatus status;
+        address winner;          // Revealed after settlement
+        uint64 winningBid;       // Revealed after settlement (in gwei)
+    }
+
+    struct OfferSettlement {
+        uint256 requestId;
+        bool active;
+    }
+
+    enum ProofStatus {
+        None,
+        Requested,
+        Answered,
+        Publishing,
+        Published,
+        Declined
+    }
+
+    struct ThresholdProof {
+        uint256 proofId;
+        uint256 tokenId;
+        address requester;
+        uint256 field;           // Schema field index, must be Uint64 or Uint128
+        uint128 minValue;        // Inclusive bounds
+        uint128 maxValue;
+        ebool result;            // minValue <= value <= maxValue, readable by the requester
+        ProofStatus status;
+        bool holds;              // Revealed after publishing
+    }
+
+    enum DuplicateStatus {
+        Unchecked,
+        Checking,
+        Unique,
+        Duplicate
+    }
+
+    struct DuplicateCheck {
+        DuplicateStatus status;
+        uint256 checkedCount;         // Registered collectibles compared so far
+        ebool found;                  // Encrypted OR of all equality results
+        uint256 decryptionRequestId;  // Non-zero once every registered collectible was compared
+    }
+
+    /// @notice Operational roles the admin grants on top of its own
+    enum Role {
+        FeeManager, // Sets the marketplace fee and withdraws the treasury
+        Pauser      // Pauses and unpauses the marketplace
+    }
+
+    struct Authenticator {
+        string name;             // Public display name, e.g. a brand or grading house
+        bool active;             // Cleared when the admin removes the authenticator
+        uint256 addedAt;
+    }
+
+    struct Attestation {
+        uint256 attestationId;
+        uint256 tokenId;
+        address authenticator;
+        euint256 payload;        // Encrypted certificate data, readable by the authenticator and owner
+        uint256 attestedAt;
+        bool revoked;
+    }
+
+    /// @notice Public listing data of a collectible, as served by the paginated views
+    struct CollectibleSummary {
+        uint256 tokenId;
+        string name;
+        string imageUri;
+        address owner;
+        uint256 categoryId;
+        uint256 listedAt;
+        uint256 salePrice;       // Fixed asking price, 0 when not for sale
+    }
+
+    /// @notice Offer, sale and verification counters of a collectible, for searching and sorting
+    struct CollectibleStats {
+        uint256 tokenId;
+        uint256 offerCount;          // Every purchase request ever made
+        uint256 pendingOfferCount;   // Requests still open and not expired
+        uint256 lastSalePrice;       // Price of the latest paid transfer, 0 if never sold
+        uint256 lastSaleAt;
+        bool verified;               // Attested by at least one active authenticator
+        address[] verifiedBy;        // Active authenticators with an unrevoked attestation
+        bool inAuction;              // Latest auction is open or awaiting its reveal
+        uint256 auctionBidCount;     // Bids on that auction, 0 when not in auction
+        DuplicateStatus duplicateStatus;
+    }
+
+    struct ViewerGrant {
+        address viewer;
+        uint256 fieldMask; // Bit i grants schema field i
+        uint256 expiresAt;
+    }
+
+    struct ClaimWindow {
+        uint64 startedAt;
+        uint64 count; // verifyClaim calls on the token since startedAt, by any account
+    }
+
+    mapping(uint256 => Collectible) public collectibles;
+    mapping(uint256 => TransferRecord[]) public provenance;
+    TransferContext internal transferContext;
+    mapping(address => uint256[]) public ownerCollectibles;
+    mapping(uint256 => PurchaseRequest) public purchaseRequests; // requestId => PurchaseRequest
+    mapping(uint256 => uint256[]) public tokenPurchaseRequests; // tokenId => requestId[]
+    mapping(address => uint256[]) public buyerRequests; // buyer => requestId[]
+    mapping(address => uint256[]) public ownerPendingRequests; // owner => requestId[]
+    mapping(address => uint256) public pendingWithdrawals; // account => withdrawable ETH
+    mapping(uint256 => uint256) public salePrices; // tokenId => fixed asking price (0 = not for sale)
+    mapping(uint256 => Auction) public auctions; // auctionId => Auction
+    mapping(uint256 => uint256[]) public tokenAuctions; // tokenId => auctionId[]
+    mapping(uint256 => mapping(address => euint64)) internal auctionBids; // auctionId => bidder => encrypted bid
+    mapping(uint256 => mapping(address => uint256)) public bidDeposits; // auctionId => bidder => ETH deposit
+    mapping(uint256 => uint256) internal revealRequests; // oracle requestId => auctionId
+    mapping(uint256 => OfferSettlement) internal offerSettlements; // oracle requestId => approved offer
+    mapping(uint256 => bool) public saleSettling; // tokenId => approved offer awaiting the oracle
+    mapping(uint256 => uint256) internal settlementRequests; // requestId => oracle requestId settling it
+    mapping(uint256 => uint256) internal oracleRequestedAt; // oracle requestId => time the decryption was requested
+    mapping(uint256 => ViewerGrant[]) internal viewerGrants; // tokenId => grants made by the current owner
+    mapping(uint256 => mapping(address => bytes32[])) internal viewerHandles; // tokenId => viewer => granted handles
+    mapping(uint256 => mapping(address => uint256)) public lastClaimAt; // tokenId => verifier => last verifyClaim time
+    mapping(uint256 => ClaimWindow) internal claimWindows; // tokenId => current CLAIM_COOLDOWN window
+    mapping(bytes4 => address) public moduleOf; // selector => module serving it
+    mapping(uint256 => ThresholdProof) internal thresholdProofs; // proofId => ThresholdProof
+    mapping(uint256 => uint256[]) internal tokenThresholdProofs; // tokenId => proofId[]
+    mapping(uint256 => uint256) internal proofRevealRequests; // oracle requestId => proofId
+    mapping(uint256 => uint256) internal proofPublishRequests; // proofId => oracle requestId publishing it
+    mapping(uint256 => DuplicateCheck) internal duplicateChecks; // tokenId => DuplicateCheck
+    mapping(uint256 => uint256[]) internal uniqueCollectibles; // categoryId => tokenIds confirmed unique
+    mapping(uint256 => uint256) internal categoryCheckLocks; // categoryId => tokenId + 1 being checked (0 = none)
+    mapping(uint256 => uint256) internal duplicateRevealRequests; // oracle requestId => tokenId
+    mapping(address => Authenticator) internal authenticators; // account => Authenticator
+    address[] internal authenticatorList; // every account ever added, including removed ones
+    mapping(uint256 => Attestation) internal attestations; // attestationId => Attestation
+    mapping(uint256 => uint256[]) internal tokenAttestations; // tokenId => attestationId[]
+    mapping(uint256 => mapping(address => uint256)) internal activeAttestations; // tokenId => authenticator => attestationId + 1 (0 = none)
+    mapping(Role => mapping(address => bool)) internal roles; // role => account => granted
+    
+    uint256 public nextTokenId;
+    uint256 public nextRequestId;
+    uint256 public nextAuctionId;
+    uint256 public nextProofId;
+    uint256 public nextAttestationId;
+    
+    uint256 public constant MAX_AUCTION_DURATION = 30 days;
+    uint256 public constant MAX_VIEWERS = 16;
+    uint256 public constant CLAIM_COOLDOWN = 1 hours;
+    uint256 public constant MAX_CLAIMS_PER_WINDOW = 5; // Per token and CLAIM_COOLDOWN, across all accounts
+    uint256 public constant MAX_DUPLICATE_BATCH = 16;
+    uint96 public constant MAX_ROYALTY_BPS = 1000; // 10%
+    uint96 public constant MAX_MARKETPLACE_FEE_BPS = 1000; // 10%
+    uint256 public constant MAX_PAGE_SIZE = 100;
+    uint256 public constant ORACLE_TIMEOUT = 1 days; // After which an unanswered decryption can be abandoned
+
+    CategoryRegistry public categoryRegistry;
+    address public admin; // Grants roles and manages the authenticator registry
+    uint96 public marketplaceFeeBps; // Taken from every sale price into the treasury
+    uint256 public treasuryBalance; // Collected fees, withdrawable by fee managers
+    bool public paused;
+
+    constructor() ERC721("Relic Chain Verify", "RELIC") {}
+    
+    event CollectibleListed(
+        uint256 indexed tokenId,
+        address indexed owner,
+        string name,
+        uint256 timestamp
+    );
+    
+    event PurchaseRequested(
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        address indexed buyer,
+        uint256 offerAmount,
+        address owner
+    );
+    
+    event PurchaseApproved(
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        address indexed buyer,
+        address seller,
+        uint256 price
+    );
+    
+    event PurchaseSettlementRequested(
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        uint256 oracleRequestId
+    );
+    
+    event PurchaseRejected(
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        address indexed buyer
+    );
+    
+    event PurchaseCancelled(
+        uint256 indexed requestId,
+        uint256 indexed tokenId,
+        address indexed buyer,
+        address cancelledBy
+    );
+    
+    event SalePriceSet(
+        uint256 indexed tokenId,
+        address indexed seller,
+        uint256 price
+    );
+    
+    event SaleCancelled(
+        uint256 indexed tokenId,
+        address indexed seller
+    );
+    
+    event CollectibleTransferred(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to,
+        uint256 timestamp
+    );
+    
+    event WithdrawalCredited(
+        address indexed account,
+        uint256 amount
+    );
+    
+    event Withdrawn(
+        address indexed account,
+        uint256 amount
+    );
+    
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        uint256 indexed tokenId,
+        address indexed seller,
+        uint256 endTime
+    );
+    
+    event BidPlaced(
+        uint256 indexed auctionId,
+        address indexed bidder,
+        uint256 deposit
+    );
+    
+    event AuctionRevealRequested(
+        uint256 indexed auctionId,
+        uint256 requestId
+    );
+    
+    event AuctionSettled(
+        uint256 indexed auctionId,
+        uint256 indexed tokenId,
+        address indexed winner,
+        uint256 price
+    );
+    
+    event AuctionCancelled(
+        uint256 indexed auctionId,
+        uint256 indexed tokenId
+    );
+    
+    event ViewerGranted(
+        uint256 indexed tokenId,
+        address indexed viewer,
+        uint256 fieldMask,
+        uint256 expiresAt
+    );
+    
+    event ViewerRevoked(
+        uint256 indexed tokenId,
+        address indexed viewer
+    );
+    
+    event ClaimVerified(
+        uint256 indexed tokenId,
+        address indexed verifier,
+        uint256 field,
+        ebool result
+    );
+    
+    event ThresholdProofRequested(
+        uint256 indexed proofId,
+        uint256 indexed tokenId,
+        address indexed requester,
+        uint256 field,
+        uint128 minValue,
+        uint128 maxValue
+    );
+    
+    event ThresholdProofAnswered(
+        uint256 indexed proofId,
+        uint256 indexed tokenId,
+        address indexed requester,
+        bool publish
+    );
+    
+    event ThresholdProofDeclined(
+        uint256 indexed proofId,
+        uint256 indexed tokenId
+    );
+    
+    event ThresholdProofPublished(
+        uint256 indexed proofId,
+        uint256 indexed tokenId,
+        bool holds
+    );
+    
+    event ThresholdProofReset(
+        uint256 indexed proofId,
+        uint256 indexed tokenId
+    );
+    
+    event DuplicateCheckProgress(
+        uint256 indexed tokenId,
+        uint256 checkedCount,
+        uint256 total
+    );
+    
+    event DuplicateCheckRequested(
+        uint256 indexed tokenId,
+        uint256 requestId
+    );
+    
+    event DuplicateCheckCompleted(
+        uint256 indexed tokenId,
+        uint256 indexed categoryId,
+        bool isDuplicate
+    );
+    
+    event DuplicateCheckReset(
+        uint256 indexed tokenId,
+        uint256 indexed categoryId
+    );
+    
+    event AdminTransferred(
+        address indexed previousAdmin,
+        address indexed newAdmin
+    );
+    
+    event RoleGranted(
+        Role indexed role,
+        address indexed account
+    );
+    
+    event RoleRevoked(
+        Role indexed role,
+        address indexed account
+    );
+    
+    event MarketplaceFeeUpdated(
+        uint96 feeBps
+    );
+    
+    event MarketplaceFeeCollected(
+        uint256 indexed tokenId,
+        uint256 amount
+    );
+    
+    event TreasuryWithdrawn(
+        address indexed to,
+        uint256 amount
+    );
+    
+    event Paused(
+        address indexed account
+    );
+    
+    event Unpaused(
+        address indexed account
+    );
+    
+    event AuthenticatorAdded(
+        address indexed authenticator,
+        string name
+    );
+    
+    event AuthenticatorRemoved(
+        address indexed authenticator
+    );
+    
+    event CollectibleAttested(
+        uint256 indexed attestationId,
+        uint256 indexed tokenId,
+        address indexed authenticator
+    );
+    
+    event AttestationRevoked(
+        uint256 indexed attestationId,
+        uint256 indexed tokenId,
+        address indexed authenticator
+    );
+    
+    event RoyaltyPaid(
+        uint256 indexed tokenId,
+        address indexed receiver,
+        uint256 amount
+    );
+    
+    event CollectiblePurchased(
+        uint256 indexed tokenId,
+        address indexed from,
+        address indexed to,
+        uint256 price,
+        uint256 timestamp
+    );
+
+    /// @notice ERC-165 support for both ERC-721 and the EIP-2981 royalty standard
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+    
+    /// @notice Settle a paid sale shared by approvePurchase, buyNow and auctions
+    /// @dev Credits the seller, less the marketplace fee and the original lister's royalty, and transfers the token; remaining offers, ACL, bookkeeping
+    ///      and provenance are handled in _update
+    /// @param tokenId The ID of the collectible
+    /// @param seller The current owner receiving the payment
+    /// @param buyer The new owner
+    /// @param price The sale price held by the contract
+    /// @param kind Sale, BuyNow or Auction, recorded in the provenance
+    /// @param requestId The purchase request or auction ID, recorded in the provenance
+    function _settleSale(
+        uint256 tokenId,
+        address seller,
+        address buyer,
+        uint256 price,
+        TransferKind kind,
+        uint256 requestId
+    ) internal {
+        uint256 fee = (price * marketplaceFeeBps) / 10000;
+        if (fee > 0) {
+            treasuryBalance += fee;
+            emit MarketplaceFeeCollected(tokenId, fee);
+        }
+        // The original lister earns its EIP-2981 royalty on every resale, not on its own sale
+        (address receiver, uint256 royalty) = royaltyInfo(tokenId, price);
+        if (royalty > 0 && receiver != seller) {
+            _creditWithdrawal(receiver, royalty);
+            emit RoyaltyPaid(tokenId, receiver, royalty);
+        } else {
+            royalty = 0;
+        }
+        _creditWithdrawal(seller, price - fee - royalty);
+        transferContext = TransferContext(kind, price, requestId);
+        _transfer(seller, buyer, tokenId);
+        
+        emit CollectiblePurchased(tokenId, seller, buyer, price, block.timestamp);
+    }
+
+    /// @notice Shared hook for every mint and transfer path
+    /// @dev Keeps the collectible record in sync with ERC-721 ownership. On transfer it
+    ///      auto-rejects pending offers, re-encrypts the metadata for the recipient, moves
+    ///      the token between owner lists and records provenance
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = super._update(to, tokenId, auth);
+        
+        if (from == address(0)) {
+            // Mint - ACL is configured by listCollectible
+            ownerCollectibles[to].push(tokenId);
+            _recordProvenance(tokenId, from, to);
+            return from;
+        }
+        
+        // An open auction or approved offer locks the collectible until it settles
+        require(!_hasOpenAuction(tokenId), "Collectible is in auction");
+        require(!saleSettling[tokenId], "Sale is settling");
+        
+        Collectible storage collectible = collectibles[tokenId];
+        collectible.owner = to;
+        
+        // A fixed-price listing belongs to the previous owner and never carries over
+        delete salePrices[tokenId];
+        
+        // Auto-reject all pending requests for this token
+        // This ensures that when ownership changes, all pending offers are automatically rejected
+        _rejectPendingRequests(tokenId, from);
+        
+        // Update ACL - fresh handles readable only by the contract and the new owner
+        _reencryptMetadata(collectible, to);
+        
+        // Viewer grants were made by the previous owner
+        while (viewerGrants[tokenId].length > 0) {
+            _revokeViewer(tokenId, viewerGrants[tokenId].length - 1);
+        }
+        
+        // Update owner collectibles mapping
+        _removeFromArray(ownerCollectibles[from], tokenId);
+        ownerCollectibles[to].push(tokenId);
+        
+        _recordProvenance(tokenId, from, to);
+        
+        return from;
+    }
+
+    /// @notice Append a provenance record for a transfer, using and clearing the transfer context
+    /// @dev Transaction hashes are not available on-chain; clients find them by matching the
+    ///      record's block number with the `Transfer` event of the token
+    /// @param tokenId The ID of the collectible
+    /// @param from The previous owner, zero for a mint
+    /// @param to The new owner
+    function _recordProvenance(uint256 tokenId, address from, address to) internal {
+        TransferContext memory context = transferContext;
+        delete transferContext;
+        
+        provenance[tokenId].push(TransferRecord({
+            from: from,
+            to: to,
+            timestamp: block.timestamp,
+            blockNumber: block.number,
+            kind: from == address(0) ? TransferKind.Mint : context.kind,
+            price: context.price,
+            requestId: context.requestId
+        }));
+    }
+
+    /// @notice Reject every pending purchase request for a token and credit the refunds
+    /// @param tokenId The ID of the collectible
+    /// @param owner The owner the requests were made to
+    function _rejectPendingRequests(uint256 tokenId, address owner) internal {
+        uint256[] storage tokenRequests = tokenPurchaseRequests[tokenId];
+        for (uint256 i = 0; i < tokenRequests.length; i++) {
+            uint256 requestId = tokenRequests[i];
+            PurchaseRequest storage request = purchaseRequests[requestId];
+            if (request.isPending) {
+                // Mark as rejected
+                request.isPending = false;
+                request.isApproved = false;
+                
+                // Credit the refund to the buyer
+                _creditWithdrawal(request.buyer, request.offerAmount);
+                
+                // Remove from ownerPendingRequests
+                _removeFromArray(ownerPendingRequests[owner], requestId);
+                
+                emit PurchaseRejected(requestId, tokenId, request.buyer);
+            }
+        }
+    }
+
+    /// @notice Replace all encrypted attributes with fresh handles for a new owner
+    /// @dev The FHE ACL has no revoke, so the values are re-derived with `FHE.add(x, 0)`.
+    ///      Previous owners keep access to the old handles only, which are no longer served
+    /// @param collectible The collectible whose attributes are re-encrypted
+    /// @param newOwner The only account (besides this contract) allowed on the new handles
+    function _reencryptMetadata(Collectible storage collectible, address newOwner) internal {
+        CategoryRegistry.AttributeType[] memory fieldTypes = categoryRegistry.getFieldTypes(collectible.categoryId);
+        bytes32[] storage handles = collectible.encryptedAttributes;
+        for (uint256 i = 0; i < handles.length; i++) {
+            handles[i] = _reencryptAttribute(handles[i], fieldTypes[i], newOwner);
+        }
+    }
+
+    /// @notice Derive a fresh handle holding the same attribute value
+    /// @param handle The current attribute handle
+    /// @param fieldType The encrypted type declared by the category schema
+    /// @param account The only account (besides this contract) allowed on the new handle
+    /// @return fresh The new handle
+    function _reencryptAttribute(
+        bytes32 handle,
+        CategoryRegistry.AttributeType fieldType,
+        address account
+    ) internal returns (bytes32 fresh) {
+        if (fieldType == CategoryRegistry.AttributeType.Uint64) {
+            euint64 value = FHE.add(euint64.wrap(handle), 0);
+            FHE.allowThis(value);
+            FHE.allow(value, account);
+            return euint64.unwrap(value);
+        }
+        if (fieldType == CategoryRegistry.AttributeType.Uint128) {
+            euint128 value = FHE.add(euint128.wrap(handle), 0);
+            FHE.allowThis(value);
+            FHE.allow(value, account);
+            return euint128.unwrap(value);
+        }
+        // euint256 has no arithmetic; xor with zero is the identity
+        euint256 wide = FHE.xor(euint256.wrap(handle), 0);
+        FHE.allowThis(wide);
+        FHE.allow(wide, account);
+        return euint256.unwrap(wide);
+    }
+
+    /// @notice Remove a viewer grant and stop serving its handles
+    /// @param tokenId The ID of the collectible
+    /// @param index The position of the grant in viewerGrants[tokenId]
+    function _revokeViewer(uint256 tokenId, uint256 index) internal {
+        ViewerGrant[] storage grants = viewerGrants[tokenId];
+        address viewer = grants[index].viewer;
+        
+        grants[index] = grants[grants.length - 1];
+        grants.pop();
+        delete viewerHandles[tokenId][viewer];
+        
+        emit ViewerRevoked(tokenId, viewer);
+    }
+
+    function _creditWithdrawal(address account, uint256 amount) internal {
+        pendingWithdrawals[account] += amount;
+        emit WithdrawalCredited(account, amount);
+    }
+
+    /// @notice Revert while the marketplace is paused; refunds and withdrawals never call this
+    function _requireNotPaused() internal view {
+        require(!paused, "Marketplace is paused");
+    }
+
+    /// @notice Whether an attestation currently marks its collectible as verified
+    /// @param attestation The attestation to check
+    /// @return verifying True if unrevoked and made by an active authenticator
+    function _isVerifying(Attestation storage attestation) internal view returns (bool) {
+        return !attestation.revoked && authenticators[attestation.authenticator].active;
+    }
+
+    /// @notice List the authenticators currently vouching for a collectible
+    /// @param tokenId The ID of the collectible
+    /// @return accounts Active authenticators with an unrevoked attestation of the token
+    function _verifiedBy(uint256 tokenId) internal view returns (address[] memory accounts) {
+        uint256[] storage attestationIds = tokenAttestations[tokenId];
+        uint256 count = 0;
+        for (uint256 i = 0; i < attestationIds.length; i++) {
+            if (_isVerifying(attestations[attestationIds[i]])) {
+                count++;
+            }
+        }
+        accounts = new address[](count);
+        count = 0;
+        for (uint256 i = 0; i < attestationIds.length; i++) {
+            Attestation storage attestation = attestations[attestationIds[i]];
+            if (_isVerifying(attestation)) {
+                accounts[count++] = attestation.authenticator;
+            }
+        }
+    }
+
+    /// @notice Check whether a purchase request has passed its expiry timestamp
+    /// @param request The purchase request to check
+    /// @return expired True if the request has an expiry and it has passed
+    function _isExpired(PurchaseRequest storage request) internal view returns (bool) {
+        return request.expiresAt != 0 && block.timestamp >= request.expiresAt;
+    }
+
+    /// @notice Check whether the oracle has left a decryption request unanswered for too long
+    /// @param oracleRequestId The oracle request ID
+    /// @return timedOut True once ORACLE_TIMEOUT has passed since the request
+    function _isOracleTimedOut(uint256 oracleRequestId) internal view returns (bool) {
+        return block.timestamp >= oracleRequestedAt[oracleRequestId] + ORACLE_TIMEOUT;
+    }
+
+    /// @notice Check whether a collectible has an auction that is still open or revealing
+    /// @param tokenId The ID of the collectible
+    /// @return open True if the latest auction is not yet settled or cancelled
+    function _hasOpenAuction(uint256 tokenId) internal view returns (bool) {
+        uint256[] storage ids = tokenAuctions[tokenId];
+        if (ids.length == 0) {
+            return false;
+        }
+        AuctionStatus status = auctions[ids[ids.length - 1]].status;
+        return status == AuctionStatus.Active || status == AuctionStatus.Revealing;
+    }
+
+    /// @notice Internal helper function to remove an element from an array
+    /// @param array The array to modify
+    /// @param value The value to remove
+    function _removeFromArray(uint256[] storage array, uint256 value) internal {
+        for (uint256 i = 0; i < array.length; i++) {
+            if (array[i] == value) {
+                array[i] = array[array.length - 1];
+                array.pop();
+                break;
+            }
+        }
+    }
+}
@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IRelicChainModule, RelicChainVerifyBase} from "./RelicChainVerifyBase.sol";
+
+/// @title Relic Chain Views
+/// @notice Paginated and batched reads, so a client loads a page of collectibles or
+///         requests with one call instead of one call per item
+/// @dev Reached through RelicChainVerify's fallback with delegatecall, like RelicChainAuctions.
+///      Pages and batches hold at most MAX_PAGE_SIZE entries to stay within RPC gas limits
+contract RelicChainViews is RelicChainVerifyBase, IRelicChainModule {
+    /// @inheritdoc IRelicChainModule
+    function moduleSelectors() external pure returns (bytes4[] memory selectors) {
+        selectors = new bytes4[](5);
+        selectors[0] = this.getCollectiblesPage.selector;
+        selectors[1] = this.getOwnerCollectiblesPage.selector;
+        selectors[2] = this.getPurchaseRequestsBatch.selector;
+        selectors[3] = this.getCollectibleStatsPage.selector;
+        selectors[4] = this.getCollectibleStatsBatch.selector;
+    }
+
+    /// @notice Get a page of all collectibles in token ID order
+    /// @param offset The first token ID of the page
+    /// @param limit The maximum number of collectibles, at most MAX_PAGE_SIZE
+    /// @return page The collectibles from `offset`, shorter than `limit` on the last page
+    /// @return total The number of collectibles ever listed
+    function getCollectiblesPage(uint256 offset, uint256 limit)
+        external
+        view
+        returns (CollectibleSummary[] memory page, uint256 total)
+    {
+        require(limit <= MAX_PAGE_SIZE, "Page too large");
+        total = nextTokenId;
+        uint256 end = _pageEnd(offset, limit, total);
+        page = new CollectibleSummary[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _summary(i);
+        }
+    }
+
+    /// @notice Get a page of the collectibles an account currently owns
+    /// @param owner The account whose collectibles to list
+    /// @param offset The position in the owner's collectibles to start at
+    /// @param limit The maximum number of collectibles, at most MAX_PAGE_SIZE
+    /// @return page The owner's collectibles from `offset`; the order changes as tokens leave
+    /// @return total The number of collectibles the account owns
+    function getOwnerCollectiblesPage(address owner, uint256 offset, uint256 limit)
+        external
+        view
+        returns (CollectibleSummary[] memory page, uint256 total)
+    {
+        require(limit <= MAX_PAGE_SIZE, "Page too large");
+        uint256[] storage tokenIds = ownerCollectibles[owner];
+        total = tokenIds.length;
+        uint256 end = _pageEnd(offset, limit, total);
+        page = new CollectibleSummary[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _summary(tokenIds[i]);
+        }
+    }
+
+    /// @notice Get the offer, sale, verification, auction and duplicate check state of a page of collectibles
+    /// @dev Pages line up with getCollectiblesPage, so a client can load both side by side
+    /// @param offset The first token ID of the page
+    /// @param limit The maximum number of collectibles, at most MAX_PAGE_SIZE
+    /// @return page The stats from `offset`, shorter than `limit` on the last page
+    /// @return total The number of collectibles ever listed
+    function getCollectibleStatsPage(uint256 offset, uint256 limit)
+        external
+        view
+        returns (CollectibleStats[] memory page, uint256 total)
+    {
+        require(limit <= MAX_PAGE_SIZE, "Page too large");
+        total = nextTokenId;
+        uint256 end = _pageEnd(offset, limit, total);
+        page = new CollectibleStats[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = _stats(i);
+        }
+    }
+
+    /// @notice Get the stats of several collectibles at once, e.g. a page of an owner's collectibles
+    /// @param tokenIds The IDs of the collectibles, at most MAX_PAGE_SIZE
+    /// @return stats The stats in the order asked for
+    function getCollectibleStatsBatch(uint256[] calldata tokenIds)
+        external
+        view
+        returns (CollectibleStats[] memory stats)
+    {
+        require(tokenIds.length <= MAX_PAGE_SIZE, "Page too large");
+        stats = new CollectibleStats[](tokenIds.length);
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            stats[i] = _stats(tokenIds[i]);
+        }
+    }
+
+    /// @notice Get several purchase requests at once
+    /// @param requestIds The IDs of the requests, at most MAX_PAGE_SIZE
+    /// @return requests The requests in the order asked for; unknown IDs come back empty
+    function getPurchaseRequestsBatch(uint256[] calldata requestIds)
+        external
+        view
+        returns (PurchaseRequest[] memory requests)
+    {
+        require(requestIds.length <= MAX_PAGE_SIZE, "Page too large");
+        requests = new PurchaseRequest[](requestIds.length);
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            requests[i] = purchaseRequests[requestIds[i]];
+        }
+    }
+
+    /// @notice Build the public summary of a collectible
+    /// @param tokenId The ID of the collectible
+    /// @return summary Its listing data and current asking price
+    function _summary(uint256 tokenId) internal view returns (CollectibleSummary memory summary) {
+        Collectible storage collectible = collectibles[tokenId];
+        return CollectibleSummary({
+            tokenId: tokenId,
+            name: collectible.name,
+            imageUri: collectible.imageUri,
+            owner: collectible.owner,
+            categoryId: collectible.categoryId,
+            listedAt: collectible.listedAt,
+            salePrice: salePrices[tokenId]
+        });
+    }
+
+    /// @notice Count a collectible's offers and find its latest sale, verification, auction
+    ///         and duplicate check
+    /// @param tokenId The ID of the collectible
+    /// @return stats Its counters and flags
+    function _stats(uint256 tokenId) internal view returns (CollectibleStats memory stats) {
+        stats.tokenId = tokenId;
+
+        uint256[] storage requestIds = tokenPurchaseRequests[tokenId];
+        stats.offerCount = requestIds.length;
+        for (uint256 i = 0; i < requestIds.length; i++) {
+            PurchaseRequest storage request = purchaseRequests[requestIds[i]];
+            if (request.isPending && !_isExpired(request)) {
+                stats.pendingOfferCount++;
+            }
+        }
+
+        // Sales, buy-nows and auctions carry a price; listings and gifts do not
+        TransferRecord[] storage records = provenance[tokenId];
+        for (uint256 i = records.length; i > 0; i--) {
+            if (records[i - 1].price > 0) {
+                stats.lastSalePrice = records[i - 1].price;
+                stats.lastSaleAt = records[i - 1].timestamp;
+                break;
+            }
+        }
+
+        stats.verifiedBy = _verifiedBy(tokenId);
+        stats.verified = stats.verifiedBy.length > 0;
+
+        if (_hasOpenAuction(tokenId)) {
+            uint256[] storage auctionIds = tokenAuctions[tokenId];
+            stats.inAuction = true;
+            stats.auctionBidCount = auctions[auctionIds[auctionIds.length - 1]].bidCount;
+        }
+        stats.duplicateStatus = duplicateChecks[tokenId].status;
+    }
+
+    /// @notice Clamp the end of a page to the collection size
+    /// @param offset The start of the page
+    /// @param limit The requested page size
+    /// @param total The collection size
+    /// @return end One past the last index of the page, never below `offset`
+    function _pageEnd(uint256 offset, uint256 limit, uint256 total) internal pure returns (uint256 end) {
+        if (offset >= total) {
+            return offset;
+        }
+        end = offset + limit;
+        if (end > total) {
+            end = total;
+        }
+    }
+}
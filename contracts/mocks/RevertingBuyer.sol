@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {RelicChainVerify} from "../RelicChainVerify.sol";
+
+/// @title Reverting Buyer
+/// @notice Test helper that submits purchase offers but rejects every incoming ETH transfer
+/// @dev Used to check that one malicious buyer cannot block sales or refunds for others
+contract RevertingBuyer {
+    RelicChainVerify public immutable market;
+
+    constructor(RelicChainVerify market_) {
+        market = market_;
+    }
+
+    /// @notice Submit an offer on behalf of this contract
+    /// @param tokenId The ID of the collectible to purchase
+    /// @param encryptedOffer Encrypted offer in gwei, bound to this contract's address
+    /// @param inputProof The input proof for the encrypted offer
+    function requestPurchase(
+        uint256 tokenId,
+        externalEuint64 encryptedOffer,
+        bytes calldata inputProof
+    ) external payable {
+        market.requestPurchase{value: msg.value}(tokenId, 0, encryptedOffer, inputProof);
+    }
+
+    /// @notice Try to withdraw credited ETH, which always fails on receipt
+    function withdraw() external {
+        market.withdraw();
+    }
+
+    receive() external payable {
+        revert("RevertingBuyer: ETH rejected");
+    }
+}
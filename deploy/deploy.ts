@@ -1,19 +1,153 @@
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { vars } from "hardhat/config";
+
+// Mirrors CategoryRegistry.AttributeType
+const Uint64 = 0;
+const Uint128 = 1;
+const Uint256 = 2;
+const ShortString = 3;
+
+// Registered in order on first deployment; category 0 keeps the original watch fields.
+// Unique fields are compared across the category by the duplicate check
+const DEFAULT_CATEGORIES = [
+  {
+    name: "Watch",
+    fields: [
+      { name: "Purchase Price", fieldType: Uint64, unique: false },
+      { name: "Certificate ID", fieldType: ShortString, unique: true },
+      { name: "Serial Number", fieldType: Uint128, unique: true },
+      { name: "Origin", fieldType: ShortString, unique: false },
+    ],
+  },
+  {
+    name: "Trading Card",
+    fields: [
+      { name: "Purchase Price", fieldType: Uint64, unique: false },
+      { name: "Grading Cert", fieldType: ShortString, unique: true },
+      { name: "Grade", fieldType: Uint64, unique: false },
+      { name: "Print Run Number", fieldType: Uint64, unique: false },
+    ],
+  },
+  {
+    name: "Art",
+    fields: [
+      { name: "Purchase Price", fieldType: Uint64, unique: false },
+      { name: "Artist Signature ID", fieldType: ShortString, unique: false },
+      { name: "Appraisal Value", fieldType: Uint64, unique: false },
+      { name: "Provenance Hash", fieldType: Uint256, unique: true },
+    ],
+  },
+  {
+    name: "Wine",
+    fields: [
+      { name: "Purchase Price", fieldType: Uint64, unique: false },
+      { name: "Chateau", fieldType: ShortString, unique: false },
+      { name: "Vintage", fieldType: Uint64, unique: false },
+      { name: "Cask Number", fieldType: Uint128, unique: false },
+    ],
+  },
+];
+
+// Mirrors RelicChainVerifyBase.Role
+const FeeManager = 0;
+const Pauser = 1;
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
-  const { deploy } = hre.deployments;
+  const { deploy, execute, read } = hre.deployments;
+
+  const deployedCategoryRegistry = await deploy("CategoryRegistry", {
+    from: deployer,
+    log: true,
+  });
+
+  // Read results are BigNumber-like depending on the hardhat-deploy version
+  const totalCategories = await read("CategoryRegistry", "getTotalCategories");
+  if (totalCategories.toString() === "0") {
+    for (const category of DEFAULT_CATEGORIES) {
+      await execute("CategoryRegistry", { from: deployer, log: true }, "registerCategory", category.name, category.fields);
+    }
+  }
+
+  const deployedRelicChainAuctions = await deploy("RelicChainAuctions", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRelicChainClaims = await deploy("RelicChainClaims", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRelicChainAuthenticators = await deploy("RelicChainAuthenticators", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRelicChainSharing = await deploy("RelicChainSharing", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRelicChainAdmin = await deploy("RelicChainAdmin", {
+    from: deployer,
+    log: true,
+  });
+
+  const deployedRelicChainViews = await deploy("RelicChainViews", {
+    from: deployer,
+    log: true,
+  });
 
   const deployedRelicChainVerify = await deploy("RelicChainVerify", {
     from: deployer,
+    args: [
+      deployedCategoryRegistry.address,
+      [
+        deployedRelicChainAuctions.address,
+        deployedRelicChainClaims.address,
+        deployedRelicChainAuthenticators.address,
+        deployedRelicChainSharing.address,
+        deployedRelicChainAdmin.address,
+        deployedRelicChainViews.address,
+      ],
+    ],
     log: true,
   });
 
+  // The deployer becomes admin. The operational roles default to the deployer as well;
+  // set FEE_MANAGER and PAUSER with 'npx hardhat vars set' to hand them to other accounts
+  const marketplaceAdmin = await hre.ethers.getContractAt(
+    "RelicChainAdmin",
+    deployedRelicChainVerify.address,
+    await hre.ethers.getSigner(deployer),
+  );
+  const roles = [
+    { role: FeeManager, account: vars.get("FEE_MANAGER", deployer) },
+    { role: Pauser, account: vars.get("PAUSER", deployer) },
+  ];
+  for (const { role, account } of roles) {
+    if (!(await marketplaceAdmin.hasRole(role, account))) {
+      await (await marketplaceAdmin.grantRole(role, account)).wait();
+    }
+  }
+
+  // Basis points of every sale price sent to the treasury; only applied when the deployer is fee manager
+  const feeBps = BigInt(vars.get("MARKETPLACE_FEE_BPS", "0"));
+  if ((await marketplaceAdmin.hasRole(FeeManager, deployer)) && (await marketplaceAdmin.marketplaceFeeBps()) !== feeBps) {
+    await (await marketplaceAdmin.setMarketplaceFee(feeBps)).wait();
+  }
+
+  console.log(`CategoryRegistry contract: `, deployedCategoryRegistry.address);
+  console.log(`RelicChainAuctions contract: `, deployedRelicChainAuctions.address);
+  console.log(`RelicChainClaims contract: `, deployedRelicChainClaims.address);
+  console.log(`RelicChainAuthenticators contract: `, deployedRelicChainAuthenticators.address);
+  console.log(`RelicChainSharing contract: `, deployedRelicChainSharing.address);
+  console.log(`RelicChainAdmin contract: `, deployedRelicChainAdmin.address);
+  console.log(`RelicChainViews contract: `, deployedRelicChainViews.address);
   console.log(`RelicChainVerify contract: `, deployedRelicChainVerify.address);
 };
 export default func;
 func.id = "deploy_relicChainVerify"; // id required to prevent reexecution
 func.tags = ["RelicChainVerify"];
-
-
@@ -3,10 +3,15 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { WagmiProvider } from 'wagmi';
+import { hashFn } from 'wagmi/query';
 import { RainbowKitProvider } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import { config } from './config/wagmi';
+import { useContractEvents } from './hooks/useContractEvents';
 import Index from "./pages/Index";
+import CollectibleDetail from "./pages/CollectibleDetail";
+import Portfolio from "./pages/Portfolio";
+import MyOffers from "./pages/MyOffers";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient({
@@ -14,16 +19,24 @@ const queryClient = new QueryClient({
     queries: {
       retry: 1,
       refetchOnWindowFocus: false,
+      // Hashes bigint arguments, so wagmi query keys also work with setQueryData
+      queryKeyHashFn: hashFn,
     },
   },
 });
 
+const ContractEvents = () => {
+  useContractEvents();
+  return null;
+};
+
 const App = () => (
   <WagmiProvider config={config}>
     <QueryClientProvider client={queryClient}>
       <RainbowKitProvider>
         <TooltipProvider>
           <Toaster />
+          <ContractEvents />
           <BrowserRouter
             future={{
               v7_startTransition: true,
@@ -32,6 +45,9 @@ const App = () => (
           >
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/collectible/:tokenId" element={<CollectibleDetail />} />
+              <Route path="/portfolio/:address" element={<Portfolio />} />
+              <Route path="/me/offers" element={<MyOffers />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
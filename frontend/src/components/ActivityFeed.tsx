@@ -0,0 +1,149 @@
+import { Badge } from "@/components/ui/badge";
+import { useTokenActivity, type ActivityEntry } from "@/hooks/useContract";
+import { useChainId, useChains } from "wagmi";
+import { formatEther } from "viem";
+import { Activity } from "lucide-react";
+
+interface ActivityFeedProps {
+  tokenId: bigint;
+}
+
+interface ActivityDescription {
+  label: string;
+  detail?: string;
+  amount?: bigint;
+}
+
+const shortAddress = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+
+const describeEntry = ({ eventName, args }: ActivityEntry): ActivityDescription => {
+  switch (eventName) {
+    case "CollectibleListed":
+      return { label: "Listed", detail: `by ${shortAddress(args.owner)}` };
+    case "PurchaseRequested":
+      return { label: `Offer #${args.requestId} made`, detail: `by ${shortAddress(args.buyer)}, escrow`, amount: args.offerAmount };
+    case "PurchaseSettlementRequested":
+      return { label: `Offer #${args.requestId} accepted`, detail: "Settling the encrypted price" };
+    case "PurchaseApproved":
+      return { label: `Offer #${args.requestId} settled`, detail: `${shortAddress(args.seller)} → ${shortAddress(args.buyer)}`, amount: args.price };
+    case "PurchaseRejected":
+      return { label: `Offer #${args.requestId} rejected`, detail: `Escrow refunded to ${shortAddress(args.buyer)}` };
+    case "PurchaseCancelled":
+      return { label: `Offer #${args.requestId} cancelled`, detail: `by ${shortAddress(args.cancelledBy)}` };
+    case "SalePriceSet":
+      return { label: "Buy Now price set", detail: `by ${shortAddress(args.seller)}`, amount: args.price };
+    case "SaleCancelled":
+      return { label: "Buy Now price removed", detail: `by ${shortAddress(args.seller)}` };
+    case "CollectiblePurchased":
+      return { label: "Bought now", detail: `${shortAddress(args.from)} → ${shortAddress(args.to)}`, amount: args.price };
+    case "CollectibleTransferred":
+      return { label: "Transferred", detail: `${shortAddress(args.from)} → ${shortAddress(args.to)}` };
+    case "RoyaltyPaid":
+      return { label: "Royalty paid", detail: `to ${shortAddress(args.receiver)}`, amount: args.amount };
+    case "MarketplaceFeeCollected":
+      return { label: "Marketplace fee collected", amount: args.amount };
+    case "AuctionCreated":
+      return {
+        label: `Auction #${args.auctionId} opened`,
+        detail: `Ends ${new Date(Number(args.endTime) * 1000).toLocaleString()}`,
+      };
+    case "BidPlaced":
+      return { label: `Sealed bid on auction #${args.auctionId}`, detail: `by ${shortAddress(args.bidder)}, deposit`, amount: args.deposit };
+    case "AuctionRevealRequested":
+      return { label: `Auction #${args.auctionId} closing`, detail: "Revealing the highest bid" };
+    case "AuctionSettled":
+      return args.winner === "0x0000000000000000000000000000000000000000"
+        ? { label: `Auction #${args.auctionId} ended`, detail: "No bid was covered by its deposit" }
+        : { label: `Auction #${args.auctionId} won`, detail: `by ${shortAddress(args.winner)}`, amount: args.price };
+    case "AuctionCancelled":
+      return { label: `Auction #${args.auctionId} cancelled` };
+    case "CollectibleAttested":
+      return { label: "Verified", detail: `by ${shortAddress(args.authenticator)}` };
+    case "AttestationRevoked":
+      return { label: "Verification revoked", detail: `by ${shortAddress(args.authenticator)}` };
+    case "ViewerGranted":
+      return { label: "Viewer added", detail: shortAddress(args.viewer) };
+    case "ViewerRevoked":
+      return { label: "Viewer removed", detail: shortAddress(args.viewer) };
+    case "ClaimVerified":
+      return { label: "Claim checked", detail: `by ${shortAddress(args.verifier)}` };
+    case "ThresholdProofRequested":
+      return { label: `Range proof #${args.proofId} requested`, detail: `by ${shortAddress(args.requester)}` };
+    case "ThresholdProofAnswered":
+      return { label: `Range proof #${args.proofId} answered` };
+    case "ThresholdProofDeclined":
+      return { label: `Range proof #${args.proofId} declined` };
+    case "ThresholdProofPublished":
+      return { label: `Range proof #${args.proofId} published`, detail: args.holds ? "Holds" : "Does not hold" };
+    case "ThresholdProofReset":
+      return { label: `Range proof #${args.proofId} unpublished`, detail: "The result was never decrypted" };
+    case "DuplicateCheckRequested":
+      return { label: "Duplicate check started" };
+    case "DuplicateCheckProgress":
+      return { label: "Duplicate check progress", detail: `${args.checkedCount} of ${args.total} checked` };
+    case "DuplicateCheckCompleted":
+      return { label: "Duplicate check finished", detail: args.isDuplicate ? "Duplicate found" : "No duplicate found" };
+    case "DuplicateCheckReset":
+      return { label: "Duplicate check reset", detail: "The verdict was never decrypted" };
+    default:
+      return { label: eventName };
+  }
+};
+
+const ActivityFeed = ({ tokenId }: ActivityFeedProps) => {
+  const chainId = useChainId();
+  const chains = useChains();
+  const { data: entries, isLoading, isError } = useTokenActivity(tokenId);
+  // The local Hardhat node has no block explorer
+  const explorerUrl = chainId === 31337 ? undefined : chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="font-semibold flex items-center gap-2">
+        <Activity className="h-4 w-4" />
+        Activity
+      </h4>
+      {isLoading && <p className="text-xs text-muted-foreground">Loading activity...</p>}
+      {isError && <p className="text-xs text-red-500">Could not load the contract events</p>}
+      {entries && entries.length === 0 && <p className="text-xs text-muted-foreground">No activity yet</p>}
+      {entries && entries.length > 0 && (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {entries.map((entry) => {
+            const { label, detail, amount } = describeEntry(entry);
+            return (
+              <li key={`${entry.txHash}-${entry.logIndex}`} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-cyan-500" />
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="font-medium">{label}</span>
+                  {amount !== undefined && amount > BigInt(0) && (
+                    <Badge variant="secondary">{formatEther(amount)} ETH</Badge>
+                  )}
+                </div>
+                {detail && <p className="text-xs text-muted-foreground font-mono">{detail}</p>}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(Number(entry.timestamp) * 1000).toLocaleString()} · Block {entry.blockNumber.toString()}
+                </p>
+                {explorerUrl ? (
+                  <a
+                    href={`${explorerUrl}/tx/${entry.txHash}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-cyan-500 font-mono hover:underline"
+                  >
+                    {entry.txHash.slice(0, 10)}...{entry.txHash.slice(-8)}
+                  </a>
+                ) : (
+                  <p className="text-xs text-cyan-500 font-mono">
+                    {entry.txHash.slice(0, 10)}...{entry.txHash.slice(-8)}
+                  </p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ActivityFeed;
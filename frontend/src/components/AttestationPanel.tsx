@@ -0,0 +1,244 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useRelicChainVerify,
+  useTokenAttestations,
+  useAttestation,
+  useAuthenticator,
+  useVerifiedBy,
+} from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useAccount, useChainId } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { getContractAddress } from "@/config/contracts";
+import { decodeShortString, encodeShortString, SHORT_STRING_MAX_BYTES } from "@/lib/fhe";
+import { BadgeCheck } from "lucide-react";
+
+interface AttestationPanelProps {
+  tokenId: bigint;
+  isOwner: boolean;
+}
+
+const AttestationPanel = ({ tokenId, isOwner }: AttestationPanelProps) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { attest, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const { ensureInitialized, encryptAttestation } = useFHE();
+  const { data: attestationIds } = useTokenAttestations(tokenId);
+  const { data: authenticator } = useAuthenticator(address);
+  const { data: verifiedBy } = useVerifiedBy(tokenId);
+  const [payload, setPayload] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Attestation recorded!");
+      setPayload("");
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const handleAttest = async () => {
+    if (new TextEncoder().encode(payload).length > SHORT_STRING_MAX_BYTES) {
+      toast.error(`The certificate reference must be at most ${SHORT_STRING_MAX_BYTES} bytes`);
+      return;
+    }
+
+    try {
+      setIsEncrypting(true);
+      await ensureInitialized();
+      const { encryptedPayload, inputProof } = await encryptAttestation(
+        getContractAddress(chainId),
+        encodeShortString(payload)
+      );
+      await attest(tokenId, encryptedPayload, inputProof);
+      toast.info("Attesting collectible... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to attest collectible:", error);
+      toast.error(error?.message || "Failed to attest collectible");
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  // One active attestation per authenticator; revoking it allows a new one
+  const hasAttested = !!verifiedBy?.some((account) => account.toLowerCase() === address?.toLowerCase());
+  const canAttest = !!authenticator?.active && !hasAttested;
+  const hasAttestations = !!attestationIds && attestationIds.length > 0;
+
+  if (!hasAttestations && !canAttest) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2">
+          <BadgeCheck className="h-4 w-4" />
+          Authenticity attestations
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          Trusted brands and grading houses vouch for this collectible. Their certificate data is encrypted and
+          readable only by the authenticator and the owner.
+        </p>
+      </div>
+      {hasAttestations && (
+        <div className="space-y-2">
+          {[...attestationIds].reverse().map((attestationId) => (
+            <AttestationItem key={attestationId.toString()} attestationId={attestationId} isOwner={isOwner} />
+          ))}
+        </div>
+      )}
+      {canAttest && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="attestationPayload">Certificate Reference</Label>
+            <Input
+              id="attestationPayload"
+              value={payload}
+              onChange={(e) => setPayload(e.target.value)}
+              placeholder="e.g. PSA-48213377"
+            />
+            <p className="text-xs text-muted-foreground">Encrypted before it leaves your browser</p>
+          </div>
+          <Button
+            onClick={handleAttest}
+            disabled={isEncrypting || isPending || isConfirming || !payload}
+            variant="outline"
+            className="w-full"
+          >
+            {isEncrypting
+              ? "Encrypting..."
+              : isPending
+                ? "Confirm in wallet..."
+                : isConfirming
+                  ? "Attesting..."
+                  : `Attest as ${authenticator.name}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface AttestationItemProps {
+  attestationId: bigint;
+  isOwner: boolean;
+}
+
+const AttestationItem = ({ attestationId, isOwner }: AttestationItemProps) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: attestation } = useAttestation(attestationId);
+  const { data: authenticator } = useAuthenticator(attestation?.authenticator);
+  const { revokeAttestation, claimAttestationAccess, isPending } = useRelicChainVerify();
+  const { ensureInitialized, decryptHandles } = useFHE();
+  const [payload, setPayload] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [needsAccess, setNeedsAccess] = useState(false);
+
+  if (!attestation) {
+    return null;
+  }
+
+  const isAuthenticator = attestation.authenticator.toLowerCase() === address?.toLowerCase();
+
+  const handleRevoke = async () => {
+    try {
+      await revokeAttestation(attestationId);
+      toast.info("Revoking attestation... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to revoke attestation:", error);
+      toast.error(error?.message || "Failed to revoke attestation");
+    }
+  };
+
+  const handleClaimAccess = async () => {
+    try {
+      await claimAttestationAccess(attestationId);
+      setNeedsAccess(false);
+      toast.info("Requesting access... Please confirm in your wallet, then decrypt again.");
+    } catch (error: any) {
+      console.error("Failed to claim attestation access:", error);
+      toast.error(error?.message || "Failed to claim attestation access");
+    }
+  };
+
+  const handleDecrypt = async () => {
+    let initialized = false;
+    try {
+      setIsDecrypting(true);
+      await ensureInitialized();
+      initialized = true;
+      const [value] = await decryptHandles(getContractAddress(chainId), [attestation.payload]);
+      setPayload(decodeShortString(value));
+    } catch (error: any) {
+      console.error("Failed to decrypt attestation:", error);
+      // Attested before the current owner bought the collectible
+      if (isOwner && initialized) {
+        setNeedsAccess(true);
+        toast.error("You need access to this attestation first");
+      } else {
+        toast.error(error?.message || "Failed to decrypt attestation");
+      }
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium truncate">{authenticator?.name ?? attestation.authenticator}</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(Number(attestation.attestedAt) * 1000).toLocaleDateString()}
+          </p>
+        </div>
+        {attestation.revoked ? (
+          <Badge variant="destructive">Revoked</Badge>
+        ) : authenticator && !authenticator.active ? (
+          <Badge variant="secondary">Authenticator removed</Badge>
+        ) : (
+          <Badge className="bg-green-600">Verified</Badge>
+        )}
+      </div>
+      {payload !== null && (
+        <p className="font-mono text-xs break-all">{payload}</p>
+      )}
+      {(isOwner || isAuthenticator) && (
+        <div className="flex gap-2">
+          {payload === null && (needsAccess ? (
+            <Button size="sm" variant="outline" className="flex-1" onClick={handleClaimAccess} disabled={isPending}>
+              Get Access
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={handleDecrypt}
+              disabled={isDecrypting}
+            >
+              {isDecrypting ? "Decrypting..." : "Decrypt Certificate"}
+            </Button>
+          ))}
+          {isAuthenticator && !attestation.revoked && (
+            <Button size="sm" variant="outline" onClick={handleRevoke} disabled={isPending}>
+              Revoke
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttestationPanel;
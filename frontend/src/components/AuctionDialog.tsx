@@ -0,0 +1,309 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useRelicChainVerify, useTokenAuctions, useAuction, useBidDeposit } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useAccount, useChainId } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther, parseEther, parseGwei } from "viem";
+import { getContractAddress } from "@/config/contracts";
+import { Gavel, Lock, Clock, Trophy } from "lucide-react";
+
+// Mirrors RelicChainVerify.AuctionStatus
+const AUCTION_STATUS = ["None", "Active", "Revealing", "Settled", "Cancelled"] as const;
+
+interface AuctionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tokenId: bigint;
+  collectibleName: string;
+  isOwner: boolean;
+}
+
+const AuctionDialog = ({ open, onOpenChange, tokenId, collectibleName, isOwner }: AuctionDialogProps) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { initializeFHE, isInitialized, isInitializing, encryptBid } = useFHE();
+  const {
+    createAuction,
+    placeBid,
+    revealAuction,
+    cancelAuction,
+    cancelStalledAuction,
+    reclaimBidDeposit,
+    isPending,
+    isConfirming,
+    isSuccess,
+  } = useRelicChainVerify();
+  const { data: auctionIds } = useTokenAuctions(tokenId);
+  const latestAuctionId = auctionIds && auctionIds.length > 0 ? auctionIds[auctionIds.length - 1] : undefined;
+  const { data: auction } = useAuction(latestAuctionId);
+  const { data: depositData } = useBidDeposit(latestAuctionId);
+  const [durationHours, setDurationHours] = useState("24");
+  const [bidAmount, setBidAmount] = useState("");
+  const [depositAmount, setDepositAmount] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (open && !isInitialized && !isInitializing) {
+      initializeFHE();
+    }
+  }, [open, isInitialized, isInitializing, initializeFHE]);
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Auction updated!");
+      setBidAmount("");
+      setDepositAmount("");
+      // Invalidate queries to refresh data
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const status = auction ? AUCTION_STATUS[Number(auction.status)] : "None";
+  const isOpen = status === "Active" || status === "Revealing";
+  const hasEnded = !!auction && Number(auction.endTime) * 1000 <= Date.now();
+  const [now, setNow] = useState(() => Date.now());
+
+  // The auction is not polled, so re-render at its end time to offer closing it.
+  // setTimeout delays are capped at about 24.8 days; longer waits are rescheduled
+  useEffect(() => {
+    if (!auction || status !== "Active" || hasEnded) {
+      return;
+    }
+    const remaining = Number(auction.endTime) * 1000 - Date.now();
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(remaining, 2 ** 31 - 1));
+    return () => clearTimeout(timer);
+  }, [auction, status, hasEnded, now]);
+  const deposit = typeof depositData === 'bigint' ? depositData : BigInt(0);
+  const isBusy = isPending || isConfirming || isEncrypting;
+
+  const handleCreate = async () => {
+    const hours = parseFloat(durationHours);
+    if (!hours || hours <= 0 || hours > 24 * 30) {
+      toast.error("Duration must be between 1 hour and 30 days");
+      return;
+    }
+
+    try {
+      await createAuction(tokenId, BigInt(Math.round(hours * 3600)));
+      toast.info("Starting auction... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to create auction:", error);
+      toast.error(error?.message || "Failed to create auction");
+    }
+  };
+
+  const handleBid = async () => {
+    if (latestAuctionId === undefined || !address) {
+      return;
+    }
+
+    if (!bidAmount || parseFloat(bidAmount) <= 0) {
+      toast.error("Please enter a valid bid");
+      return;
+    }
+
+    // The deposit defaults to the bid; a larger deposit hides the bid amount better
+    const depositEth = depositAmount || bidAmount;
+    if (parseEther(depositEth) < parseEther(bidAmount)) {
+      toast.error("Deposit must cover your bid, otherwise the bid counts as zero");
+      return;
+    }
+
+    try {
+      setIsEncrypting(true);
+      const { encryptedBid, inputProof } = await encryptBid(getContractAddress(chainId), parseGwei(bidAmount));
+      setIsEncrypting(false);
+      await placeBid(latestAuctionId, encryptedBid, inputProof, depositEth);
+      toast.info("Placing sealed bid... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to place bid:", error);
+      toast.error(error?.message || "Failed to place bid");
+    } finally {
+      setIsEncrypting(false);
+    }
+  };
+
+  const runAction = async (action: (auctionId: bigint) => Promise<unknown>, message: string, failure: string) => {
+    if (latestAuctionId === undefined) {
+      return;
+    }
+
+    try {
+      await action(latestAuctionId);
+      toast.info(message);
+    } catch (error: any) {
+      console.error(`${failure}:`, error);
+      toast.error(error?.message || failure);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Auction {collectibleName}</DialogTitle>
+          <DialogDescription>
+            Bids are encrypted. Nobody, including the seller, sees them until the auction closes and the winner is revealed.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {auction && (
+            <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+              <div className="flex justify-between items-center">
+                <span className="text-muted-foreground">Auction #{auction.auctionId.toString()}</span>
+                <Badge className={isOpen ? "bg-yellow-500" : "bg-purple-500"}>
+                  {status === "Active" && hasEnded ? "Ended" : status}
+                </Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Ends:</span>
+                <span>{new Date(Number(auction.endTime) * 1000).toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Sealed bids:</span>
+                <span>{auction.bidCount.toString()}</span>
+              </div>
+              {status === "Settled" && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground flex items-center gap-1">
+                    <Trophy className="h-3 w-3" />
+                    Winner:
+                  </span>
+                  <span className="font-semibold text-cyan-500">
+                    {auction.winner === '0x0000000000000000000000000000000000000000'
+                      ? "No valid bids"
+                      : `${auction.winner.slice(0, 6)}...${auction.winner.slice(-4)} for ${formatEther(auction.winningBid * BigInt(1e9))} ETH`}
+                  </span>
+                </div>
+              )}
+              {deposit > BigInt(0) && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Your deposit:</span>
+                  <span>{formatEther(deposit)} ETH</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {isOwner && !isOpen && (
+            <div className="space-y-2">
+              <Label htmlFor="auctionDuration">Duration (hours)</Label>
+              <Input
+                id="auctionDuration"
+                type="number"
+                min="1"
+                max="720"
+                value={durationHours}
+                onChange={(e) => setDurationHours(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Starting an auction removes any Buy Now price and locks the collectible until the auction closes.
+              </p>
+              <Button onClick={handleCreate} disabled={isBusy} className="w-full">
+                <Gavel className="h-4 w-4 mr-2" />
+                {isPending || isConfirming ? "Starting..." : "Start Auction"}
+              </Button>
+            </div>
+          )}
+
+          {isOwner && status === "Active" && !hasEnded && auction?.bidCount === BigInt(0) && (
+            <Button
+              variant="outline"
+              onClick={() => runAction(cancelAuction, "Cancelling auction... Please confirm in your wallet.", "Failed to cancel auction")}
+              disabled={isBusy}
+              className="w-full"
+            >
+              Cancel Auction
+            </Button>
+          )}
+
+          {!isOwner && status === "Active" && !hasEnded && deposit === BigInt(0) && (
+            <div className="space-y-2">
+              <Label htmlFor="bidAmount">Your Bid (ETH)</Label>
+              <Input
+                id="bidAmount"
+                type="number"
+                step="0.001"
+                value={bidAmount}
+                onChange={(e) => setBidAmount(e.target.value)}
+                placeholder="1.0"
+              />
+              <Label htmlFor="bidDeposit">Deposit (ETH, public)</Label>
+              <Input
+                id="bidDeposit"
+                type="number"
+                step="0.001"
+                value={depositAmount}
+                onChange={(e) => setDepositAmount(e.target.value)}
+                placeholder={bidAmount || "Defaults to your bid"}
+              />
+              <p className="text-xs text-muted-foreground">
+                The deposit is visible on-chain and caps your bid. Anything above the winning bid is credited back.
+              </p>
+              <Button
+                onClick={handleBid}
+                disabled={isBusy || !isInitialized || !bidAmount}
+                className="w-full bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                {isEncrypting ? "Encrypting..." : isPending || isConfirming ? "Bidding..." : "Place Sealed Bid"}
+              </Button>
+            </div>
+          )}
+
+          {status === "Active" && hasEnded && (
+            <Button
+              onClick={() => runAction(revealAuction, "Closing auction... Please confirm in your wallet.", "Failed to close auction")}
+              disabled={isBusy}
+              className="w-full"
+            >
+              <Clock className="h-4 w-4 mr-2" />
+              Close &amp; Reveal Winner
+            </Button>
+          )}
+
+          {status === "Revealing" && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground text-center">
+                Waiting for the decryption oracle to reveal the winner...
+              </p>
+              <p className="text-xs text-muted-foreground text-center">
+                If the winner is still not revealed a day after closing, anyone can cancel the auction so bidders can reclaim their deposits.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => runAction(cancelStalledAuction, "Cancelling auction... Please confirm in your wallet.", "Failed to cancel auction")}
+                disabled={isBusy}
+                className="w-full"
+              >
+                Cancel Stalled Auction
+              </Button>
+            </div>
+          )}
+
+          {!isOpen && status !== "None" && deposit > BigInt(0) && (
+            <Button
+              variant="outline"
+              onClick={() => runAction(reclaimBidDeposit, "Reclaiming deposit... Please confirm in your wallet.", "Failed to reclaim deposit")}
+              disabled={isBusy}
+              className="w-full"
+            >
+              Reclaim {formatEther(deposit)} ETH Deposit
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AuctionDialog;
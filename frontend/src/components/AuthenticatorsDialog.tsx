@@ -0,0 +1,162 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify, useAuthenticators, useAuthenticator } from "@/hooks/useContract";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { isAddress } from "viem";
+import { X } from "lucide-react";
+
+interface AuthenticatorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AuthenticatorsDialog = ({ open, onOpenChange }: AuthenticatorsDialogProps) => {
+  const { addAuthenticator, removeAuthenticator, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const { data: accounts } = useAuthenticators();
+  const [account, setAccount] = useState("");
+  const [name, setName] = useState("");
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Authenticators updated");
+      setAccount("");
+      setName("");
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const handleAdd = async () => {
+    if (!isAddress(account)) {
+      toast.error("Please enter a valid authenticator address");
+      return;
+    }
+
+    if (!name.trim()) {
+      toast.error("Please enter a display name");
+      return;
+    }
+
+    try {
+      await addAuthenticator(account, name.trim());
+      toast.info("Adding authenticator... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to add authenticator:", error);
+      toast.error(error?.message || "Failed to add authenticator");
+    }
+  };
+
+  const handleRemove = async (authenticator: `0x${string}`) => {
+    try {
+      await removeAuthenticator(authenticator);
+      toast.info("Removing authenticator... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to remove authenticator:", error);
+      toast.error(error?.message || "Failed to remove authenticator");
+    }
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Authenticators</DialogTitle>
+          <DialogDescription>
+            Brands and grading houses trusted to attest collectibles. Removing an authenticator hides its "Verified"
+            badges; re-adding it restores them.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {accounts && accounts.length > 0 ? (
+            <div className="space-y-2">
+              {accounts.map((authenticator) => (
+                <AuthenticatorItem
+                  key={authenticator}
+                  account={authenticator}
+                  onRemove={() => handleRemove(authenticator)}
+                  disabled={isBusy}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground text-center">
+              No authenticators added yet.
+            </div>
+          )}
+          <div className="space-y-3 border-t pt-4">
+            <div className="space-y-2">
+              <Label htmlFor="authenticatorAccount">Authenticator Address</Label>
+              <Input
+                id="authenticatorAccount"
+                value={account}
+                onChange={(e) => setAccount(e.target.value.trim())}
+                placeholder="0x..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="authenticatorName">Display Name</Label>
+              <Input
+                id="authenticatorName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. PSA Grading"
+              />
+            </div>
+            <Button onClick={handleAdd} disabled={isBusy || !account || !name} className="w-full" variant="outline">
+              {isPending ? "Confirm in wallet..." : isConfirming ? "Updating..." : "Add Authenticator"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface AuthenticatorItemProps {
+  account: `0x${string}`;
+  onRemove: () => void;
+  disabled: boolean;
+}
+
+const AuthenticatorItem = ({ account, onRemove, disabled }: AuthenticatorItemProps) => {
+  const { data: authenticator } = useAuthenticator(account);
+
+  if (!authenticator) {
+    return null;
+  }
+
+  return (
+    <div className="p-3 border rounded-lg flex items-center justify-between gap-2 text-sm">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium truncate">{authenticator.name}</span>
+          {authenticator.active ? (
+            <Badge className="bg-green-600">Active</Badge>
+          ) : (
+            <Badge variant="secondary">Removed</Badge>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground font-mono">
+          {account.slice(0, 6)}...{account.slice(-4)}
+        </p>
+      </div>
+      {authenticator.active && (
+        <Button size="sm" variant="outline" onClick={onRemove} disabled={disabled}>
+          <X className="h-4 w-4 mr-1" />
+          Remove
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default AuthenticatorsDialog;
@@ -0,0 +1,143 @@
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useCategorySchemas } from "@/hooks/useContract";
+import { CATALOG_SORTS, type CatalogQuery, type CatalogSort } from "@/lib/catalog";
+import { BadgeCheck, HandCoins, Search, User, X } from "lucide-react";
+
+interface CatalogFiltersProps {
+  query: CatalogQuery;
+  onChange: (patch: Partial<CatalogQuery>, replace?: boolean) => void;
+  canFilterMine: boolean;
+  resultCount?: number;
+}
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-background px-3 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2";
+
+const CatalogFilters = ({ query, onChange, canFilterMine, resultCount }: CatalogFiltersProps) => {
+  const { data: categories } = useCategorySchemas();
+  const isFiltered =
+    !!query.search ||
+    query.mine ||
+    query.withOffers ||
+    query.verified ||
+    query.categoryId !== undefined ||
+    !!query.listedFrom ||
+    !!query.listedTo;
+
+  return (
+    <div className="space-y-4 mb-12">
+      <div className="relative max-w-xl mx-auto">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query.search}
+          // Typing replaces the history entry instead of adding one per keystroke
+          onChange={(event) => onChange({ search: event.target.value }, true)}
+          placeholder="Search by name"
+          className="pl-9"
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        <Button
+          size="sm"
+          variant={query.mine ? "default" : "outline"}
+          onClick={() => onChange({ mine: !query.mine })}
+          disabled={!canFilterMine && !query.mine}
+        >
+          <User className="h-4 w-4 mr-2" />
+          Owned by me
+        </Button>
+        <Button
+          size="sm"
+          variant={query.withOffers ? "default" : "outline"}
+          onClick={() => onChange({ withOffers: !query.withOffers })}
+        >
+          <HandCoins className="h-4 w-4 mr-2" />
+          Pending offers
+        </Button>
+        <Button
+          size="sm"
+          variant={query.verified ? "default" : "outline"}
+          onClick={() => onChange({ verified: !query.verified })}
+        >
+          <BadgeCheck className="h-4 w-4 mr-2" />
+          Verified only
+        </Button>
+        <select
+          aria-label="Category"
+          value={query.categoryId?.toString() ?? ""}
+          onChange={(event) =>
+            onChange({ categoryId: event.target.value ? BigInt(event.target.value) : undefined })
+          }
+          className={selectClassName}
+        >
+          <option value="">All categories</option>
+          {categories?.map((schema) => (
+            <option key={schema.categoryId.toString()} value={schema.categoryId.toString()}>
+              {schema.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Sort by"
+          value={query.sort}
+          onChange={(event) => onChange({ sort: event.target.value as CatalogSort })}
+          className={selectClassName}
+        >
+          {Object.entries(CATALOG_SORTS).map(([sort, label]) => (
+            <option key={sort} value={sort}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center justify-center gap-2 text-sm text-muted-foreground">
+        <span>Listed from</span>
+        <Input
+          type="date"
+          aria-label="Listed from"
+          value={query.listedFrom ?? ""}
+          max={query.listedTo}
+          onChange={(event) => onChange({ listedFrom: event.target.value || undefined })}
+          className="h-9 w-auto"
+        />
+        <span>to</span>
+        <Input
+          type="date"
+          aria-label="Listed to"
+          value={query.listedTo ?? ""}
+          min={query.listedFrom}
+          onChange={(event) => onChange({ listedTo: event.target.value || undefined })}
+          className="h-9 w-auto"
+        />
+        {isFiltered && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              onChange({
+                search: "",
+                mine: false,
+                withOffers: false,
+                verified: false,
+                categoryId: undefined,
+                listedFrom: undefined,
+                listedTo: undefined,
+              })
+            }
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear filters
+          </Button>
+        )}
+      </div>
+      {isFiltered && resultCount !== undefined && (
+        <p className="text-center text-sm text-muted-foreground">
+          {resultCount} {resultCount === 1 ? "match" : "matches"}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CatalogFilters;
@@ -0,0 +1,167 @@
+import { Button } from "@/components/ui/button";
+import { Eye, ShoppingCart, Bell, Send, Tag, Gavel } from "lucide-react";
+import { useAccount } from "wagmi";
+import { useState } from "react";
+import PurchaseDialog from "./PurchaseDialog";
+import DecryptDialog from "./DecryptDialog";
+import OwnerRequestsDialog from "./OwnerRequestsDialog";
+import TransferDialog from "./TransferDialog";
+import SalePriceDialog from "./SalePriceDialog";
+import AuctionDialog from "./AuctionDialog";
+
+interface CollectibleActionsProps {
+  tokenId: bigint;
+  name: string;
+  owner: string;
+  salePrice: bigint;
+  inAuction: boolean;
+  className?: string;
+}
+
+// Owner and buyer actions with their dialogs, shared by the grid card and the detail page
+const CollectibleActions = ({ tokenId, name, owner, salePrice, inAuction, className }: CollectibleActionsProps) => {
+  const { address, isConnected } = useAccount();
+  const [showPurchase, setShowPurchase] = useState(false);
+  const [showDecrypt, setShowDecrypt] = useState(false);
+  const [showOwnerRequests, setShowOwnerRequests] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showSell, setShowSell] = useState(false);
+  const [showAuction, setShowAuction] = useState(false);
+
+  const isOwner = address?.toLowerCase() === owner.toLowerCase();
+
+  return (
+    <>
+      <div className={`flex flex-wrap gap-2 ${className ?? ""}`}>
+        {isOwner ? (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowDecrypt(true)}
+            >
+              <Eye className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>Decrypt</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowOwnerRequests(true)}
+            >
+              <Bell className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>Requests</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowTransfer(true)}
+            >
+              <Send className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>Transfer</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowSell(true)}
+            >
+              <Tag className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>{salePrice > BigInt(0) ? "Price" : "Sell"}</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowAuction(true)}
+            >
+              <Gavel className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>Auction</span>
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
+              onClick={() => setShowDecrypt(true)}
+            >
+              <Eye className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+              <span>Details</span>
+            </Button>
+            {inAuction ? (
+              <Button
+                size="sm"
+                className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3 bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
+                onClick={() => setShowAuction(true)}
+                disabled={!isConnected}
+              >
+                <Gavel className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+                <span>Bid</span>
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3 bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
+                onClick={() => setShowPurchase(true)}
+                disabled={!isConnected}
+              >
+                <ShoppingCart className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
+                <span>{salePrice > BigInt(0) ? "Buy" : "Offer"}</span>
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+      <PurchaseDialog
+        open={showPurchase}
+        onOpenChange={setShowPurchase}
+        tokenId={tokenId}
+        collectibleName={name}
+        owner={owner}
+        salePrice={salePrice}
+      />
+      <DecryptDialog
+        open={showDecrypt}
+        onOpenChange={setShowDecrypt}
+        tokenId={tokenId}
+        isOwner={isOwner || false}
+      />
+      {isOwner && (
+        <OwnerRequestsDialog
+          open={showOwnerRequests}
+          onOpenChange={setShowOwnerRequests}
+        />
+      )}
+      {isOwner && (
+        <SalePriceDialog
+          open={showSell}
+          onOpenChange={setShowSell}
+          tokenId={tokenId}
+          collectibleName={name}
+          salePrice={salePrice}
+        />
+      )}
+      <AuctionDialog
+        open={showAuction}
+        onOpenChange={setShowAuction}
+        tokenId={tokenId}
+        collectibleName={name}
+        isOwner={isOwner || false}
+      />
+      {isOwner && (
+        <TransferDialog
+          open={showTransfer}
+          onOpenChange={setShowTransfer}
+          tokenId={tokenId}
+          collectibleName={name}
+        />
+      )}
+    </>
+  );
+};
+
+export default CollectibleActions;
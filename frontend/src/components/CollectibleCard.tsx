@@ -1,34 +1,30 @@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { Lock, Eye, ShoppingCart, Bell } from "lucide-react";
-import { useAccount } from 'wagmi';
-import { useCollectibleInfo } from "@/hooks/useContract";
-import { useState, useEffect } from "react";
-import PurchaseDialog from "./PurchaseDialog";
-import DecryptDialog from "./DecryptDialog";
-import OwnerRequestsDialog from "./OwnerRequestsDialog";
+import { Lock, Tag, Gavel, Fingerprint, AlertTriangle, BadgeCheck } from "lucide-react";
+import { Link } from "react-router-dom";
+import {
+  useCollectibleInfo,
+  useSalePrice,
+  useAuthenticator,
+  type CollectibleSummary,
+  type CollectibleStats,
+} from "@/hooks/useContract";
+import { formatEther } from "viem";
+import CollectibleActions from "./CollectibleActions";
 
 interface CollectibleCardProps {
   tokenId: bigint;
+  summary?: CollectibleSummary; // From a page query; skips this card's own info and price reads
+  stats?: CollectibleStats; // From the same page; without it the auction, duplicate and verified badges are hidden
 }
 
-const CollectibleCard = ({ tokenId }: CollectibleCardProps) => {
-  const { address, isConnected } = useAccount();
-  const { data: info, isLoading, error } = useCollectibleInfo(tokenId);
-  const [showPurchase, setShowPurchase] = useState(false);
-  const [showDecrypt, setShowDecrypt] = useState(false);
-  const [showOwnerRequests, setShowOwnerRequests] = useState(false);
-
-  // Debug logging
-  useEffect(() => {
-    console.log(`CollectibleCard tokenId ${tokenId}:`, {
-      info,
-      isLoading,
-      error,
-      exists: info?.[4], // exists is the 5th element in the tuple
-    });
-  }, [tokenId, info, isLoading, error]);
+const CollectibleCard = ({ tokenId, summary, stats }: CollectibleCardProps) => {
+  const { data: fetchedInfo, isLoading, error } = useCollectibleInfo(tokenId, !summary);
+  const { data: fetchedSalePrice } = useSalePrice(tokenId, !summary);
+  const info = summary
+    ? ([summary.name, summary.imageUri, summary.owner, summary.listedAt, true] as const)
+    : fetchedInfo;
+  const salePriceData = summary ? summary.salePrice : fetchedSalePrice;
 
   // Show loading state
   if (isLoading) {
@@ -54,112 +50,113 @@ const CollectibleCard = ({ tokenId }: CollectibleCardProps) => {
   // Destructure the tuple
   const [name, imageUri, owner, listedAt, exists] = info;
 
-  const isOwner = address?.toLowerCase() === owner.toLowerCase();
+  const salePrice = typeof salePriceData === 'bigint' ? salePriceData : BigInt(0);
+  const inAuction = !!stats?.inAuction;
+  const bidCount = stats?.auctionBidCount ?? BigInt(0);
+  // DuplicateStatus.Unique = 2, DuplicateStatus.Duplicate = 3
+  const duplicateStatus = stats?.duplicateStatus;
 
   return (
-    <>
-      <Card className="group relative overflow-hidden bg-card border-border hover:border-cyan-500 transition-all duration-500 flex flex-col h-full">
-        <div className="relative aspect-square overflow-hidden bg-muted flex-shrink-0">
-          {imageUri ? (
-            <img
-              src={imageUri}
-              alt={name}
-              className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
-            />
-          ) : (
-            <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-              No Image
-            </div>
-          )}
-          <div className="absolute inset-0 bg-cyan-500/10 backdrop-blur-[2px] flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-500">
-            <div className="relative">
-              <Lock className="h-16 w-16 text-cyan-500 animate-pulse" />
-            </div>
+    <Card className="group relative overflow-hidden bg-card border-border hover:border-cyan-500 transition-all duration-500 flex flex-col h-full">
+      <div className="relative aspect-square overflow-hidden bg-muted flex-shrink-0">
+        {imageUri ? (
+          <img
+            src={imageUri}
+            alt={name}
+            className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+          />
+        ) : (
+          <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+            No Image
+          </div>
+        )}
+        <div className="absolute inset-0 bg-cyan-500/10 backdrop-blur-[2px] flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-500">
+          <div className="relative">
+            <Lock className="h-16 w-16 text-cyan-500 animate-pulse" />
           </div>
         </div>
-        <div className="p-4 sm:p-6 space-y-3 flex-1 flex flex-col">
-          <div className="flex items-start justify-between gap-2">
-            <h3 className="text-lg sm:text-xl font-semibold truncate flex-1">{name}</h3>
-            <Badge className="bg-purple-500 text-white flex-shrink-0">
-              #{tokenId.toString()}
-            </Badge>
+      </div>
+      <div className="p-4 sm:p-6 space-y-3 flex-1 flex flex-col">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="text-lg sm:text-xl font-semibold truncate flex-1">
+            <Link to={`/collectible/${tokenId}`} className="hover:text-cyan-500 transition-colors">
+              {name}
+            </Link>
+          </h3>
+          <Badge className="bg-purple-500 text-white flex-shrink-0">
+            #{tokenId.toString()}
+          </Badge>
+        </div>
+        {stats && stats.verifiedBy.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {stats.verifiedBy.map((account) => (
+              <VerifiedBadge key={account} account={account} />
+            ))}
           </div>
-          <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
-            <span>Owned by</span>
-            <span className="text-cyan-500 font-medium truncate">
-              {owner.slice(0, 6)}...{owner.slice(-4)}
-            </span>
+        )}
+        <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+          <span>Owned by</span>
+          <Link to={`/portfolio/${owner}`} className="text-cyan-500 font-medium truncate hover:underline">
+            {owner.slice(0, 6)}...{owner.slice(-4)}
+          </Link>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-cyan-500">
+          <Lock className="h-3 w-3 flex-shrink-0" />
+          <span className="truncate">Encrypted Metadata</span>
+        </div>
+        {duplicateStatus === 2 && (
+          <div className="flex items-center gap-2 text-xs text-green-600">
+            <Fingerprint className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">Unique serial verified</span>
           </div>
-          <div className="flex items-center gap-2 text-xs text-cyan-500">
-            <Lock className="h-3 w-3 flex-shrink-0" />
-            <span className="truncate">Encrypted Metadata</span>
+        )}
+        {duplicateStatus === 3 && (
+          <div className="flex items-center gap-2 text-xs text-destructive">
+            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+            <span className="truncate">Possible duplicate registration</span>
           </div>
-          <div className="flex gap-2 pt-2 mt-auto">
-            {isOwner ? (
-              <>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
-                  onClick={() => setShowDecrypt(true)}
-                >
-                  <Eye className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
-                  <span>Decrypt</span>
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
-                  onClick={() => setShowOwnerRequests(true)}
-                >
-                  <Bell className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
-                  <span>Requests</span>
-                </Button>
-              </>
-            ) : (
-              <>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3"
-                  onClick={() => setShowDecrypt(true)}
-                >
-                  <Eye className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
-                  <span>Details</span>
-                </Button>
-                <Button
-                  size="sm"
-                  className="flex-1 min-w-0 !whitespace-normal text-xs sm:text-sm px-2 sm:px-3 bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
-                  onClick={() => setShowPurchase(true)}
-                  disabled={!isConnected}
-                >
-                  <ShoppingCart className="h-3.5 w-3.5 sm:h-4 sm:w-4 mr-1 sm:mr-1.5 flex-shrink-0" />
-                  <span>Offer</span>
-                </Button>
-              </>
-            )}
+        )}
+        {salePrice > BigInt(0) && (
+          <div className="flex items-center gap-2 text-xs sm:text-sm">
+            <Tag className="h-3 w-3 flex-shrink-0 text-purple-500" />
+            <span className="text-muted-foreground">Buy Now</span>
+            <span className="font-semibold text-purple-500 truncate">{formatEther(salePrice)} ETH</span>
           </div>
-        </div>
-      </Card>
-      <PurchaseDialog
-        open={showPurchase}
-        onOpenChange={setShowPurchase}
-        tokenId={tokenId}
-        collectibleName={name}
-      />
-      <DecryptDialog
-        open={showDecrypt}
-        onOpenChange={setShowDecrypt}
-        tokenId={tokenId}
-        isOwner={isOwner || false}
-      />
-      {isOwner && (
-        <OwnerRequestsDialog
-          open={showOwnerRequests}
-          onOpenChange={setShowOwnerRequests}
+        )}
+        {inAuction && (
+          <div className="flex items-center gap-2 text-xs sm:text-sm">
+            <Gavel className="h-3 w-3 flex-shrink-0 text-yellow-500" />
+            <span className="text-muted-foreground">Sealed-bid auction</span>
+            <span className="font-semibold text-yellow-500 truncate">
+              {bidCount.toString()} bid{bidCount === BigInt(1) ? "" : "s"}
+            </span>
+          </div>
+        )}
+        <CollectibleActions
+          tokenId={tokenId}
+          name={name}
+          owner={owner}
+          salePrice={salePrice}
+          inAuction={inAuction}
+          className="pt-2 mt-auto"
         />
-      )}
-    </>
+      </div>
+    </Card>
+  );
+};
+
+export const VerifiedBadge = ({ account }: { account: string }) => {
+  const { data: authenticator } = useAuthenticator(account);
+
+  if (!authenticator) {
+    return null;
+  }
+
+  return (
+    <Badge className="bg-green-600 text-white gap-1 max-w-full">
+      <BadgeCheck className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">Verified by {authenticator.name}</span>
+    </Badge>
   );
 };
 
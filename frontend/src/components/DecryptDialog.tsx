@@ -1,11 +1,18 @@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { useEncryptedMetadata } from "@/hooks/useContract";
+import { useEncryptedMetadata, useCategorySchema, useSharedMetadata } from "@/hooks/useContract";
 import { useFHE } from "@/hooks/useFHE";
 import { useAccount, useChainId, useWalletClient } from "wagmi";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { getContractAddress } from "@/config/contracts";
+import { formatAttribute, type CategorySchema } from "@/lib/categories";
+import { zeroHash } from "viem";
+import ShareAccessPanel from "./ShareAccessPanel";
+import ThresholdProofPanel from "./ThresholdProofPanel";
+import DuplicateCheckPanel from "./DuplicateCheckPanel";
+import AttestationPanel from "./AttestationPanel";
+import ProvenanceTimeline from "./ProvenanceTimeline";
 
 interface DecryptDialogProps {
   open: boolean;
@@ -18,14 +25,17 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
   const { address } = useAccount();
   const chainId = useChainId();
   const { data: walletClient } = useWalletClient();
-  const { initializeFHE, isInitialized, instance } = useFHE();
-  const { data: encryptedMetadata, isLoading: isLoadingMetadata } = useEncryptedMetadata(tokenId);
-  const [decryptedData, setDecryptedData] = useState<{
-    price: number;
-    cert: number;
-    serial: number;
-    origin: number;
-  } | null>(null);
+  const { initializeFHE, isInitialized, instance, decryptHandles } = useFHE();
+  const { data: ownedMetadata, isLoading: isLoadingOwned } = useEncryptedMetadata(tokenId);
+  // Viewers granted access by the owner decrypt their own copies of the shared fields
+  const { data: sharedMetadata, isLoading: isLoadingShared } = useSharedMetadata(tokenId, isOwner ? undefined : address);
+  const canDecrypt = isOwner || !!sharedMetadata;
+  const encryptedMetadata = isOwner ? ownedMetadata : sharedMetadata;
+  const isLoadingMetadata = isOwner ? isLoadingOwned : isLoadingShared;
+  const [categoryId, encryptedAttributes] = encryptedMetadata ?? ownedMetadata ?? [];
+  const { data: schemaData } = useCategorySchema(categoryId);
+  const schema = schemaData as CategorySchema | undefined;
+  const [decryptedData, setDecryptedData] = useState<{ name: string; value: string }[] | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
 
   useEffect(() => {
@@ -45,12 +55,12 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
       return;
     }
 
-    if (!isOwner) {
-      toast.error("Only the owner can decrypt this data");
+    if (!canDecrypt) {
+      toast.error("Only the owner or a granted viewer can decrypt this data");
       return;
     }
 
-    if (!encryptedMetadata) {
+    if (!encryptedAttributes || !schema) {
       toast.error("Encrypted metadata not available");
       return;
     }
@@ -59,167 +69,23 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
       setIsDecrypting(true);
       toast.info("Decryption in progress... Please sign the EIP712 message in your wallet.");
       
-      const contractAddress = getContractAddress(chainId);
-      
-      // encryptedMetadata is a tuple: [euint32 encryptedPrice, euint32 encryptedCert, euint32 encryptedSerial, euint32 encryptedOrigin]
-      // Each euint32 is represented as bytes32 (hex string)
-      // The tuple is returned as an array: [price, cert, serial, origin]
-      const [encryptedPrice, encryptedCert, encryptedSerial, encryptedOrigin] = encryptedMetadata as any[];
-      
-      console.log('Encrypted metadata tuple:', {
-        raw: encryptedMetadata,
-        price: encryptedPrice,
-        cert: encryptedCert,
-        serial: encryptedSerial,
-        origin: encryptedOrigin,
-        priceType: typeof encryptedPrice,
-        priceIsString: typeof encryptedPrice === 'string',
-      });
-
-      // Convert hex strings to Uint8Array if needed
-      // Handles can be hex strings (0x...) or Uint8Array
-      const hexToBytes = (hex: string | Uint8Array | any): Uint8Array => {
-        if (hex instanceof Uint8Array) return hex;
-        if (typeof hex === 'string') {
-          const cleanHex = hex.startsWith('0x') ? hex.slice(2) : hex;
-          if (cleanHex.length === 0) {
-            throw new Error('Empty hex string');
-          }
-          const bytes = new Uint8Array(cleanHex.length / 2);
-          for (let i = 0; i < cleanHex.length; i += 2) {
-            bytes[i / 2] = parseInt(cleanHex.substr(i, 2), 16);
-          }
-          return bytes;
-        }
-        // Try to convert to string first
-        const str = String(hex);
-        if (str.startsWith('0x')) {
-          return hexToBytes(str);
-        }
-        throw new Error(`Cannot convert to bytes: ${typeof hex}`);
-      };
-
-      // Prepare handles for decryption
-      const handleContractPairs = [
-        { handle: hexToBytes(encryptedPrice as string), contractAddress },
-        { handle: hexToBytes(encryptedCert as string), contractAddress },
-        { handle: hexToBytes(encryptedSerial as string), contractAddress },
-        { handle: hexToBytes(encryptedOrigin as string), contractAddress },
-      ];
-
-      // Generate keypair for user decryption
-      const keypair = instance.generateKeypair();
-
-      // Setup decryption parameters
-      const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-      const durationDays = "7"; // 7 days validity
-      const contractAddresses = [contractAddress];
-
-      // Create EIP712 signature for decryption
-      const eip712 = instance.createEIP712(
-        keypair.publicKey,
-        contractAddresses,
-        startTimeStamp,
-        durationDays
-      );
-
-      console.log('EIP712 data:', eip712);
-
-      // Sign the EIP712 message with wallet
-      const signature = await walletClient.signTypedData({
-        domain: eip712.domain as any,
-        types: {
-          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-        },
-        primaryType: 'UserDecryptRequestVerification',
-        message: eip712.message as any,
-      });
-
-      console.log('Signature received:', signature);
-
-      // Perform user decryption through Relayer
-      const result = await instance.userDecrypt(
-        handleContractPairs,
-        keypair.privateKey,
-        keypair.publicKey,
-        signature.replace("0x", ""),
-        contractAddresses,
-        address,
-        startTimeStamp,
-        durationDays
-      );
-
-      console.log('Decryption result:', result);
-
-      // Extract decrypted values
-      // The result from userDecrypt is typically an object where keys are handle strings
-      // or an array if handles are passed in order
-      console.log('Decryption result structure:', {
-        result,
-        resultType: typeof result,
-        isArray: Array.isArray(result),
-        keys: result ? Object.keys(result) : [],
-        values: result ? Object.values(result) : [],
-      });
-
-      // Try to extract values - result might be:
-      // 1. An object with handle strings as keys
-      // 2. An array in the same order as handleContractPairs
-      // 3. An object with Uint8Array handles as keys (need to convert)
-      
-      let finalPrice = 0;
-      let finalCert = 0;
-      let finalSerial = 0;
-      let finalOrigin = 0;
-
-      if (Array.isArray(result)) {
-        // Result is an array in the same order
-        finalPrice = Number(result[0] || 0);
-        finalCert = Number(result[1] || 0);
-        finalSerial = Number(result[2] || 0);
-        finalOrigin = Number(result[3] || 0);
-      } else if (result && typeof result === 'object') {
-        // Result is an object - try different key formats
-        const priceKey = typeof encryptedPrice === 'string' ? encryptedPrice : 
-                        (encryptedPrice instanceof Uint8Array ? Array.from(encryptedPrice).join(',') : '0');
-        const certKey = typeof encryptedCert === 'string' ? encryptedCert :
-                       (encryptedCert instanceof Uint8Array ? Array.from(encryptedCert).join(',') : '1');
-        const serialKey = typeof encryptedSerial === 'string' ? encryptedSerial :
-                         (encryptedSerial instanceof Uint8Array ? Array.from(encryptedSerial).join(',') : '2');
-        const originKey = typeof encryptedOrigin === 'string' ? encryptedOrigin :
-                         (encryptedOrigin instanceof Uint8Array ? Array.from(encryptedOrigin).join(',') : '3');
-
-        // Try all possible key formats
-        const allKeys = Object.keys(result);
-        const values = Object.values(result);
-        
-        // If we have 4 values, use them in order
-        if (values.length >= 4) {
-          finalPrice = Number(values[0] || 0);
-          finalCert = Number(values[1] || 0);
-          finalSerial = Number(values[2] || 0);
-          finalOrigin = Number(values[3] || 0);
-        } else {
-          // Try to match by key
-          finalPrice = Number(result[priceKey] || result[allKeys[0]] || 0);
-          finalCert = Number(result[certKey] || result[allKeys[1]] || 0);
-          finalSerial = Number(result[serialKey] || result[allKeys[2]] || 0);
-          finalOrigin = Number(result[originKey] || result[allKeys[3]] || 0);
-        }
-      }
-
-      setDecryptedData({
-        price: finalPrice,
-        cert: finalCert,
-        serial: finalSerial,
-        origin: finalOrigin,
-      });
+      // One handle per schema field, all decrypted under a single signature;
+      // fields not shared with a viewer have a zero handle
+      const fields = schema.fields
+        .map((field, i) => ({ field, handle: encryptedAttributes[i] }))
+        .filter(({ handle }) => handle !== zeroHash);
+      const values = await decryptHandles(getContractAddress(chainId), fields.map(({ handle }) => handle));
+
+      setDecryptedData(fields.map(({ field }, i) => ({
+        name: field.name,
+        value: formatAttribute(field.fieldType, values[i]),
+      })));
 
       toast.success("Decryption successful!");
       
     } catch (error: any) {
       console.error("Failed to decrypt:", error);
-      toast.error(error?.message || "Failed to decrypt data. Make sure you are the owner and have the correct permissions.");
+      toast.error(error?.message || "Failed to decrypt data. Make sure you are the owner or a granted viewer.");
     } finally {
       setIsDecrypting(false);
     }
@@ -227,20 +93,25 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Collectible Details</DialogTitle>
           <DialogDescription>
-            {isOwner ? "Decrypt and view encrypted metadata" : "Metadata is encrypted. Only the owner can decrypt."}
+            {isOwner
+              ? "Decrypt and view encrypted metadata"
+              : canDecrypt
+                ? "The owner has shared some fields of this collectible with you"
+                : "Metadata is encrypted. Only the owner can decrypt."}
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
-          {!isOwner && (
+          {!canDecrypt && !isLoadingMetadata && (
             <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground">
-              You are not the owner of this collectible. Encrypted metadata is only accessible to the current owner.
+              You are not the owner of this collectible. Encrypted metadata is only accessible to the current owner
+              and viewers they have granted access.
             </div>
           )}
-          {isOwner && isLoadingMetadata && (
+          {canDecrypt && isLoadingMetadata && (
             <div className="p-4 bg-muted rounded-lg text-sm text-muted-foreground text-center">
               Loading encrypted metadata...
             </div>
@@ -250,7 +121,7 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
               Encrypted metadata not available for this collectible.
             </div>
           )}
-          {isOwner && !isLoadingMetadata && encryptedMetadata && !decryptedData && (
+          {canDecrypt && !isLoadingMetadata && encryptedMetadata && !decryptedData && (
             <div className="space-y-2">
               <Button
                 onClick={handleDecrypt}
@@ -269,28 +140,25 @@ const DecryptDialog = ({ open, onOpenChange, tokenId, isOwner }: DecryptDialogPr
           {decryptedData && (
             <div className="space-y-2">
               <div className="p-4 bg-gradient-to-br from-cyan-500/10 to-purple-500/10 rounded-lg space-y-3 border border-cyan-500/20">
-                <h4 className="font-semibold text-lg mb-3">Decrypted Metadata</h4>
+                <h4 className="font-semibold text-lg mb-3">
+                  Decrypted Metadata{schema ? ` · ${schema.name}` : ""}
+                </h4>
                 <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Purchase Price:</span>
-                    <span className="font-medium">${decryptedData.price.toLocaleString()}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Certificate Number:</span>
-                    <span className="font-medium">{decryptedData.cert.toLocaleString()}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Serial Number:</span>
-                    <span className="font-medium">{decryptedData.serial.toLocaleString()}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Origin Code:</span>
-                    <span className="font-medium">{decryptedData.origin.toLocaleString()}</span>
-                  </div>
+                  {decryptedData.map((attribute) => (
+                    <div key={attribute.name} className="flex justify-between gap-4">
+                      <span className="text-muted-foreground">{attribute.name}:</span>
+                      <span className="font-medium font-mono break-all text-right">{attribute.value}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             </div>
           )}
+          {isOwner && schema && <ShareAccessPanel tokenId={tokenId} fields={schema.fields} />}
+          <AttestationPanel tokenId={tokenId} isOwner={isOwner} />
+          {schema && <DuplicateCheckPanel tokenId={tokenId} fields={schema.fields} />}
+          {schema && <ThresholdProofPanel tokenId={tokenId} isOwner={isOwner} fields={schema.fields} />}
+          <ProvenanceTimeline tokenId={tokenId} />
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,127 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useRelicChainVerify, useDuplicateCheck } from "@/hooks/useContract";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import type { AttributeField } from "@/lib/categories";
+import { Fingerprint } from "lucide-react";
+
+interface DuplicateCheckPanelProps {
+  tokenId: bigint;
+  fields: readonly AttributeField[];
+}
+
+// Mirrors RelicChainVerifyBase.DuplicateStatus
+const DuplicateStatus = {
+  Unchecked: 0,
+  Checking: 1,
+  Unique: 2,
+  Duplicate: 3,
+} as const;
+
+const DuplicateCheckPanel = ({ tokenId, fields }: DuplicateCheckPanelProps) => {
+  const { checkDuplicates, resetStalledDuplicateCheck, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const { data: check } = useDuplicateCheck(tokenId);
+  const uniqueFields = fields.filter((field) => field.unique);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Duplicate check updated");
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const handleCheck = async () => {
+    try {
+      await checkDuplicates(tokenId);
+      toast.info("Comparing against registered collectibles... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to check duplicates:", error);
+      toast.error(error?.message || "Failed to check duplicates");
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetStalledDuplicateCheck(tokenId);
+      toast.info("Resetting duplicate check... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to reset duplicate check:", error);
+      toast.error(error?.message || "Failed to reset duplicate check");
+    }
+  };
+
+  if (uniqueFields.length === 0 || !check) {
+    return null;
+  }
+
+  // A check waiting on the decryption oracle cannot be advanced any further
+  const isRevealing = check.status === DuplicateStatus.Checking && check.decryptionRequestId > BigInt(0);
+  const canRun = check.status === DuplicateStatus.Unchecked || (check.status === DuplicateStatus.Checking && !isRevealing);
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h4 className="font-semibold flex items-center gap-2">
+            <Fingerprint className="h-4 w-4" />
+            Duplicate check
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Compares the encrypted {uniqueFields.map((field) => field.name).join(", ")} against every collectible
+            already registered in this category. Only the verdict is ever decrypted.
+          </p>
+        </div>
+        {check.status === DuplicateStatus.Unchecked && <Badge variant="secondary">Unchecked</Badge>}
+        {check.status === DuplicateStatus.Checking && <Badge className="bg-yellow-500">Checking</Badge>}
+        {check.status === DuplicateStatus.Unique && <Badge className="bg-green-600">Unique</Badge>}
+        {check.status === DuplicateStatus.Duplicate && <Badge variant="destructive">Possible duplicate</Badge>}
+      </div>
+      {check.status === DuplicateStatus.Checking && (
+        <p className="text-xs text-muted-foreground">
+          {isRevealing
+            ? `Compared against ${check.checkedCount.toString()} collectibles. Waiting for the verdict to be decrypted...`
+            : `Compared against ${check.checkedCount.toString()} collectibles so far. Continue to check the next batch.`}
+        </p>
+      )}
+      {isRevealing && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            If the verdict is still not decrypted a day after the last batch, anyone can reset the check to unlock the
+            category and run it again.
+          </p>
+          <Button
+            onClick={handleReset}
+            disabled={isPending || isConfirming}
+            variant="outline"
+            className="w-full"
+          >
+            Reset Stalled Check
+          </Button>
+        </div>
+      )}
+      {canRun && (
+        <Button
+          onClick={handleCheck}
+          disabled={isPending || isConfirming}
+          variant="outline"
+          className="w-full"
+        >
+          {isPending
+            ? "Confirm in wallet..."
+            : isConfirming
+              ? "Checking..."
+              : check.status === DuplicateStatus.Checking
+                ? "Continue Check"
+                : "Run Duplicate Check"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default DuplicateCheckPanel;
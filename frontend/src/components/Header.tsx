@@ -1,20 +1,98 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
+import { Button } from "@/components/ui/button";
+import { usePendingWithdrawal, useRelicChainVerify, useAdmin, useHasRole, usePaused, Role } from "@/hooks/useContract";
+import { useAccount } from "wagmi";
+import { Link } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther } from "viem";
+import { BadgeCheck, Shield, Wallet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import AuthenticatorsDialog from "./AuthenticatorsDialog";
+import MarketplaceAdminDialog from "./MarketplaceAdminDialog";
 
 const Header = () => {
+  const { address, isConnected } = useAccount();
+  const { data: pendingWithdrawal, refetch: refetchWithdrawal } = usePendingWithdrawal();
+  const { data: admin } = useAdmin();
+  const { data: isFeeManager } = useHasRole(Role.FeeManager, address);
+  const { data: isPauser } = useHasRole(Role.Pauser, address);
+  const { data: paused } = usePaused();
+  const [showAuthenticators, setShowAuthenticators] = useState(false);
+  const [showAdmin, setShowAdmin] = useState(false);
+  const { withdraw, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("ETH claimed successfully!");
+      queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      refetchWithdrawal();
+    }
+  }, [isSuccess, queryClient, refetchWithdrawal]);
+
+  const handleClaim = async () => {
+    try {
+      await withdraw();
+      toast.info("Claiming ETH... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to claim:", error);
+      toast.error(error?.message || "Failed to claim ETH");
+    }
+  };
+
+  // Sale proceeds and refunds are credited to a ledger and pulled by the account owner
+  const claimable = typeof pendingWithdrawal === 'bigint' ? pendingWithdrawal : BigInt(0);
+  const isAdmin = !!admin && admin.toLowerCase() === address?.toLowerCase();
+
   return (
     <header className="fixed top-0 left-0 right-0 z-50 bg-background/80 backdrop-blur-lg border-b border-border">
       <div className="container mx-auto px-6 py-4 flex items-center justify-between">
-        <div>
+        <Link to="/">
           <h1 className="text-2xl font-bold bg-gradient-to-r from-primary to-cyan-500 bg-clip-text text-transparent">
             Relic Chain Verify
           </h1>
           <p className="text-xs text-muted-foreground">Own. Prove. Protect.</p>
+        </Link>
+        <div className="flex items-center gap-3">
+          {paused && <Badge variant="destructive">Marketplace paused</Badge>}
+          {(isAdmin || isFeeManager || isPauser) && (
+            <Button size="sm" variant="outline" onClick={() => setShowAdmin(true)}>
+              <Shield className="h-4 w-4 mr-2" />
+              Admin
+            </Button>
+          )}
+          {isAdmin && (
+            <Button size="sm" variant="outline" onClick={() => setShowAuthenticators(true)}>
+              <BadgeCheck className="h-4 w-4 mr-2" />
+              Authenticators
+            </Button>
+          )}
+          {isConnected && claimable > BigInt(0) && (
+            <Button
+              size="sm"
+              onClick={handleClaim}
+              disabled={isPending || isConfirming}
+              className="bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
+            >
+              <Wallet className="h-4 w-4 mr-2" />
+              {isPending || isConfirming ? "Claiming..." : `Claim ${formatEther(claimable)} ETH`}
+            </Button>
+          )}
+          <ConnectButton />
         </div>
-        <ConnectButton />
       </div>
+      <AuthenticatorsDialog open={showAuthenticators} onOpenChange={setShowAuthenticators} />
+      <MarketplaceAdminDialog
+        open={showAdmin}
+        onOpenChange={setShowAdmin}
+        isAdmin={isAdmin}
+        isFeeManager={!!isFeeManager}
+        isPauser={!!isPauser}
+      />
     </header>
   );
 };
 
 export default Header;
-
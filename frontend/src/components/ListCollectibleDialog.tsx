@@ -6,45 +6,44 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useFHE } from "@/hooks/useFHE";
-import { useRelicChainVerify } from "@/hooks/useContract";
+import { useRelicChainVerify, useCategorySchemas } from "@/hooks/useContract";
 import { useAccount, useChainId } from "wagmi";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { toast } from "sonner";
 import { getContractAddress } from "@/config/contracts";
-import { useQueryClient } from "@tanstack/react-query";
-
-// uint32 max value: 4294967295
-const UINT32_MAX = 4294967295;
+import {
+  ATTRIBUTE_TYPE_HINTS,
+  encodeAttribute,
+  validateAttribute,
+  type AttributeField,
+  type AttributeType,
+} from "@/lib/categories";
 
 const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   imageUri: z.string().url("Invalid URL"),
-  purchasePrice: z.string()
-    .regex(/^\d+$/, "Must be a number")
-    .refine((val) => {
-      const num = parseInt(val);
-      return !isNaN(num) && num >= 0 && num <= UINT32_MAX;
-    }, `Must be between 0 and ${UINT32_MAX.toLocaleString()}`),
-  certNumber: z.string()
-    .regex(/^\d+$/, "Must be a number")
-    .refine((val) => {
-      const num = parseInt(val);
-      return !isNaN(num) && num >= 0 && num <= UINT32_MAX;
-    }, `Must be between 0 and ${UINT32_MAX.toLocaleString()}`),
-  serialNumber: z.string()
-    .regex(/^\d+$/, "Must be a number")
-    .refine((val) => {
-      const num = parseInt(val);
-      return !isNaN(num) && num >= 0 && num <= UINT32_MAX;
-    }, `Must be between 0 and ${UINT32_MAX.toLocaleString()}`),
-  originCode: z.string()
-    .regex(/^\d+$/, "Must be a number")
-    .refine((val) => {
-      const num = parseInt(val);
-      return !isNaN(num) && num >= 0 && num <= UINT32_MAX;
-    }, `Must be between 0 and ${UINT32_MAX.toLocaleString()}`),
+  categoryId: z.string().min(1, "Category is required"),
+  attributes: z.array(z.string()),
+  // Mirrors RelicChainVerifyBase.MAX_ROYALTY_BPS (10%)
+  royaltyPercent: z
+    .string()
+    .refine((value) => value === "" || /^\d+(\.\d{1,2})?$/.test(value), "Use at most two decimals")
+    .refine((value) => value === "" || parseFloat(value) <= 10, "Royalty can be at most 10%"),
 });
 
+type FormValues = z.infer<typeof formSchema>;
+
+// Attribute rules depend on the selected category's schema
+const withAttributeRules = (fields: readonly AttributeField[]) =>
+  formSchema.superRefine((data, ctx) => {
+    fields.forEach((field, i) => {
+      const message = validateAttribute(field.fieldType, data.attributes[i] ?? "");
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["attributes", i], message });
+      }
+    });
+  });
+
 interface ListCollectibleDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -57,22 +56,34 @@ const ListCollectibleDialog = ({ open, onOpenChange }: ListCollectibleDialogProp
   const { listCollectible, isPending, isConfirming, isSuccess, hash, writeError, receiptError } = useRelicChainVerify();
   const [isEncrypting, setIsEncrypting] = useState(false);
   const [txHash, setTxHash] = useState<string | null>(null);
-  const queryClient = useQueryClient();
   
+  const { data: categories } = useCategorySchemas();
+
   const contractAddress = getContractAddress(chainId);
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const fieldsRef = useRef<readonly AttributeField[]>([]);
+  const form = useForm<FormValues>({
+    resolver: (values, context, options) => zodResolver(withAttributeRules(fieldsRef.current))(values, context, options),
     defaultValues: {
       name: "",
       imageUri: "",
-      purchasePrice: "",
-      certNumber: "",
-      serialNumber: "",
-      originCode: "",
+      categoryId: "",
+      attributes: [],
+      royaltyPercent: "",
     },
   });
 
+  const selectedCategoryId = form.watch("categoryId");
+  const category = categories?.find((schema) => schema.categoryId.toString() === selectedCategoryId);
+  const fields = category?.fields ?? [];
+  fieldsRef.current = fields;
+
+  // Each category has its own attributes, so switching clears the previous values
+  useEffect(() => {
+    form.setValue("attributes", fields.map(() => ""));
+    form.clearErrors("attributes");
+  }, [selectedCategoryId, fields.length, form]);
+
   // Auto-initialize FHE when dialog opens and wallet is connected
   useEffect(() => {
     if (open && isConnected && !isInitialized && !isInitializing) {
@@ -116,19 +127,14 @@ const ListCollectibleDialog = ({ open, onOpenChange }: ListCollectibleDialogProp
   // Handle successful transaction
   useEffect(() => {
     if (isSuccess && txHash) {
-      console.log('Transaction confirmed! Refreshing data...', txHash);
+      console.log('Transaction confirmed!', txHash);
       toast.success("Collectible listed successfully!");
       form.reset();
       setTxHash(null);
       onOpenChange(false);
-      // Invalidate all wagmi queries to force refresh
-      setTimeout(() => {
-        queryClient.invalidateQueries();
-        // Force a page refresh to ensure data is updated
-        window.location.reload();
-      }, 2000);
+      // The grid refreshes from the CollectibleListed event, see useContractEvents
     }
-  }, [isSuccess, txHash, form, onOpenChange, queryClient]);
+  }, [isSuccess, txHash, form, onOpenChange]);
 
   const handleInitializeFHE = async () => {
     if (!isConnected) {
@@ -143,46 +149,34 @@ const ListCollectibleDialog = ({ open, onOpenChange }: ListCollectibleDialogProp
     }
   };
 
-  const onSubmit = async (data: z.infer<typeof formSchema>) => {
+  const onSubmit = async (data: FormValues) => {
     if (!isInitialized) {
       toast.error("Please initialize FHE first");
       return;
     }
 
+    if (!category) {
+      toast.error("Please select a category");
+      return;
+    }
+
     try {
       setIsEncrypting(true);
       
-      // Validate values are within uint32 range before encryption
-      const purchasePrice = parseInt(data.purchasePrice);
-      const certNumber = parseInt(data.certNumber);
-      const serialNumber = parseInt(data.serialNumber);
-      const originCode = parseInt(data.originCode);
-      
-      if (purchasePrice < 0 || purchasePrice > UINT32_MAX ||
-          certNumber < 0 || certNumber > UINT32_MAX ||
-          serialNumber < 0 || serialNumber > UINT32_MAX ||
-          originCode < 0 || originCode > UINT32_MAX) {
-        toast.error(`All values must be between 0 and ${UINT32_MAX.toLocaleString()}`);
-        return;
-      }
-      
+      // Ranges and string lengths are enforced by the form schema
       const encrypted = await encryptCollectibleData(
         contractAddress,
-        purchasePrice,
-        certNumber,
-        serialNumber,
-        originCode
+        category.fields.map((field, i) => encodeAttribute(field.fieldType, data.attributes[i]))
       );
 
       console.log('Submitting transaction...');
       const txHash = await listCollectible(
         data.name,
         data.imageUri,
-        encrypted.encryptedPrice,
-        encrypted.encryptedCert,
-        encrypted.encryptedSerial,
-        encrypted.encryptedOrigin,
-        encrypted.inputProof
+        category.categoryId,
+        encrypted.encryptedAttributes,
+        encrypted.inputProof,
+        BigInt(Math.round(parseFloat(data.royaltyPercent || "0") * 100))
       );
 
       console.log('Transaction submitted, hash:', txHash);
@@ -222,59 +216,54 @@ const ListCollectibleDialog = ({ open, onOpenChange }: ListCollectibleDialogProp
             )}
           </div>
           <div className="space-y-2">
-            <Label htmlFor="purchasePrice">Purchase Price</Label>
-            <Input 
-              id="purchasePrice" 
-              type="number"
-              min="0"
-              max={UINT32_MAX}
-              {...form.register("purchasePrice")} 
-            />
-            <p className="text-xs text-muted-foreground">Max: {UINT32_MAX.toLocaleString()}</p>
-            {form.formState.errors.purchasePrice && (
-              <p className="text-sm text-destructive">{form.formState.errors.purchasePrice.message}</p>
-            )}
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="certNumber">Certificate Number</Label>
-            <Input 
-              id="certNumber" 
-              type="number"
-              min="0"
-              max={UINT32_MAX}
-              {...form.register("certNumber")} 
-            />
-            <p className="text-xs text-muted-foreground">Max: {UINT32_MAX.toLocaleString()}</p>
-            {form.formState.errors.certNumber && (
-              <p className="text-sm text-destructive">{form.formState.errors.certNumber.message}</p>
-            )}
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="serialNumber">Serial Number</Label>
-            <Input 
-              id="serialNumber" 
-              type="number"
-              min="0"
-              max={UINT32_MAX}
-              {...form.register("serialNumber")} 
-            />
-            <p className="text-xs text-muted-foreground">Max: {UINT32_MAX.toLocaleString()}</p>
-            {form.formState.errors.serialNumber && (
-              <p className="text-sm text-destructive">{form.formState.errors.serialNumber.message}</p>
+            <Label htmlFor="categoryId">Category</Label>
+            <select
+              id="categoryId"
+              {...form.register("categoryId")}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="">{categories ? "Select a category" : "Loading categories..."}</option>
+              {categories?.map((schema) => (
+                <option key={schema.categoryId.toString()} value={schema.categoryId.toString()}>
+                  {schema.name}
+                </option>
+              ))}
+            </select>
+            {form.formState.errors.categoryId && (
+              <p className="text-sm text-destructive">{form.formState.errors.categoryId.message}</p>
             )}
           </div>
+          {fields.map((field, i) => (
+            <div key={`${selectedCategoryId}-${i}`} className="space-y-2">
+              <Label htmlFor={`attribute-${i}`}>{field.name}</Label>
+              <Input
+                id={`attribute-${i}`}
+                {...form.register(`attributes.${i}`)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {ATTRIBUTE_TYPE_HINTS[field.fieldType as AttributeType]}
+              </p>
+              {form.formState.errors.attributes?.[i] && (
+                <p className="text-sm text-destructive">{form.formState.errors.attributes[i]?.message}</p>
+              )}
+            </div>
+          ))}
           <div className="space-y-2">
-            <Label htmlFor="originCode">Origin Code</Label>
-            <Input 
-              id="originCode" 
+            <Label htmlFor="royaltyPercent">Resale Royalty (%, optional)</Label>
+            <Input
+              id="royaltyPercent"
               type="number"
+              step="0.01"
               min="0"
-              max={UINT32_MAX}
-              {...form.register("originCode")} 
+              max="10"
+              {...form.register("royaltyPercent")}
+              placeholder="0"
             />
-            <p className="text-xs text-muted-foreground">Max: {UINT32_MAX.toLocaleString()}</p>
-            {form.formState.errors.originCode && (
-              <p className="text-sm text-destructive">{form.formState.errors.originCode.message}</p>
+            <p className="text-xs text-muted-foreground">
+              Paid to you on every future sale of this collectible, up to 10%. Cannot be changed after listing.
+            </p>
+            {form.formState.errors.royaltyPercent && (
+              <p className="text-sm text-destructive">{form.formState.errors.royaltyPercent.message}</p>
             )}
           </div>
           {!isInitialized && !isInitializing && (
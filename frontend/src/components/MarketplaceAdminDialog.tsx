@@ -0,0 +1,256 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  useRelicChainVerify,
+  useHasRole,
+  useMarketplaceFee,
+  useTreasuryBalance,
+  usePaused,
+  Role,
+} from "@/hooks/useContract";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther, isAddress, parseEther } from "viem";
+
+interface MarketplaceAdminDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isAdmin: boolean;
+  isFeeManager: boolean;
+  isPauser: boolean;
+}
+
+// Mirrors RelicChainVerifyBase.MAX_MARKETPLACE_FEE_BPS (10%)
+const MAX_FEE_PERCENT = 10;
+
+const MarketplaceAdminDialog = ({ open, onOpenChange, isAdmin, isFeeManager, isPauser }: MarketplaceAdminDialogProps) => {
+  const {
+    grantRole,
+    revokeRole,
+    setMarketplaceFee,
+    withdrawTreasury,
+    pause,
+    unpause,
+    isPending,
+    isConfirming,
+    isSuccess,
+  } = useRelicChainVerify();
+  const { data: feeBps } = useMarketplaceFee();
+  const { data: treasuryBalance } = useTreasuryBalance();
+  const { data: paused } = usePaused();
+  const [role, setRole] = useState<number>(Role.FeeManager);
+  const [account, setAccount] = useState("");
+  const { data: hasRole } = useHasRole(role, isAddress(account) ? account : undefined);
+  const [feePercent, setFeePercent] = useState("");
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Marketplace settings updated");
+      setAccount("");
+      setFeePercent("");
+      setAmount("");
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const handleRole = async () => {
+    if (!isAddress(account)) {
+      toast.error("Please enter a valid account address");
+      return;
+    }
+
+    try {
+      if (hasRole) {
+        await revokeRole(role, account);
+        toast.info("Revoking role... Please confirm in your wallet.");
+      } else {
+        await grantRole(role, account);
+        toast.info("Granting role... Please confirm in your wallet.");
+      }
+    } catch (error: any) {
+      console.error("Failed to update role:", error);
+      toast.error(error?.message || "Failed to update role");
+    }
+  };
+
+  const handleSetFee = async () => {
+    const percent = parseFloat(feePercent);
+    if (isNaN(percent) || percent < 0 || percent > MAX_FEE_PERCENT) {
+      toast.error(`The fee must be between 0% and ${MAX_FEE_PERCENT}%`);
+      return;
+    }
+
+    try {
+      await setMarketplaceFee(BigInt(Math.round(percent * 100)));
+      toast.info("Updating marketplace fee... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to set marketplace fee:", error);
+      toast.error(error?.message || "Failed to set marketplace fee");
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!isAddress(recipient)) {
+      toast.error("Please enter a valid recipient address");
+      return;
+    }
+
+    const balance = typeof treasuryBalance === 'bigint' ? treasuryBalance : BigInt(0);
+    const value = amount ? parseEther(amount) : balance;
+    if (value <= BigInt(0) || value > balance) {
+      toast.error("Amount exceeds the treasury balance");
+      return;
+    }
+
+    try {
+      await withdrawTreasury(recipient, value);
+      toast.info("Withdrawing from treasury... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to withdraw treasury:", error);
+      toast.error(error?.message || "Failed to withdraw treasury");
+    }
+  };
+
+  const handleTogglePause = async () => {
+    try {
+      if (paused) {
+        await unpause();
+        toast.info("Resuming marketplace... Please confirm in your wallet.");
+      } else {
+        await pause();
+        toast.info("Pausing marketplace... Please confirm in your wallet.");
+      }
+    } catch (error: any) {
+      console.error("Failed to toggle pause:", error);
+      toast.error(error?.message || "Failed to toggle pause");
+    }
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Marketplace Admin</DialogTitle>
+          <DialogDescription>
+            The fee is taken from every sale price into the treasury. Pausing blocks new listings, offers, approvals,
+            sales and bids; refunds and withdrawals keep working.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Status:</span>
+              {paused ? <Badge variant="destructive">Paused</Badge> : <Badge className="bg-green-600">Active</Badge>}
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Marketplace fee:</span>
+              <span className="font-semibold">{feeBps !== undefined ? `${Number(feeBps) / 100}%` : "..."}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Treasury:</span>
+              <span className="font-semibold">
+                {typeof treasuryBalance === 'bigint' ? `${formatEther(treasuryBalance)} ETH` : "..."}
+              </span>
+            </div>
+          </div>
+
+          {isPauser && (
+            <Button
+              onClick={handleTogglePause}
+              disabled={isBusy}
+              variant={paused ? "default" : "destructive"}
+              className="w-full"
+            >
+              {isBusy ? "Updating..." : paused ? "Unpause Marketplace" : "Pause Marketplace"}
+            </Button>
+          )}
+
+          {isFeeManager && (
+            <div className="space-y-3 border-t pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="feePercent">Marketplace Fee (%)</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="feePercent"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max={MAX_FEE_PERCENT}
+                    value={feePercent}
+                    onChange={(e) => setFeePercent(e.target.value)}
+                    placeholder={feeBps !== undefined ? `${Number(feeBps) / 100}` : "0"}
+                  />
+                  <Button onClick={handleSetFee} disabled={isBusy || !feePercent} variant="outline">
+                    Set Fee
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="treasuryRecipient">Withdraw Treasury To</Label>
+                <Input
+                  id="treasuryRecipient"
+                  value={recipient}
+                  onChange={(e) => setRecipient(e.target.value.trim())}
+                  placeholder="0x..."
+                />
+                <Input
+                  type="number"
+                  step="0.001"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="Amount in ETH (defaults to the full balance)"
+                />
+              </div>
+              <Button onClick={handleWithdraw} disabled={isBusy || !recipient} variant="outline" className="w-full">
+                Withdraw
+              </Button>
+            </div>
+          )}
+
+          {isAdmin && (
+            <div className="space-y-3 border-t pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="roleAccount">Roles</Label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(Number(e.target.value))}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value={Role.FeeManager}>Fee manager</option>
+                  <option value={Role.Pauser}>Pauser</option>
+                </select>
+                <Input
+                  id="roleAccount"
+                  value={account}
+                  onChange={(e) => setAccount(e.target.value.trim())}
+                  placeholder="0x..."
+                />
+              </div>
+              <Button
+                onClick={handleRole}
+                disabled={isBusy || !isAddress(account) || hasRole === undefined}
+                variant="outline"
+                className="w-full"
+              >
+                {hasRole ? "Revoke Role" : "Grant Role"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MarketplaceAdminDialog;
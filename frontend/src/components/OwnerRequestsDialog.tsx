@@ -1,13 +1,15 @@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { useRelicChainVerify, usePurchaseRequest, useOwnerPendingRequests, useCollectibleInfo } from "@/hooks/useContract";
-import { useAccount } from "wagmi";
+import { useRelicChainVerify, usePurchaseRequestsBatch, useOwnerPendingRequests, MAX_PAGE_SIZE, useCollectibleInfo } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useAccount, useChainId } from "wagmi";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { useQueryClient } from "@tanstack/react-query";
-import { formatEther } from "viem";
-import { Check, X, Clock } from "lucide-react";
+import { formatEther, formatUnits } from "viem";
+import { getContractAddress } from "@/config/contracts";
+import { Check, X, Clock, Eye } from "lucide-react";
 
 interface OwnerRequestsDialogProps {
   open: boolean;
@@ -17,9 +19,19 @@ interface OwnerRequestsDialogProps {
 const OwnerRequestsDialog = ({ open, onOpenChange }: OwnerRequestsDialogProps) => {
   const { address } = useAccount();
   const { approvePurchase, rejectPurchase, isPending, isSuccess } = useRelicChainVerify();
-  const { data: requestIds, refetch: refetchRequests } = useOwnerPendingRequests(address);
+  const { data: allRequestIds, refetch: refetchRequests } = useOwnerPendingRequests(address);
+  // The batch view reads one page at a time; older requests show once these are answered
+  const requestIds = allRequestIds?.slice(0, MAX_PAGE_SIZE);
+  const { data: requests, isLoading: isLoadingRequests, isError: isRequestsError } = usePurchaseRequestsBatch(requestIds);
+  const { initializeFHE, isInitialized, isInitializing } = useFHE();
   const queryClient = useQueryClient();
 
+  useEffect(() => {
+    if (open && !isInitialized && !isInitializing) {
+      initializeFHE();
+    }
+  }, [open, isInitialized, isInitializing, initializeFHE]);
+
   useEffect(() => {
     if (isSuccess) {
       // Refresh requests after approval/rejection
@@ -56,7 +68,7 @@ const OwnerRequestsDialog = ({ open, onOpenChange }: OwnerRequestsDialogProps) =
         <DialogHeader>
           <DialogTitle>Pending Purchase Requests</DialogTitle>
           <DialogDescription>
-            Review and respond to purchase requests for your collectibles
+            Review and respond to purchase requests for your collectibles. Offer amounts are encrypted; decrypt them to compare.
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
@@ -72,10 +84,13 @@ const OwnerRequestsDialog = ({ open, onOpenChange }: OwnerRequestsDialogProps) =
           )}
           {requestIds && requestIds.length > 0 && (
             <div className="space-y-3">
-              {requestIds.map((requestId) => (
+              {requestIds.map((requestId, i) => (
                 <PurchaseRequestItem
                   key={requestId.toString()}
                   requestId={requestId}
+                  requestData={requests?.[i]}
+                  isLoading={isLoadingRequests}
+                  isError={isRequestsError}
                   onApprove={handleApprove}
                   onReject={handleReject}
                   isPending={isPending}
@@ -91,19 +106,34 @@ const OwnerRequestsDialog = ({ open, onOpenChange }: OwnerRequestsDialogProps) =
 
 interface PurchaseRequestItemProps {
   requestId: bigint;
+  requestData?: unknown;
+  isLoading: boolean;
+  isError: boolean;
   onApprove: (requestId: bigint) => void;
   onReject: (requestId: bigint) => void;
   isPending: boolean;
 }
 
-const PurchaseRequestItem = ({ requestId, onApprove, onReject, isPending }: PurchaseRequestItemProps) => {
-  const { data: requestData, isLoading, isError } = usePurchaseRequest(requestId);
+const PurchaseRequestItem = ({
+  requestId,
+  requestData,
+  isLoading,
+  isError,
+  onApprove,
+  onReject,
+  isPending,
+}: PurchaseRequestItemProps) => {
+  const chainId = useChainId();
+  const { ensureInitialized, decryptHandles } = useFHE();
+  const [decryptedOffer, setDecryptedOffer] = useState<bigint | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
   
   // Handle different data formats: could be array (tuple) or object (struct)
   let reqId: bigint | undefined;
   let tokId: bigint | undefined;
   let buyer: string | undefined;
   let offerAmount: bigint | undefined;
+  let encryptedOffer: string | undefined;
   let isPendingReq: boolean | undefined;
   let isApproved: boolean | undefined;
   let timestamp: bigint | undefined;
@@ -111,7 +141,7 @@ const PurchaseRequestItem = ({ requestId, onApprove, onReject, isPending }: Purc
   if (requestData) {
     // Check if it's an array (tuple format from contract)
     if (Array.isArray(requestData)) {
-      [reqId, tokId, buyer, offerAmount, isPendingReq, isApproved, timestamp] = requestData as any[];
+      [reqId, tokId, buyer, offerAmount, encryptedOffer, isPendingReq, isApproved, timestamp] = requestData as any[];
     } 
     // Check if it's an object (struct format)
     else if (typeof requestData === 'object' && requestData !== null) {
@@ -122,6 +152,7 @@ const PurchaseRequestItem = ({ requestId, onApprove, onReject, isPending }: Purc
       tokId = struct.tokenId;
       buyer = struct.buyer;
       offerAmount = struct.offerAmount;
+      encryptedOffer = struct.encryptedOffer;
       isPendingReq = struct.isPending;
       isApproved = struct.isApproved;
       timestamp = struct.timestamp;
@@ -131,6 +162,25 @@ const PurchaseRequestItem = ({ requestId, onApprove, onReject, isPending }: Purc
   const tokenId = tokId || BigInt(0);
   const { data: collectibleInfo } = useCollectibleInfo(tokenId);
 
+  const handleDecryptOffer = async () => {
+    if (!encryptedOffer) {
+      return;
+    }
+
+    try {
+      setIsDecrypting(true);
+      await ensureInitialized();
+      toast.info("Decrypting offer... Please sign the EIP712 message in your wallet.");
+      const [offerGwei] = await decryptHandles(getContractAddress(chainId), [encryptedOffer]);
+      setDecryptedOffer(offerGwei);
+    } catch (error: any) {
+      console.error("Failed to decrypt offer:", error);
+      toast.error(error?.message || "Failed to decrypt offer");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
   if (isLoading || !requestData) {
     return (
       <div className="p-4 border rounded-lg">
@@ -180,8 +230,25 @@ const PurchaseRequestItem = ({ requestId, onApprove, onReject, isPending }: Purc
           </span>
         </div>
         <div className="flex justify-between">
+          <span className="text-muted-foreground">Escrowed (max):</span>
+          <span>{offerAmountEth} ETH</span>
+        </div>
+        <div className="flex justify-between items-center">
           <span className="text-muted-foreground">Offer Amount:</span>
-          <span className="font-semibold text-cyan-500">{offerAmountEth} ETH</span>
+          {decryptedOffer !== null ? (
+            <span className="font-semibold text-cyan-500">{formatUnits(decryptedOffer, 9)} ETH</span>
+          ) : (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={handleDecryptOffer}
+              disabled={isDecrypting}
+            >
+              <Eye className="h-3.5 w-3.5 mr-1" />
+              {isDecrypting ? "Decrypting..." : "Decrypt"}
+            </Button>
+          )}
         </div>
       </div>
       <div className="flex gap-2 pt-2">
@@ -0,0 +1,82 @@
+import { Badge } from "@/components/ui/badge";
+import { useProvenance, TransferKind, type ProvenanceEntry } from "@/hooks/useContract";
+import { useChainId, useChains } from "wagmi";
+import { formatEther } from "viem";
+import { History } from "lucide-react";
+
+interface ProvenanceTimelineProps {
+  tokenId: bigint;
+}
+
+export const KIND_LABELS: Record<number, string> = {
+  [TransferKind.Transfer]: "Transfer",
+  [TransferKind.Mint]: "Listed",
+  [TransferKind.Sale]: "Offer accepted",
+  [TransferKind.BuyNow]: "Bought now",
+  [TransferKind.Auction]: "Auction won",
+  [TransferKind.Gift]: "Gift",
+};
+
+const shortAddress = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+
+const describeEntry = (entry: ProvenanceEntry) => {
+  if (entry.kind === TransferKind.Mint) return `Registered by ${shortAddress(entry.to)}`;
+  return `${shortAddress(entry.from)} → ${shortAddress(entry.to)}`;
+};
+
+const ProvenanceTimeline = ({ tokenId }: ProvenanceTimelineProps) => {
+  const chainId = useChainId();
+  const chains = useChains();
+  const { data: entries, isLoading } = useProvenance(tokenId);
+  // The local Hardhat node has no block explorer
+  const explorerUrl = chainId === 31337 ? undefined : chains.find((chain) => chain.id === chainId)?.blockExplorers?.default.url;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="font-semibold flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Provenance
+      </h4>
+      {isLoading && <p className="text-xs text-muted-foreground">Loading history...</p>}
+      {entries && entries.length > 0 && (
+        <ol className="relative border-l border-border ml-2 space-y-4">
+          {[...entries].reverse().map((entry, i) => (
+            <li key={`${entry.blockNumber}-${i}`} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-cyan-500" />
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="font-medium">{KIND_LABELS[entry.kind] ?? "Transfer"}</span>
+                {entry.price > BigInt(0) && (
+                  <Badge variant="secondary">{formatEther(entry.price)} ETH</Badge>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground font-mono">{describeEntry(entry)}</p>
+              <p className="text-xs text-muted-foreground">
+                {new Date(Number(entry.timestamp) * 1000).toLocaleString()} · Block {entry.blockNumber.toString()}
+                {entry.kind === TransferKind.Sale && ` · Offer #${entry.requestId.toString()}`}
+                {entry.kind === TransferKind.Auction && ` · Auction #${entry.requestId.toString()}`}
+              </p>
+              {entry.txHash && (
+                explorerUrl ? (
+                  <a
+                    href={`${explorerUrl}/tx/${entry.txHash}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="text-xs text-cyan-500 font-mono hover:underline"
+                  >
+                    {entry.txHash.slice(0, 10)}...{entry.txHash.slice(-8)}
+                  </a>
+                ) : (
+                  <p className="text-xs text-cyan-500 font-mono">
+                    {entry.txHash.slice(0, 10)}...{entry.txHash.slice(-8)}
+                  </p>
+                )
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default ProvenanceTimeline;
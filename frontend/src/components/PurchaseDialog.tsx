@@ -2,34 +2,78 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useRelicChainVerify } from "@/hooks/useContract";
+import { useRelicChainVerify, useDuplicateCheck, useRoyaltyInfo, useMarketplaceFee, usePaused } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useChainId } from "wagmi";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { useQueryClient } from "@tanstack/react-query";
+import { formatEther, parseEther, parseGwei } from "viem";
+import { getContractAddress } from "@/config/contracts";
+import { Zap, Lock, AlertTriangle } from "lucide-react";
+import VerifyClaimPanel from "./VerifyClaimPanel";
 
 interface PurchaseDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   tokenId: bigint;
   collectibleName: string;
+  owner: string;
+  salePrice?: bigint;
 }
 
-const PurchaseDialog = ({ open, onOpenChange, tokenId, collectibleName }: PurchaseDialogProps) => {
-  const { requestPurchase, isPending, isSuccess, hash } = useRelicChainVerify();
+const PurchaseDialog = ({
+  open,
+  onOpenChange,
+  tokenId,
+  collectibleName,
+  owner,
+  salePrice = BigInt(0),
+}: PurchaseDialogProps) => {
+  const chainId = useChainId();
+  const { requestPurchase, buyNow, isPending, isSuccess, hash } = useRelicChainVerify();
+  const { initializeFHE, isInitialized, isInitializing, encryptOffer } = useFHE();
+  const { data: duplicateCheck } = useDuplicateCheck(tokenId);
+  const { data: paused } = usePaused();
   const [offerAmount, setOfferAmount] = useState("");
+  const [escrowAmount, setEscrowAmount] = useState("");
+  const [isEncrypting, setIsEncrypting] = useState(false);
+  const [expiryDays, setExpiryDays] = useState("");
+  const [isBuyingNow, setIsBuyingNow] = useState(false);
   const queryClient = useQueryClient();
 
+  useEffect(() => {
+    if (open && !isInitialized && !isInitializing) {
+      initializeFHE();
+    }
+  }, [open, isInitialized, isInitializing, initializeFHE]);
+
   useEffect(() => {
     if (isSuccess) {
-      toast.success("Purchase request submitted! Waiting for owner approval...");
+      toast.success(isBuyingNow
+        ? "Purchase complete! You can now decrypt the metadata."
+        : "Purchase request submitted! Waiting for owner approval...");
       setOfferAmount("");
+      setEscrowAmount("");
+      setExpiryDays("");
       onOpenChange(false);
       // Invalidate queries to refresh data
       setTimeout(() => {
         queryClient.invalidateQueries({ queryKey: ['readContract'] });
       }, 2000);
     }
-  }, [isSuccess, onOpenChange, queryClient]);
+  }, [isSuccess, isBuyingNow, onOpenChange, queryClient]);
+
+  const handleBuyNow = async () => {
+    try {
+      setIsBuyingNow(true);
+      await buyNow(tokenId, salePrice);
+      toast.info("Buying collectible... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to buy now:", error);
+      toast.error(error?.message || "Failed to buy collectible");
+    }
+  };
 
   const handleRequestPurchase = async () => {
     if (!offerAmount || parseFloat(offerAmount) <= 0) {
@@ -37,18 +81,40 @@ const PurchaseDialog = ({ open, onOpenChange, tokenId, collectibleName }: Purcha
       return;
     }
 
+    // The escrow defaults to the offer; escrowing more hides the offer better
+    const escrow = escrowAmount || offerAmount;
+    if (parseEther(escrow) < parseEther(offerAmount)) {
+      toast.error("Escrow must cover your offer, otherwise the offer is capped at the escrow");
+      return;
+    }
+
+    if (expiryDays && parseFloat(expiryDays) <= 0) {
+      toast.error("Please enter a valid expiry period");
+      return;
+    }
+
     try {
-      await requestPurchase(tokenId, offerAmount);
+      setIsBuyingNow(false);
+      // Offers without an expiry stay open until the owner responds or the buyer cancels
+      const expiresAt = expiryDays
+        ? BigInt(Math.floor(Date.now() / 1000 + parseFloat(expiryDays) * 86400))
+        : BigInt(0);
+      setIsEncrypting(true);
+      const { encryptedOffer, inputProof } = await encryptOffer(getContractAddress(chainId), parseGwei(offerAmount));
+      setIsEncrypting(false);
+      await requestPurchase(tokenId, escrow, encryptedOffer, inputProof, expiresAt);
       toast.info("Submitting purchase request... Please confirm in your wallet.");
     } catch (error: any) {
       console.error("Failed to request purchase:", error);
       toast.error(error?.message || "Failed to submit purchase request");
+    } finally {
+      setIsEncrypting(false);
     }
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Request to Purchase {collectibleName}</DialogTitle>
           <DialogDescription>
@@ -56,6 +122,42 @@ const PurchaseDialog = ({ open, onOpenChange, tokenId, collectibleName }: Purcha
           </DialogDescription>
         </DialogHeader>
         <div className="space-y-4">
+          {/* DuplicateStatus.Duplicate = 3 */}
+          {duplicateCheck?.status === 3 && (
+            <div className="p-3 rounded-lg border border-destructive/40 bg-destructive/10 text-sm text-destructive flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>
+                A unique field of this collectible matches one registered earlier. It may be a counterfeit or a
+                duplicate listing.
+              </span>
+            </div>
+          )}
+          {paused && (
+            <div className="p-3 rounded-lg border border-destructive/40 bg-destructive/10 text-sm text-destructive">
+              The marketplace is paused. New offers and purchases are disabled until it resumes.
+            </div>
+          )}
+          <VerifyClaimPanel tokenId={tokenId} />
+          {salePrice > BigInt(0) && (
+            <div className="p-4 bg-gradient-to-br from-cyan-500/10 to-purple-500/10 rounded-lg space-y-3 border border-cyan-500/20">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Asking Price:</span>
+                <span className="font-semibold text-cyan-500">{formatEther(salePrice)} ETH</span>
+              </div>
+              <SaleSplit tokenId={tokenId} seller={owner} price={salePrice} />
+              <Button
+                onClick={handleBuyNow}
+                disabled={isPending || !!paused}
+                className="w-full bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
+              >
+                <Zap className="h-4 w-4 mr-2" />
+                {isPending && isBuyingNow ? "Buying..." : "Buy Now"}
+              </Button>
+              <p className="text-xs text-muted-foreground">
+                Settles instantly at the asking price. Or make a different offer below.
+              </p>
+            </div>
+          )}
           <div className="space-y-2">
             <Label htmlFor="offerAmount">Offer Amount (ETH)</Label>
             <Input
@@ -66,16 +168,48 @@ const PurchaseDialog = ({ open, onOpenChange, tokenId, collectibleName }: Purcha
               onChange={(e) => setOfferAmount(e.target.value)}
               placeholder="0.1"
             />
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Lock className="h-3 w-3 flex-shrink-0" />
+              Encrypted: only you and the owner can see this amount.
+            </p>
+            <SaleSplit tokenId={tokenId} seller={owner} price={parseOffer(offerAmount)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="escrowAmount">Escrow (ETH, public, optional)</Label>
+            <Input
+              id="escrowAmount"
+              type="number"
+              step="0.001"
+              value={escrowAmount}
+              onChange={(e) => setEscrowAmount(e.target.value)}
+              placeholder={offerAmount || "Defaults to your offer"}
+            />
             <p className="text-xs text-muted-foreground">
               Your ETH will be held in escrow until the owner approves or rejects your request.
+              Anything above your offer is returned on approval. Refunds are credited to your balance and can be claimed from the header.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="expiryDays">Offer Expires After (days, optional)</Label>
+            <Input
+              id="expiryDays"
+              type="number"
+              step="1"
+              min="1"
+              value={expiryDays}
+              onChange={(e) => setExpiryDays(e.target.value)}
+              placeholder="No expiry"
+            />
+            <p className="text-xs text-muted-foreground">
+              You can cancel a pending offer at any time. Once it expires, anyone can trigger the refund.
             </p>
           </div>
           <Button
             onClick={handleRequestPurchase}
-            disabled={isPending || !offerAmount}
+            disabled={isPending || isEncrypting || !isInitialized || !offerAmount || !!paused}
             className="w-full"
           >
-            {isPending ? "Submitting Request..." : "Submit Purchase Request"}
+            {isEncrypting ? "Encrypting Offer..." : isPending && !isBuyingNow ? "Submitting Request..." : "Submit Purchase Request"}
           </Button>
           {hash && (
             <p className="text-xs text-muted-foreground text-center">
@@ -88,6 +222,60 @@ const PurchaseDialog = ({ open, onOpenChange, tokenId, collectibleName }: Purcha
   );
 };
 
+// Invalid or partial input shows no split rather than throwing
+const parseOffer = (amount: string) => {
+  try {
+    return amount ? parseEther(amount) : BigInt(0);
+  } catch {
+    return BigInt(0);
+  }
+};
+
+interface SaleSplitProps {
+  tokenId: bigint;
+  seller: string;
+  price: bigint;
+}
+
+// The marketplace fee and the original lister's royalty are deducted from the seller's proceeds;
+// no royalty is taken when the lister sells
+const SaleSplit = ({ tokenId, seller, price }: SaleSplitProps) => {
+  const { data: royalty } = useRoyaltyInfo(tokenId, price);
+  const { data: feeBps } = useMarketplaceFee();
+
+  if (price <= BigInt(0)) {
+    return null;
+  }
+
+  const fee = (price * BigInt(feeBps ?? 0)) / BigInt(10000);
+  const [receiver, royaltyAmount] = royalty ?? [undefined, BigInt(0)];
+  const paysRoyalty = !!receiver && royaltyAmount > BigInt(0) && receiver.toLowerCase() !== seller.toLowerCase();
+  if (fee === BigInt(0) && !paysRoyalty) {
+    return null;
+  }
+
+  return (
+    <div className="text-xs text-muted-foreground space-y-1">
+      {fee > BigInt(0) && (
+        <div className="flex justify-between">
+          <span>Marketplace fee ({Number(feeBps) / 100}%):</span>
+          <span>{formatEther(fee)} ETH</span>
+        </div>
+      )}
+      {paysRoyalty && (
+        <div className="flex justify-between">
+          <span>Royalty to original lister ({receiver.slice(0, 6)}...{receiver.slice(-4)}):</span>
+          <span>{formatEther(royaltyAmount)} ETH</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span>Seller receives:</span>
+        <span>{formatEther(price - fee - (paysRoyalty ? royaltyAmount : BigInt(0)))} ETH</span>
+      </div>
+    </div>
+  );
+};
+
 export default PurchaseDialog;
 
 
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { useIndexerAvailable, useIndexedSales } from "@/hooks/useIndexer";
+import { formatEther } from "viem";
+import { TrendingUp } from "lucide-react";
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+const SHOWN_SALES = 5;
+
+const shortAddress = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+
+// Needs the event indexer; the contract cannot answer time-range queries
+const RecentSales = () => {
+  const available = useIndexerAvailable();
+  // Fixed on mount so the query key stays stable between polls
+  const [since] = useState(() => Math.floor(Date.now() / 1000) - WEEK_SECONDS);
+  const { data: sales } = useIndexedSales({ since, limit: 500 });
+
+  if (!available || !sales) {
+    return null;
+  }
+
+  const volume = sales.reduce((total, sale) => total + sale.price, BigInt(0));
+
+  return (
+    <section className="pb-8">
+      <div className="container mx-auto px-6">
+        <div className="max-w-3xl mx-auto p-6 border rounded-lg space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <h4 className="font-semibold flex items-center gap-2">
+              <TrendingUp className="h-4 w-4" />
+              Sales in the last 7 days
+            </h4>
+            <div className="flex gap-2">
+              <Badge variant="secondary">{sales.length} sales</Badge>
+              <Badge variant="secondary">{formatEther(volume)} ETH</Badge>
+            </div>
+          </div>
+          {sales.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No sales this week yet.</p>
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {sales.slice(0, SHOWN_SALES).map((sale) => (
+                <li key={sale.txHash} className="flex items-center justify-between gap-2">
+                  <span>
+                    Token #{sale.tokenId.toString()}
+                    <span className="text-muted-foreground font-mono text-xs">
+                      {" "}
+                      {shortAddress(sale.seller)} → {shortAddress(sale.buyer)}
+                    </span>
+                  </span>
+                  <span className="text-right">
+                    <span className="font-semibold text-cyan-500">{formatEther(sale.price)} ETH</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(sale.soldAt * 1000).toLocaleString()}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RecentSales;
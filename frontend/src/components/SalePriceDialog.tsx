@@ -0,0 +1,112 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify } from "@/hooks/useContract";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { formatEther } from "viem";
+
+interface SalePriceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tokenId: bigint;
+  collectibleName: string;
+  salePrice: bigint;
+}
+
+const SalePriceDialog = ({ open, onOpenChange, tokenId, collectibleName, salePrice }: SalePriceDialogProps) => {
+  const { setSalePrice, cancelSale, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const [price, setPrice] = useState("");
+  const queryClient = useQueryClient();
+  const isForSale = salePrice > BigInt(0);
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Listing updated!");
+      setPrice("");
+      onOpenChange(false);
+      // Invalidate queries to refresh data
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, onOpenChange, queryClient]);
+
+  const handleSetPrice = async () => {
+    if (!price || parseFloat(price) <= 0) {
+      toast.error("Please enter a valid price");
+      return;
+    }
+
+    try {
+      await setSalePrice(tokenId, price);
+      toast.info("Setting asking price... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to set sale price:", error);
+      toast.error(error?.message || "Failed to set sale price");
+    }
+  };
+
+  const handleCancelSale = async () => {
+    try {
+      await cancelSale(tokenId);
+      toast.info("Removing listing... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to cancel sale:", error);
+      toast.error(error?.message || "Failed to cancel sale");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sell {collectibleName}</DialogTitle>
+          <DialogDescription>
+            Set a public asking price. Buyers who pay it receive the collectible immediately, without your approval.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {isForSale && (
+            <div className="p-4 bg-muted rounded-lg text-sm flex justify-between">
+              <span className="text-muted-foreground">Current asking price:</span>
+              <span className="font-semibold text-cyan-500">{formatEther(salePrice)} ETH</span>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="salePrice">{isForSale ? "New Asking Price (ETH)" : "Asking Price (ETH)"}</Label>
+            <Input
+              id="salePrice"
+              type="number"
+              step="0.001"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="1.0"
+            />
+          </div>
+          <Button
+            onClick={handleSetPrice}
+            disabled={isPending || isConfirming || !price}
+            className="w-full"
+          >
+            {isPending || isConfirming ? "Updating..." : isForSale ? "Update Price" : "List for Sale"}
+          </Button>
+          {isForSale && (
+            <Button
+              variant="outline"
+              onClick={handleCancelSale}
+              disabled={isPending || isConfirming}
+              className="w-full"
+            >
+              Remove Listing
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SalePriceDialog;
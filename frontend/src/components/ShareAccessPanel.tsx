@@ -0,0 +1,196 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify, useViewerGrants } from "@/hooks/useContract";
+import { useAccount } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { isAddress } from "viem";
+import { Share2, X } from "lucide-react";
+import type { AttributeField } from "@/lib/categories";
+
+interface ShareAccessPanelProps {
+  tokenId: bigint;
+  fields: readonly AttributeField[];
+}
+
+const DEFAULT_GRANT_DAYS = 7;
+
+// Value for a datetime-local input, in local time
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const ShareAccessPanel = ({ tokenId, fields }: ShareAccessPanelProps) => {
+  const { address } = useAccount();
+  const { grantViewer, revokeViewer, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const { data: grants } = useViewerGrants(tokenId);
+  const [viewer, setViewer] = useState("");
+  const [selectedFields, setSelectedFields] = useState<number[]>([]);
+  const [expiry, setExpiry] = useState(() =>
+    toDateTimeLocal(new Date(Date.now() + DEFAULT_GRANT_DAYS * 24 * 60 * 60 * 1000))
+  );
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Access updated");
+      setViewer("");
+      setSelectedFields([]);
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const toggleField = (index: number) => {
+    setSelectedFields((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index]
+    );
+  };
+
+  const fieldNames = (fieldMask: bigint) =>
+    fields.filter((_, i) => (fieldMask >> BigInt(i)) & BigInt(1)).map((field) => field.name).join(", ");
+
+  const handleGrant = async () => {
+    if (!isAddress(viewer)) {
+      toast.error("Please enter a valid viewer address");
+      return;
+    }
+
+    if (viewer.toLowerCase() === address?.toLowerCase()) {
+      toast.error("You can already decrypt your own collectible");
+      return;
+    }
+
+    if (selectedFields.length === 0) {
+      toast.error("Select at least one field to share");
+      return;
+    }
+
+    const expiresAt = Math.floor(new Date(expiry).getTime() / 1000);
+    if (!expiresAt || expiresAt * 1000 <= Date.now()) {
+      toast.error("Expiry must be in the future");
+      return;
+    }
+
+    const fieldMask = selectedFields.reduce((mask, i) => mask | (BigInt(1) << BigInt(i)), BigInt(0));
+
+    try {
+      await grantViewer(tokenId, viewer, fieldMask, BigInt(expiresAt));
+      toast.info("Granting access... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to grant access:", error);
+      toast.error(error?.message || "Failed to grant access");
+    }
+  };
+
+  const handleRevoke = async (grantee: `0x${string}`) => {
+    try {
+      await revokeViewer(tokenId, grantee);
+      toast.info("Revoking access... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to revoke access:", error);
+      toast.error(error?.message || "Failed to revoke access");
+    }
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2">
+          <Share2 className="h-4 w-4" />
+          Share access
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          Let an insurer, appraiser or auction house decrypt selected fields until a deadline. Access ends on expiry,
+          on revocation and when the collectible changes hands.
+        </p>
+      </div>
+      {grants && grants.length > 0 && (
+        <div className="space-y-2">
+          {grants.map((grant) => {
+            const isExpired = Number(grant.expiresAt) * 1000 <= Date.now();
+            return (
+              <div key={grant.viewer} className="p-3 border rounded-lg flex items-start justify-between gap-2 text-sm">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono">{grant.viewer.slice(0, 6)}...{grant.viewer.slice(-4)}</span>
+                    {isExpired ? (
+                      <Badge variant="secondary">Expired</Badge>
+                    ) : (
+                      <Badge className="bg-green-600">Active</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{fieldNames(grant.fieldMask)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Until {new Date(Number(grant.expiresAt) * 1000).toLocaleString()}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRevoke(grant.viewer)}
+                  disabled={isBusy}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor="viewer">Viewer Address</Label>
+          <Input
+            id="viewer"
+            value={viewer}
+            onChange={(e) => setViewer(e.target.value.trim())}
+            placeholder="0x..."
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Fields</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {fields.map((field, i) => (
+              <label key={field.name} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selectedFields.includes(i)}
+                  onChange={() => toggleField(i)}
+                />
+                {field.name}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="viewerExpiry">Expires</Label>
+          <Input
+            id="viewerExpiry"
+            type="datetime-local"
+            value={expiry}
+            onChange={(e) => setExpiry(e.target.value)}
+          />
+        </div>
+        <Button
+          onClick={handleGrant}
+          disabled={isBusy || !viewer || selectedFields.length === 0}
+          className="w-full"
+          variant="outline"
+        >
+          {isPending ? "Confirm in wallet..." : isConfirming ? "Updating access..." : "Grant Access"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ShareAccessPanel;
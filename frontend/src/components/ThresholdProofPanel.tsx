@@ -0,0 +1,311 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify, useTokenThresholdProofs, useThresholdProof } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useAccount, useChainId } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { getContractAddress } from "@/config/contracts";
+import { AttributeType, type AttributeField } from "@/lib/categories";
+import { Scale } from "lucide-react";
+
+interface ThresholdProofPanelProps {
+  tokenId: bigint;
+  isOwner: boolean;
+  fields: readonly AttributeField[];
+}
+
+// Mirrors RelicChainVerifyBase.ProofStatus
+const ProofStatus = {
+  Requested: 1,
+  Answered: 2,
+  Publishing: 3,
+  Published: 4,
+  Declined: 5,
+} as const;
+
+// Only these types support ordered comparisons on encrypted values
+const FIELD_MAX: Partial<Record<number, bigint>> = {
+  [AttributeType.Uint64]: (BigInt(1) << BigInt(64)) - BigInt(1),
+  [AttributeType.Uint128]: (BigInt(1) << BigInt(128)) - BigInt(1),
+};
+
+const isWholeNumber = (value: string) => /^\d+$/.test(value);
+
+const describeRange = (minValue: bigint, maxValue: bigint, fieldMax: bigint | undefined) => {
+  if (maxValue === fieldMax) return `at least ${minValue.toLocaleString()}`;
+  if (minValue === BigInt(0)) return `at most ${maxValue.toLocaleString()}`;
+  return `between ${minValue.toLocaleString()} and ${maxValue.toLocaleString()}`;
+};
+
+const ThresholdProofPanel = ({ tokenId, isOwner, fields }: ThresholdProofPanelProps) => {
+  const { requestThresholdProof, isPending, isConfirming, isSuccess } = useRelicChainVerify();
+  const { data: proofIds } = useTokenThresholdProofs(tokenId);
+  const comparableFields = fields
+    .map((field, index) => ({ ...field, index }))
+    .filter((field) => FIELD_MAX[field.fieldType] !== undefined);
+  const [field, setField] = useState(comparableFields[0]?.index ?? 0);
+  const [minValue, setMinValue] = useState("");
+  const [maxValue, setMaxValue] = useState("");
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Proof requested! The owner will be asked to answer it.");
+      setMinValue("");
+      setMaxValue("");
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, queryClient]);
+
+  const handleRequest = async () => {
+    const fieldMax = FIELD_MAX[fields[field]?.fieldType];
+    if (fieldMax === undefined) {
+      toast.error("Select a numeric field");
+      return;
+    }
+
+    if ((minValue && !isWholeNumber(minValue)) || (maxValue && !isWholeNumber(maxValue))) {
+      toast.error("Bounds must be whole numbers");
+      return;
+    }
+
+    // A blank bound is open-ended
+    const min = minValue ? BigInt(minValue) : BigInt(0);
+    const max = maxValue ? BigInt(maxValue) : fieldMax;
+    if (!minValue && !maxValue) {
+      toast.error("Enter at least one bound");
+      return;
+    }
+    if (max > fieldMax) {
+      toast.error(`The upper bound must fit in the field (max ${fieldMax.toString()})`);
+      return;
+    }
+    if (min > max) {
+      toast.error("The lower bound must not exceed the upper bound");
+      return;
+    }
+
+    try {
+      await requestThresholdProof(tokenId, BigInt(field), min, max);
+      toast.info("Requesting proof... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to request proof:", error);
+      toast.error(error?.message || "Failed to request proof");
+    }
+  };
+
+  if (comparableFields.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div>
+        <h4 className="font-semibold flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Range proofs
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          {isOwner
+            ? "Buyers can ask you to prove a value lies within a range. Only the requester learns the answer, unless you choose to publish it."
+            : "Ask the owner to prove a value lies within a range, e.g. that the purchase price was at least a given amount, without revealing it."}
+        </p>
+      </div>
+      {proofIds && proofIds.length > 0 && (
+        <div className="space-y-2">
+          {[...proofIds].reverse().map((proofId) => (
+            <ProofItem key={proofId.toString()} proofId={proofId} isOwner={isOwner} fields={fields} />
+          ))}
+        </div>
+      )}
+      {!isOwner && (
+        <div className="space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="proofField">Field</Label>
+            <select
+              id="proofField"
+              value={field}
+              onChange={(e) => setField(Number(e.target.value))}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              {comparableFields.map((attribute) => (
+                <option key={attribute.index} value={attribute.index}>
+                  {attribute.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="proofMin">At least</Label>
+              <Input
+                id="proofMin"
+                value={minValue}
+                onChange={(e) => setMinValue(e.target.value.trim())}
+                placeholder="No lower bound"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="proofMax">At most</Label>
+              <Input
+                id="proofMax"
+                value={maxValue}
+                onChange={(e) => setMaxValue(e.target.value.trim())}
+                placeholder="No upper bound"
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleRequest}
+            disabled={isPending || isConfirming || (!minValue && !maxValue)}
+            variant="outline"
+            className="w-full"
+          >
+            {isPending ? "Confirm in wallet..." : isConfirming ? "Requesting..." : "Request Proof"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ProofItemProps {
+  proofId: bigint;
+  isOwner: boolean;
+  fields: readonly AttributeField[];
+}
+
+const ProofItem = ({ proofId, isOwner, fields }: ProofItemProps) => {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const { data: proof } = useThresholdProof(proofId);
+  const { answerThresholdProof, declineThresholdProof, resetStalledThresholdProof, isPending } = useRelicChainVerify();
+  const { ensureInitialized, decryptHandles } = useFHE();
+  const [privateResult, setPrivateResult] = useState<boolean | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  if (!proof) {
+    return null;
+  }
+
+  const isRequester = proof.requester.toLowerCase() === address?.toLowerCase();
+  // Buyers only see their own requests; published answers are public
+  if (!isOwner && !isRequester && proof.status !== ProofStatus.Published) {
+    return null;
+  }
+
+  const field = fields[Number(proof.field)];
+  const statement = `${field?.name ?? `Field ${proof.field}`} is ${describeRange(
+    proof.minValue,
+    proof.maxValue,
+    field ? FIELD_MAX[field.fieldType] : undefined
+  )}`;
+
+  const handleAnswer = async (publish: boolean) => {
+    try {
+      await answerThresholdProof(proofId, publish);
+      toast.info("Answering proof... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to answer proof:", error);
+      toast.error(error?.message || "Failed to answer proof");
+    }
+  };
+
+  const handleDecline = async () => {
+    try {
+      await declineThresholdProof(proofId);
+      toast.info("Declining proof... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to decline proof:", error);
+      toast.error(error?.message || "Failed to decline proof");
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetStalledThresholdProof(proofId);
+      toast.info("Withdrawing publication... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to reset proof:", error);
+      toast.error(error?.message || "Failed to reset proof");
+    }
+  };
+
+  const handleDecrypt = async () => {
+    try {
+      setIsDecrypting(true);
+      await ensureInitialized();
+      const [holds] = await decryptHandles(getContractAddress(chainId), [proof.result]);
+      setPrivateResult(holds === BigInt(1));
+    } catch (error: any) {
+      console.error("Failed to decrypt proof:", error);
+      toast.error(error?.message || "Failed to decrypt proof");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const answer = proof.status === ProofStatus.Published ? proof.holds : privateResult;
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2 text-sm">
+      <div className="flex items-start justify-between gap-2">
+        <span>{statement}</span>
+        {proof.status === ProofStatus.Requested && <Badge className="bg-yellow-500">Awaiting owner</Badge>}
+        {proof.status === ProofStatus.Answered && <Badge className="bg-cyan-500">Answered privately</Badge>}
+        {proof.status === ProofStatus.Publishing && <Badge className="bg-cyan-500">Publishing</Badge>}
+        {proof.status === ProofStatus.Published && <Badge className="bg-green-600">Published</Badge>}
+        {proof.status === ProofStatus.Declined && <Badge variant="secondary">Declined</Badge>}
+      </div>
+      {isOwner && (
+        <p className="text-xs text-muted-foreground">
+          Requested by {proof.requester.slice(0, 6)}...{proof.requester.slice(-4)}
+        </p>
+      )}
+      {answer !== null && (
+        <p className={answer ? "text-green-600 font-medium" : "text-destructive font-medium"}>
+          {answer ? "True" : "False"}
+        </p>
+      )}
+      {isOwner && proof.status === ProofStatus.Requested && (
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => handleAnswer(false)} disabled={isPending}>
+            Answer privately
+          </Button>
+          <Button size="sm" variant="outline" className="flex-1" onClick={() => handleAnswer(true)} disabled={isPending}>
+            Answer & publish
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleDecline} disabled={isPending}>
+            Decline
+          </Button>
+        </div>
+      )}
+      {(isOwner || isRequester) && proof.status === ProofStatus.Publishing && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            If the result is still not published a day after answering, the publication can be withdrawn. The
+            requester keeps the private answer.
+          </p>
+          <Button size="sm" variant="outline" className="w-full" onClick={handleReset} disabled={isPending}>
+            Withdraw Publication
+          </Button>
+        </div>
+      )}
+      {isRequester &&
+        (proof.status === ProofStatus.Answered || proof.status === ProofStatus.Publishing) &&
+        privateResult === null && (
+        <Button size="sm" variant="outline" className="w-full" onClick={handleDecrypt} disabled={isDecrypting}>
+          {isDecrypting ? "Decrypting... (Please sign in wallet)" : "Decrypt Answer"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default ThresholdProofPanel;
@@ -0,0 +1,279 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useRelicChainVerify, usePurchaseRequestsBatch, useTokenPurchaseRequests, MAX_PAGE_SIZE } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useAccount, useChainId } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { formatEther, formatUnits } from "viem";
+import { getContractAddress } from "@/config/contracts";
+import { Check, X, Clock, Eye, Hourglass, HandCoins } from "lucide-react";
+
+interface TokenOffersPanelProps {
+  tokenId: bigint;
+  owner: string;
+}
+
+// Every offer ever made on the token, newest first, with the actions the viewer may take
+const TokenOffersPanel = ({ tokenId, owner }: TokenOffersPanelProps) => {
+  const { address } = useAccount();
+  const { approvePurchase, rejectPurchase, cancelPurchaseRequest, isPending, isSuccess } = useRelicChainVerify();
+  const { data: allRequestIds } = useTokenPurchaseRequests(tokenId);
+  // The batch view reads one page at a time; show the most recent offers
+  const requestIds = allRequestIds?.slice(-MAX_PAGE_SIZE);
+  const { data: requests, isLoading: isLoadingRequests, isError: isRequestsError } = usePurchaseRequestsBatch(requestIds);
+  const { initializeFHE, isInitialized, isInitializing } = useFHE();
+  const isOwner = !!address && address.toLowerCase() === owner.toLowerCase();
+
+  // Only the owner can decrypt offers
+  useEffect(() => {
+    if (isOwner && !isInitialized && !isInitializing) {
+      initializeFHE();
+    }
+  }, [isOwner, isInitialized, isInitializing, initializeFHE]);
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Transaction confirmed");
+    }
+  }, [isSuccess]);
+
+  const handleApprove = async (requestId: bigint) => {
+    try {
+      await approvePurchase(requestId);
+      toast.info("Approving purchase request... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to approve:", error);
+      toast.error(error?.message || "Failed to approve purchase request");
+    }
+  };
+
+  const handleReject = async (requestId: bigint) => {
+    try {
+      await rejectPurchase(requestId);
+      toast.info("Rejecting purchase request... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to reject:", error);
+      toast.error(error?.message || "Failed to reject purchase request");
+    }
+  };
+
+  const handleCancel = async (requestId: bigint) => {
+    try {
+      await cancelPurchaseRequest(requestId);
+      toast.info("Cancelling offer... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to cancel:", error);
+      toast.error(error?.message || "Failed to cancel offer");
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="font-semibold flex items-center gap-2">
+          <HandCoins className="h-4 w-4" />
+          Offers
+        </h4>
+        {allRequestIds && <Badge variant="secondary">{allRequestIds.length} total</Badge>}
+      </div>
+      {!requestIds && <p className="text-xs text-muted-foreground">Loading offers...</p>}
+      {requestIds && requestIds.length === 0 && <p className="text-xs text-muted-foreground">No offers yet</p>}
+      {requestIds && requestIds.length > 0 && (
+        <div className="space-y-3">
+          {[...requestIds].reverse().map((requestId, i) => (
+            <OfferRow
+              key={requestId.toString()}
+              requestId={requestId}
+              requestData={requests?.[requestIds.length - 1 - i]}
+              isLoading={isLoadingRequests}
+              isError={isRequestsError}
+              isOwner={isOwner}
+              account={address}
+              onApprove={handleApprove}
+              onReject={handleReject}
+              onCancel={handleCancel}
+              isPending={isPending}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface OfferRowProps {
+  requestId: bigint;
+  requestData?: unknown;
+  isLoading: boolean;
+  isError: boolean;
+  isOwner: boolean;
+  account?: string;
+  onApprove: (requestId: bigint) => void;
+  onReject: (requestId: bigint) => void;
+  onCancel: (requestId: bigint) => void;
+  isPending: boolean;
+}
+
+const OfferRow = ({
+  requestId,
+  requestData,
+  isLoading,
+  isError,
+  isOwner,
+  account,
+  onApprove,
+  onReject,
+  onCancel,
+  isPending,
+}: OfferRowProps) => {
+  const chainId = useChainId();
+  const { ensureInitialized, decryptHandles } = useFHE();
+  const [decryptedOffer, setDecryptedOffer] = useState<bigint | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  if (isLoading || !requestData) {
+    return <div className="p-3 border rounded-lg text-sm text-muted-foreground">Loading offer #{requestId.toString()}...</div>;
+  }
+
+  if (isError) {
+    return <div className="p-3 border rounded-lg border-red-500 text-sm text-red-500">Error loading offer #{requestId.toString()}</div>;
+  }
+
+  const struct = requestData as any;
+  const buyer: string = struct.buyer;
+  const offerAmount: bigint = struct.offerAmount;
+  const encryptedOffer: string = struct.encryptedOffer;
+  const isPendingReq: boolean = struct.isPending;
+  const isApproved: boolean = struct.isApproved;
+  const timestamp: bigint = struct.timestamp;
+  const expiresAt: bigint = struct.expiresAt ?? BigInt(0);
+  const isExpired = isPendingReq && expiresAt > BigInt(0) && Number(expiresAt) * 1000 <= Date.now();
+  const isBuyer = !!account && account.toLowerCase() === buyer.toLowerCase();
+
+  const handleDecryptOffer = async () => {
+    try {
+      setIsDecrypting(true);
+      await ensureInitialized();
+      toast.info("Decrypting offer... Please sign the EIP712 message in your wallet.");
+      const [offerGwei] = await decryptHandles(getContractAddress(chainId), [encryptedOffer]);
+      setDecryptedOffer(offerGwei);
+    } catch (error: any) {
+      console.error("Failed to decrypt offer:", error);
+      toast.error(error?.message || "Failed to decrypt offer");
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="p-3 border rounded-lg space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">Offer #{requestId.toString()}</Badge>
+          {isExpired ? (
+            <Badge className="bg-orange-500">
+              <Hourglass className="h-3 w-3 mr-1" />
+              Expired
+            </Badge>
+          ) : isPendingReq ? (
+            <Badge className="bg-yellow-500">
+              <Clock className="h-3 w-3 mr-1" />
+              Pending
+            </Badge>
+          ) : isApproved ? (
+            <Badge className="bg-green-600">
+              <Check className="h-3 w-3 mr-1" />
+              Approved
+            </Badge>
+          ) : (
+            <Badge variant="secondary">
+              <X className="h-3 w-3 mr-1" />
+              Refunded
+            </Badge>
+          )}
+        </div>
+        <span className="text-xs text-muted-foreground">{new Date(Number(timestamp) * 1000).toLocaleString()}</span>
+      </div>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Buyer:</span>
+          <span className="font-mono text-xs">
+            {`${buyer.slice(0, 6)}...${buyer.slice(-4)}`}
+            {isBuyer && " (you)"}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Escrowed (max):</span>
+          <span>{formatEther(offerAmount)} ETH</span>
+        </div>
+        {isPendingReq && expiresAt > BigInt(0) && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Expires:</span>
+            <span>{new Date(Number(expiresAt) * 1000).toLocaleString()}</span>
+          </div>
+        )}
+        {isOwner && isPendingReq && (
+          <div className="flex justify-between items-center">
+            <span className="text-muted-foreground">Offer Amount:</span>
+            {decryptedOffer !== null ? (
+              <span className="font-semibold text-cyan-500">{formatUnits(decryptedOffer, 9)} ETH</span>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2"
+                onClick={handleDecryptOffer}
+                disabled={isDecrypting}
+              >
+                <Eye className="h-3.5 w-3.5 mr-1" />
+                {isDecrypting ? "Decrypting..." : "Decrypt"}
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+      {isOwner && isPendingReq && (
+        <div className="flex gap-2 pt-1">
+          {!isExpired && (
+            <Button
+              size="sm"
+              className="flex-1 bg-green-600 hover:bg-green-700"
+              onClick={() => onApprove(requestId)}
+              disabled={isPending}
+            >
+              <Check className="h-4 w-4 mr-2" />
+              Approve
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="destructive"
+            className="flex-1"
+            onClick={() => onReject(requestId)}
+            disabled={isPending}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Reject
+          </Button>
+        </div>
+      )}
+      {!isOwner && isPendingReq && (isBuyer || isExpired) && !!account && (
+        <div className="flex gap-2 pt-1">
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            onClick={() => onCancel(requestId)}
+            disabled={isPending}
+          >
+            <X className="h-4 w-4 mr-2" />
+            {isBuyer ? (isExpired ? "Reclaim Refund" : "Cancel Offer") : "Refund Buyer"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TokenOffersPanel;
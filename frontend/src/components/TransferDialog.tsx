@@ -0,0 +1,97 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify } from "@/hooks/useContract";
+import { useAccount } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { useQueryClient } from "@tanstack/react-query";
+import { isAddress } from "viem";
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tokenId: bigint;
+  collectibleName: string;
+}
+
+const TransferDialog = ({ open, onOpenChange, tokenId, collectibleName }: TransferDialogProps) => {
+  const { address } = useAccount();
+  const { transferCollectible, isPending, isConfirming, isSuccess, hash } = useRelicChainVerify();
+  const [recipient, setRecipient] = useState("");
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Collectible transferred! The recipient can now decrypt its metadata.");
+      setRecipient("");
+      onOpenChange(false);
+      // Invalidate queries to refresh data
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ['readContract'] });
+      }, 2000);
+    }
+  }, [isSuccess, onOpenChange, queryClient]);
+
+  const handleTransfer = async () => {
+    if (!isAddress(recipient)) {
+      toast.error("Please enter a valid recipient address");
+      return;
+    }
+
+    if (recipient.toLowerCase() === address?.toLowerCase()) {
+      toast.error("You already own this collectible");
+      return;
+    }
+
+    try {
+      await transferCollectible(tokenId, recipient);
+      toast.info("Transferring collectible... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to transfer:", error);
+      toast.error(error?.message || "Failed to transfer collectible");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer {collectibleName}</DialogTitle>
+          <DialogDescription>
+            Send this collectible to another wallet without payment, e.g. as a gift or to a cold wallet.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="recipient">Recipient Address</Label>
+            <Input
+              id="recipient"
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value.trim())}
+              placeholder="0x..."
+            />
+            <p className="text-xs text-muted-foreground">
+              Decryption rights move to the recipient. All pending offers on this collectible will be rejected and refunded.
+            </p>
+          </div>
+          <Button
+            onClick={handleTransfer}
+            disabled={isPending || isConfirming || !recipient}
+            className="w-full"
+          >
+            {isPending ? "Confirm in wallet..." : isConfirming ? "Transferring..." : "Transfer Collectible"}
+          </Button>
+          {hash && (
+            <p className="text-xs text-muted-foreground text-center">
+              Transaction: {hash.slice(0, 10)}...{hash.slice(-8)}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferDialog;
@@ -0,0 +1,158 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRelicChainVerify, useEncryptedMetadata, useCategorySchema } from "@/hooks/useContract";
+import { useFHE } from "@/hooks/useFHE";
+import { useChainId, usePublicClient } from "wagmi";
+import { useState, useEffect } from "react";
+import { toast } from "sonner";
+import { parseEventLogs } from "viem";
+import { getContractAddress, RELIC_CHAIN_VERIFY_ABI } from "@/config/contracts";
+import { encodeAttribute, validateAttribute, type CategorySchema } from "@/lib/categories";
+import { ShieldCheck, ShieldX } from "lucide-react";
+
+interface VerifyClaimPanelProps {
+  tokenId: bigint;
+}
+
+// Certificate and serial numbers are what a buyer can read off the item or its papers
+const preferredField = (schema: CategorySchema) => {
+  for (const keyword of ["cert", "serial"]) {
+    const index = schema.fields.findIndex((field) => field.name.toLowerCase().includes(keyword));
+    if (index >= 0) return index;
+  }
+  return 0;
+};
+
+const VerifyClaimPanel = ({ tokenId }: VerifyClaimPanelProps) => {
+  const chainId = useChainId();
+  const publicClient = usePublicClient();
+  const { verifyClaim } = useRelicChainVerify();
+  const { ensureInitialized, encryptClaim, decryptHandles } = useFHE();
+  const { data: encryptedMetadata } = useEncryptedMetadata(tokenId);
+  const { data: schemaData } = useCategorySchema(encryptedMetadata?.[0]);
+  const schema = schemaData as CategorySchema | undefined;
+  const [field, setField] = useState(0);
+  const [claimed, setClaimed] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<{ fieldName: string; matches: boolean } | null>(null);
+
+  useEffect(() => {
+    if (schema) {
+      setField(preferredField(schema));
+    }
+  }, [schema]);
+
+  const handleVerify = async () => {
+    if (!schema || !publicClient) {
+      return;
+    }
+
+    const { name: fieldName, fieldType } = schema.fields[field];
+    const error = validateAttribute(fieldType, claimed);
+    if (error) {
+      toast.error(`${fieldName}: ${error}`);
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      setResult(null);
+      await ensureInitialized();
+      const contractAddress = getContractAddress(chainId);
+      const { encryptedClaim, inputProof } = await encryptClaim(contractAddress, encodeAttribute(fieldType, claimed));
+      const txHash = await verifyClaim(tokenId, BigInt(field), encryptedClaim, inputProof);
+      toast.info("Checking your claim on-chain...");
+
+      // The encrypted answer is only readable by the caller, so decrypt it from the event
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+      const [event] = parseEventLogs({ abi: RELIC_CHAIN_VERIFY_ABI, logs: receipt.logs, eventName: 'ClaimVerified' });
+      if (!event) {
+        throw new Error("Verification result not found in transaction");
+      }
+
+      toast.info("Decrypting the answer... Please sign the EIP712 message in your wallet.");
+      const [matches] = await decryptHandles(contractAddress, [event.args.result]);
+      setResult({ fieldName, matches: matches === BigInt(1) });
+    } catch (error: any) {
+      console.error("Failed to verify claim:", error);
+      toast.error(error?.message || "Failed to verify claim");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  if (!schema) {
+    return null;
+  }
+
+  return (
+    <div className="p-4 rounded-lg space-y-3 border">
+      <div>
+        <h4 className="font-semibold text-sm">Verify certificate before offering</h4>
+        <p className="text-xs text-muted-foreground">
+          Check a value from the item or its papers against the encrypted record. You only learn whether it
+          matches; neither value is revealed.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="claimField">Field</Label>
+          <select
+            id="claimField"
+            value={field}
+            onChange={(e) => {
+              setField(Number(e.target.value));
+              setResult(null);
+            }}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+          >
+            {schema.fields.map((attribute, i) => (
+              <option key={attribute.name} value={i}>
+                {attribute.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="claimValue">Claimed Value</Label>
+          <Input
+            id="claimValue"
+            value={claimed}
+            onChange={(e) => {
+              setClaimed(e.target.value);
+              setResult(null);
+            }}
+            placeholder="e.g. GIA-2231-XK"
+          />
+        </div>
+      </div>
+      <Button
+        onClick={handleVerify}
+        disabled={isVerifying || !claimed}
+        variant="outline"
+        className="w-full"
+      >
+        {isVerifying ? "Verifying..." : "Verify"}
+      </Button>
+      {result && (
+        result.matches ? (
+          <p className="text-sm text-green-600 flex items-center gap-1">
+            <ShieldCheck className="h-4 w-4 flex-shrink-0" />
+            {result.fieldName} matches the on-chain record.
+          </p>
+        ) : (
+          <p className="text-sm text-destructive flex items-center gap-1">
+            <ShieldX className="h-4 w-4 flex-shrink-0" />
+            {result.fieldName} does not match the on-chain record.
+          </p>
+        )
+      )}
+      <p className="text-xs text-muted-foreground">
+        One check per collectible per hour.
+      </p>
+    </div>
+  );
+};
+
+export default VerifyClaimPanel;
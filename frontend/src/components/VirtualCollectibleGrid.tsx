@@ -0,0 +1,77 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { useWindowVirtualizer } from "@tanstack/react-virtual";
+import CollectibleCard from "./CollectibleCard";
+import type { CatalogEntry } from "@/hooks/useContract";
+
+// Same breakpoints as the grid-cols-1 md:grid-cols-2 lg:grid-cols-4 grids elsewhere
+const columnsForWidth = (width: number) => (width >= 1024 ? 4 : width >= 768 ? 2 : 1);
+
+// A card row with its gap; rows are measured once rendered
+const ESTIMATED_ROW_HEIGHT = 560;
+
+interface VirtualCollectibleGridProps {
+  items: readonly CatalogEntry[];
+}
+
+/**
+ * Grid of collectible cards that only mounts the rows in and near the viewport
+ * @dev Scrolls with the window. Entries carry each card's summary and stats, so a long
+ *      catalog only costs the DOM of the rows on screen
+ */
+const VirtualCollectibleGrid = ({ items }: VirtualCollectibleGridProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [columns, setColumns] = useState(() => columnsForWidth(window.innerWidth));
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  useEffect(() => {
+    const onResize = () => setColumns(columnsForWidth(window.innerWidth));
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+
+  // Rows are positioned from the top of the page, which moves when the content above resizes
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+    const update = () => setScrollMargin(list.getBoundingClientRect().top + window.scrollY);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: Math.ceil(items.length / columns),
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 2,
+    scrollMargin,
+  });
+
+  return (
+    <div ref={listRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((row) => (
+          <div
+            key={row.key}
+            data-index={row.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0 left-0 w-full pb-8"
+            style={{ transform: `translateY(${row.start - virtualizer.options.scrollMargin}px)` }}
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+              {items.slice(row.index * columns, (row.index + 1) * columns).map((entry) => (
+                <div key={entry.tokenId.toString()} className="animate-fade-in">
+                  <CollectibleCard tokenId={entry.tokenId} summary={entry} stats={entry} />
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualCollectibleGrid;
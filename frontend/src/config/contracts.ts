@@ -3,8 +3,9 @@
 // For Sepolia, set VITE_CONTRACT_ADDRESS_SEPOLIA in .env file
 
 // Hardhat local network (Chain ID: 31337)
-// Default address: 0x5FbDB2315678afecb367f032d93F642f64180aa3 (Hardhat deployment address)
-export const CONTRACT_ADDRESS_LOCALHOST = import.meta.env.VITE_CONTRACT_ADDRESS_LOCALHOST || '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+// Default address: 0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e (Hardhat deployment address; the
+// category registry, its default categories and the modules are deployed first)
+export const CONTRACT_ADDRESS_LOCALHOST = import.meta.env.VITE_CONTRACT_ADDRESS_LOCALHOST || '0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e';
 
 // Sepolia testnet (Chain ID: 11155111)
 // Deployed contract address: 0xf302Fc0892E272AF34d606040C4024fFd89803e4
@@ -25,17 +26,17 @@ export function getContractAddress(chainId?: number): string {
 export const RELIC_CHAIN_VERIFY_ADDRESS = getContractAddress();
 
 // Contract ABI - extracted from compiled contract artifacts
-// externalEuint32 is represented as bytes32 in the ABI
+// External and on-chain encrypted types (externalEuint64, euint256, ...) are represented as bytes32 in the ABI.
+// Auction, claim, authenticator, viewer grant, admin and paginated view functions are implemented by modules and reached through the RelicChainVerify address
 export const RELIC_CHAIN_VERIFY_ABI = [
   {
     inputs: [
       { internalType: "string", name: "name", type: "string" },
       { internalType: "string", name: "imageUri", type: "string" },
-      { internalType: "externalEuint32", name: "encryptedPrice", type: "bytes32" },
-      { internalType: "externalEuint32", name: "encryptedCert", type: "bytes32" },
-      { internalType: "externalEuint32", name: "encryptedSerial", type: "bytes32" },
-      { internalType: "externalEuint32", name: "encryptedOrigin", type: "bytes32" },
-      { internalType: "bytes", name: "inputProof", type: "bytes" }
+      { internalType: "uint256", name: "categoryId", type: "uint256" },
+      { internalType: "bytes32[]", name: "encryptedAttributes", type: "bytes32[]" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" },
+      { internalType: "uint96", name: "royaltyBps", type: "uint96" }
     ],
     name: "listCollectible",
     outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
@@ -43,7 +44,12 @@ export const RELIC_CHAIN_VERIFY_ABI = [
     type: "function"
   },
   {
-    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "expiresAt", type: "uint256" },
+      { internalType: "externalEuint64", name: "encryptedOffer", type: "bytes32" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" }
+    ],
     name: "requestPurchase",
     outputs: [],
     stateMutability: "payable",
@@ -56,6 +62,13 @@ export const RELIC_CHAIN_VERIFY_ABI = [
     stateMutability: "nonpayable",
     type: "function"
   },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "saleSettling",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
   {
     inputs: [{ internalType: "uint256", name: "requestId", type: "uint256" }],
     name: "rejectPurchase",
@@ -65,161 +78,1358 @@ export const RELIC_CHAIN_VERIFY_ABI = [
   },
   {
     inputs: [{ internalType: "uint256", name: "requestId", type: "uint256" }],
-    name: "getPurchaseRequest",
+    name: "cancelPurchaseRequest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "requestId", type: "uint256" }],
+    name: "cancelStalledSettlement",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "price", type: "uint256" }
+    ],
+    name: "setSalePrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "cancelSale",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "buyNow",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    name: "salePrices",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "salePrice", type: "uint256" }
+    ],
+    name: "royaltyInfo",
+    outputs: [
+      { internalType: "address", name: "receiver", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "address", name: "to", type: "address" }
+    ],
+    name: "transferCollectible",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "address", name: "viewer", type: "address" },
+      { internalType: "uint256", name: "fieldMask", type: "uint256" },
+      { internalType: "uint256", name: "expiresAt", type: "uint256" }
+    ],
+    name: "grantViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "address", name: "viewer", type: "address" }
+    ],
+    name: "revokeViewer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getViewerGrants",
     outputs: [
       {
         components: [
-          { internalType: "uint256", name: "requestId", type: "uint256" },
-          { internalType: "uint256", name: "tokenId", type: "uint256" },
-          { internalType: "address", name: "buyer", type: "address" },
-          { internalType: "uint256", name: "offerAmount", type: "uint256" },
-          { internalType: "bool", name: "isPending", type: "bool" },
-          { internalType: "bool", name: "isApproved", type: "bool" },
-          { internalType: "uint256", name: "timestamp", type: "uint256" }
+          { internalType: "address", name: "viewer", type: "address" },
+          { internalType: "uint256", name: "fieldMask", type: "uint256" },
+          { internalType: "uint256", name: "expiresAt", type: "uint256" }
         ],
-        internalType: "struct RelicChainVerify.PurchaseRequest",
-        name: "request",
-        type: "tuple"
+        internalType: "struct RelicChainVerifyBase.ViewerGrant[]",
+        name: "",
+        type: "tuple[]"
       }
     ],
     stateMutability: "view",
     type: "function"
   },
   {
-    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
-    name: "getTokenPurchaseRequests",
-    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "address", name: "viewer", type: "address" }
+    ],
+    name: "getSharedMetadata",
+    outputs: [
+      { internalType: "uint256", name: "categoryId", type: "uint256" },
+      { internalType: "bytes32[]", name: "encryptedAttributes", type: "bytes32[]" }
+    ],
     stateMutability: "view",
     type: "function"
   },
   {
-    inputs: [{ internalType: "address", name: "owner", type: "address" }],
-    name: "getOwnerPendingRequests",
-    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
-    stateMutability: "view",
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "field", type: "uint256" },
+      { internalType: "bytes32", name: "claimed", type: "bytes32" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" }
+    ],
+    name: "verifyClaim",
+    outputs: [{ internalType: "ebool", name: "matches", type: "bytes32" }],
+    stateMutability: "nonpayable",
     type: "function"
   },
   {
-    inputs: [{ internalType: "address", name: "buyer", type: "address" }],
-    name: "getBuyerRequests",
-    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
-    stateMutability: "view",
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "field", type: "uint256" },
+      { internalType: "uint128", name: "minValue", type: "uint128" },
+      { internalType: "uint128", name: "maxValue", type: "uint128" }
+    ],
+    name: "requestThresholdProof",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
     type: "function"
   },
   {
-    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
-    name: "getCollectibleInfo",
+    inputs: [
+      { internalType: "uint256", name: "proofId", type: "uint256" },
+      { internalType: "bool", name: "publish", type: "bool" }
+    ],
+    name: "answerThresholdProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "proofId", type: "uint256" }],
+    name: "declineThresholdProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "proofId", type: "uint256" }],
+    name: "resetStalledThresholdProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "proofId", type: "uint256" }],
+    name: "getThresholdProof",
     outputs: [
-      { internalType: "string", name: "name", type: "string" },
-      { internalType: "string", name: "imageUri", type: "string" },
-      { internalType: "address", name: "owner", type: "address" },
-      { internalType: "uint256", name: "listedAt", type: "uint256" },
-      { internalType: "bool", name: "exists", type: "bool" }
+      {
+        components: [
+          { internalType: "uint256", name: "proofId", type: "uint256" },
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "address", name: "requester", type: "address" },
+          { internalType: "uint256", name: "field", type: "uint256" },
+          { internalType: "uint128", name: "minValue", type: "uint128" },
+          { internalType: "uint128", name: "maxValue", type: "uint128" },
+          { internalType: "ebool", name: "result", type: "bytes32" },
+          { internalType: "enum RelicChainVerifyBase.ProofStatus", name: "status", type: "uint8" },
+          { internalType: "bool", name: "holds", type: "bool" }
+        ],
+        internalType: "struct RelicChainVerifyBase.ThresholdProof",
+        name: "proof",
+        type: "tuple"
+      }
     ],
     stateMutability: "view",
     type: "function"
   },
   {
     inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
-    name: "getEncryptedMetadata",
-    outputs: [
-      { internalType: "euint32", name: "encryptedPrice", type: "bytes32" },
-      { internalType: "euint32", name: "encryptedCert", type: "bytes32" },
-      { internalType: "euint32", name: "encryptedSerial", type: "bytes32" },
-      { internalType: "euint32", name: "encryptedOrigin", type: "bytes32" }
-    ],
+    name: "getTokenThresholdProofs",
+    outputs: [{ internalType: "uint256[]", name: "proofIds", type: "uint256[]" }],
     stateMutability: "view",
     type: "function"
   },
   {
     inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
-    name: "getProvenance",
+    name: "checkDuplicates",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getDuplicateCheck",
     outputs: [
       {
         components: [
-          { internalType: "address", name: "from", type: "address" },
-          { internalType: "address", name: "to", type: "address" },
-          { internalType: "uint256", name: "timestamp", type: "uint256" },
-          { internalType: "bytes32", name: "txHash", type: "bytes32" }
+          { internalType: "enum RelicChainVerifyBase.DuplicateStatus", name: "status", type: "uint8" },
+          { internalType: "uint256", name: "checkedCount", type: "uint256" },
+          { internalType: "ebool", name: "found", type: "bytes32" },
+          { internalType: "uint256", name: "decryptionRequestId", type: "uint256" }
         ],
-        internalType: "struct RelicChainVerify.TransferRecord[]",
-        name: "",
-        type: "tuple[]"
+        internalType: "struct RelicChainVerifyBase.DuplicateCheck",
+        name: "check",
+        type: "tuple"
       }
     ],
     stateMutability: "view",
     type: "function"
   },
   {
-    inputs: [{ internalType: "address", name: "owner", type: "address" }],
-    name: "getOwnerCollectibles",
-    outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "resetStalledDuplicateCheck",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "MAX_DUPLICATE_BATCH",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function"
   },
   {
     inputs: [],
-    name: "getTotalCollectibles",
+    name: "MAX_ROYALTY_BPS",
+    outputs: [{ internalType: "uint96", name: "", type: "uint96" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "MAX_MARKETPLACE_FEE_BPS",
+    outputs: [{ internalType: "uint96", name: "", type: "uint96" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "MAX_PAGE_SIZE",
     outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
     stateMutability: "view",
     type: "function"
   },
   {
-    anonymous: false,
+    inputs: [],
+    name: "marketplaceFeeBps",
+    outputs: [{ internalType: "uint96", name: "", type: "uint96" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "treasuryBalance",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
     inputs: [
-      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
-      { indexed: true, internalType: "address", name: "owner", type: "address" },
-      { indexed: false, internalType: "string", name: "name", type: "string" },
-      { indexed: false, internalType: "uint256", name: "timestamp", type: "uint256" }
+      { internalType: "address", name: "account", type: "address" },
+      { internalType: "string", name: "name", type: "string" }
     ],
-    name: "CollectibleListed",
-    type: "event"
+    name: "addAuthenticator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "removeAuthenticator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "newAdmin", type: "address" }],
+    name: "transferAdmin",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
-      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
-      { indexed: true, internalType: "address", name: "buyer", type: "address" },
-      { indexed: false, internalType: "uint256", name: "offerAmount", type: "uint256" },
-      { indexed: false, internalType: "address", name: "owner", type: "address" }
+      { internalType: "enum RelicChainVerifyBase.Role", name: "role", type: "uint8" },
+      { internalType: "address", name: "account", type: "address" }
     ],
-    name: "PurchaseRequested",
-    type: "event"
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
-      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
-      { indexed: true, internalType: "address", name: "buyer", type: "address" },
-      { indexed: false, internalType: "address", name: "seller", type: "address" },
-      { indexed: false, internalType: "uint256", name: "price", type: "uint256" }
+      { internalType: "enum RelicChainVerifyBase.Role", name: "role", type: "uint8" },
+      { internalType: "address", name: "account", type: "address" }
     ],
-    name: "PurchaseApproved",
-    type: "event"
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
-      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
-      { indexed: true, internalType: "address", name: "buyer", type: "address" }
+      { internalType: "enum RelicChainVerifyBase.Role", name: "role", type: "uint8" },
+      { internalType: "address", name: "account", type: "address" }
     ],
-    name: "PurchaseRejected",
-    type: "event"
+    name: "hasRole",
+    outputs: [{ internalType: "bool", name: "", type: "bool" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint96", name: "feeBps", type: "uint96" }],
+    name: "setMarketplaceFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
   },
   {
-    anonymous: false,
     inputs: [
-      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
-      { indexed: true, internalType: "address", name: "from", type: "address" },
-      { indexed: true, internalType: "address", name: "to", type: "address" },
-      { indexed: false, internalType: "uint256", name: "price", type: "uint256" },
-      { indexed: false, internalType: "uint256", name: "timestamp", type: "uint256" }
+      { internalType: "address", name: "to", type: "address" },
+      { internalType: "uint256", name: "amount", type: "uint256" }
     ],
-    name: "CollectiblePurchased",
-    type: "event"
-  }
+    name: "withdrawTreasury",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "externalEuint256", name: "payload", type: "bytes32" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" }
+    ],
+    name: "attest",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "attestationId", type: "uint256" }],
+    name: "revokeAttestation",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "attestationId", type: "uint256" }],
+    name: "claimAttestationAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "account", type: "address" }],
+    name: "getAuthenticator",
+    outputs: [
+      {
+        components: [
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "bool", name: "active", type: "bool" },
+          { internalType: "uint256", name: "addedAt", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.Authenticator",
+        name: "authenticator",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getAuthenticators",
+    outputs: [{ internalType: "address[]", name: "accounts", type: "address[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "attestationId", type: "uint256" }],
+    name: "getAttestation",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "attestationId", type: "uint256" },
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "address", name: "authenticator", type: "address" },
+          { internalType: "euint256", name: "payload", type: "bytes32" },
+          { internalType: "uint256", name: "attestedAt", type: "uint256" },
+          { internalType: "bool", name: "revoked", type: "bool" }
+        ],
+        internalType: "struct RelicChainVerifyBase.Attestation",
+        name: "attestation",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getTokenAttestations",
+    outputs: [{ internalType: "uint256[]", name: "attestationIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getVerifiedBy",
+    outputs: [{ internalType: "address[]", name: "accounts", type: "address[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "admin",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+
+  {
+    inputs: [],
+    name: "CLAIM_COOLDOWN",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "MAX_CLAIMS_PER_WINDOW",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" }
+    ],
+    name: "lastClaimAt",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "", type: "address" }],
+    name: "pendingWithdrawals",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "tokenId", type: "uint256" },
+      { internalType: "uint256", name: "duration", type: "uint256" }
+    ],
+    name: "createAuction",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "auctionId", type: "uint256" },
+      { internalType: "externalEuint64", name: "encryptedBid", type: "bytes32" },
+      { internalType: "bytes", name: "inputProof", type: "bytes" }
+    ],
+    name: "placeBid",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "auctionId", type: "uint256" }],
+    name: "revealAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "auctionId", type: "uint256" }],
+    name: "cancelStalledAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "auctionId", type: "uint256" }],
+    name: "cancelAuction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "auctionId", type: "uint256" }],
+    name: "reclaimBidDeposit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "", type: "uint256" },
+      { internalType: "address", name: "", type: "address" }
+    ],
+    name: "bidDeposits",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "auctionId", type: "uint256" }],
+    name: "getAuction",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "auctionId", type: "uint256" },
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "address", name: "seller", type: "address" },
+          { internalType: "uint256", name: "endTime", type: "uint256" },
+          { internalType: "euint64", name: "highestBid", type: "bytes32" },
+          { internalType: "eaddress", name: "highestBidder", type: "bytes32" },
+          { internalType: "uint256", name: "bidCount", type: "uint256" },
+          { internalType: "uint256", name: "decryptionRequestId", type: "uint256" },
+          { internalType: "enum RelicChainVerifyBase.AuctionStatus", name: "status", type: "uint8" },
+          { internalType: "address", name: "winner", type: "address" },
+          { internalType: "uint64", name: "winningBid", type: "uint64" }
+        ],
+        internalType: "struct RelicChainVerifyBase.Auction",
+        name: "auction",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getTokenAuctions",
+    outputs: [{ internalType: "uint256[]", name: "auctionIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "auctionId", type: "uint256" },
+      { internalType: "address", name: "bidder", type: "address" }
+    ],
+    name: "getBid",
+    outputs: [{ internalType: "euint64", name: "bid", type: "bytes32" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "requestId", type: "uint256" }],
+    name: "getPurchaseRequest",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "requestId", type: "uint256" },
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "address", name: "buyer", type: "address" },
+          { internalType: "uint256", name: "offerAmount", type: "uint256" },
+          { internalType: "euint64", name: "encryptedOffer", type: "bytes32" },
+          { internalType: "bool", name: "isPending", type: "bool" },
+          { internalType: "bool", name: "isApproved", type: "bool" },
+          { internalType: "uint256", name: "timestamp", type: "uint256" },
+          { internalType: "uint256", name: "expiresAt", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.PurchaseRequest",
+        name: "request",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "offset", type: "uint256" },
+      { internalType: "uint256", name: "limit", type: "uint256" }
+    ],
+    name: "getCollectiblesPage",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "string", name: "imageUri", type: "string" },
+          { internalType: "address", name: "owner", type: "address" },
+          { internalType: "uint256", name: "categoryId", type: "uint256" },
+          { internalType: "uint256", name: "listedAt", type: "uint256" },
+          { internalType: "uint256", name: "salePrice", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.CollectibleSummary[]",
+        name: "page",
+        type: "tuple[]"
+      },
+      { internalType: "uint256", name: "total", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "uint256", name: "offset", type: "uint256" },
+      { internalType: "uint256", name: "limit", type: "uint256" }
+    ],
+    name: "getCollectibleStatsPage",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "uint256", name: "offerCount", type: "uint256" },
+          { internalType: "uint256", name: "pendingOfferCount", type: "uint256" },
+          { internalType: "uint256", name: "lastSalePrice", type: "uint256" },
+          { internalType: "uint256", name: "lastSaleAt", type: "uint256" },
+          { internalType: "bool", name: "verified", type: "bool" },
+          { internalType: "address[]", name: "verifiedBy", type: "address[]" },
+          { internalType: "bool", name: "inAuction", type: "bool" },
+          { internalType: "uint256", name: "auctionBidCount", type: "uint256" },
+          { internalType: "enum RelicChainVerifyBase.DuplicateStatus", name: "duplicateStatus", type: "uint8" }
+        ],
+        internalType: "struct RelicChainVerifyBase.CollectibleStats[]",
+        name: "page",
+        type: "tuple[]"
+      },
+      { internalType: "uint256", name: "total", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256[]", name: "tokenIds", type: "uint256[]" }],
+    name: "getCollectibleStatsBatch",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "uint256", name: "offerCount", type: "uint256" },
+          { internalType: "uint256", name: "pendingOfferCount", type: "uint256" },
+          { internalType: "uint256", name: "lastSalePrice", type: "uint256" },
+          { internalType: "uint256", name: "lastSaleAt", type: "uint256" },
+          { internalType: "bool", name: "verified", type: "bool" },
+          { internalType: "address[]", name: "verifiedBy", type: "address[]" },
+          { internalType: "bool", name: "inAuction", type: "bool" },
+          { internalType: "uint256", name: "auctionBidCount", type: "uint256" },
+          { internalType: "enum RelicChainVerifyBase.DuplicateStatus", name: "duplicateStatus", type: "uint8" }
+        ],
+        internalType: "struct RelicChainVerifyBase.CollectibleStats[]",
+        name: "stats",
+        type: "tuple[]"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [
+      { internalType: "address", name: "owner", type: "address" },
+      { internalType: "uint256", name: "offset", type: "uint256" },
+      { internalType: "uint256", name: "limit", type: "uint256" }
+    ],
+    name: "getOwnerCollectiblesPage",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "string", name: "imageUri", type: "string" },
+          { internalType: "address", name: "owner", type: "address" },
+          { internalType: "uint256", name: "categoryId", type: "uint256" },
+          { internalType: "uint256", name: "listedAt", type: "uint256" },
+          { internalType: "uint256", name: "salePrice", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.CollectibleSummary[]",
+        name: "page",
+        type: "tuple[]"
+      },
+      { internalType: "uint256", name: "total", type: "uint256" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
+    name: "getPurchaseRequestsBatch",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "requestId", type: "uint256" },
+          { internalType: "uint256", name: "tokenId", type: "uint256" },
+          { internalType: "address", name: "buyer", type: "address" },
+          { internalType: "uint256", name: "offerAmount", type: "uint256" },
+          { internalType: "euint64", name: "encryptedOffer", type: "bytes32" },
+          { internalType: "bool", name: "isPending", type: "bool" },
+          { internalType: "bool", name: "isApproved", type: "bool" },
+          { internalType: "uint256", name: "timestamp", type: "uint256" },
+          { internalType: "uint256", name: "expiresAt", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.PurchaseRequest[]",
+        name: "requests",
+        type: "tuple[]"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getTokenPurchaseRequests",
+    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "getOwnerPendingRequests",
+    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "buyer", type: "address" }],
+    name: "getBuyerRequests",
+    outputs: [{ internalType: "uint256[]", name: "requestIds", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getCollectibleInfo",
+    outputs: [
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "imageUri", type: "string" },
+      { internalType: "address", name: "owner", type: "address" },
+      { internalType: "uint256", name: "listedAt", type: "uint256" },
+      { internalType: "bool", name: "exists", type: "bool" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getEncryptedMetadata",
+    outputs: [
+      { internalType: "uint256", name: "categoryId", type: "uint256" },
+      { internalType: "bytes32[]", name: "encryptedAttributes", type: "bytes32[]" }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "categoryRegistry",
+    outputs: [{ internalType: "contract CategoryRegistry", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "getProvenance",
+    outputs: [
+      {
+        components: [
+          { internalType: "address", name: "from", type: "address" },
+          { internalType: "address", name: "to", type: "address" },
+          { internalType: "uint256", name: "timestamp", type: "uint256" },
+          { internalType: "uint256", name: "blockNumber", type: "uint256" },
+          { internalType: "enum RelicChainVerifyBase.TransferKind", name: "kind", type: "uint8" },
+          { internalType: "uint256", name: "price", type: "uint256" },
+          { internalType: "uint256", name: "requestId", type: "uint256" }
+        ],
+        internalType: "struct RelicChainVerifyBase.TransferRecord[]",
+        name: "",
+        type: "tuple[]"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "getOwnerCollectibles",
+    outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "ownerOf",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "address", name: "owner", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "tokenId", type: "uint256" }],
+    name: "tokenURI",
+    outputs: [{ internalType: "string", name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getTotalCollectibles",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "owner", type: "address" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "uint256", name: "timestamp", type: "uint256" }
+    ],
+    name: "CollectibleListed",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "buyer", type: "address" },
+      { indexed: false, internalType: "uint256", name: "offerAmount", type: "uint256" },
+      { indexed: false, internalType: "address", name: "owner", type: "address" }
+    ],
+    name: "PurchaseRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "oracleRequestId", type: "uint256" }
+    ],
+    name: "PurchaseSettlementRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "buyer", type: "address" },
+      { indexed: false, internalType: "address", name: "seller", type: "address" },
+      { indexed: false, internalType: "uint256", name: "price", type: "uint256" }
+    ],
+    name: "PurchaseApproved",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "buyer", type: "address" }
+    ],
+    name: "PurchaseRejected",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "requestId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "buyer", type: "address" },
+      { indexed: false, internalType: "address", name: "cancelledBy", type: "address" }
+    ],
+    name: "PurchaseCancelled",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "seller", type: "address" },
+      { indexed: false, internalType: "uint256", name: "price", type: "uint256" }
+    ],
+    name: "SalePriceSet",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "seller", type: "address" }
+    ],
+    name: "SaleCancelled",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "timestamp", type: "uint256" }
+    ],
+    name: "CollectibleTransferred",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "account", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "WithdrawalCredited",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "account", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "Withdrawn",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "price", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "timestamp", type: "uint256" }
+    ],
+    name: "CollectiblePurchased",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "receiver", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "RoyaltyPaid",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "auctionId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "seller", type: "address" },
+      { indexed: false, internalType: "uint256", name: "endTime", type: "uint256" }
+    ],
+    name: "AuctionCreated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "auctionId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "bidder", type: "address" },
+      { indexed: false, internalType: "uint256", name: "deposit", type: "uint256" }
+    ],
+    name: "BidPlaced",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "auctionId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "requestId", type: "uint256" }
+    ],
+    name: "AuctionRevealRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "auctionId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "winner", type: "address" },
+      { indexed: false, internalType: "uint256", name: "price", type: "uint256" }
+    ],
+    name: "AuctionSettled",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "auctionId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "AuctionCancelled",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "viewer", type: "address" },
+      { indexed: false, internalType: "uint256", name: "fieldMask", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "expiresAt", type: "uint256" }
+    ],
+    name: "ViewerGranted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "viewer", type: "address" }
+    ],
+    name: "ViewerRevoked",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "verifier", type: "address" },
+      { indexed: false, internalType: "uint256", name: "field", type: "uint256" },
+      { indexed: false, internalType: "ebool", name: "result", type: "bytes32" }
+    ],
+    name: "ClaimVerified",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "proofId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "requester", type: "address" },
+      { indexed: false, internalType: "uint256", name: "field", type: "uint256" },
+      { indexed: false, internalType: "uint128", name: "minValue", type: "uint128" },
+      { indexed: false, internalType: "uint128", name: "maxValue", type: "uint128" }
+    ],
+    name: "ThresholdProofRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "proofId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "requester", type: "address" },
+      { indexed: false, internalType: "bool", name: "publish", type: "bool" }
+    ],
+    name: "ThresholdProofAnswered",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "proofId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "ThresholdProofDeclined",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "proofId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "bool", name: "holds", type: "bool" }
+    ],
+    name: "ThresholdProofPublished",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "proofId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "ThresholdProofReset",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "checkedCount", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "total", type: "uint256" }
+    ],
+    name: "DuplicateCheckProgress",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "requestId", type: "uint256" }
+    ],
+    name: "DuplicateCheckRequested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "categoryId", type: "uint256" },
+      { indexed: false, internalType: "bool", name: "isDuplicate", type: "bool" }
+    ],
+    name: "DuplicateCheckCompleted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "categoryId", type: "uint256" }
+    ],
+    name: "DuplicateCheckReset",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "previousAdmin", type: "address" },
+      { indexed: true, internalType: "address", name: "newAdmin", type: "address" }
+    ],
+    name: "AdminTransferred",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "enum RelicChainVerifyBase.Role", name: "role", type: "uint8" },
+      { indexed: true, internalType: "address", name: "account", type: "address" }
+    ],
+    name: "RoleGranted",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "enum RelicChainVerifyBase.Role", name: "role", type: "uint8" },
+      { indexed: true, internalType: "address", name: "account", type: "address" }
+    ],
+    name: "RoleRevoked",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: false, internalType: "uint96", name: "feeBps", type: "uint96" }],
+    name: "MarketplaceFeeUpdated",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "MarketplaceFeeCollected",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: false, internalType: "uint256", name: "amount", type: "uint256" }
+    ],
+    name: "TreasuryWithdrawn",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "address", name: "account", type: "address" }],
+    name: "Paused",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "address", name: "account", type: "address" }],
+    name: "Unpaused",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "authenticator", type: "address" },
+      { indexed: false, internalType: "string", name: "name", type: "string" }
+    ],
+    name: "AuthenticatorAdded",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [{ indexed: true, internalType: "address", name: "authenticator", type: "address" }],
+    name: "AuthenticatorRemoved",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "attestationId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "authenticator", type: "address" }
+    ],
+    name: "CollectibleAttested",
+    type: "event"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "attestationId", type: "uint256" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "authenticator", type: "address" }
+    ],
+    name: "AttestationRevoked",
+    type: "event"
+  },
+
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "from", type: "address" },
+      { indexed: true, internalType: "address", name: "to", type: "address" },
+      { indexed: true, internalType: "uint256", name: "tokenId", type: "uint256" }
+    ],
+    name: "Transfer",
+    type: "event"
+  }
 ] as const;
 
+// Category schemas live in a separate registry; its address is read from RelicChainVerify.categoryRegistry()
+export const CATEGORY_REGISTRY_ABI = [
+  {
+    inputs: [
+      { internalType: "string", name: "name", type: "string" },
+      {
+        components: [
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "enum CategoryRegistry.AttributeType", name: "fieldType", type: "uint8" },
+          { internalType: "bool", name: "unique", type: "bool" }
+        ],
+        internalType: "struct CategoryRegistry.AttributeField[]",
+        name: "fields",
+        type: "tuple[]"
+      }
+    ],
+    name: "registerCategory",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "nonpayable",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "categoryId", type: "uint256" }],
+    name: "getCategory",
+    outputs: [
+      {
+        components: [
+          { internalType: "uint256", name: "categoryId", type: "uint256" },
+          { internalType: "string", name: "name", type: "string" },
+          { internalType: "address", name: "creator", type: "address" },
+          {
+            components: [
+              { internalType: "string", name: "name", type: "string" },
+              { internalType: "enum CategoryRegistry.AttributeType", name: "fieldType", type: "uint8" },
+              { internalType: "bool", name: "unique", type: "bool" }
+            ],
+            internalType: "struct CategoryRegistry.AttributeField[]",
+            name: "fields",
+            type: "tuple[]"
+          },
+          { internalType: "bool", name: "exists", type: "bool" }
+        ],
+        internalType: "struct CategoryRegistry.CategorySchema",
+        name: "schema",
+        type: "tuple"
+      }
+    ],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [{ internalType: "uint256", name: "categoryId", type: "uint256" }],
+    name: "getUniqueFields",
+    outputs: [{ internalType: "uint256[]", name: "", type: "uint256[]" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    inputs: [],
+    name: "getTotalCategories",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function"
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "uint256", name: "categoryId", type: "uint256" },
+      { indexed: true, internalType: "address", name: "creator", type: "address" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "uint256", name: "fieldCount", type: "uint256" }
+    ],
+    name: "CategoryRegistered",
+    type: "event"
+  }
+] as const;
@@ -1,6 +1,7 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
 import { sepolia } from 'wagmi/chains';
 import { defineChain } from 'viem';
+import { fallback, http, webSocket } from 'wagmi';
 
 // Define Hardhat local network with correct chainId
 const hardhat = defineChain({
@@ -30,6 +31,17 @@ export const config = getDefaultConfig({
   appName: 'Relic Chain Verify',
   projectId: import.meta.env.VITE_WALLETCONNECT_PROJECT_ID || 'YOUR_PROJECT_ID',
   chains: [hardhat, sepolia],
+  // The local node serves websockets, so contract events are pushed instead of polled
+  transports: {
+    [hardhat.id]: fallback([webSocket(), http()]),
+    [sepolia.id]: http(),
+  },
+  // Reads issued together are packed into multicall3 calls. Sepolia has the multicall3
+  // contract; the local node does not, so its multicalls are sent as deployless calls
+  batch: {
+    [hardhat.id]: { multicall: { deployless: true } },
+    [sepolia.id]: { multicall: true },
+  },
   ssr: false,
 });
 
@@ -1,8 +1,55 @@
-import { useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
+import { useReadContract, useReadContracts, useWriteContract, useWaitForTransactionReceipt, useChainId, useConfig, usePublicClient } from 'wagmi';
 import { useAccount } from 'wagmi';
-import { getContractAddress, RELIC_CHAIN_VERIFY_ABI } from '../config/contracts';
+import { useEffect } from 'react';
+import { useQueries, useQuery, useQueryClient, type UseQueryResult } from '@tanstack/react-query';
+import { readContractQueryKey, readContractQueryOptions, structuralSharing } from 'wagmi/query';
+import { getContractAddress, RELIC_CHAIN_VERIFY_ABI, CATEGORY_REGISTRY_ABI } from '../config/contracts';
+import type { CategorySchema } from '../lib/categories';
 import { parseEther } from 'viem';
 
+// Convert to hex string (bytes32 format for external encrypted inputs)
+// External encrypted handles are represented as bytes32 in the ABI
+const toBytes32 = (arr: Uint8Array | string | any): `0x${string}` => {
+  // If already a string (hex), ensure it starts with 0x and pad to 32 bytes
+  if (typeof arr === 'string') {
+    const clean = arr.startsWith('0x') ? arr.slice(2) : arr;
+    // Pad to 64 hex chars (32 bytes) or truncate if longer
+    const padded = clean.padEnd(64, '0').slice(0, 64);
+    return `0x${padded}` as `0x${string}`;
+  }
+  // If it's a Uint8Array or similar
+  if (arr instanceof Uint8Array || (Array.isArray(arr) && typeof arr[0] === 'number')) {
+    const bytes = arr instanceof Uint8Array ? arr : new Uint8Array(arr);
+    const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    // Pad to 64 hex chars (32 bytes)
+    const padded = hex.padEnd(64, '0').slice(0, 64);
+    return `0x${padded}` as `0x${string}`;
+  }
+  // Try to convert to string and handle
+  const str = String(arr);
+  if (str.startsWith('0x')) {
+    const clean = str.slice(2);
+    return `0x${clean.padEnd(64, '0').slice(0, 64)}` as `0x${string}`;
+  }
+  throw new Error(`Cannot convert to bytes32: ${typeof arr}`);
+};
+
+// Ensure inputProof is a hex string
+const formatInputProof = (proof: string | Uint8Array | any): `0x${string}` => {
+  if (typeof proof === 'string') {
+    return proof.startsWith('0x') ? (proof as `0x${string}`) : (`0x${proof}` as `0x${string}`);
+  }
+  // If it's a Uint8Array
+  if (proof instanceof Uint8Array || (Array.isArray(proof) && typeof proof[0] === 'number')) {
+    const bytes = proof instanceof Uint8Array ? proof : new Uint8Array(proof);
+    const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+    return `0x${hex}` as `0x${string}`;
+  }
+  // Try to convert to string
+  const str = String(proof);
+  return str.startsWith('0x') ? (str as `0x${string}`) : (`0x${str}` as `0x${string}`);
+};
+
 export function useRelicChainVerify() {
   const { address } = useAccount();
   const chainId = useChainId();
@@ -14,11 +61,10 @@ export function useRelicChainVerify() {
   const listCollectible = async (
     name: string,
     imageUri: string,
-    encryptedPrice: Uint8Array,
-    encryptedCert: Uint8Array,
-    encryptedSerial: Uint8Array,
-    encryptedOrigin: Uint8Array,
-    inputProof: string
+    categoryId: bigint,
+    encryptedAttributes: Uint8Array[],
+    inputProof: string,
+    royaltyBps: bigint
   ) => {
     if (!address) {
       throw new Error('Wallet not connected');
@@ -29,67 +75,13 @@ export function useRelicChainVerify() {
     }
 
     try {
-      // Log raw types for debugging
-      console.log('Raw encrypted data types:', {
-        encryptedPrice: { type: typeof encryptedPrice, isArray: Array.isArray(encryptedPrice), constructor: encryptedPrice?.constructor?.name },
-        encryptedCert: { type: typeof encryptedCert, isArray: Array.isArray(encryptedCert), constructor: encryptedCert?.constructor?.name },
-        inputProof: { type: typeof inputProof, value: inputProof?.substring?.(0, 20) },
-      });
-
-      // Convert to hex string (bytes32 format for externalEuint32)
-      // externalEuint32 is represented as bytes32 in the ABI
-      const toBytes32 = (arr: Uint8Array | string | any): `0x${string}` => {
-        // If already a string (hex), ensure it starts with 0x and pad to 32 bytes
-        if (typeof arr === 'string') {
-          const clean = arr.startsWith('0x') ? arr.slice(2) : arr;
-          // Pad to 64 hex chars (32 bytes) or truncate if longer
-          const padded = clean.padEnd(64, '0').slice(0, 64);
-          return `0x${padded}` as `0x${string}`;
-        }
-        // If it's a Uint8Array or similar
-        if (arr instanceof Uint8Array || (Array.isArray(arr) && typeof arr[0] === 'number')) {
-          const bytes = arr instanceof Uint8Array ? arr : new Uint8Array(arr);
-          const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-          // Pad to 64 hex chars (32 bytes)
-          const padded = hex.padEnd(64, '0').slice(0, 64);
-          return `0x${padded}` as `0x${string}`;
-        }
-        // Try to convert to string and handle
-        const str = String(arr);
-        if (str.startsWith('0x')) {
-          const clean = str.slice(2);
-          return `0x${clean.padEnd(64, '0').slice(0, 64)}` as `0x${string}`;
-        }
-        throw new Error(`Cannot convert to bytes32: ${typeof arr}`);
-      };
-
-      // Ensure inputProof is a hex string
-      const formatInputProof = (proof: string | Uint8Array | any): `0x${string}` => {
-        if (typeof proof === 'string') {
-          return proof.startsWith('0x') ? (proof as `0x${string}`) : (`0x${proof}` as `0x${string}`);
-        }
-        // If it's a Uint8Array
-        if (proof instanceof Uint8Array || (Array.isArray(proof) && typeof proof[0] === 'number')) {
-          const bytes = proof instanceof Uint8Array ? proof : new Uint8Array(proof);
-          const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
-          return `0x${hex}` as `0x${string}`;
-        }
-        // Try to convert to string
-        const str = String(proof);
-        return str.startsWith('0x') ? (str as `0x${string}`) : (`0x${str}` as `0x${string}`);
-      };
-
-      const formattedPrice = toBytes32(encryptedPrice);
-      const formattedCert = toBytes32(encryptedCert);
-      const formattedSerial = toBytes32(encryptedSerial);
-      const formattedOrigin = toBytes32(encryptedOrigin);
+      // External encrypted handles are bytes32, in category schema order
+      const formattedAttributes = encryptedAttributes.map(toBytes32);
       const formattedProof = formatInputProof(inputProof);
 
       console.log('Formatted encrypted data:', {
-        formattedPrice,
-        formattedCert,
-        formattedSerial,
-        formattedOrigin,
+        categoryId,
+        formattedAttributes,
         formattedProof: formattedProof.substring(0, 50) + '...',
       });
       
@@ -101,11 +93,10 @@ export function useRelicChainVerify() {
         args: [
           name,
           imageUri,
-          formattedPrice,  // externalEuint32 is bytes32
-          formattedCert,
-          formattedSerial,
-          formattedOrigin,
-          formattedProof  // bytes calldata
+          categoryId,
+          formattedAttributes,
+          formattedProof,  // bytes calldata
+          royaltyBps
         ],
       });
       
@@ -124,7 +115,13 @@ export function useRelicChainVerify() {
     }
   };
 
-  const requestPurchase = async (tokenId: bigint, offerAmount: string) => {
+  const requestPurchase = async (
+    tokenId: bigint,
+    escrowAmount: string,
+    encryptedOffer: Uint8Array,
+    inputProof: Uint8Array | string,
+    expiresAt: bigint = BigInt(0)
+  ) => {
     if (!address) {
       throw new Error('Wallet not connected');
     }
@@ -138,8 +135,8 @@ export function useRelicChainVerify() {
         address: contractAddress,
         abi: RELIC_CHAIN_VERIFY_ABI,
         functionName: 'requestPurchase',
-        args: [tokenId],
-        value: parseEther(offerAmount),
+        args: [tokenId, expiresAt, toBytes32(encryptedOffer), formatInputProof(inputProof)],
+        value: parseEther(escrowAmount),
       });
       console.log('Purchase request transaction hash:', txHash);
       return txHash;
@@ -206,164 +203,1955 @@ export function useRelicChainVerify() {
     }
   };
 
-  return {
-    listCollectible,
-    requestPurchase,
-    approvePurchase,
-    rejectPurchase,
-    isPending,
-    isConfirming,
-    isSuccess,
-    hash,
-    writeError,
-    receiptError
+  const cancelPurchaseRequest = async (requestId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'cancelPurchaseRequest',
+        args: [requestId],
+      });
+      console.log('Cancel purchase request transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to cancel purchase request:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
   };
-}
 
-export function useCollectibleInfo(tokenId: bigint) {
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  const result = useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getCollectibleInfo',
-    args: [tokenId],
-    query: {
-      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
-    },
-  });
+  // Refunds an approved offer the decryption oracle has not settled within ORACLE_TIMEOUT
+  const cancelStalledSettlement = async (requestId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
-  // Debug logging
-  if (result.data !== undefined) {
-    console.log(`CollectibleInfo for tokenId ${tokenId}:`, result.data);
-  }
-  if (result.error) {
-    console.error(`Error fetching collectibleInfo for tokenId ${tokenId}:`, result.error);
-  }
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
 
-  return result;
-}
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'cancelStalledSettlement',
+        args: [requestId],
+      });
+      console.log('Cancel settlement transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to cancel settlement:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
 
-export function useTotalCollectibles() {
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  const result = useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getTotalCollectibles',
-    query: {
-      refetchInterval: 2000, // Refetch every 2 seconds to catch new listings
-      refetchOnWindowFocus: true,
-      refetchOnReconnect: true,
-      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
-    },
-  });
+  const setSalePrice = async (tokenId: bigint, price: string) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
-  // Debug logging
-  console.log('useTotalCollectibles:', {
-    chainId,
-    contractAddress,
-    data: result.data,
-    dataType: typeof result.data,
-    dataValue: result.data?.toString(),
-    error: result.error,
-    isLoading: result.isLoading,
-    isError: result.isError,
-  });
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
 
-  return result;
-}
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'setSalePrice',
+        args: [tokenId, parseEther(price)],
+      });
+      console.log('Set sale price transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to set sale price:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
 
-export function useOwnerCollectibles(ownerAddress?: string) {
-  const { address } = useAccount();
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  return useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getOwnerCollectibles',
-    args: [ownerAddress || address || '0x0000000000000000000000000000000000000000'],
-    enabled: !!ownerAddress || !!address,
-  });
-}
+  const cancelSale = async (tokenId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
-export function useEncryptedMetadata(tokenId: bigint) {
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  return useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getEncryptedMetadata',
-    args: [tokenId],
-  });
-}
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
 
-export function usePurchaseRequest(requestId: bigint) {
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  return useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getPurchaseRequest',
-    args: [requestId],
-    query: {
-      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
-      select: (data: any) => {
-        // Contract returns a struct, which could be an object or array
-        // Return as-is and let the component handle both formats
-        if (!data) return null;
-        // If it's already an array (tuple), return it
-        if (Array.isArray(data)) return data;
-        // If it's an object with nested 'request' property, extract it
-        if (typeof data === 'object' && data.request) return data.request;
-        // Otherwise return the data as-is
-        return data;
-      },
-    },
-  });
-}
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'cancelSale',
+        args: [tokenId],
+      });
+      console.log('Cancel sale transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to cancel sale:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
 
-export function useOwnerPendingRequests(ownerAddress?: string) {
-  const { address } = useAccount();
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  return useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getOwnerPendingRequests',
-    args: [ownerAddress || address || '0x0000000000000000000000000000000000000000'],
-    query: {
-      enabled: !!(ownerAddress || address) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
-      refetchInterval: 3000, // Refetch every 3 seconds
-      select: (data: any) => {
-        // Ensure we return an array
-        if (!data) return [];
-        if (Array.isArray(data)) return data;
-        return [];
-      },
-    },
-  });
-}
+  const buyNow = async (tokenId: bigint, price: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
-export function useTokenPurchaseRequests(tokenId: bigint) {
-  const chainId = useChainId();
-  const contractAddress = getContractAddress(chainId) as `0x${string}`;
-  
-  return useReadContract({
-    address: contractAddress,
-    abi: RELIC_CHAIN_VERIFY_ABI,
-    functionName: 'getTokenPurchaseRequests',
-    args: [tokenId],
-    query: {
-      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
-      refetchInterval: 3000,
-    },
-  });
-}
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'buyNow',
+        args: [tokenId],
+        value: price,
+      });
+      console.log('Buy now transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to buy collectible:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const transferCollectible = async (tokenId: bigint, to: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
 
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'transferCollectible',
+        args: [tokenId, to],
+      });
+      console.log('Transfer collectible transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to transfer collectible:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const grantViewer = async (tokenId: bigint, viewer: `0x${string}`, fieldMask: bigint, expiresAt: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'grantViewer',
+        args: [tokenId, viewer, fieldMask, expiresAt],
+      });
+      console.log('Grant viewer transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to grant viewer:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const revokeViewer = async (tokenId: bigint, viewer: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'revokeViewer',
+        args: [tokenId, viewer],
+      });
+      console.log('Revoke viewer transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to revoke viewer:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const verifyClaim = async (tokenId: bigint, field: bigint, encryptedClaim: Uint8Array, inputProof: string) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'verifyClaim',
+        args: [tokenId, field, toBytes32(encryptedClaim), formatInputProof(inputProof)],
+      });
+      console.log('Verify claim transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to verify claim:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const requestThresholdProof = async (tokenId: bigint, field: bigint, minValue: bigint, maxValue: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'requestThresholdProof',
+        args: [tokenId, field, minValue, maxValue],
+      });
+      console.log('Request threshold proof transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to request threshold proof:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const answerThresholdProof = async (proofId: bigint, publish: boolean) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'answerThresholdProof',
+        args: [proofId, publish],
+      });
+      console.log('Answer threshold proof transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to answer threshold proof:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const declineThresholdProof = async (proofId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'declineThresholdProof',
+        args: [proofId],
+      });
+      console.log('Decline threshold proof transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to decline threshold proof:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const resetStalledThresholdProof = async (proofId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'resetStalledThresholdProof',
+        args: [proofId],
+      });
+      console.log('Reset threshold proof transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to reset threshold proof:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const checkDuplicates = async (tokenId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'checkDuplicates',
+        args: [tokenId],
+      });
+      console.log('Check duplicates transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to check duplicates:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const resetStalledDuplicateCheck = async (tokenId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'resetStalledDuplicateCheck',
+        args: [tokenId],
+      });
+      console.log('Reset duplicate check transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to reset duplicate check:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const addAuthenticator = async (account: `0x${string}`, name: string) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'addAuthenticator',
+        args: [account, name],
+      });
+      console.log('Add authenticator transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to add authenticator:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const removeAuthenticator = async (account: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'removeAuthenticator',
+        args: [account],
+      });
+      console.log('Remove authenticator transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to remove authenticator:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const grantRole = async (role: number, account: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'grantRole',
+        args: [role, account],
+      });
+      console.log('Grant role transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to grant role:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const revokeRole = async (role: number, account: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'revokeRole',
+        args: [role, account],
+      });
+      console.log('Revoke role transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to revoke role:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const setMarketplaceFee = async (feeBps: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'setMarketplaceFee',
+        args: [feeBps],
+      });
+      console.log('Set marketplace fee transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to set marketplace fee:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const withdrawTreasury = async (to: `0x${string}`, amount: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'withdrawTreasury',
+        args: [to, amount],
+      });
+      console.log('Withdraw treasury transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to withdraw treasury:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const pause = async () => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'pause',
+      });
+      console.log('Pause transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to pause marketplace:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const unpause = async () => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'unpause',
+      });
+      console.log('Unpause transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to unpause marketplace:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const attest = async (tokenId: bigint, encryptedPayload: Uint8Array, inputProof: string) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'attest',
+        args: [tokenId, toBytes32(encryptedPayload), formatInputProof(inputProof)],
+      });
+      console.log('Attest collectible transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to attest collectible:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const revokeAttestation = async (attestationId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'revokeAttestation',
+        args: [attestationId],
+      });
+      console.log('Revoke attestation transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to revoke attestation:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const claimAttestationAccess = async (attestationId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'claimAttestationAccess',
+        args: [attestationId],
+      });
+      console.log('Claim attestation access transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to claim attestation access:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const withdraw = async () => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'withdraw',
+      });
+      console.log('Withdraw transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to withdraw:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const createAuction = async (tokenId: bigint, durationSeconds: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'createAuction',
+        args: [tokenId, durationSeconds],
+      });
+      console.log('Create auction transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to create auction:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const placeBid = async (auctionId: bigint, encryptedBid: Uint8Array, inputProof: Uint8Array | string, deposit: string) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'placeBid',
+        args: [auctionId, toBytes32(encryptedBid), formatInputProof(inputProof)],
+        value: parseEther(deposit),
+      });
+      console.log('Place bid transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to place bid:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const revealAuction = async (auctionId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'revealAuction',
+        args: [auctionId],
+      });
+      console.log('Reveal auction transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to reveal auction:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const cancelAuction = async (auctionId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'cancelAuction',
+        args: [auctionId],
+      });
+      console.log('Cancel auction transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to cancel auction:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const cancelStalledAuction = async (auctionId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'cancelStalledAuction',
+        args: [auctionId],
+      });
+      console.log('Cancel stalled auction transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to cancel stalled auction:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  const reclaimBidDeposit = async (auctionId: bigint) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    if (!writeContractAsync) {
+      throw new Error('writeContractAsync is not available');
+    }
+
+    try {
+      const txHash = await writeContractAsync({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        functionName: 'reclaimBidDeposit',
+        args: [auctionId],
+      });
+      console.log('Reclaim bid deposit transaction hash:', txHash);
+      return txHash;
+    } catch (error: any) {
+      console.error('Failed to reclaim bid deposit:', error);
+      if (error?.code === 4001 || error?.message?.includes('User rejected') || error?.message?.includes('user rejected')) {
+        throw new Error('Transaction rejected by user');
+      }
+      throw error;
+    }
+  };
+
+  return {
+    listCollectible,
+    requestPurchase,
+    approvePurchase,
+    rejectPurchase,
+    cancelPurchaseRequest,
+    cancelStalledSettlement,
+    setSalePrice,
+    cancelSale,
+    buyNow,
+    transferCollectible,
+    grantViewer,
+    revokeViewer,
+    verifyClaim,
+    requestThresholdProof,
+    answerThresholdProof,
+    declineThresholdProof,
+    resetStalledThresholdProof,
+    checkDuplicates,
+    resetStalledDuplicateCheck,
+    addAuthenticator,
+    removeAuthenticator,
+    attest,
+    revokeAttestation,
+    claimAttestationAccess,
+    grantRole,
+    revokeRole,
+    setMarketplaceFee,
+    withdrawTreasury,
+    pause,
+    unpause,
+    withdraw,
+    createAuction,
+    placeBid,
+    revealAuction,
+    cancelAuction,
+    cancelStalledAuction,
+    reclaimBidDeposit,
+    isPending,
+    isConfirming,
+    isSuccess,
+    hash,
+    writeError,
+    receiptError
+  };
+}
+
+export function useCollectibleInfo(tokenId: bigint, enabled = true) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getCollectibleInfo',
+    args: [tokenId],
+    query: {
+      enabled: enabled && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      // Seeded by useCatalog and refreshed on Transfer events, so remounting a card does not refetch
+      staleTime: 60000,
+    },
+  });
+}
+
+// Mirrors RelicChainVerifyBase.TransferKind
+export const TransferKind = {
+  Transfer: 0,
+  Mint: 1,
+  Sale: 2,
+  BuyNow: 3,
+  Auction: 4,
+  Gift: 5,
+} as const;
+
+export interface ProvenanceEntry {
+  from: `0x${string}`;
+  to: `0x${string}`;
+  timestamp: bigint;
+  blockNumber: bigint;
+  kind: number;
+  price: bigint;
+  requestId: bigint;
+  txHash?: `0x${string}`; // Joined from the token's Transfer events
+}
+
+export function useProvenance(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const publicClient = usePublicClient();
+  
+  const { data: records } = useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getProvenance',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+  
+  // Transaction hashes are not stored on-chain; each record is matched with the Transfer
+  // event emitted in the same block between the same accounts
+  return useQuery({
+    queryKey: ['provenance', chainId, contractAddress, tokenId.toString(), records?.length ?? 0],
+    enabled: !!records && !!publicClient,
+    queryFn: async (): Promise<ProvenanceEntry[]> => {
+      if (!records || records.length === 0 || !publicClient) {
+        return [];
+      }
+      
+      const logs = await publicClient.getContractEvents({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        eventName: 'Transfer',
+        args: { tokenId },
+        fromBlock: records[0].blockNumber,
+        toBlock: records[records.length - 1].blockNumber,
+      });
+      
+      const unmatched = [...logs];
+      return records.map((record) => {
+        const index = unmatched.findIndex((log) =>
+          log.blockNumber === record.blockNumber &&
+          log.args.from?.toLowerCase() === record.from.toLowerCase() &&
+          log.args.to?.toLowerCase() === record.to.toLowerCase()
+        );
+        const [log] = index >= 0 ? unmatched.splice(index, 1) : [];
+        return { ...record, txHash: log?.transactionHash ?? undefined };
+      });
+    },
+  });
+}
+
+export interface ActivityEntry {
+  eventName: string;
+  args: Record<string, any>;
+  blockNumber: bigint;
+  logIndex: number;
+  txHash: `0x${string}`;
+  timestamp: bigint;
+}
+
+// The ERC-721 Transfer event duplicates CollectibleTransferred and CollectiblePurchased
+const HIDDEN_ACTIVITY_EVENTS = new Set(['Transfer']);
+
+export function useTokenActivity(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const publicClient = usePublicClient();
+  
+  const { data: records } = useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getProvenance',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+  // The first provenance record is the listing, so older blocks hold nothing for this token
+  const fromBlock = records && records.length > 0 ? records[0].blockNumber : undefined;
+  
+  // One log query for the whole contract, filtered here: the token ID is a different
+  // topic in each event, and bids only carry their auction ID
+  return useQuery({
+    queryKey: ['tokenActivity', chainId, contractAddress, tokenId.toString()],
+    enabled: fromBlock !== undefined && !!publicClient,
+    queryFn: async (): Promise<ActivityEntry[]> => {
+      if (fromBlock === undefined || !publicClient) {
+        return [];
+      }
+      
+      const logs = await publicClient.getContractEvents({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        fromBlock,
+      });
+      
+      const auctionIds = new Set<bigint>();
+      const entries = logs.filter((log) => {
+        const args = log.args as Record<string, any>;
+        if (HIDDEN_ACTIVITY_EVENTS.has(log.eventName)) return false;
+        if (args.tokenId === tokenId) {
+          if (log.eventName === 'AuctionCreated') auctionIds.add(args.auctionId);
+          return true;
+        }
+        return args.tokenId === undefined && auctionIds.has(args.auctionId);
+      });
+      
+      const blockNumbers = [...new Set(entries.map((log) => log.blockNumber))];
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+      const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+      
+      return entries.map((log) => ({
+        eventName: log.eventName,
+        args: log.args as Record<string, any>,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        txHash: log.transactionHash,
+        timestamp: timestamps.get(log.blockNumber) ?? BigInt(0),
+      }));
+    },
+  });
+}
+
+export function useTotalCollectibles() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getTotalCollectibles',
+    query: {
+      refetchOnWindowFocus: true,
+      refetchOnReconnect: true,
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useOwnerCollectibles(ownerAddress?: string) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getOwnerCollectibles',
+    args: [ownerAddress || address || '0x0000000000000000000000000000000000000000'],
+    enabled: !!ownerAddress || !!address,
+  });
+}
+
+export function useEncryptedMetadata(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getEncryptedMetadata',
+    args: [tokenId],
+  });
+}
+
+export function useViewerGrants(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getViewerGrants',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+// Reverts (and stays in the error state) unless the viewer holds an unexpired grant
+export function useSharedMetadata(tokenId: bigint, viewer?: string) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getSharedMetadata',
+    args: [tokenId, (viewer || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: !!viewer && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      retry: false,
+    },
+  });
+}
+
+export function useTokenThresholdProofs(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getTokenThresholdProofs',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useThresholdProof(proofId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getThresholdProof',
+    args: [proofId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useDuplicateCheck(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getDuplicateCheck',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useAdmin() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'admin',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+// Mirrors RelicChainVerifyBase.Role
+export const Role = {
+  FeeManager: 0,
+  Pauser: 1,
+} as const;
+
+export function useHasRole(role: number, account?: string) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'hasRole',
+    args: [role, (account || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: !!account && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useMarketplaceFee() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'marketplaceFeeBps',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useTreasuryBalance() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'treasuryBalance',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function usePaused() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'paused',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useAuthenticators() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getAuthenticators',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useAuthenticator(account?: string) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getAuthenticator',
+    args: [(account || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: !!account && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useVerifiedBy(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getVerifiedBy',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useTokenAttestations(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getTokenAttestations',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useAttestation(attestationId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getAttestation',
+    args: [attestationId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function usePurchaseRequest(requestId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getPurchaseRequest',
+    args: [requestId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: (data: any) => {
+        // Contract returns a struct, which could be an object or array
+        // Return as-is and let the component handle both formats
+        if (!data) return null;
+        // If it's already an array (tuple), return it
+        if (Array.isArray(data)) return data;
+        // If it's an object with nested 'request' property, extract it
+        if (typeof data === 'object' && data.request) return data.request;
+        // Otherwise return the data as-is
+        return data;
+      },
+    },
+  });
+}
+
+// Pages and batches are capped by RelicChainVerifyBase.MAX_PAGE_SIZE
+export const MAX_PAGE_SIZE = 100;
+
+export interface CollectibleSummary {
+  tokenId: bigint;
+  name: string;
+  imageUri: string;
+  owner: `0x${string}`;
+  categoryId: bigint;
+  listedAt: bigint;
+  salePrice: bigint; // 0 when not for sale
+}
+
+export function useCollectiblesPage(offset: bigint, limit: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getCollectiblesPage',
+    args: [offset, limit],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: ([page, total]) => ({ page: page as readonly CollectibleSummary[], total }),
+    },
+  });
+}
+
+export function useOwnerCollectiblesPage(ownerAddress: string | undefined, offset: bigint, limit: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getOwnerCollectiblesPage',
+    args: [(ownerAddress || '0x0000000000000000000000000000000000000000') as `0x${string}`, offset, limit],
+    query: {
+      enabled: !!ownerAddress && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: ([page, total]) => ({ page: page as readonly CollectibleSummary[], total }),
+    },
+  });
+}
+
+export interface CollectibleStats {
+  tokenId: bigint;
+  offerCount: bigint;
+  pendingOfferCount: bigint; // Open and not expired
+  lastSalePrice: bigint; // 0 when never sold
+  lastSaleAt: bigint;
+  verified: boolean;
+  verifiedBy: readonly `0x${string}`[]; // Active authenticators that vouch for it
+  inAuction: boolean; // Latest auction open or awaiting its reveal
+  auctionBidCount: bigint;
+  duplicateStatus: number; // RelicChainVerifyBase.DuplicateStatus
+}
+
+export type CatalogEntry = CollectibleSummary & Omit<CollectibleStats, 'tokenId'>;
+
+// Summary and stats pages come in pairs, one pair per offset. Defined once, so react-query
+// only merges them again when a page changes
+function combineCatalogPages(pages: UseQueryResult<unknown>[]) {
+  const loaded = pages.every((page) => page.data !== undefined);
+  return {
+    data: loaded
+      ? Array.from({ length: pages.length / 2 }, (_, i): CatalogEntry[] => {
+          const [summaries] = pages[2 * i].data as readonly [readonly CollectibleSummary[], bigint];
+          const [stats] = pages[2 * i + 1].data as readonly [readonly CollectibleStats[], bigint];
+          return summaries.map((summary, j) => ({ ...stats[j], ...summary }));
+        }).flat()
+      : undefined,
+    isLoading: pages.some((page) => page.isLoading),
+    isError: pages.some((page) => page.isError),
+  };
+}
+
+// Every collectible with its stats, for searching and sorting without a read per token.
+// Each page is its own query keyed by its offset, so an event refetches only the page holding
+// its token. Reads issued together are still packed into multicalls
+export function useCatalog() {
+  const config = useConfig();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const { data: totalCollectibles } = useTotalCollectibles();
+  const total = totalCollectibles !== undefined ? Number(totalCollectibles) : undefined;
+  const offsets = Array.from({ length: Math.ceil((total ?? 0) / MAX_PAGE_SIZE) }, (_, i) => BigInt(i * MAX_PAGE_SIZE));
+  const enabled = !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000';
+  
+  const result = useQueries({
+    queries: offsets.flatMap((offset) => [
+      {
+        ...readContractQueryOptions(config, {
+          address: contractAddress,
+          abi: RELIC_CHAIN_VERIFY_ABI,
+          functionName: 'getCollectiblesPage',
+          args: [offset, BigInt(MAX_PAGE_SIZE)],
+          chainId,
+        }),
+        enabled,
+        structuralSharing,
+      },
+      {
+        ...readContractQueryOptions(config, {
+          address: contractAddress,
+          abi: RELIC_CHAIN_VERIFY_ABI,
+          functionName: 'getCollectibleStatsPage',
+          args: [offset, BigInt(MAX_PAGE_SIZE)],
+          chainId,
+        }),
+        enabled,
+        structuralSharing,
+      },
+    ]),
+    combine: combineCatalogPages,
+  });
+
+  // Seed the getCollectibleInfo cache of every token, so cards and detail pages opened from the
+  // showcase read from it instead of sending one request per token
+  const queryClient = useQueryClient();
+  useEffect(() => {
+    for (const entry of result.data ?? []) {
+      queryClient.setQueryData(
+        readContractQueryKey({
+          address: contractAddress,
+          abi: RELIC_CHAIN_VERIFY_ABI,
+          functionName: 'getCollectibleInfo',
+          args: [entry.tokenId],
+          chainId,
+        }),
+        [entry.name, entry.imageUri, entry.owner, entry.listedAt, true] as const
+      );
+    }
+  }, [queryClient, result.data, contractAddress, chainId]);
+  
+  return {
+    data: total === 0 ? [] : result.data,
+    isLoading: total === undefined || result.isLoading,
+    isError: result.isError,
+  };
+}
+
+// Stats of collectibles that are not read page by page, e.g. an owner's holdings
+export function useCollectibleStatsBatch(tokenIds?: readonly bigint[]) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getCollectibleStatsBatch',
+    args: [tokenIds ?? []],
+    query: {
+      enabled: !!tokenIds && tokenIds.length > 0 && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: (stats) => stats as readonly CollectibleStats[],
+    },
+  });
+}
+
+export function usePurchaseRequestsBatch(requestIds?: readonly bigint[]) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getPurchaseRequestsBatch',
+    args: [requestIds ?? []],
+    query: {
+      enabled: !!requestIds && requestIds.length > 0 && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useOwnerPendingRequests(ownerAddress?: string) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getOwnerPendingRequests',
+    args: [ownerAddress || address || '0x0000000000000000000000000000000000000000'],
+    query: {
+      enabled: !!(ownerAddress || address) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: (data: any) => {
+        // Ensure we return an array
+        if (!data) return [];
+        if (Array.isArray(data)) return data;
+        return [];
+      },
+    },
+  });
+}
+
+export function useTokenPurchaseRequests(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getTokenPurchaseRequests',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useBuyerRequests(buyerAddress?: string) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getBuyerRequests',
+    args: [(buyerAddress || address || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: !!(buyerAddress || address) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: (data: any) => {
+        if (!data) return [];
+        if (Array.isArray(data)) return data;
+        return [];
+      },
+    },
+  });
+}
+
+export type OfferStatus = 'pending' | 'expired' | 'settling' | 'approved' | 'rejected' | 'cancelled' | 'refunded';
+
+export interface BuyerOffer {
+  requestId: bigint;
+  tokenId: bigint;
+  offerAmount: bigint; // Escrowed, the most the buyer can pay
+  status: OfferStatus;
+  requestedAt: bigint;
+  expiresAt: bigint; // 0 when the offer never expires
+  decidedAt?: bigint;
+  price?: bigint; // What an approved offer settled at
+}
+
+interface OfferDecision {
+  status: 'approved' | 'rejected' | 'cancelled';
+  decidedAt: bigint;
+  price?: bigint;
+}
+
+// Every purchase request a buyer made, newest first
+export function useBuyerOffers(buyerAddress?: string) {
+  const { address } = useAccount();
+  const buyer = (buyerAddress || address) as `0x${string}` | undefined;
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const publicClient = usePublicClient();
+  const enabled = !!buyer && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000';
+  
+  const { data: requestIds, isLoading: isLoadingIds } = useBuyerRequests(buyer);
+  // The batch view reads at most MAX_PAGE_SIZE requests per call
+  const chunks: bigint[][] = [];
+  for (let i = 0; i < (requestIds?.length ?? 0); i += MAX_PAGE_SIZE) {
+    chunks.push(requestIds!.slice(i, i + MAX_PAGE_SIZE));
+  }
+  const { data: requests, isLoading: isLoadingRequests } = useReadContracts({
+    allowFailure: false,
+    contracts: chunks.map((chunk) => ({
+      address: contractAddress,
+      abi: RELIC_CHAIN_VERIFY_ABI,
+      functionName: 'getPurchaseRequestsBatch' as const,
+      args: [chunk] as const,
+    })),
+    query: {
+      enabled: enabled && chunks.length > 0,
+      select: (results) => results.flat(),
+    },
+  });
+  
+  // A request does not record whether it was rejected or cancelled, when, or the settled
+  // price; the buyer's events do, and they index the buyer
+  const { data: decisions, isError: isDecisionsError, isLoading: isLoadingDecisions } = useQuery({
+    queryKey: ['offerDecisions', chainId, contractAddress, buyer?.toLowerCase()],
+    enabled: enabled && !!publicClient,
+    queryFn: async () => {
+      if (!buyer || !publicClient) {
+        return new Map<bigint, OfferDecision>();
+      }
+      
+      const filter = { address: contractAddress, abi: RELIC_CHAIN_VERIFY_ABI, args: { buyer }, fromBlock: 'earliest' } as const;
+      const [approved, rejected, cancelled] = await Promise.all([
+        publicClient.getContractEvents({ ...filter, eventName: 'PurchaseApproved' }),
+        publicClient.getContractEvents({ ...filter, eventName: 'PurchaseRejected' }),
+        publicClient.getContractEvents({ ...filter, eventName: 'PurchaseCancelled' }),
+      ]);
+      
+      const blockNumbers = [...new Set([...approved, ...rejected, ...cancelled].map((log) => log.blockNumber))];
+      const blocks = await Promise.all(blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber })));
+      const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+      const decidedAt = (log: { blockNumber: bigint }) => timestamps.get(log.blockNumber) ?? BigInt(0);
+      
+      const decisions = new Map<bigint, OfferDecision>();
+      for (const log of approved) {
+        decisions.set(log.args.requestId!, { status: 'approved', decidedAt: decidedAt(log), price: log.args.price });
+      }
+      for (const log of rejected) {
+        decisions.set(log.args.requestId!, { status: 'rejected', decidedAt: decidedAt(log) });
+      }
+      for (const log of cancelled) {
+        decisions.set(log.args.requestId!, { status: 'cancelled', decidedAt: decidedAt(log) });
+      }
+      return decisions;
+    },
+  });
+  
+  // Wait for the events unless they failed to load, e.g. the RPC limits log ranges
+  const decisionsReady = !!decisions || isDecisionsError;
+  const offers = requests && decisionsReady
+    ? requests
+        .map((request): BuyerOffer => {
+          const decision = decisions?.get(request.requestId);
+          const isExpired = request.expiresAt > BigInt(0) && Number(request.expiresAt) * 1000 <= Date.now();
+          const status: OfferStatus = request.isPending
+            ? (isExpired ? 'expired' : 'pending')
+            : request.isApproved
+              ? (decision ? 'approved' : 'settling')
+              : (decision?.status ?? 'refunded');
+          return {
+            requestId: request.requestId,
+            tokenId: request.tokenId,
+            offerAmount: request.offerAmount,
+            status,
+            requestedAt: request.timestamp,
+            expiresAt: request.expiresAt,
+            decidedAt: decision?.decidedAt,
+            price: decision?.price,
+          };
+        })
+        .reverse()
+    : requestIds?.length === 0 ? [] : undefined;
+  
+  return {
+    data: offers,
+    isLoading: isLoadingIds || isLoadingRequests || (isLoadingDecisions && !isDecisionsError),
+  };
+}
+
+export interface Acquisition extends ProvenanceEntry {
+  tokenId: bigint;
+}
+
+// Every time an account received a collectible, newest first, including ones it has since sold
+export function useAcquisitionHistory(account?: string) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const publicClient = usePublicClient();
+  
+  return useQuery({
+    queryKey: ['acquisitions', chainId, contractAddress, account?.toLowerCase()],
+    enabled: !!account && !!publicClient && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    queryFn: async (): Promise<Acquisition[]> => {
+      if (!account || !publicClient) {
+        return [];
+      }
+      
+      // Transfer indexes the recipient, so one log query finds every token the account received
+      const logs = await publicClient.getContractEvents({
+        address: contractAddress,
+        abi: RELIC_CHAIN_VERIFY_ABI,
+        eventName: 'Transfer',
+        args: { to: account as `0x${string}` },
+        fromBlock: 'earliest',
+      });
+      
+      // Provenance holds the kind and price of each transfer
+      const tokenIds = [...new Set(logs.map((log) => log.args.tokenId!))];
+      const histories = await Promise.all(
+        tokenIds.map((tokenId) =>
+          publicClient.readContract({
+            address: contractAddress,
+            abi: RELIC_CHAIN_VERIFY_ABI,
+            functionName: 'getProvenance',
+            args: [tokenId],
+          })
+        )
+      );
+      
+      return tokenIds
+        .flatMap((tokenId, i) =>
+          histories[i]
+            .filter((record) => record.to.toLowerCase() === account.toLowerCase())
+            .map((record): Acquisition => ({
+              ...record,
+              tokenId,
+              txHash: logs.find((log) => log.args.tokenId === tokenId && log.blockNumber === record.blockNumber)?.transactionHash,
+            }))
+        )
+        .sort((a, b) => Number(b.blockNumber - a.blockNumber));
+    },
+  });
+}
+
+export function usePendingWithdrawal(accountAddress?: string) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'pendingWithdrawals',
+    args: [(accountAddress || address || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: !!(accountAddress || address) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useSalePrice(tokenId: bigint, enabled = true) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'salePrices',
+    args: [tokenId],
+    query: {
+      enabled: enabled && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useRoyaltyInfo(tokenId: bigint, salePrice: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'royaltyInfo',
+    args: [tokenId, salePrice],
+    query: {
+      enabled: salePrice > BigInt(0) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useTokenAuctions(tokenId: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getTokenAuctions',
+    args: [tokenId],
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      select: (data: any) => {
+        if (!data) return [];
+        if (Array.isArray(data)) return data;
+        return [];
+      },
+    },
+  });
+}
+
+export function useAuction(auctionId?: bigint) {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'getAuction',
+    args: [auctionId ?? BigInt(0)],
+    query: {
+      enabled: auctionId !== undefined && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+export function useBidDeposit(auctionId?: bigint, bidderAddress?: string) {
+  const { address } = useAccount();
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'bidDeposits',
+    args: [auctionId ?? BigInt(0), (bidderAddress || address || '0x0000000000000000000000000000000000000000') as `0x${string}`],
+    query: {
+      enabled: auctionId !== undefined && !!(bidderAddress || address) && !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    },
+  });
+}
+
+// The category registry address is immutable per deployment, so it is read once
+export function useCategoryRegistryAddress() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  
+  return useReadContract({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    functionName: 'categoryRegistry',
+    query: {
+      enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+      staleTime: Infinity,
+    },
+  });
+}
+
+export function useCategorySchema(categoryId?: bigint) {
+  const { data: registryAddress } = useCategoryRegistryAddress();
+  
+  return useReadContract({
+    address: registryAddress,
+    abi: CATEGORY_REGISTRY_ABI,
+    functionName: 'getCategory',
+    args: [categoryId ?? BigInt(0)],
+    query: {
+      enabled: categoryId !== undefined && !!registryAddress,
+      // Schemas never change once registered
+      staleTime: Infinity,
+    },
+  });
+}
+
+export function useCategorySchemas() {
+  const { data: registryAddress } = useCategoryRegistryAddress();
+  
+  const { data: totalCategories } = useReadContract({
+    address: registryAddress,
+    abi: CATEGORY_REGISTRY_ABI,
+    functionName: 'getTotalCategories',
+    query: {
+      enabled: !!registryAddress,
+    },
+  });
+  
+  const count = totalCategories ? Number(totalCategories) : 0;
+  return useReadContracts({
+    contracts: Array.from({ length: count }, (_, i) => ({
+      address: registryAddress,
+      abi: CATEGORY_REGISTRY_ABI,
+      functionName: 'getCategory' as const,
+      args: [BigInt(i)] as const,
+    })),
+    query: {
+      enabled: count > 0,
+      staleTime: Infinity,
+      select: (results): CategorySchema[] =>
+        results.flatMap((result) => (result.status === 'success' ? [result.result as CategorySchema] : [])),
+    },
+  });
+}
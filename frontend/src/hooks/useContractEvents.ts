@@ -0,0 +1,312 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient, type Query } from '@tanstack/react-query';
+import { useChainId, useWatchContractEvent } from 'wagmi';
+import type { Log } from 'viem';
+import { CATEGORY_REGISTRY_ABI, getContractAddress, RELIC_CHAIN_VERIFY_ABI } from '../config/contracts';
+import { useCategoryRegistryAddress } from './useContract';
+
+// A contract read to refresh; `arg` limits it to reads whose first argument matches, and
+// `tokenId` to the pages and batches that hold the token
+interface AffectedRead {
+  functionName: string;
+  arg?: bigint | number | string;
+  tokenId?: bigint;
+}
+
+type MarketplaceLog = Log & { eventName?: string; args?: Record<string, unknown> };
+
+// Reads whose result changes when an event fires. Contract reads do not poll: they are
+// refreshed by these events, and the events themselves are polled if the subscription fails
+function readsAffectedBy(log: MarketplaceLog): AffectedRead[] {
+  const args = (log.args ?? {}) as Record<string, any>;
+
+  switch (log.eventName) {
+    case 'CollectibleListed':
+      return [
+        { functionName: 'getTotalCollectibles' },
+        { functionName: 'getCollectiblesPage', tokenId: args.tokenId },
+        { functionName: 'getOwnerCollectiblesPage', arg: args.owner },
+        { functionName: 'getOwnerCollectibles', arg: args.owner },
+      ];
+    case 'PurchaseRequested':
+      return [
+        { functionName: 'getOwnerPendingRequests', arg: args.owner },
+        { functionName: 'getTokenPurchaseRequests', arg: args.tokenId },
+        { functionName: 'getBuyerRequests', arg: args.buyer },
+        { functionName: 'getPurchaseRequest', arg: args.requestId },
+        { functionName: 'getPurchaseRequestsBatch' },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    // Approving removes the request from the owner's pending list before the sale settles
+    case 'PurchaseSettlementRequested':
+      return [
+        { functionName: 'getOwnerPendingRequests' },
+        { functionName: 'getPurchaseRequest', arg: args.requestId },
+        { functionName: 'getPurchaseRequestsBatch' },
+        { functionName: 'getCollectibleInfo', arg: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    case 'PurchaseApproved':
+      return [
+        { functionName: 'getPurchaseRequest', arg: args.requestId },
+        { functionName: 'getPurchaseRequestsBatch' },
+        { functionName: 'getCollectibleInfo', arg: args.tokenId },
+        { functionName: 'salePrices', arg: args.tokenId },
+        { functionName: 'getProvenance', arg: args.tokenId },
+        { functionName: 'getCollectiblesPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+        { functionName: 'getOwnerCollectiblesPage' },
+        { functionName: 'getOwnerCollectibles' },
+        { functionName: 'pendingWithdrawals' },
+      ];
+    // Rejections and cancellations refund the escrow to the buyer
+    case 'PurchaseRejected':
+    case 'PurchaseCancelled':
+      return [
+        { functionName: 'getOwnerPendingRequests' },
+        { functionName: 'getPurchaseRequest', arg: args.requestId },
+        { functionName: 'getPurchaseRequestsBatch' },
+        { functionName: 'pendingWithdrawals', arg: args.buyer },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    // Every change of owner: offers, buy-now, auctions, gifts and plain ERC-721 transfers
+    case 'Transfer':
+      return [
+        { functionName: 'getCollectibleInfo', arg: args.tokenId },
+        { functionName: 'salePrices', arg: args.tokenId },
+        { functionName: 'getProvenance', arg: args.tokenId },
+        { functionName: 'getCollectiblesPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+        { functionName: 'getOwnerCollectiblesPage' },
+        { functionName: 'getOwnerCollectibles' },
+      ];
+    case 'SalePriceSet':
+    case 'SaleCancelled':
+      return [
+        { functionName: 'salePrices', arg: args.tokenId },
+        { functionName: 'getCollectiblesPage', tokenId: args.tokenId },
+        { functionName: 'getOwnerCollectiblesPage' },
+      ];
+    case 'WithdrawalCredited':
+      return [
+        { functionName: 'pendingWithdrawals', arg: args.account },
+        { functionName: 'bidDeposits' },
+      ];
+    case 'Withdrawn':
+      return [{ functionName: 'pendingWithdrawals', arg: args.account }];
+    // Opening an auction clears the Buy Now price
+    case 'AuctionCreated':
+      return [
+        { functionName: 'getTokenAuctions', arg: args.tokenId },
+        { functionName: 'getAuction', arg: args.auctionId },
+        { functionName: 'salePrices', arg: args.tokenId },
+        { functionName: 'getCollectiblesPage', tokenId: args.tokenId },
+        { functionName: 'getOwnerCollectiblesPage' },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    // Bids name their auction, not the token, so every page is refreshed
+    case 'BidPlaced':
+      return [
+        { functionName: 'getAuction', arg: args.auctionId },
+        { functionName: 'bidDeposits', arg: args.auctionId },
+        { functionName: 'getCollectibleStatsPage' },
+        { functionName: 'getCollectibleStatsBatch' },
+      ];
+    case 'AuctionRevealRequested':
+      return [{ functionName: 'getAuction', arg: args.auctionId }];
+    case 'AuctionSettled':
+    case 'AuctionCancelled':
+      return [
+        { functionName: 'getAuction', arg: args.auctionId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    case 'ViewerGranted':
+    case 'ViewerRevoked':
+      return [{ functionName: 'getViewerGrants', arg: args.tokenId }];
+    case 'ThresholdProofRequested':
+      return [
+        { functionName: 'getTokenThresholdProofs', arg: args.tokenId },
+        { functionName: 'getThresholdProof', arg: args.proofId },
+      ];
+    case 'ThresholdProofAnswered':
+    case 'ThresholdProofDeclined':
+    case 'ThresholdProofPublished':
+    case 'ThresholdProofReset':
+      return [{ functionName: 'getThresholdProof', arg: args.proofId }];
+    case 'DuplicateCheckProgress':
+    case 'DuplicateCheckRequested':
+      return [{ functionName: 'getDuplicateCheck', arg: args.tokenId }];
+    case 'DuplicateCheckCompleted':
+    case 'DuplicateCheckReset':
+      return [
+        { functionName: 'getDuplicateCheck', arg: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    case 'CollectibleAttested':
+      return [
+        { functionName: 'getTokenAttestations', arg: args.tokenId },
+        { functionName: 'getVerifiedBy', arg: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    case 'AttestationRevoked':
+      return [
+        { functionName: 'getAttestation', arg: args.attestationId },
+        { functionName: 'getVerifiedBy', arg: args.tokenId },
+        { functionName: 'getCollectibleStatsPage', tokenId: args.tokenId },
+        { functionName: 'getCollectibleStatsBatch', tokenId: args.tokenId },
+      ];
+    // Removing or re-adding an authenticator changes every token it verified
+    case 'AuthenticatorAdded':
+    case 'AuthenticatorRemoved':
+      return [
+        { functionName: 'getAuthenticators' },
+        { functionName: 'getAuthenticator', arg: args.authenticator },
+        { functionName: 'getVerifiedBy' },
+        { functionName: 'getCollectibleStatsPage' },
+        { functionName: 'getCollectibleStatsBatch' },
+      ];
+    case 'AdminTransferred':
+      return [{ functionName: 'admin' }];
+    case 'RoleGranted':
+    case 'RoleRevoked':
+      return [{ functionName: 'hasRole', arg: args.role }];
+    case 'MarketplaceFeeUpdated':
+      return [{ functionName: 'marketplaceFeeBps' }];
+    case 'MarketplaceFeeCollected':
+    case 'TreasuryWithdrawn':
+      return [{ functionName: 'treasuryBalance' }];
+    case 'Paused':
+    case 'Unpaused':
+      return [{ functionName: 'paused' }];
+    default:
+      return [];
+  }
+}
+
+const sameArg = (value: unknown, expected: bigint | number | string) =>
+  typeof expected === 'string' && typeof value === 'string'
+    ? value.toLowerCase() === expected.toLowerCase()
+    : value === expected;
+
+interface ContractCall {
+  address?: string;
+  functionName?: string;
+  args?: readonly unknown[];
+}
+
+// Pages are read as (offset, limit) and batches as a list of token ids
+function holdsToken(call: ContractCall, tokenId: bigint) {
+  const [first, limit] = call.args ?? [];
+  if (Array.isArray(first)) {
+    return first.includes(tokenId);
+  }
+  return typeof first === 'bigint' && typeof limit === 'bigint' && first <= tokenId && tokenId < first + limit;
+}
+
+// useReadContract keys hold one call and useReadContracts keys a list of them
+function isAffected(query: Query, contractAddress: string, reads: AffectedRead[]) {
+  const [scope, params] = query.queryKey as [unknown, (ContractCall & { contracts?: ContractCall[] })?];
+  const calls = scope === 'readContract' ? [params] : scope === 'readContracts' ? params?.contracts ?? [] : [];
+  return calls.some(
+    (call) =>
+      call?.address?.toLowerCase() === contractAddress.toLowerCase() &&
+      reads.some(
+        (read) =>
+          read.functionName === call.functionName &&
+          (read.arg === undefined || sameArg(call.args?.[0], read.arg)) &&
+          (read.tokenId === undefined || holdsToken(call, read.tokenId))
+      )
+  );
+}
+
+// Queries built from contract logs rather than reads, by the events they list
+const LOG_QUERIES: Record<string, string[]> = {
+  Transfer: ['acquisitions'],
+  PurchaseApproved: ['offerDecisions'],
+  PurchaseRejected: ['offerDecisions'],
+  PurchaseCancelled: ['offerDecisions'],
+};
+
+/**
+ * Refresh the reads affected by marketplace events as soon as they are emitted
+ * @dev Subscribes over the websocket transport when there is one. If the subscription
+ *      fails, e.g. the node has no websocket endpoint, it falls back to polling for logs.
+ *      Contract reads rely on this hook instead of polling on their own.
+ *      Mount once, inside the wagmi and react-query providers
+ */
+export function useContractEvents() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId) as `0x${string}`;
+  const queryClient = useQueryClient();
+  // undefined lets viem subscribe when the transport supports it
+  const [poll, setPoll] = useState<true | undefined>(undefined);
+
+  const onLogs = useCallback(
+    (logs: MarketplaceLog[]) => {
+      // Activity feeds list every event of their token
+      queryClient.invalidateQueries({ queryKey: ['tokenActivity'] });
+      const logQueries = new Set(logs.flatMap((log) => LOG_QUERIES[log.eventName ?? ''] ?? []));
+      for (const key of logQueries) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+
+      const reads = logs.flatMap(readsAffectedBy);
+      if (reads.length === 0) {
+        return;
+      }
+      queryClient.invalidateQueries({ predicate: (query) => isAffected(query, contractAddress, reads) });
+      queryClient.invalidateQueries({ queryKey: ['indexer'] });
+    },
+    [queryClient, contractAddress]
+  );
+
+  const onError = useCallback(
+    (error: Error) => {
+      if (!poll) {
+        console.warn('Event subscription failed; polling for events instead:', error.message);
+        setPoll(true);
+      }
+    },
+    [poll]
+  );
+
+  useWatchContractEvent({
+    address: contractAddress,
+    abi: RELIC_CHAIN_VERIFY_ABI,
+    poll,
+    pollingInterval: 2000,
+    enabled: !!contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000',
+    onLogs,
+    onError,
+  });
+
+  // Categories are registered on their own contract
+  const { data: registryAddress } = useCategoryRegistryAddress();
+  const onCategoryLogs = useCallback(() => {
+    if (registryAddress) {
+      queryClient.invalidateQueries({
+        predicate: (query) => isAffected(query, registryAddress, [{ functionName: 'getTotalCategories' }]),
+      });
+    }
+  }, [queryClient, registryAddress]);
+
+  useWatchContractEvent({
+    address: registryAddress,
+    abi: CATEGORY_REGISTRY_ABI,
+    eventName: 'CategoryRegistered',
+    poll,
+    pollingInterval: 2000,
+    enabled: !!registryAddress,
+    onLogs: onCategoryLogs,
+    onError,
+  });
+}
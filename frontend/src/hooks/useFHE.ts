@@ -1,15 +1,41 @@
-import { useState, useCallback } from 'react';
-import { useAccount, useChainId } from 'wagmi';
-import { initFHE, getFHEInstance, encryptMultipleValues } from '../lib/fhe';
-import type { FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import { useAccount, useChainId, useWalletClient } from 'wagmi';
+import { initFHE, encryptMultipleValues, encryptUint64Value, type EncryptedField } from '../lib/fhe';
+import type { DecryptedResults, FhevmInstance } from '@zama-fhe/relayer-sdk/bundle';
+
+// The FHE instance is shared by every useFHE caller, so rows and panels inside a dialog
+// that initialized it can encrypt and decrypt without initializing it again. Callbacks read
+// it when called, so they also work right after awaiting initializeFHE
+interface FHEState {
+  instance: FhevmInstance | null;
+  isInitializing: boolean;
+}
+
+let fheState: FHEState = { instance: null, isInitializing: false };
+let pendingInit: Promise<FhevmInstance> | null = null;
+const listeners = new Set<() => void>();
+
+function setFHEState(patch: Partial<FHEState>) {
+  fheState = { ...fheState, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const getFHEState = () => fheState;
 
 export function useFHE() {
-  const [instance, setInstance] = useState<FhevmInstance | null>(null);
-  const [isInitializing, setIsInitializing] = useState(false);
+  const { instance, isInitializing } = useSyncExternalStore(subscribe, getFHEState);
   const [error, setError] = useState<string | null>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const isInitialized = !!instance;
   const { address, isConnected } = useAccount();
   const chainId = useChainId();
+  const { data: walletClient } = useWalletClient();
 
   const initializeFHE = useCallback(async () => {
     if (!isConnected || !address) {
@@ -17,59 +43,205 @@ export function useFHE() {
       return false;
     }
 
-    if (instance || isInitializing) {
+    if (fheState.instance) {
       return true;
     }
 
+    // Callers that start while another one is initializing wait for the same result
     try {
-      setIsInitializing(true);
       setError(null);
-
-      console.log('Initializing FHE for chainId:', chainId);
-      const fheInstance = await initFHE(chainId);
-      setInstance(fheInstance);
-      setIsInitialized(true);
+      if (!pendingInit) {
+        setFHEState({ isInitializing: true });
+        console.log('Initializing FHE for chainId:', chainId);
+        pendingInit = initFHE(chainId);
+      }
+      const fheInstance = await pendingInit;
+      setFHEState({ instance: fheInstance });
       console.log('FHE initialized successfully');
       return true;
     } catch (err) {
       console.error('Failed to initialize FHE:', err);
       setError(err instanceof Error ? err.message : 'Failed to initialize FHE');
+      pendingInit = null;
       return false;
     } finally {
-      setIsInitializing(false);
+      setFHEState({ isInitializing: false });
     }
-  }, [instance, isInitializing, isConnected, address, chainId]);
+  }, [isConnected, address, chainId]);
 
+  // For actions that need the instance right away: waits for an initialization already
+  // under way, e.g. the one a dialog starts when it opens, or retries one that failed
+  const ensureInitialized = useCallback(async () => {
+    if (!(await initializeFHE())) {
+      throw new Error('Failed to initialize FHE');
+    }
+  }, [initializeFHE]);
+
+  // Attributes are encrypted in category schema order with a single shared inputProof
   const encryptCollectibleData = useCallback(async (
     contractAddress: string,
-    purchasePrice: number,
-    certNumber: number,
-    serialNumber: number,
-    originCode: number
+    attributes: EncryptedField[]
   ) => {
-    if (!instance || !address) {
+    if (!fheState.instance || !address) {
       throw new Error('FHE not initialized or wallet not connected');
     }
 
     try {
-      const encrypted = await encryptMultipleValues(
-        contractAddress,
-        address,
-        [purchasePrice, certNumber, serialNumber, originCode]
-      );
+      const encrypted = await encryptMultipleValues(contractAddress, address, attributes);
 
       return {
-        encryptedPrice: encrypted.handles[0],
-        encryptedCert: encrypted.handles[1],
-        encryptedSerial: encrypted.handles[2],
-        encryptedOrigin: encrypted.handles[3],
+        encryptedAttributes: encrypted.handles,
         inputProof: encrypted.inputProof
       };
     } catch (err) {
       console.error('Encryption failed:', err);
       throw err;
     }
-  }, [instance, address]);
+  }, [address]);
+
+  // Offers are denominated in gwei so they fit in a euint64
+  const encryptOffer = useCallback(async (
+    contractAddress: string,
+    offerGwei: bigint
+  ) => {
+    if (!fheState.instance || !address) {
+      throw new Error('FHE not initialized or wallet not connected');
+    }
+
+    try {
+      const encrypted = await encryptUint64Value(contractAddress, address, offerGwei);
+      return {
+        encryptedOffer: encrypted.handle,
+        inputProof: encrypted.inputProof
+      };
+    } catch (err) {
+      console.error('Offer encryption failed:', err);
+      throw err;
+    }
+  }, [address]);
+
+  // A claimed attribute is encrypted at the width of the schema field it is checked against
+  const encryptClaim = useCallback(async (
+    contractAddress: string,
+    claim: EncryptedField
+  ) => {
+    if (!fheState.instance || !address) {
+      throw new Error('FHE not initialized or wallet not connected');
+    }
+
+    try {
+      const encrypted = await encryptMultipleValues(contractAddress, address, [claim]);
+      return {
+        encryptedClaim: encrypted.handles[0],
+        inputProof: encrypted.inputProof
+      };
+    } catch (err) {
+      console.error('Claim encryption failed:', err);
+      throw err;
+    }
+  }, [address]);
+
+  // Attestation payloads are encrypted as a euint256, like short-string attributes
+  const encryptAttestation = useCallback(async (
+    contractAddress: string,
+    payload: bigint
+  ) => {
+    if (!fheState.instance || !address) {
+      throw new Error('FHE not initialized or wallet not connected');
+    }
+
+    try {
+      const encrypted = await encryptMultipleValues(contractAddress, address, [{ bits: 256, value: payload }]);
+      return {
+        encryptedPayload: encrypted.handles[0],
+        inputProof: encrypted.inputProof
+      };
+    } catch (err) {
+      console.error('Attestation encryption failed:', err);
+      throw err;
+    }
+  }, [address]);
+
+  // Auction bids are denominated in gwei so they fit in a euint64
+  const encryptBid = useCallback(async (
+    contractAddress: string,
+    bidGwei: bigint
+  ) => {
+    if (!fheState.instance || !address) {
+      throw new Error('FHE not initialized or wallet not connected');
+    }
+
+    try {
+      const encrypted = await encryptUint64Value(contractAddress, address, bidGwei);
+      return {
+        encryptedBid: encrypted.handle,
+        inputProof: encrypted.inputProof
+      };
+    } catch (err) {
+      console.error('Bid encryption failed:', err);
+      throw err;
+    }
+  }, [address]);
+
+  // Decrypt handles the connected account has ACL access to (one EIP712 signature for all)
+  const decryptHandles = useCallback(async (
+    contractAddress: string,
+    handles: string[]
+  ): Promise<bigint[]> => {
+    if (!fheState.instance || !address) {
+      throw new Error('FHE not initialized or wallet not connected');
+    }
+
+    if (!walletClient) {
+      throw new Error('Wallet client not available');
+    }
+
+    const { instance } = fheState;
+    const keypair = instance.generateKeypair();
+    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
+    const durationDays = "7";
+    const contractAddresses = [contractAddress];
+
+    const eip712 = instance.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimeStamp,
+      durationDays
+    );
+
+    const signature = await walletClient.signTypedData({
+      domain: {
+        ...eip712.domain,
+        verifyingContract: eip712.domain.verifyingContract as `0x${string}`,
+      },
+      types: {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      primaryType: 'UserDecryptRequestVerification',
+      message: eip712.message,
+    });
+
+    const result: DecryptedResults = await instance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      contractAddresses,
+      address,
+      startTimeStamp,
+      durationDays
+    );
+
+    // Results are keyed by handle, compared without regard to hex case
+    const values = new Map(Object.entries(result).map(([handle, value]) => [handle.toLowerCase(), value]));
+    return handles.map((handle) => {
+      const value = values.get(handle.toLowerCase());
+      if (value === undefined) {
+        throw new Error(`No decrypted value for handle ${handle}`);
+      }
+      return BigInt(value);
+    });
+  }, [address, walletClient]);
 
   return {
     instance,
@@ -77,7 +249,13 @@ export function useFHE() {
     isInitializing,
     error,
     initializeFHE,
-    encryptCollectibleData
+    ensureInitialized,
+    encryptCollectibleData,
+    encryptOffer,
+    encryptBid,
+    encryptClaim,
+    encryptAttestation,
+    decryptHandles
   };
 }
 
@@ -0,0 +1,59 @@
+import { useQuery } from '@tanstack/react-query';
+import { useChainId } from 'wagmi';
+import { getContractAddress } from '../config/contracts';
+import {
+  INDEXER_URL,
+  fetchIndexerStatus,
+  fetchOffers,
+  fetchSales,
+  type OfferFilter,
+  type SaleFilter,
+} from '../lib/indexer';
+
+// Query keys must be JSON-serializable, so bigints are keyed as strings
+const filterKey = (filter: SaleFilter | OfferFilter) => ({ ...filter, tokenId: filter.tokenId?.toString() });
+
+/**
+ * Whether the indexer is configured and indexes the contract of the connected chain
+ * Components use contract reads when this is false
+ */
+export function useIndexerAvailable() {
+  const chainId = useChainId();
+  const contractAddress = getContractAddress(chainId);
+
+  const { data: status } = useQuery({
+    queryKey: ['indexer', 'status'],
+    queryFn: fetchIndexerStatus,
+    enabled: !!INDEXER_URL,
+    refetchInterval: 10000,
+    retry: false,
+  });
+
+  return (
+    !!status &&
+    status.chainId === chainId.toString() &&
+    status.contract?.toLowerCase() === contractAddress.toLowerCase()
+  );
+}
+
+export function useIndexedSales(filter: SaleFilter) {
+  const available = useIndexerAvailable();
+
+  return useQuery({
+    queryKey: ['indexer', 'sales', filterKey(filter)],
+    queryFn: () => fetchSales(filter),
+    enabled: available,
+    refetchInterval: 5000,
+  });
+}
+
+export function useIndexedOffers(filter: OfferFilter) {
+  const available = useIndexerAvailable();
+
+  return useQuery({
+    queryKey: ['indexer', 'offers', filterKey(filter)],
+    queryFn: () => fetchOffers(filter),
+    enabled: available,
+    refetchInterval: 5000,
+  });
+}
@@ -0,0 +1,89 @@
+import type { CatalogEntry } from '../hooks/useContract';
+
+// Search, filter and sort state of the showcase, kept in the URL so results can be shared
+
+export type CatalogSort = 'newest' | 'offers' | 'price';
+
+export const CATALOG_SORTS: Record<CatalogSort, string> = {
+  newest: 'Newest',
+  offers: 'Most offers',
+  price: 'Recent sale price',
+};
+
+export interface CatalogQuery {
+  search: string;
+  mine: boolean;
+  withOffers: boolean; // Has pending offers
+  verified: boolean;
+  categoryId?: bigint;
+  listedFrom?: string; // YYYY-MM-DD, inclusive
+  listedTo?: string; // YYYY-MM-DD, inclusive
+  sort: CatalogSort;
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Unknown or malformed parameters fall back to their defaults
+export function parseCatalogQuery(params: URLSearchParams): CatalogQuery {
+  const category = params.get('category');
+  const from = params.get('from');
+  const to = params.get('to');
+  const sort = params.get('sort');
+
+  return {
+    search: params.get('q') ?? '',
+    mine: params.get('mine') === '1',
+    withOffers: params.get('offers') === '1',
+    verified: params.get('verified') === '1',
+    categoryId: category && /^\d+$/.test(category) ? BigInt(category) : undefined,
+    listedFrom: from && DATE_PATTERN.test(from) ? from : undefined,
+    listedTo: to && DATE_PATTERN.test(to) ? to : undefined,
+    sort: sort && sort in CATALOG_SORTS ? (sort as CatalogSort) : 'newest',
+  };
+}
+
+// Defaults are left out to keep URLs short
+export function catalogSearchParams(query: CatalogQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.mine) params.set('mine', '1');
+  if (query.withOffers) params.set('offers', '1');
+  if (query.verified) params.set('verified', '1');
+  if (query.categoryId !== undefined) params.set('category', query.categoryId.toString());
+  if (query.listedFrom) params.set('from', query.listedFrom);
+  if (query.listedTo) params.set('to', query.listedTo);
+  if (query.sort !== 'newest') params.set('sort', query.sort);
+  return params;
+}
+
+// Local midnight of a YYYY-MM-DD date, in seconds
+const dayStart = (date: string) => BigInt(Math.floor(new Date(`${date}T00:00:00`).getTime() / 1000));
+const DAY_SECONDS = BigInt(24 * 60 * 60);
+
+const compareBigint = (a: bigint, b: bigint) => (a > b ? -1 : a < b ? 1 : 0);
+
+const SORTERS: Record<CatalogSort, (a: CatalogEntry, b: CatalogEntry) => number> = {
+  newest: (a, b) => compareBigint(a.tokenId, b.tokenId),
+  offers: (a, b) => compareBigint(a.offerCount, b.offerCount) || compareBigint(a.tokenId, b.tokenId),
+  // Never-sold collectibles have a price of 0 and end up last
+  price: (a, b) => compareBigint(a.lastSalePrice, b.lastSalePrice) || compareBigint(a.lastSaleAt, b.lastSaleAt),
+};
+
+export function searchCatalog(entries: readonly CatalogEntry[], query: CatalogQuery, account?: string): CatalogEntry[] {
+  const search = query.search.trim().toLowerCase();
+  const from = query.listedFrom ? dayStart(query.listedFrom) : undefined;
+  const to = query.listedTo ? dayStart(query.listedTo) + DAY_SECONDS : undefined;
+
+  return entries
+    .filter(
+      (entry) =>
+        (!search || entry.name.toLowerCase().includes(search)) &&
+        (!query.mine || (!!account && entry.owner.toLowerCase() === account.toLowerCase())) &&
+        (!query.withOffers || entry.pendingOfferCount > BigInt(0)) &&
+        (!query.verified || entry.verified) &&
+        (query.categoryId === undefined || entry.categoryId === query.categoryId) &&
+        (from === undefined || entry.listedAt >= from) &&
+        (to === undefined || entry.listedAt < to)
+    )
+    .sort(SORTERS[query.sort]);
+}
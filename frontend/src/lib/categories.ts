@@ -0,0 +1,76 @@
+import { decodeShortString, encodeShortString, SHORT_STRING_MAX_BYTES, type EncryptedField } from './fhe';
+
+// Mirrors CategoryRegistry.AttributeType
+export const AttributeType = {
+  Uint64: 0,
+  Uint128: 1,
+  Uint256: 2,
+  ShortString: 3,
+} as const;
+
+export type AttributeType = (typeof AttributeType)[keyof typeof AttributeType];
+
+export interface AttributeField {
+  name: string;
+  fieldType: number;
+  unique: boolean;
+}
+
+export interface CategorySchema {
+  categoryId: bigint;
+  name: string;
+  creator: string;
+  fields: readonly AttributeField[];
+}
+
+// FHE type each attribute is encrypted as; short strings are packed into a euint256
+const ATTRIBUTE_BITS: Record<AttributeType, EncryptedField['bits']> = {
+  [AttributeType.Uint64]: 64,
+  [AttributeType.Uint128]: 128,
+  [AttributeType.Uint256]: 256,
+  [AttributeType.ShortString]: 256,
+};
+
+export const ATTRIBUTE_TYPE_HINTS: Record<AttributeType, string> = {
+  [AttributeType.Uint64]: 'Whole number, up to 64 bits',
+  [AttributeType.Uint128]: 'Whole number, up to 128 bits',
+  [AttributeType.Uint256]: 'Whole number or 0x-prefixed hash, up to 256 bits',
+  [AttributeType.ShortString]: `Up to ${SHORT_STRING_MAX_BYTES} bytes of text`,
+};
+
+const isText = (fieldType: number) => fieldType === AttributeType.ShortString;
+
+// Returns an error message for invalid input, or null when the value can be encrypted
+export function validateAttribute(fieldType: number, input: string): string | null {
+  if (!input) {
+    return 'Required';
+  }
+
+  if (isText(fieldType)) {
+    return new TextEncoder().encode(input).length <= SHORT_STRING_MAX_BYTES
+      ? null
+      : `Must be at most ${SHORT_STRING_MAX_BYTES} bytes`;
+  }
+
+  const bits = ATTRIBUTE_BITS[fieldType as AttributeType];
+  const isNumber = /^\d+$/.test(input) || (bits === 256 && /^0x[0-9a-fA-F]{1,64}$/.test(input));
+  if (!isNumber) {
+    return 'Must be a number';
+  }
+  return BigInt(input) < BigInt(1) << BigInt(bits) ? null : `Must fit in ${bits} bits`;
+}
+
+export function encodeAttribute(fieldType: number, input: string): EncryptedField {
+  return {
+    bits: ATTRIBUTE_BITS[fieldType as AttributeType],
+    value: isText(fieldType) ? encodeShortString(input) : BigInt(input),
+  };
+}
+
+export function formatAttribute(fieldType: number, value: bigint): string {
+  if (isText(fieldType)) {
+    return decodeShortString(value);
+  }
+  // Wide values are usually hashes, which read better in hex
+  return fieldType === AttributeType.Uint256 ? `0x${value.toString(16).padStart(64, '0')}` : value.toString();
+}
@@ -176,26 +176,79 @@ export async function encryptValue(
   };
 }
 
-// uint32 max value: 4294967295
-const UINT32_MAX = 4294967295;
+export async function encryptUint64Value(
+  contractAddress: string,
+  userAddress: string,
+  value: bigint
+): Promise<{ handle: Uint8Array; inputProof: Uint8Array }> {
+  const instance = await initFHE();
+  const encryptedInput = instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add64(value);
+  
+  const encrypted = await encryptedInput.encrypt();
+  
+  return {
+    handle: encrypted.handles[0],
+    inputProof: encrypted.inputProof
+  };
+}
+
+// Encrypted metadata fields use the smallest FHE type that fits them
+export type EncryptedField = { bits: 64 | 128 | 256; value: bigint };
+
+const MAX_VALUE: Record<EncryptedField['bits'], bigint> = {
+  64: (BigInt(1) << BigInt(64)) - BigInt(1),
+  128: (BigInt(1) << BigInt(128)) - BigInt(1),
+  256: (BigInt(1) << BigInt(256)) - BigInt(1),
+};
+
+// Short strings are packed left-aligned into 32 bytes, like Solidity's bytes32("...")
+export const SHORT_STRING_MAX_BYTES = 31;
+
+export function encodeShortString(value: string): bigint {
+  const bytes = new TextEncoder().encode(value);
+  if (bytes.length > SHORT_STRING_MAX_BYTES) {
+    throw new Error(`"${value}" is longer than ${SHORT_STRING_MAX_BYTES} bytes`);
+  }
+  const hex = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  return BigInt(`0x${hex.padEnd(64, '0')}`);
+}
+
+export function decodeShortString(value: bigint): string {
+  const hex = value.toString(16).padStart(64, '0');
+  const bytes: number[] = [];
+  for (let i = 0; i < hex.length; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+  // Drop the zero padding on the right
+  while (bytes.length > 0 && bytes[bytes.length - 1] === 0) {
+    bytes.pop();
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
 
 export async function encryptMultipleValues(
   contractAddress: string,
   userAddress: string,
-  values: number[]
+  values: EncryptedField[]
 ): Promise<{ handles: Uint8Array[]; inputProof: string }> {
-  // Validate all values are within uint32 range
-  for (const value of values) {
-    if (value < 0 || value > UINT32_MAX) {
-      throw new Error(`Value ${value} is out of uint32 range (0-${UINT32_MAX.toLocaleString()})`);
+  // Validate all values fit their FHE type
+  for (const { bits, value } of values) {
+    if (value < BigInt(0) || value > MAX_VALUE[bits]) {
+      throw new Error(`Value ${value} is out of uint${bits} range`);
     }
   }
   
   const instance = await initFHE();
   let encryptedInput = instance.createEncryptedInput(contractAddress, userAddress);
   
-  values.forEach(value => {
-    encryptedInput = encryptedInput.add32(value);
+  values.forEach(({ bits, value }) => {
+    encryptedInput = bits === 64
+      ? encryptedInput.add64(value)
+      : bits === 128
+        ? encryptedInput.add128(value)
+        : encryptedInput.add256(value);
   });
   
   const encrypted = await encryptedInput.encrypt();
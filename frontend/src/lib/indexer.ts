@@ -0,0 +1,132 @@
+// Client for the optional event indexer in /indexer
+// Set VITE_INDEXER_URL (e.g. http://localhost:4000) to enable it; without it the app
+// reads everything from the contract
+
+export const INDEXER_URL: string | undefined = import.meta.env.VITE_INDEXER_URL || undefined;
+
+export type IndexedOfferStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
+export interface IndexerStatus {
+  chainId: string | null;
+  contract: string | null;
+  lastIndexedBlock: number | null;
+}
+
+// Amounts arrive as wei decimal strings and addresses in lowercase
+interface RawSale {
+  tokenId: number;
+  seller: string;
+  buyer: string;
+  price: string;
+  soldAt: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+interface RawOffer {
+  requestId: number;
+  tokenId: number;
+  buyer: string;
+  owner: string;
+  offerAmount: string;
+  requestedAt: number;
+  status: IndexedOfferStatus;
+  seller: string | null;
+  price: string | null;
+  decidedAt: number | null;
+  txHash: string;
+}
+
+export interface IndexedSale {
+  tokenId: bigint;
+  seller: `0x${string}`;
+  buyer: `0x${string}`;
+  price: bigint;
+  soldAt: number;
+  blockNumber: number;
+  txHash: `0x${string}`;
+}
+
+export interface IndexedOffer {
+  requestId: bigint;
+  tokenId: bigint;
+  buyer: `0x${string}`;
+  owner: `0x${string}`;
+  offerAmount: bigint;
+  requestedAt: number;
+  status: IndexedOfferStatus;
+  price?: bigint;
+  decidedAt?: number;
+  txHash: `0x${string}`;
+}
+
+export interface SaleFilter {
+  buyer?: string;
+  seller?: string;
+  tokenId?: bigint;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+export interface OfferFilter {
+  buyer?: string;
+  owner?: string;
+  tokenId?: bigint;
+  status?: IndexedOfferStatus;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+async function fetchIndexer<T>(path: string, params: Record<string, string | number | bigint | undefined> = {}): Promise<T> {
+  if (!INDEXER_URL) {
+    throw new Error('VITE_INDEXER_URL is not set');
+  }
+
+  const url = new URL(path, INDEXER_URL);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      url.searchParams.set(key, value.toString());
+    }
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    const body = await response.json().catch(() => undefined);
+    throw new Error(body?.error || `Indexer request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+export function fetchIndexerStatus(): Promise<IndexerStatus> {
+  return fetchIndexer<IndexerStatus>('/status');
+}
+
+export async function fetchSales(filter: SaleFilter): Promise<IndexedSale[]> {
+  const sales = await fetchIndexer<RawSale[]>('/sales', { ...filter });
+  return sales.map((sale) => ({
+    ...sale,
+    tokenId: BigInt(sale.tokenId),
+    seller: sale.seller as `0x${string}`,
+    buyer: sale.buyer as `0x${string}`,
+    price: BigInt(sale.price),
+    txHash: sale.txHash as `0x${string}`,
+  }));
+}
+
+export async function fetchOffers(filter: OfferFilter): Promise<IndexedOffer[]> {
+  const offers = await fetchIndexer<RawOffer[]>('/offers', { ...filter });
+  return offers.map((offer) => ({
+    requestId: BigInt(offer.requestId),
+    tokenId: BigInt(offer.tokenId),
+    buyer: offer.buyer as `0x${string}`,
+    owner: offer.owner as `0x${string}`,
+    offerAmount: BigInt(offer.offerAmount),
+    requestedAt: offer.requestedAt,
+    status: offer.status,
+    price: offer.price !== null ? BigInt(offer.price) : undefined,
+    decidedAt: offer.decidedAt ?? undefined,
+    txHash: offer.txHash as `0x${string}`,
+  }));
+}
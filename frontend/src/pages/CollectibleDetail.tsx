@@ -0,0 +1,183 @@
+import { Link, useParams } from "react-router-dom";
+import Header from "@/components/Header";
+import CollectibleActions from "@/components/CollectibleActions";
+import { VerifiedBadge } from "@/components/CollectibleCard";
+import TokenOffersPanel from "@/components/TokenOffersPanel";
+import ActivityFeed from "@/components/ActivityFeed";
+import ProvenanceTimeline from "@/components/ProvenanceTimeline";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  useCollectibleInfo,
+  useSalePrice,
+  useTokenAuctions,
+  useAuction,
+  useVerifiedBy,
+  useEncryptedMetadata,
+  useCategorySchema,
+} from "@/hooks/useContract";
+import type { CategorySchema } from "@/lib/categories";
+import { formatEther } from "viem";
+import { ArrowLeft, Lock, Tag, Gavel } from "lucide-react";
+
+const CollectibleDetail = () => {
+  const { tokenId: tokenIdParam } = useParams();
+  const isValidId = !!tokenIdParam && /^\d+$/.test(tokenIdParam);
+  const tokenId = isValidId ? BigInt(tokenIdParam) : BigInt(0);
+
+  const { data: info, isLoading } = useCollectibleInfo(tokenId, isValidId);
+  const { data: salePriceData } = useSalePrice(tokenId, isValidId);
+  const { data: auctionIds } = useTokenAuctions(tokenId);
+  const { data: verifiedBy } = useVerifiedBy(tokenId);
+  const { data: encryptedMetadata } = useEncryptedMetadata(tokenId);
+  const { data: schemaData } = useCategorySchema(encryptedMetadata?.[0]);
+  const schema = schemaData as CategorySchema | undefined;
+  const { data: latestAuction } = useAuction(
+    auctionIds && auctionIds.length > 0 ? auctionIds[auctionIds.length - 1] : undefined
+  );
+
+  const exists = isValidId && !!info && info[4];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-6 pt-32 pb-24 space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-cyan-500 transition-colors">
+          <ArrowLeft className="h-4 w-4" />
+          All collectibles
+        </Link>
+        {isValidId && isLoading && <div className="text-center text-muted-foreground py-12">Loading collectible...</div>}
+        {!isLoading && !exists && (
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">Collectible not found</h2>
+            <p className="text-muted-foreground">There is no collectible #{tokenIdParam} on this network</p>
+          </div>
+        )}
+        {exists && (
+          <CollectibleDetailContent
+            tokenId={tokenId}
+            info={info}
+            salePrice={typeof salePriceData === 'bigint' ? salePriceData : BigInt(0)}
+            categoryName={schema?.name}
+            verifiedBy={verifiedBy ?? []}
+            latestAuction={latestAuction}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+interface CollectibleDetailContentProps {
+  tokenId: bigint;
+  // getCollectibleInfo returns: (string name, string imageUri, address owner, uint256 listedAt, bool exists)
+  info: readonly [string, string, `0x${string}`, bigint, boolean];
+  salePrice: bigint;
+  categoryName?: string;
+  verifiedBy: readonly string[];
+  latestAuction?: { status: number; bidCount: bigint; endTime: bigint };
+}
+
+const CollectibleDetailContent = ({
+  tokenId,
+  info,
+  salePrice,
+  categoryName,
+  verifiedBy,
+  latestAuction,
+}: CollectibleDetailContentProps) => {
+  const [name, imageUri, owner, listedAt] = info;
+  // AuctionStatus.Active = 1, AuctionStatus.Revealing = 2
+  const inAuction = !!latestAuction && (latestAuction.status === 1 || latestAuction.status === 2);
+
+  return (
+    <div className="grid gap-8 lg:grid-cols-2">
+      <div className="space-y-6">
+        <Card className="overflow-hidden">
+          <div className="aspect-square bg-muted">
+            {imageUri ? (
+              <img src={imageUri} alt={name} className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                No Image
+              </div>
+            )}
+          </div>
+        </Card>
+        <ProvenanceTimeline tokenId={tokenId} />
+      </div>
+      <div className="space-y-6">
+        <div className="space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <h2 className="text-3xl font-bold break-words">{name}</h2>
+            <Badge className="bg-purple-500 text-white flex-shrink-0">
+              #{tokenId.toString()}
+            </Badge>
+          </div>
+          {verifiedBy.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {verifiedBy.map((account) => (
+                <VerifiedBadge key={account} account={account} />
+              ))}
+            </div>
+          )}
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Owner:</span>
+              <Link to={`/portfolio/${owner}`} className="font-mono text-xs text-cyan-500 break-all hover:underline">
+                {owner}
+              </Link>
+            </div>
+            <div className="flex justify-between gap-2">
+              <span className="text-muted-foreground">Listed:</span>
+              <span>{new Date(Number(listedAt) * 1000).toLocaleString()}</span>
+            </div>
+            {categoryName && (
+              <div className="flex justify-between gap-2">
+                <span className="text-muted-foreground">Category:</span>
+                <span>{categoryName}</span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-cyan-500">
+            <Lock className="h-4 w-4 flex-shrink-0" />
+            <span>Encrypted Metadata</span>
+          </div>
+          {salePrice > BigInt(0) && (
+            <div className="flex items-center gap-2">
+              <Tag className="h-4 w-4 text-purple-500" />
+              <span className="text-muted-foreground">Buy Now</span>
+              <span className="font-semibold text-purple-500">{formatEther(salePrice)} ETH</span>
+            </div>
+          )}
+          {inAuction && (
+            <div className="flex items-center gap-2">
+              <Gavel className="h-4 w-4 text-yellow-500" />
+              <span className="text-muted-foreground">Sealed-bid auction</span>
+              <span className="font-semibold text-yellow-500">
+                {latestAuction.bidCount.toString()} bid{latestAuction.bidCount === BigInt(1) ? "" : "s"}
+              </span>
+              {latestAuction.status === 1 && (
+                <span className="text-xs text-muted-foreground">
+                  · ends {new Date(Number(latestAuction.endTime) * 1000).toLocaleString()}
+                </span>
+              )}
+            </div>
+          )}
+          <CollectibleActions
+            tokenId={tokenId}
+            name={name}
+            owner={owner}
+            salePrice={salePrice}
+            inAuction={inAuction}
+            className="pt-2"
+          />
+        </div>
+        <TokenOffersPanel tokenId={tokenId} owner={owner} />
+        <ActivityFeed tokenId={tokenId} />
+      </div>
+    </div>
+  );
+};
+
+export default CollectibleDetail;
@@ -1,28 +1,35 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Header from "@/components/Header";
-import CollectibleCard from "@/components/CollectibleCard";
+import VirtualCollectibleGrid from "@/components/VirtualCollectibleGrid";
 import ListCollectibleDialog from "@/components/ListCollectibleDialog";
-import { useTotalCollectibles } from "@/hooks/useContract";
+import RecentSales from "@/components/RecentSales";
+import CatalogFilters from "@/components/CatalogFilters";
+import { useCatalog, usePaused } from "@/hooks/useContract";
+import { catalogSearchParams, parseCatalogQuery, searchCatalog, type CatalogQuery } from "@/lib/catalog";
 import { useAccount } from "wagmi";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Briefcase, Plus, Tag } from "lucide-react";
+import { Link, useSearchParams } from "react-router-dom";
 
 const Index = () => {
   const [isVisible, setIsVisible] = useState(false);
   const [showListDialog, setShowListDialog] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { address, isConnected } = useAccount();
-  const { data: totalCollectibles } = useTotalCollectibles();
+  const { data: catalog, isLoading: isLoadingCatalog } = useCatalog();
+  const { data: paused } = usePaused();
 
   useEffect(() => {
     setIsVisible(true);
   }, []);
 
-  // Debug: log total collectibles
-  useEffect(() => {
-    console.log('Total collectibles:', totalCollectibles);
-  }, [totalCollectibles]);
+  // The whole catalog is searched in memory; the grid only mounts the cards on screen
+  const query = useMemo(() => parseCatalogQuery(searchParams), [searchParams]);
+  const results = useMemo(() => (catalog ? searchCatalog(catalog, query, address) : []), [catalog, query, address]);
 
-  const collectibleIds = Array.from({ length: Number(totalCollectibles || 0) }, (_, i) => BigInt(i));
+  const updateQuery = (patch: Partial<CatalogQuery>, replace = false) => {
+    setSearchParams(catalogSearchParams({ ...query, ...patch }), { replace });
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -57,21 +64,36 @@ const Index = () => {
               </div>
             </div>
             {isConnected && (
-              <div className="mt-8">
+              <div className="mt-8 flex flex-col sm:flex-row gap-4 justify-center">
                 <Button
                   onClick={() => setShowListDialog(true)}
+                  disabled={!!paused}
                   size="lg"
                   className="bg-gradient-to-r from-primary to-cyan-500 hover:opacity-90"
                 >
                   <Plus className="h-5 w-5 mr-2" />
                   List New Collectible
                 </Button>
+                <Button asChild size="lg" variant="outline">
+                  <Link to="/me/offers">
+                    <Tag className="h-5 w-5 mr-2" />
+                    My Offers
+                  </Link>
+                </Button>
+                <Button asChild size="lg" variant="outline">
+                  <Link to={`/portfolio/${address}`}>
+                    <Briefcase className="h-5 w-5 mr-2" />
+                    My Portfolio
+                  </Link>
+                </Button>
               </div>
             )}
           </div>
         </div>
       </section>
 
+      <RecentSales />
+
       {/* Showcase Wall */}
       <section className="py-24 relative">
         <div className="container mx-auto px-6">
@@ -83,18 +105,24 @@ const Index = () => {
               Browse all collectibles with encrypted metadata
             </p>
           </div>
+          <CatalogFilters
+            query={query}
+            onChange={updateQuery}
+            canFilterMine={isConnected}
+            resultCount={catalog ? results.length : undefined}
+          />
           
-          <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 transition-all duration-1000 delay-500 ${
+          <div className={`transition-all duration-1000 delay-500 ${
             isVisible ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-10'
           }`}>
-            {collectibleIds.map((tokenId) => (
-              <div key={tokenId.toString()} className="animate-fade-in">
-                <CollectibleCard tokenId={tokenId} />
-              </div>
-            ))}
-            {collectibleIds.length === 0 && (
-              <div className="col-span-full text-center text-muted-foreground py-12">
-                No collectibles listed yet. Be the first to list one!
+            <VirtualCollectibleGrid items={results} />
+            {results.length === 0 && (
+              <div className="text-center text-muted-foreground py-12">
+                {isLoadingCatalog
+                  ? "Loading collectibles..."
+                  : catalog?.length
+                    ? "No collectibles match your search."
+                    : "No collectibles listed yet. Be the first to list one!"}
               </div>
             )}
           </div>
@@ -0,0 +1,232 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { useAccount } from "wagmi";
+import { toast } from "sonner";
+import { formatEther } from "viem";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useBuyerOffers, useCollectibleInfo, useRelicChainVerify, type BuyerOffer, type OfferStatus } from "@/hooks/useContract";
+import { ArrowLeft, Check, Clock, Hourglass, Loader2, Undo2, X } from "lucide-react";
+
+const STATUS_BADGES: Record<OfferStatus, { label: string; className: string; icon: typeof Check }> = {
+  pending: { label: "Pending", className: "bg-yellow-500", icon: Clock },
+  expired: { label: "Expired", className: "bg-orange-500", icon: Hourglass },
+  settling: { label: "Settling", className: "bg-cyan-500", icon: Loader2 },
+  approved: { label: "Approved", className: "bg-green-600", icon: Check },
+  rejected: { label: "Rejected", className: "bg-red-500", icon: X },
+  cancelled: { label: "Cancelled", className: "bg-muted-foreground", icon: Undo2 },
+  refunded: { label: "Refunded", className: "bg-muted-foreground", icon: Undo2 },
+};
+
+// Filters shown above the list; expired offers count as pending until they are refunded
+const FILTERS: { label: string; statuses?: OfferStatus[] }[] = [
+  { label: "All" },
+  { label: "Pending", statuses: ["pending", "expired"] },
+  { label: "Approved", statuses: ["settling", "approved"] },
+  { label: "Rejected", statuses: ["rejected", "cancelled", "refunded"] },
+];
+
+const formatTime = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+const MyOffers = () => {
+  const { isConnected } = useAccount();
+  const { data: offers, isLoading } = useBuyerOffers();
+  const { cancelPurchaseRequest, cancelStalledSettlement, isPending, isSuccess } = useRelicChainVerify();
+  const [filter, setFilter] = useState(0);
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success("Offer cancelled and escrow refunded");
+    }
+  }, [isSuccess]);
+
+  const handleCancel = async (requestId: bigint) => {
+    try {
+      await cancelPurchaseRequest(requestId);
+      toast.info("Cancelling offer... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to cancel:", error);
+      toast.error(error?.message || "Failed to cancel offer");
+    }
+  };
+
+  const handleCancelSettlement = async (requestId: bigint) => {
+    try {
+      await cancelStalledSettlement(requestId);
+      toast.info("Cancelling settlement... Please confirm in your wallet.");
+    } catch (error: any) {
+      console.error("Failed to cancel settlement:", error);
+      toast.error(error?.message || "Failed to cancel settlement");
+    }
+  };
+
+  const { statuses } = FILTERS[filter];
+  const shown = offers?.filter((offer) => !statuses || statuses.includes(offer.status));
+  const escrowed = (offers ?? [])
+    .filter((offer) => offer.status === "pending" || offer.status === "expired")
+    .reduce((total, offer) => total + offer.offerAmount, BigInt(0));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-6 pt-32 pb-24 max-w-3xl space-y-6">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-cyan-500 transition-colors">
+          <ArrowLeft className="h-4 w-4" />
+          All collectibles
+        </Link>
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold">My Offers</h2>
+            <p className="text-muted-foreground">Every purchase request you have made</p>
+          </div>
+          {offers && (
+            <div className="flex gap-2">
+              <Badge variant="secondary">{offers.length} offers</Badge>
+              <Badge variant="secondary">{formatEther(escrowed)} ETH in escrow</Badge>
+            </div>
+          )}
+        </div>
+        {!isConnected ? (
+          <div className="flex flex-col items-center gap-4 py-12 text-muted-foreground">
+            Connect your wallet to see your offers
+            <ConnectButton />
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {FILTERS.map((option, i) => (
+                <Button
+                  key={option.label}
+                  size="sm"
+                  variant={filter === i ? "default" : "outline"}
+                  onClick={() => setFilter(i)}
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+            {isLoading && !shown && <div className="text-center text-muted-foreground py-8">Loading offers...</div>}
+            {shown && shown.length === 0 && (
+              <div className="text-center text-muted-foreground py-8">
+                {offers?.length === 0 ? "You have not made any offers yet" : "No offers match this filter"}
+              </div>
+            )}
+            {shown && shown.length > 0 && (
+              <div className="space-y-3">
+                {shown.map((offer) => (
+                  <OfferRow
+                    key={offer.requestId.toString()}
+                    offer={offer}
+                    onCancel={handleCancel}
+                    onCancelSettlement={handleCancelSettlement}
+                    isPending={isPending}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+interface OfferRowProps {
+  offer: BuyerOffer;
+  onCancel: (requestId: bigint) => void;
+  onCancelSettlement: (requestId: bigint) => void;
+  isPending: boolean;
+}
+
+const OfferRow = ({ offer, onCancel, onCancelSettlement, isPending }: OfferRowProps) => {
+  const { data: collectibleInfo } = useCollectibleInfo(offer.tokenId);
+  const collectibleName = collectibleInfo?.[0] || `Token #${offer.tokenId.toString()}`;
+  const badge = STATUS_BADGES[offer.status];
+  const BadgeIcon = badge.icon;
+  const isOpen = offer.status === "pending" || offer.status === "expired";
+
+  return (
+    <div className="p-4 border rounded-lg space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-2">
+            <Badge variant="outline">Offer #{offer.requestId.toString()}</Badge>
+            <Badge className={badge.className}>
+              <BadgeIcon className="h-3 w-3 mr-1" />
+              {badge.label}
+            </Badge>
+          </div>
+          <h4 className="font-semibold truncate">
+            <Link to={`/collectible/${offer.tokenId}`} className="hover:text-cyan-500 transition-colors">
+              {collectibleName}
+            </Link>
+          </h4>
+          <p className="text-sm text-muted-foreground">Token ID: {offer.tokenId.toString()}</p>
+        </div>
+      </div>
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Escrowed:</span>
+          <span className="font-semibold text-cyan-500">{formatEther(offer.offerAmount)} ETH</span>
+        </div>
+        {offer.price !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Paid:</span>
+            <span className="font-semibold text-green-600">{formatEther(offer.price)} ETH</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Made:</span>
+          <span>{formatTime(offer.requestedAt)}</span>
+        </div>
+        {isOpen && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Expires:</span>
+            <span>{offer.expiresAt > BigInt(0) ? formatTime(offer.expiresAt) : "Never"}</span>
+          </div>
+        )}
+        {offer.decidedAt !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{badge.label}:</span>
+            <span>{formatTime(offer.decidedAt)}</span>
+          </div>
+        )}
+      </div>
+      {isOpen && (
+        <div className="flex gap-2 pt-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="flex-1"
+            onClick={() => onCancel(offer.requestId)}
+            disabled={isPending}
+          >
+            <X className="h-4 w-4 mr-2" />
+            {offer.status === "expired" ? "Reclaim Refund" : "Cancel Offer"}
+          </Button>
+        </div>
+      )}
+      {offer.status === "settling" && (
+        <div className="space-y-2 pt-2">
+          <p className="text-xs text-muted-foreground">
+            If the offer is still settling a day after approval, you can cancel it and reclaim your escrow.
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full"
+            onClick={() => onCancelSettlement(offer.requestId)}
+            disabled={isPending}
+          >
+            <X className="h-4 w-4 mr-2" />
+            Cancel Settlement
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MyOffers;
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAccount } from "wagmi";
+import { formatEther, isAddress } from "viem";
+import Header from "@/components/Header";
+import CollectibleCard from "@/components/CollectibleCard";
+import { KIND_LABELS } from "@/components/ProvenanceTimeline";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  useAcquisitionHistory,
+  useCollectibleStatsBatch,
+  useOwnerCollectiblesPage,
+  type Acquisition,
+} from "@/hooks/useContract";
+import { ArrowLeft, ChevronLeft, ChevronRight, History } from "lucide-react";
+
+const PAGE_SIZE = 24;
+
+const shortAddress = (account: string) => `${account.slice(0, 6)}...${account.slice(-4)}`;
+
+const Portfolio = () => {
+  const { address: addressParam } = useParams();
+  const { address: connected } = useAccount();
+  const account = addressParam && isAddress(addressParam) ? addressParam : undefined;
+  const [page, setPage] = useState(0);
+  // The route stays mounted when moving between portfolios
+  useEffect(() => {
+    setPage(0);
+  }, [account]);
+  const { data: holdingsPage } = useOwnerCollectiblesPage(account, BigInt(page * PAGE_SIZE), BigInt(PAGE_SIZE));
+  const { data: acquisitions, isLoading: isLoadingAcquisitions, isError: isAcquisitionsError } = useAcquisitionHistory(account);
+
+  const holdings = holdingsPage?.page ?? [];
+  // One read for the badges of the whole page instead of several per card
+  const { data: holdingStats } = useCollectibleStatsBatch(holdingsPage?.page.map((summary) => summary.tokenId));
+  const total = Number(holdingsPage?.total ?? 0);
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const spent = (acquisitions ?? []).reduce((sum, acquisition) => sum + acquisition.price, BigInt(0));
+  const isMe = !!account && account.toLowerCase() === connected?.toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-6 pt-32 pb-24 space-y-8">
+        <Link to="/" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-cyan-500 transition-colors">
+          <ArrowLeft className="h-4 w-4" />
+          All collectibles
+        </Link>
+        {!account ? (
+          <div className="text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">Invalid address</h2>
+            <p className="text-muted-foreground font-mono break-all">{addressParam}</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="text-3xl font-bold">{isMe ? "My Portfolio" : "Portfolio"}</h2>
+                <p className="text-muted-foreground font-mono text-sm break-all">{account}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{total} held</Badge>
+                {acquisitions && <Badge variant="secondary">{acquisitions.length} acquisitions</Badge>}
+                {acquisitions && <Badge variant="secondary">{formatEther(spent)} ETH spent</Badge>}
+              </div>
+            </div>
+
+            <section className="space-y-6">
+              <h3 className="text-xl font-semibold">Holdings</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8">
+                {holdings.map((summary) => (
+                  <CollectibleCard
+                    key={summary.tokenId.toString()}
+                    tokenId={summary.tokenId}
+                    summary={summary}
+                    stats={holdingStats?.find((stats) => stats.tokenId === summary.tokenId)}
+                  />
+                ))}
+                {holdingsPage && holdings.length === 0 && (
+                  <div className="col-span-full text-center text-muted-foreground py-12">
+                    This wallet holds no collectibles
+                  </div>
+                )}
+              </div>
+              {pageCount > 1 && (
+                <div className="flex items-center justify-center gap-4">
+                  <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    Page {page + 1} of {pageCount}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page + 1 >= pageCount}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            <section className="space-y-4 max-w-3xl">
+              <h3 className="text-xl font-semibold flex items-center gap-2">
+                <History className="h-5 w-5" />
+                Acquisition History
+              </h3>
+              {isLoadingAcquisitions && <p className="text-sm text-muted-foreground">Loading history...</p>}
+              {isAcquisitionsError && <p className="text-sm text-red-500">Could not load the transfer events</p>}
+              {acquisitions && acquisitions.length === 0 && (
+                <p className="text-sm text-muted-foreground">This wallet has not acquired any collectibles</p>
+              )}
+              {acquisitions && acquisitions.length > 0 && (
+                <ul className="divide-y border rounded-lg">
+                  {acquisitions.map((acquisition) => (
+                    <AcquisitionRow
+                      key={`${acquisition.tokenId}-${acquisition.blockNumber}`}
+                      acquisition={acquisition}
+                    />
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const AcquisitionRow = ({ acquisition }: { acquisition: Acquisition }) => (
+  <li className="flex items-center justify-between gap-4 p-4 text-sm">
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <Link to={`/collectible/${acquisition.tokenId}`} className="font-medium hover:text-cyan-500 transition-colors">
+          Token #{acquisition.tokenId.toString()}
+        </Link>
+        <Badge variant="outline">{KIND_LABELS[acquisition.kind] ?? "Transfer"}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {new Date(Number(acquisition.timestamp) * 1000).toLocaleString()}
+        {acquisition.from !== "0x0000000000000000000000000000000000000000" && (
+          <>
+            {" · from "}
+            <Link to={`/portfolio/${acquisition.from}`} className="font-mono hover:text-cyan-500">
+              {shortAddress(acquisition.from)}
+            </Link>
+          </>
+        )}
+      </p>
+    </div>
+    {acquisition.price > BigInt(0) && (
+      <span className="font-semibold text-cyan-500 flex-shrink-0">{formatEther(acquisition.price)} ETH</span>
+    )}
+  </li>
+);
+
+export default Portfolio;
@@ -0,0 +1,139 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { isAddress } from "ethers";
+import type { IndexerDatabase, OfferStatus, Page } from "./database";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+const OFFER_STATUSES: OfferStatus[] = ["pending", "approved", "rejected", "cancelled"];
+
+class BadRequestError extends Error {}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readAddress(query: URLSearchParams, name: string): string | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  if (!isAddress(value)) throw new BadRequestError(`${name} must be an address`);
+  return value.toLowerCase();
+}
+
+function readNumber(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!Number.isSafeInteger(number) || number < 0) throw new BadRequestError(`${name} must be a non-negative integer`);
+  return number;
+}
+
+function readPage(query: URLSearchParams): Page {
+  return {
+    limit: Math.min(readNumber(query, "limit") ?? DEFAULT_LIMIT, MAX_LIMIT),
+    offset: readNumber(query, "offset") ?? 0,
+  };
+}
+
+function readStatus(query: URLSearchParams): OfferStatus | undefined {
+  const value = query.get("status");
+  if (value === null) return undefined;
+  if (!OFFER_STATUSES.includes(value as OfferStatus)) {
+    throw new BadRequestError(`status must be one of ${OFFER_STATUSES.join(", ")}`);
+  }
+  return value as OfferStatus;
+}
+
+/**
+ * Read-only REST API over the indexed events
+ *
+ * GET /status                       indexing progress
+ * GET /collectibles?lister=         listed collectibles with their last sale
+ * GET /collectibles/:tokenId        one collectible with its offers and sales
+ * GET /offers?buyer=&owner=&tokenId=&status=&since=&until=
+ * GET /sales?buyer=&seller=&tokenId=&since=&until=
+ *
+ * Lists are newest first and take `limit` (default 50, at most 500) and `offset`.
+ * `since` and `until` are unix timestamps in seconds. Amounts are wei as decimal strings
+ */
+export function createApiServer(db: IndexerDatabase): Server {
+  const routes: Record<string, (query: URLSearchParams) => unknown> = {
+    "/status": () => ({
+      chainId: db.getMeta("chain_id") ?? null,
+      contract: db.getMeta("contract") ?? null,
+      lastIndexedBlock: db.lastIndexedBlock() ?? null,
+    }),
+    "/collectibles": (query) =>
+      db.listCollectibles({
+        ...readPage(query),
+        lister: readAddress(query, "lister"),
+      }),
+    "/offers": (query) =>
+      db.listOffers({
+        ...readPage(query),
+        buyer: readAddress(query, "buyer"),
+        owner: readAddress(query, "owner"),
+        tokenId: readNumber(query, "tokenId"),
+        status: readStatus(query),
+        since: readNumber(query, "since"),
+        until: readNumber(query, "until"),
+      }),
+    "/sales": (query) =>
+      db.listSales({
+        ...readPage(query),
+        buyer: readAddress(query, "buyer"),
+        seller: readAddress(query, "seller"),
+        tokenId: readNumber(query, "tokenId"),
+        since: readNumber(query, "since"),
+        until: readNumber(query, "until"),
+      }),
+  };
+
+  const getCollectible = (tokenId: number) => {
+    const [collectible] = db.listCollectibles({ tokenId, limit: 1, offset: 0 });
+    if (!collectible) return undefined;
+    return {
+      ...collectible,
+      offers: db.listOffers({ tokenId, limit: MAX_LIMIT, offset: 0 }),
+      sales: db.listSales({ tokenId, limit: MAX_LIMIT, offset: 0 }),
+    };
+  };
+
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const match = url.pathname.match(/^\/collectibles\/(\d+)$/);
+      if (match) {
+        const collectible = getCollectible(Number(match[1]));
+        if (collectible) {
+          send(res, 200, collectible);
+        } else {
+          send(res, 404, { error: "Collectible not indexed" });
+        }
+        return;
+      }
+
+      const route = routes[url.pathname];
+      if (!route) {
+        send(res, 404, { error: "Not found" });
+        return;
+      }
+      send(res, 200, route(url.searchParams));
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(res, 400, { error: error.message });
+      } else {
+        console.error("API request failed:", error);
+        send(res, 500, { error: "Internal error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,50 @@
+import { getAddress } from "ethers";
+
+export interface IndexerConfig {
+  /** JSON-RPC endpoint of the node to index */
+  rpcUrl: string;
+  /** Address of the RelicChainVerify contract */
+  contractAddress: string;
+  /** Path of the SQLite database file */
+  databasePath: string;
+  /** Port of the query API */
+  port: number;
+  /** First block to index, e.g. the deployment block */
+  startBlock: number;
+  /** Blocks to stay behind the head; 0 indexes the head and relies on reorg handling */
+  confirmations: number;
+  /** Maximum number of blocks fetched per eth_getLogs call */
+  batchSize: number;
+  /** Delay between polls once caught up with the chain */
+  pollIntervalMs: number;
+}
+
+// Default Hardhat deployment address, see frontend/src/config/contracts.ts
+const DEFAULT_CONTRACT_ADDRESS = "0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e";
+
+function readInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const raw = env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the indexer configuration from environment variables
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  return {
+    rpcUrl: env.RPC_URL || "http://127.0.0.1:8545",
+    contractAddress: getAddress(env.CONTRACT_ADDRESS || DEFAULT_CONTRACT_ADDRESS),
+    databasePath: env.DATABASE_PATH || "relic-chain.db",
+    port: readInt(env, "PORT", 4000),
+    startBlock: readInt(env, "START_BLOCK", 0),
+    confirmations: readInt(env, "CONFIRMATIONS", 0),
+    batchSize: Math.max(1, readInt(env, "BATCH_SIZE", 2000)),
+    pollIntervalMs: readInt(env, "POLL_INTERVAL_MS", 2000),
+  };
+}
@@ -0,0 +1,426 @@
+import Database from "better-sqlite3";
+import type { MarketplaceEvent } from "./events";
+
+// Every event table records its block so a reorg can be undone by deleting newer rows.
+// Amounts are wei as decimal strings; addresses are lowercase
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS listings (
+    token_id INTEGER PRIMARY KEY,
+    lister TEXT NOT NULL,
+    name TEXT NOT NULL,
+    listed_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS listings_lister ON listings (lister);
+
+  CREATE TABLE IF NOT EXISTS purchase_requests (
+    request_id INTEGER PRIMARY KEY,
+    token_id INTEGER NOT NULL,
+    buyer TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    offer_amount TEXT NOT NULL,
+    requested_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS purchase_requests_buyer ON purchase_requests (buyer);
+  CREATE INDEX IF NOT EXISTS purchase_requests_owner ON purchase_requests (owner);
+  CREATE INDEX IF NOT EXISTS purchase_requests_token ON purchase_requests (token_id);
+
+  CREATE TABLE IF NOT EXISTS purchase_outcomes (
+    request_id INTEGER PRIMARY KEY,
+    status TEXT NOT NULL,
+    seller TEXT,
+    price TEXT,
+    decided_at INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sales (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    token_id INTEGER NOT NULL,
+    seller TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    price TEXT NOT NULL,
+    sold_at INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS sales_sold_at ON sales (sold_at);
+  CREATE INDEX IF NOT EXISTS sales_buyer ON sales (buyer);
+  CREATE INDEX IF NOT EXISTS sales_seller ON sales (seller);
+  CREATE INDEX IF NOT EXISTS sales_token ON sales (token_id);
+`;
+
+const EVENT_TABLES = ["listings", "purchase_requests", "purchase_outcomes", "sales"];
+
+export type OfferStatus = "pending" | "approved" | "rejected" | "cancelled";
+
+export interface StoredBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface Page {
+  limit: number;
+  offset: number;
+}
+
+export interface CollectibleFilter extends Page {
+  lister?: string;
+  tokenId?: number;
+}
+
+export interface OfferFilter extends Page {
+  buyer?: string;
+  owner?: string;
+  tokenId?: number;
+  status?: OfferStatus;
+  since?: number;
+  until?: number;
+}
+
+export interface SaleFilter extends Page {
+  buyer?: string;
+  seller?: string;
+  tokenId?: number;
+  since?: number;
+  until?: number;
+}
+
+export interface CollectibleRecord {
+  tokenId: number;
+  lister: string;
+  name: string;
+  listedAt: number;
+  txHash: string;
+  lastSale: { buyer: string; price: string; soldAt: number } | null;
+}
+
+export interface OfferRecord {
+  requestId: number;
+  tokenId: number;
+  buyer: string;
+  owner: string;
+  offerAmount: string;
+  requestedAt: number;
+  status: OfferStatus;
+  seller: string | null;
+  price: string | null;
+  decidedAt: number | null;
+  txHash: string;
+}
+
+export interface SaleRecord {
+  tokenId: number;
+  seller: string;
+  buyer: string;
+  price: string;
+  soldAt: number;
+  blockNumber: number;
+  txHash: string;
+}
+
+// Rows as SQLite returns them; nullable columns come from the LEFT JOINs
+interface CollectibleRow {
+  token_id: number;
+  lister: string;
+  name: string;
+  listed_at: number;
+  tx_hash: string;
+  buyer: string | null;
+  price: string | null;
+  sold_at: number | null;
+}
+
+interface OfferRow {
+  request_id: number;
+  token_id: number;
+  buyer: string;
+  owner: string;
+  offer_amount: string;
+  requested_at: number;
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  status: OfferStatus;
+  seller: string | null;
+  price: string | null;
+  decided_at: number | null;
+}
+
+interface SaleRow {
+  block_number: number;
+  log_index: number;
+  token_id: number;
+  seller: string;
+  buyer: string;
+  price: string;
+  sold_at: number;
+  tx_hash: string;
+}
+
+/** Build a WHERE clause from the filters that are set */
+function where(conditions: [string, unknown][]): { clause: string; params: unknown[] } {
+  const set = conditions.filter(([, value]) => value !== undefined);
+  return {
+    clause: set.length > 0 ? `WHERE ${set.map(([sql]) => sql).join(" AND ")}` : "",
+    params: set.map(([, value]) => value),
+  };
+}
+
+/**
+ * SQLite store of indexed marketplace events
+ * @dev Writes happen in one transaction per batch, so the indexed block and the
+ *      events up to it are always consistent and a restart resumes where it stopped
+ */
+export class IndexerDatabase {
+  private readonly db: Database.Database;
+
+  constructor(path: string) {
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare<[string], { value: string }>("SELECT value FROM meta WHERE key = ?").get(key);
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db.prepare<[string, string]>("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+
+  /** The last block whose events are stored, or undefined before the first batch */
+  lastIndexedBlock(): number | undefined {
+    const value = this.getMeta("last_block");
+    return value === undefined ? undefined : Number(value);
+  }
+
+  /** Stored block hashes, newest first, for finding the common ancestor after a reorg */
+  recentBlocks(limit: number): StoredBlock[] {
+    return this.db
+      .prepare<[number], StoredBlock>("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?")
+      .all(limit);
+  }
+
+  /**
+   * Store a batch of events and mark the range as indexed
+   * @param blocks Hashes of the blocks with events and of the last block of the range
+   * @param events Decoded events in chain order
+   * @param lastBlock The last block of the range
+   */
+  applyBatch(blocks: StoredBlock[], events: MarketplaceEvent[], lastBlock: number) {
+    const insertBlock = this.db.prepare<[number, string, number]>("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+    const insertListing = this.db.prepare<[number, string, string, number, number, number, string]>(
+      "INSERT OR REPLACE INTO listings (token_id, lister, name, listed_at, block_number, log_index, tx_hash) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    );
+    const insertRequest = this.db.prepare<[number, number, string, string, string, number, number, number, string]>(
+      `INSERT OR REPLACE INTO purchase_requests
+        (request_id, token_id, buyer, owner, offer_amount, requested_at, block_number, log_index, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    // A request is decided once; later events for it are ignored
+    const insertOutcome = this.db.prepare<
+      [number, OfferStatus, string | null, string | null, number, number, number, string]
+    >(
+      `INSERT OR IGNORE INTO purchase_outcomes
+        (request_id, status, seller, price, decided_at, block_number, log_index, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    const insertSale = this.db.prepare<[number, number, number, string, string, string, number, string]>(
+      `INSERT OR REPLACE INTO sales
+        (block_number, log_index, token_id, seller, buyer, price, sold_at, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+
+    this.db.transaction(() => {
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash, block.timestamp);
+      }
+
+      for (const event of events) {
+        const position = [event.blockNumber, event.logIndex, event.txHash] as const;
+        switch (event.kind) {
+          case "CollectibleListed":
+            insertListing.run(event.tokenId, event.owner, event.name, event.timestamp, ...position);
+            break;
+          case "PurchaseRequested":
+            insertRequest.run(
+              event.requestId,
+              event.tokenId,
+              event.buyer,
+              event.owner,
+              event.offerAmount.toString(),
+              event.timestamp,
+              ...position,
+            );
+            break;
+          case "PurchaseApproved":
+            insertOutcome.run(event.requestId, "approved", event.seller, event.price.toString(), event.timestamp, ...position);
+            break;
+          case "PurchaseRejected":
+            insertOutcome.run(event.requestId, "rejected", null, null, event.timestamp, ...position);
+            break;
+          case "PurchaseCancelled":
+            insertOutcome.run(event.requestId, "cancelled", null, null, event.timestamp, ...position);
+            break;
+          case "CollectiblePurchased":
+            insertSale.run(
+              event.blockNumber,
+              event.logIndex,
+              event.tokenId,
+              event.seller,
+              event.buyer,
+              event.price.toString(),
+              event.timestamp,
+              event.txHash,
+            );
+            break;
+        }
+      }
+
+      this.setMeta("last_block", lastBlock.toString());
+    })();
+  }
+
+  /**
+   * Undo every block after `blockNumber`
+   * @param blockNumber The last block that is still on the canonical chain
+   */
+  rollback(blockNumber: number) {
+    this.db.transaction(() => {
+      for (const table of EVENT_TABLES) {
+        this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+      }
+      this.db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      this.setMeta("last_block", blockNumber.toString());
+    })();
+  }
+
+  /** Drop all indexed data, e.g. when the node was restarted or the contract changed */
+  reset() {
+    this.db.transaction(() => {
+      for (const table of [...EVENT_TABLES, "blocks", "meta"]) {
+        this.db.prepare(`DELETE FROM ${table}`).run();
+      }
+    })();
+  }
+
+  listCollectibles(filter: CollectibleFilter): CollectibleRecord[] {
+    const { clause, params } = where([
+      ["l.lister = ?", filter.lister],
+      ["l.token_id = ?", filter.tokenId],
+    ]);
+    const rows = this.db
+      .prepare<unknown[], CollectibleRow>(
+        `SELECT l.token_id, l.lister, l.name, l.listed_at, l.tx_hash, s.buyer, s.price, s.sold_at
+          FROM listings l
+          LEFT JOIN sales s ON s.rowid = (
+            SELECT rowid FROM sales WHERE token_id = l.token_id ORDER BY block_number DESC, log_index DESC LIMIT 1
+          )
+          ${clause}
+          ORDER BY l.token_id DESC
+          LIMIT ? OFFSET ?`,
+      )
+      .all(...params, filter.limit, filter.offset);
+
+    return rows.map((row) => ({
+      tokenId: row.token_id,
+      lister: row.lister,
+      name: row.name,
+      listedAt: row.listed_at,
+      txHash: row.tx_hash,
+      lastSale:
+        row.buyer === null || row.price === null || row.sold_at === null
+          ? null
+          : { buyer: row.buyer, price: row.price, soldAt: row.sold_at },
+    }));
+  }
+
+  listOffers(filter: OfferFilter): OfferRecord[] {
+    const { clause, params } = where([
+      ["r.buyer = ?", filter.buyer],
+      ["r.owner = ?", filter.owner],
+      ["r.token_id = ?", filter.tokenId],
+      ["COALESCE(o.status, 'pending') = ?", filter.status],
+      ["r.requested_at >= ?", filter.since],
+      ["r.requested_at < ?", filter.until],
+    ]);
+    const rows = this.db
+      .prepare<unknown[], OfferRow>(
+        `SELECT r.*, COALESCE(o.status, 'pending') AS status, o.seller, o.price, o.decided_at
+          FROM purchase_requests r
+          LEFT JOIN purchase_outcomes o ON o.request_id = r.request_id
+          ${clause}
+          ORDER BY r.request_id DESC
+          LIMIT ? OFFSET ?`,
+      )
+      .all(...params, filter.limit, filter.offset);
+
+    return rows.map((row) => ({
+      requestId: row.request_id,
+      tokenId: row.token_id,
+      buyer: row.buyer,
+      owner: row.owner,
+      offerAmount: row.offer_amount,
+      requestedAt: row.requested_at,
+      status: row.status,
+      seller: row.seller,
+      price: row.price,
+      decidedAt: row.decided_at,
+      txHash: row.tx_hash,
+    }));
+  }
+
+  listSales(filter: SaleFilter): SaleRecord[] {
+    const { clause, params } = where([
+      ["buyer = ?", filter.buyer],
+      ["seller = ?", filter.seller],
+      ["token_id = ?", filter.tokenId],
+      ["sold_at >= ?", filter.since],
+      ["sold_at < ?", filter.until],
+    ]);
+    const rows = this.db
+      .prepare<unknown[], SaleRow>(
+        `SELECT * FROM sales
+          ${clause}
+          ORDER BY block_number DESC, log_index DESC
+          LIMIT ? OFFSET ?`,
+      )
+      .all(...params, filter.limit, filter.offset);
+
+    return rows.map((row) => ({
+      tokenId: row.token_id,
+      seller: row.seller,
+      buyer: row.buyer,
+      price: row.price,
+      soldAt: row.sold_at,
+      blockNumber: row.block_number,
+      txHash: row.tx_hash,
+    }));
+  }
+}
@@ -0,0 +1,101 @@
+import { Interface, type Log } from "ethers";
+
+// Events replayed into the database; signatures match RelicChainVerifyBase
+export const MARKETPLACE_EVENTS = new Interface([
+  "event CollectibleListed(uint256 indexed tokenId, address indexed owner, string name, uint256 timestamp)",
+  "event PurchaseRequested(uint256 indexed requestId, uint256 indexed tokenId, address indexed buyer, uint256 offerAmount, address owner)",
+  "event PurchaseApproved(uint256 indexed requestId, uint256 indexed tokenId, address indexed buyer, address seller, uint256 price)",
+  "event PurchaseRejected(uint256 indexed requestId, uint256 indexed tokenId, address indexed buyer)",
+  "event PurchaseCancelled(uint256 indexed requestId, uint256 indexed tokenId, address indexed buyer, address cancelledBy)",
+  "event CollectiblePurchased(uint256 indexed tokenId, address indexed from, address indexed to, uint256 price, uint256 timestamp)",
+]);
+
+export const EVENT_TOPICS: string[] = [];
+MARKETPLACE_EVENTS.forEachEvent((event) => EVENT_TOPICS.push(event.topicHash));
+
+/** Where an event was emitted; `timestamp` is the block timestamp in seconds */
+export interface LogPosition {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;
+}
+
+export type MarketplaceEvent = LogPosition &
+  (
+    | { kind: "CollectibleListed"; tokenId: number; owner: string; name: string }
+    | { kind: "PurchaseRequested"; requestId: number; tokenId: number; buyer: string; owner: string; offerAmount: bigint }
+    | { kind: "PurchaseApproved"; requestId: number; tokenId: number; buyer: string; seller: string; price: bigint }
+    | { kind: "PurchaseRejected"; requestId: number; tokenId: number; buyer: string }
+    | { kind: "PurchaseCancelled"; requestId: number; tokenId: number; buyer: string }
+    | { kind: "CollectiblePurchased"; tokenId: number; seller: string; buyer: string; price: bigint }
+  );
+
+/**
+ * Decode a marketplace log
+ * @dev Addresses are lowercased so they can be compared in SQL
+ * @returns The event, or undefined for logs of other events
+ */
+export function decodeEvent(log: Log, timestamp: number): MarketplaceEvent | undefined {
+  const parsed = MARKETPLACE_EVENTS.parseLog(log);
+  if (!parsed) return undefined;
+
+  const args = parsed.args;
+  const position: LogPosition = {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    timestamp,
+  };
+
+  switch (parsed.name) {
+    case "CollectibleListed":
+      return {
+        ...position,
+        kind: parsed.name,
+        tokenId: Number(args.tokenId),
+        owner: args.owner.toLowerCase(),
+        name: args.name,
+      };
+    case "PurchaseRequested":
+      return {
+        ...position,
+        kind: parsed.name,
+        requestId: Number(args.requestId),
+        tokenId: Number(args.tokenId),
+        buyer: args.buyer.toLowerCase(),
+        owner: args.owner.toLowerCase(),
+        offerAmount: args.offerAmount,
+      };
+    case "PurchaseApproved":
+      return {
+        ...position,
+        kind: parsed.name,
+        requestId: Number(args.requestId),
+        tokenId: Number(args.tokenId),
+        buyer: args.buyer.toLowerCase(),
+        seller: args.seller.toLowerCase(),
+        price: args.price,
+      };
+    case "PurchaseRejected":
+    case "PurchaseCancelled":
+      return {
+        ...position,
+        kind: parsed.name,
+        requestId: Number(args.requestId),
+        tokenId: Number(args.tokenId),
+        buyer: args.buyer.toLowerCase(),
+      };
+    case "CollectiblePurchased":
+      return {
+        ...position,
+        kind: parsed.name,
+        tokenId: Number(args.tokenId),
+        seller: args.from.toLowerCase(),
+        buyer: args.to.toLowerCase(),
+        price: args.price,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,35 @@
+import { JsonRpcProvider } from "ethers";
+import { createApiServer } from "./api";
+import { loadConfig } from "./config";
+import { IndexerDatabase } from "./database";
+import { EventIndexer } from "./indexer";
+
+async function main() {
+  const config = loadConfig();
+  const provider = new JsonRpcProvider(config.rpcUrl);
+  const db = new IndexerDatabase(config.databasePath);
+  const indexer = new EventIndexer(provider, db, config);
+  const server = createApiServer(db);
+
+  const shutdown = () => {
+    console.log("Shutting down indexer");
+    indexer.stop();
+    server.close();
+    provider.destroy();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  server.listen(config.port, () => {
+    console.log(`Indexing RelicChainVerify at ${config.contractAddress} from ${config.rpcUrl}`);
+    console.log(`Query API listening on http://localhost:${config.port}`);
+  });
+
+  await indexer.start();
+  db.close();
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,172 @@
+import type { Block, JsonRpcProvider } from "ethers";
+import type { IndexerConfig } from "./config";
+import type { IndexerDatabase, StoredBlock } from "./database";
+import { EVENT_TOPICS, decodeEvent, type MarketplaceEvent } from "./events";
+
+// How many stored blocks are compared with the chain before giving up and re-indexing
+const MAX_REORG_DEPTH = 64;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Replays marketplace events from a node into the database
+ * @dev Each poll first checks the newest stored block hash against the chain. On a
+ *      mismatch it walks back to the newest block that is still canonical and deletes
+ *      everything after it. A restarted local node has no common ancestor, so the
+ *      database is rebuilt from `startBlock`; on startup a changed genesis hash does the same
+ */
+export class EventIndexer {
+  private running = false;
+
+  constructor(
+    private readonly provider: JsonRpcProvider,
+    private readonly db: IndexerDatabase,
+    private readonly config: IndexerConfig,
+  ) {}
+
+  /** Poll the node until `stop` is called */
+  async start() {
+    this.running = true;
+    await this.checkChain();
+
+    while (this.running) {
+      try {
+        const caughtUp = await this.syncOnce();
+        if (caughtUp) {
+          await sleep(this.config.pollIntervalMs);
+        }
+      } catch (error) {
+        console.error("Indexer sync failed:", error instanceof Error ? error.message : error);
+        await sleep(this.config.pollIntervalMs);
+      }
+    }
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  /**
+   * Index the next batch of blocks
+   * @returns True once the indexer has reached the confirmed head
+   */
+  async syncOnce(): Promise<boolean> {
+    const head = await this.provider.getBlockNumber();
+    await this.rewindReorg(head);
+
+    const target = head - this.config.confirmations;
+    const from = this.nextBlock();
+    if (from > target) {
+      return true;
+    }
+    const to = Math.min(target, from + this.config.batchSize - 1);
+
+    const logs = await this.provider.getLogs({
+      address: this.config.contractAddress,
+      topics: [EVENT_TOPICS],
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    // Keep the hash of every block with events, and of the range end for the next reorg check
+    const numbers = new Set(logs.map((log) => log.blockNumber));
+    numbers.add(to);
+    const blocks = new Map<number, Block>();
+    for (const number of numbers) {
+      const block = await this.provider.getBlock(number);
+      if (!block?.hash) {
+        return false;
+      }
+      blocks.set(number, block);
+    }
+
+    const events: MarketplaceEvent[] = [];
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      // The chain changed between getLogs and getBlock; retry the range on the next poll
+      if (log.blockHash !== block.hash) {
+        return false;
+      }
+      const event = decodeEvent(log, block.timestamp);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    const stored: StoredBlock[] = [...blocks.values()].map((block) => ({
+      number: block.number,
+      hash: block.hash!,
+      timestamp: block.timestamp,
+    }));
+    this.db.applyBatch(stored, events, to);
+
+    if (events.length > 0) {
+      console.log(`Indexed ${events.length} events in blocks ${from}-${to}`);
+    }
+    return to >= target;
+  }
+
+  /** The first block that has not been indexed yet */
+  private nextBlock(): number {
+    const last = this.db.lastIndexedBlock();
+    return last === undefined ? this.config.startBlock : last + 1;
+  }
+
+  /** Start over if the database belongs to another chain, node run or contract */
+  private async checkChain() {
+    const network = await this.provider.getNetwork();
+    const genesis = await this.provider.getBlock(0);
+    const identity = {
+      chain_id: network.chainId.toString(),
+      genesis_hash: genesis?.hash ?? "",
+      contract: this.config.contractAddress,
+      start_block: this.config.startBlock.toString(),
+    };
+
+    const changed = Object.entries(identity).some(([key, value]) => {
+      const stored = this.db.getMeta(key);
+      return stored !== undefined && stored !== value;
+    });
+    if (changed) {
+      console.log("Chain, contract or start block changed; re-indexing from scratch");
+      this.db.reset();
+    }
+
+    for (const [key, value] of Object.entries(identity)) {
+      this.db.setMeta(key, value);
+    }
+
+    const last = this.db.lastIndexedBlock();
+    if (last !== undefined) {
+      console.log(`Resuming after block ${last}`);
+    }
+  }
+
+  /**
+   * Undo blocks that are no longer on the canonical chain
+   * @param head The current head block number
+   */
+  private async rewindReorg(head: number) {
+    const stored = this.db.recentBlocks(MAX_REORG_DEPTH);
+    if (stored.length === 0) {
+      return;
+    }
+
+    for (const [i, block] of stored.entries()) {
+      if (block.number > head) {
+        continue;
+      }
+      const current = await this.provider.getBlock(block.number);
+      if (current?.hash === block.hash) {
+        if (i > 0 || this.db.lastIndexedBlock()! > block.number) {
+          console.log(`Reorg detected; rolling back to block ${block.number}`);
+          this.db.rollback(block.number);
+        }
+        return;
+      }
+    }
+
+    console.log(`No common ancestor in the last ${MAX_REORG_DEPTH} stored blocks; re-indexing`);
+    this.db.rollback(this.config.startBlock - 1);
+  }
+}
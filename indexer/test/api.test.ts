@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { after, before, describe, it } from "node:test";
+import { createApiServer } from "../src/api";
+import {
+  IndexerDatabase,
+  type CollectibleRecord,
+  type OfferRecord,
+  type SaleRecord,
+  type StoredBlock,
+} from "../src/database";
+import type { MarketplaceEvent } from "../src/events";
+
+const ALICE = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+const BOB = "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc";
+const CAROL = "0x90f79bf6eb2c4f870365e785982e1f101e93b906";
+const ETHER = 10n ** 18n;
+
+// One event per block, timestamps 100 seconds apart
+function at(blockNumber: number) {
+  const txHash = `0x${blockNumber.toString(16).padStart(64, "0")}`;
+  return { blockNumber, logIndex: 0, txHash, timestamp: blockNumber * 100 };
+}
+
+const EVENTS: MarketplaceEvent[] = [
+  { ...at(1), kind: "CollectibleListed", tokenId: 0, owner: ALICE, name: "Watch" },
+  { ...at(2), kind: "CollectibleListed", tokenId: 1, owner: ALICE, name: "Coin" },
+  { ...at(3), kind: "CollectibleListed", tokenId: 2, owner: BOB, name: "Card" },
+  { ...at(4), kind: "PurchaseRequested", requestId: 0, tokenId: 0, buyer: BOB, owner: ALICE, offerAmount: ETHER },
+  { ...at(5), kind: "PurchaseRequested", requestId: 1, tokenId: 0, buyer: CAROL, owner: ALICE, offerAmount: 2n * ETHER },
+  { ...at(6), kind: "PurchaseRejected", requestId: 0, tokenId: 0, buyer: BOB },
+  { ...at(7), kind: "PurchaseApproved", requestId: 1, tokenId: 0, buyer: CAROL, seller: ALICE, price: 2n * ETHER },
+  { ...at(7), logIndex: 1, kind: "CollectiblePurchased", tokenId: 0, seller: ALICE, buyer: CAROL, price: 2n * ETHER },
+  { ...at(8), kind: "PurchaseRequested", requestId: 2, tokenId: 1, buyer: BOB, owner: ALICE, offerAmount: ETHER },
+  { ...at(9), kind: "PurchaseRequested", requestId: 3, tokenId: 2, buyer: CAROL, owner: BOB, offerAmount: ETHER },
+  { ...at(10), kind: "CollectiblePurchased", tokenId: 2, seller: BOB, buyer: ALICE, price: ETHER },
+];
+
+describe("REST API", () => {
+  let db: IndexerDatabase;
+  let server: Server;
+  let baseUrl: string;
+
+  const get = async <T>(path: string) => {
+    const res = await fetch(`${baseUrl}${path}`);
+    return { status: res.status, body: (await res.json()) as T };
+  };
+  const requestIds = async (query: string) =>
+    (await get<OfferRecord[]>(`/offers?${query}`)).body.map((offer) => offer.requestId);
+  const soldTokens = async (query: string) =>
+    (await get<SaleRecord[]>(`/sales?${query}`)).body.map((sale) => sale.tokenId);
+
+  before(async () => {
+    db = new IndexerDatabase(":memory:");
+    const blocks: StoredBlock[] = EVENTS.map((event) => ({
+      number: event.blockNumber,
+      hash: event.txHash,
+      timestamp: event.timestamp,
+    }));
+    db.applyBatch(blocks, EVENTS, 10);
+
+    server = createApiServer(db);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    db.close();
+  });
+
+  it("should report the indexing progress", async () => {
+    const { status, body } = await get<{ lastIndexedBlock: number }>("/status");
+    assert.equal(status, 200);
+    assert.equal(body.lastIndexedBlock, 10);
+  });
+
+  it("should filter offers by buyer, owner, token, status and time", async () => {
+    assert.deepEqual(await requestIds(""), [3, 2, 1, 0]);
+    assert.deepEqual(await requestIds(`buyer=${BOB}`), [2, 0]);
+    // Addresses match whatever their case
+    assert.deepEqual(await requestIds(`owner=${BOB.toUpperCase().replace("0X", "0x")}`), [3]);
+    assert.deepEqual(await requestIds("tokenId=0"), [1, 0]);
+    assert.deepEqual(await requestIds("status=pending"), [3, 2]);
+    assert.deepEqual(await requestIds(`buyer=${BOB}&status=rejected`), [0]);
+    // `since` is inclusive and `until` exclusive
+    assert.deepEqual(await requestIds("since=500&until=900"), [2, 1]);
+
+    const [approved] = (await get<OfferRecord[]>("/offers?status=approved")).body;
+    assert.equal(approved.seller, ALICE);
+    assert.equal(approved.price, (2n * ETHER).toString());
+    assert.equal(approved.decidedAt, 700);
+  });
+
+  it("should page through results newest first", async () => {
+    assert.deepEqual(await requestIds("limit=2"), [3, 2]);
+    assert.deepEqual(await requestIds("limit=2&offset=2"), [1, 0]);
+    assert.deepEqual(await requestIds("limit=2&offset=4"), []);
+
+    const { body: collectibles } = await get<CollectibleRecord[]>(`/collectibles?lister=${ALICE}&limit=1&offset=1`);
+    assert.deepEqual(collectibles.map((collectible) => collectible.tokenId), [0]);
+    assert.deepEqual(collectibles[0].lastSale, { buyer: CAROL, price: (2n * ETHER).toString(), soldAt: 700 });
+
+    assert.deepEqual(await soldTokens("limit=1"), [2]);
+  });
+
+  it("should filter sales by account, token and time", async () => {
+    assert.deepEqual(await soldTokens(`seller=${ALICE}`), [0]);
+    assert.deepEqual(await soldTokens(`buyer=${ALICE}`), [2]);
+    assert.deepEqual(await soldTokens("tokenId=2"), [2]);
+    assert.deepEqual(await soldTokens("since=800"), [2]);
+    assert.deepEqual(await soldTokens("until=800"), [0]);
+  });
+
+  it("should return one collectible with its offers and sales", async () => {
+    const { status, body } = await get<CollectibleRecord & { offers: OfferRecord[]; sales: SaleRecord[] }>(
+      "/collectibles/0",
+    );
+    assert.equal(status, 200);
+    assert.equal(body.name, "Watch");
+    assert.deepEqual(body.offers.map((offer) => offer.status), ["approved", "rejected"]);
+    assert.equal(body.sales.length, 1);
+
+    assert.equal((await get("/collectibles/9")).status, 404);
+  });
+
+  it("should reject malformed filters", async () => {
+    for (const query of ["buyer=alice", "status=open", "limit=-1", "offset=1.5", "since=yesterday"]) {
+      const { status, body } = await get<{ error: string }>(`/offers?${query}`);
+      assert.equal(status, 400, query);
+      assert.equal(typeof body.error, "string");
+    }
+    assert.equal((await get("/unknown")).status, 404);
+  });
+});
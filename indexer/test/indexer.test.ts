@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { id, type JsonRpcProvider, type Log } from "ethers";
+import type { IndexerConfig } from "../src/config";
+import { IndexerDatabase } from "../src/database";
+import { MARKETPLACE_EVENTS } from "../src/events";
+import { EventIndexer } from "../src/indexer";
+
+const CONTRACT = "0xB7f8BC63BbcaD18155201308C8f3540b07f84F5e";
+const ALICE = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+const BOB = "0x3c44cdddb6a900fa2b585dd299e03d12fa4293bc";
+
+interface FakeBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+/**
+ * Just enough of a JsonRpcProvider for EventIndexer.syncOnce
+ * @dev Blocks are named by branch, so replacing the blocks after a height simulates a reorg
+ */
+class FakeChain {
+  private blocks: FakeBlock[] = [];
+  private logs: Log[] = [];
+
+  constructor(head: number, branch: string) {
+    this.fork(0, head, branch);
+  }
+
+  /** Replace every block from `from` on with `head - from + 1` blocks of another branch */
+  fork(from: number, head: number, branch: string) {
+    this.blocks = this.blocks.slice(0, from);
+    for (let number = from; number <= head; number++) {
+      this.blocks.push({ number, hash: id(`${branch}-${number}`), timestamp: 1_000 + number * 12 });
+    }
+    this.logs = this.logs.filter((log) => log.blockNumber < from);
+  }
+
+  emit(blockNumber: number, name: string, values: unknown[]) {
+    const { data, topics } = MARKETPLACE_EVENTS.encodeEventLog(name, values);
+    this.logs.push({
+      address: CONTRACT,
+      data,
+      topics,
+      blockNumber,
+      blockHash: this.blocks[blockNumber].hash,
+      index: this.logs.length,
+      transactionHash: id(`tx-${blockNumber}-${this.logs.length}`),
+    } as unknown as Log);
+  }
+
+  asProvider(): JsonRpcProvider {
+    return {
+      getBlockNumber: async () => this.blocks.length - 1,
+      getBlock: async (number: number) => this.blocks[number] ?? null,
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+        this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    } as unknown as JsonRpcProvider;
+  }
+}
+
+const config: IndexerConfig = {
+  rpcUrl: "http://127.0.0.1:8545",
+  contractAddress: CONTRACT,
+  databasePath: ":memory:",
+  port: 0,
+  startBlock: 0,
+  confirmations: 0,
+  batchSize: 100,
+  pollIntervalMs: 0,
+};
+
+describe("EventIndexer", () => {
+  let db: IndexerDatabase;
+  let chain: FakeChain;
+  let indexer: EventIndexer;
+
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+    db = new IndexerDatabase(":memory:");
+    chain = new FakeChain(5, "a");
+    chain.emit(2, "CollectibleListed", [1, ALICE, "Watch", 1_024]);
+    chain.emit(3, "PurchaseRequested", [0, 1, BOB, 10n ** 18n, ALICE]);
+    chain.emit(4, "PurchaseApproved", [0, 1, BOB, ALICE, 10n ** 18n]);
+    chain.emit(4, "CollectiblePurchased", [1, ALICE, BOB, 10n ** 18n, 1_048]);
+    indexer = new EventIndexer(chain.asProvider(), db, config);
+  });
+
+  afterEach(() => {
+    db.close();
+    mock.restoreAll();
+  });
+
+  it("should index every event up to the head", async () => {
+    assert.equal(await indexer.syncOnce(), true);
+    assert.equal(db.lastIndexedBlock(), 5);
+
+    const [offer] = db.listOffers({ limit: 10, offset: 0 });
+    assert.equal(offer.status, "approved");
+    assert.equal(offer.price, (10n ** 18n).toString());
+    assert.deepEqual(
+      db.listSales({ limit: 10, offset: 0 }).map((sale) => [sale.tokenId, sale.seller, sale.buyer]),
+      [[1, ALICE, BOB]],
+    );
+  });
+
+  it("should roll back to the common ancestor after a reorg", async () => {
+    await indexer.syncOnce();
+
+    // Blocks 4 and 5 are replaced: the approval never happened and the buyer cancels instead
+    chain.fork(4, 6, "b");
+    chain.emit(5, "PurchaseCancelled", [0, 1, BOB, BOB]);
+    assert.equal(await indexer.syncOnce(), true);
+
+    assert.equal(db.lastIndexedBlock(), 6);
+    assert.deepEqual(db.listSales({ limit: 10, offset: 0 }), []);
+    const [offer] = db.listOffers({ limit: 10, offset: 0 });
+    assert.equal(offer.status, "cancelled");
+    assert.equal(offer.seller, null);
+    assert.deepEqual(
+      db.recentBlocks(10).map((block) => block.hash),
+      [id("b-6"), id("b-5"), id("a-3"), id("a-2")],
+    );
+    assert.equal(db.listCollectibles({ limit: 10, offset: 0 })[0].lastSale, null);
+  });
+
+  it("should re-index from the start block when no stored block is still canonical", async () => {
+    await indexer.syncOnce();
+
+    // A restarted local node shares no block with the stored ones
+    chain.fork(0, 3, "c");
+    chain.emit(3, "CollectibleListed", [0, BOB, "Coin", 1_036]);
+    assert.equal(await indexer.syncOnce(), true);
+
+    assert.equal(db.lastIndexedBlock(), 3);
+    assert.deepEqual(
+      db.listCollectibles({ limit: 10, offset: 0 }).map((collectible) => [collectible.tokenId, collectible.lister]),
+      [[0, BOB]],
+    );
+    assert.deepEqual(db.listOffers({ limit: 10, offset: 0 }), []);
+    assert.deepEqual(db.listSales({ limit: 10, offset: 0 }), []);
+  });
+});
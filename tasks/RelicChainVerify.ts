@@ -2,6 +2,12 @@ import { FhevmType } from "@fhevm/hardhat-plugin";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 
+// Mirrors CategoryRegistry.AttributeType
+const ATTRIBUTE_TYPES = ["Uint64", "Uint128", "Uint256", "ShortString"] as const;
+
+// Mirrors RelicChainVerifyBase.Role
+const ROLES = ["fee-manager", "pauser"] as const;
+
 /**
  * Example:
  *   - npx hardhat --network localhost task:address
@@ -17,15 +23,88 @@ task("task:address", "Prints the RelicChainVerify address").setAction(async func
 
 /**
  * Example:
- *   - npx hardhat --network localhost task:list --name "Vintage Watch" --image "ipfs://..." --price 92000 --cert 987654 --serial 16751969001 --origin 1969
+ *   - npx hardhat --network localhost task:categories
+ */
+task("task:categories", "Prints the registered category schemas").setAction(async function (
+  _taskArguments: TaskArguments,
+  hre,
+) {
+  const { ethers, deployments } = hre;
+
+  const RelicChainVerifyDeployment = await deployments.get("RelicChainVerify");
+  const contract = await ethers.getContractAt("RelicChainVerify", RelicChainVerifyDeployment.address);
+  const registry = await ethers.getContractAt("CategoryRegistry", await contract.categoryRegistry());
+
+  const total = await registry.getTotalCategories();
+  for (let categoryId = 0n; categoryId < total; categoryId++) {
+    const schema = await registry.getCategory(categoryId);
+    const fields = schema.fields.map(
+      (field) => `${field.name} (${ATTRIBUTE_TYPES[Number(field.fieldType)]}${field.unique ? ", unique" : ""})`,
+    );
+    console.log(`#${categoryId} ${schema.name}: ${fields.join(", ")}`);
+  }
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:add-authenticator --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8 --name "Rolex"
+ */
+task("task:add-authenticator", "Adds a trusted authenticator (admin only)")
+  .addParam("account", "The authenticator's address")
+  .addParam("name", "The display name shown on verified collectibles")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const RelicChainVerifyDeployment = await deployments.get("RelicChainVerify");
+    const signers = await ethers.getSigners();
+    // Authenticator functions are served by the module through the marketplace address
+    const authenticators = await ethers.getContractAt("RelicChainAuthenticators", RelicChainVerifyDeployment.address);
+
+    const tx = await authenticators.connect(signers[0]).addAuthenticator(taskArguments.account, taskArguments.name);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Added authenticator ${taskArguments.name} (${taskArguments.account})`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:grant-role --role pauser --account 0x70997970C51812dc3A010C7d01b50e0d17dc79C8
+ */
+task("task:grant-role", "Grants the fee-manager or pauser role (admin only)")
+  .addParam("role", "fee-manager or pauser")
+  .addParam("account", "The account receiving the role")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { ethers, deployments } = hre;
+
+    const role = ROLES.indexOf(taskArguments.role);
+    if (role < 0) {
+      throw new Error(`Unknown role "${taskArguments.role}", expected one of ${ROLES.join(", ")}`);
+    }
+
+    const RelicChainVerifyDeployment = await deployments.get("RelicChainVerify");
+    const signers = await ethers.getSigners();
+    // Role functions are served by the admin module through the marketplace address
+    const marketplaceAdmin = await ethers.getContractAt("RelicChainAdmin", RelicChainVerifyDeployment.address);
+
+    const tx = await marketplaceAdmin.connect(signers[0]).grantRole(role, taskArguments.account);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Granted ${taskArguments.role} to ${taskArguments.account}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost task:list --name "Vintage Watch" --image "ipfs://..." --category 0 \
+ *       --values '["92000", "GIA-2231-XK", "16751969001", "Geneva, CH"]' --royalty 500
  */
 task("task:list", "List a new collectible")
   .addParam("name", "The name of the collectible")
   .addParam("image", "The image URI")
-  .addParam("price", "The purchase price (will be encrypted)")
-  .addParam("cert", "The certificate number (will be encrypted)")
-  .addParam("serial", "The serial number (will be encrypted)")
-  .addParam("origin", "The origin code (will be encrypted)")
+  .addParam("category", "The category ID whose schema describes the attributes", "0")
+  .addParam("values", "JSON array of attribute values in schema order (will be encrypted)")
+  .addParam("royalty", "Royalty on resales in basis points, at most 1000 (10%)", "0")
   .setAction(async function (taskArguments: TaskArguments, hre) {
     const { ethers, deployments, fhevm } = hre;
 
@@ -36,44 +115,40 @@ task("task:list", "List a new collectible")
 
     const signers = await ethers.getSigners();
     const contract = await ethers.getContractAt("RelicChainVerify", RelicChainVerifyDeployment.address);
+    const registry = await ethers.getContractAt("CategoryRegistry", await contract.categoryRegistry());
+
+    const schema = await registry.getCategory(taskArguments.category);
+    const values: string[] = JSON.parse(taskArguments.values);
+    if (values.length !== schema.fields.length) {
+      throw new Error(`Category "${schema.name}" expects ${schema.fields.length} values`);
+    }
+
+    // Encrypt all values in a single batch (same inputProof required)
+    const input = fhevm.createEncryptedInput(RelicChainVerifyDeployment.address, signers[0].address);
+    schema.fields.forEach((field, i) => {
+      const type = ATTRIBUTE_TYPES[Number(field.fieldType)];
+      if (type === "Uint64") {
+        input.add64(BigInt(values[i]));
+      } else if (type === "Uint128") {
+        input.add128(BigInt(values[i]));
+      } else if (type === "Uint256") {
+        input.add256(BigInt(values[i]));
+      } else {
+        // Short strings are packed left-aligned, like bytes32("...")
+        input.add256(BigInt(ethers.encodeBytes32String(values[i])));
+      }
+    });
+    const encrypted = await input.encrypt();
 
-    const price = parseInt(taskArguments.price);
-    const cert = parseInt(taskArguments.cert);
-    const serial = parseInt(taskArguments.serial);
-    const origin = parseInt(taskArguments.origin);
-
-    // Encrypt all values
-    const encryptedPrice = await fhevm
-      .createEncryptedInput(RelicChainVerifyDeployment.address, signers[0].address)
-      .add32(price)
-      .encrypt();
-
-    const encryptedCert = await fhevm
-      .createEncryptedInput(RelicChainVerifyDeployment.address, signers[0].address)
-      .add32(cert)
-      .encrypt();
-
-    const encryptedSerial = await fhevm
-      .createEncryptedInput(RelicChainVerifyDeployment.address, signers[0].address)
-      .add32(serial)
-      .encrypt();
-
-    const encryptedOrigin = await fhevm
-      .createEncryptedInput(RelicChainVerifyDeployment.address, signers[0].address)
-      .add32(origin)
-      .encrypt();
-
-    // Use the same proof for all (in production, you might need separate proofs)
     const tx = await contract
       .connect(signers[0])
       .listCollectible(
         taskArguments.name,
         taskArguments.image,
-        encryptedPrice.handles[0],
-        encryptedCert.handles[0],
-        encryptedSerial.handles[0],
-        encryptedOrigin.handles[0],
-        encryptedPrice.inputProof
+        taskArguments.category,
+        encrypted.handles,
+        encrypted.inputProof,
+        taskArguments.royalty
       );
     
     console.log(`Wait for tx:${tx.hash}...`);
@@ -85,4 +160,3 @@ task("task:list", "List a new collectible")
     console.log(`Collectible listed successfully!`);
   });
 
-
@@ -1,8 +1,26 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { RelicChainVerify, RelicChainVerify__factory } from "../types";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  CategoryRegistry,
+  CategoryRegistry__factory,
+  RelicChainAdmin,
+  RelicChainAdmin__factory,
+  RelicChainAuctions,
+  RelicChainAuctions__factory,
+  RelicChainAuthenticators,
+  RelicChainAuthenticators__factory,
+  RelicChainClaims,
+  RelicChainClaims__factory,
+  RelicChainSharing,
+  RelicChainSharing__factory,
+  RelicChainVerify,
+  RelicChainVerify__factory,
+  RelicChainViews,
+  RelicChainViews__factory,
+} from "../types";
 import { expect } from "chai";
-import { FhevmType } from "@fhevm/hardhat-plugin";
+import { FhevmType, FhevmTypeEuint } from "@fhevm/hardhat-plugin";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -10,18 +28,154 @@ type Signers = {
   bob: HardhatEthersSigner;
 };
 
+// Short text fields are UTF-8 bytes packed left-aligned into a uint256 (bytes32 layout)
+function encodeShortString(value: string): bigint {
+  return BigInt(ethers.encodeBytes32String(value));
+}
+
+function decodeShortString(value: bigint): string {
+  return ethers.decodeBytes32String(ethers.toBeHex(value, 32));
+}
+
+// Mirrors CategoryRegistry.AttributeType
+const AttributeType = { Uint64: 0, Uint128: 1, Uint256: 2, ShortString: 3 } as const;
+
+// Mirrors RelicChainVerifyBase.TransferKind
+const TransferKind = { Transfer: 0n, Mint: 1n, Sale: 2n, BuyNow: 3n, Auction: 4n, Gift: 5n } as const;
+
+// Mirrors RelicChainVerifyBase.Role
+const Role = { FeeManager: 0, Pauser: 1 } as const;
+
+// Category 0 of every fixture
+const WATCH_FIELDS = [
+  { name: "Purchase Price", fieldType: AttributeType.Uint64, unique: false },
+  { name: "Certificate ID", fieldType: AttributeType.ShortString, unique: true },
+  { name: "Serial Number", fieldType: AttributeType.Uint128, unique: true },
+  { name: "Origin", fieldType: AttributeType.ShortString, unique: false },
+];
+
 async function deployFixture() {
+  const registryFactory = (await ethers.getContractFactory("CategoryRegistry")) as CategoryRegistry__factory;
+  const registry = (await registryFactory.deploy()) as CategoryRegistry;
+  const tx = await registry.registerCategory("Watch", WATCH_FIELDS);
+  await tx.wait();
+
+  const auctionFactory = (await ethers.getContractFactory("RelicChainAuctions")) as RelicChainAuctions__factory;
+  const auctionModule = await auctionFactory.deploy();
+  const claimsFactory = (await ethers.getContractFactory("RelicChainClaims")) as RelicChainClaims__factory;
+  const claimsModule = await claimsFactory.deploy();
+  const authenticatorsFactory = (await ethers.getContractFactory(
+    "RelicChainAuthenticators",
+  )) as RelicChainAuthenticators__factory;
+  const authenticatorsModule = await authenticatorsFactory.deploy();
+  const sharingFactory = (await ethers.getContractFactory("RelicChainSharing")) as RelicChainSharing__factory;
+  const sharingModule = await sharingFactory.deploy();
+  const adminFactory = (await ethers.getContractFactory("RelicChainAdmin")) as RelicChainAdmin__factory;
+  const adminModule = await adminFactory.deploy();
+  const viewsFactory = (await ethers.getContractFactory("RelicChainViews")) as RelicChainViews__factory;
+  const viewsModule = await viewsFactory.deploy();
+
   const factory = (await ethers.getContractFactory("RelicChainVerify")) as RelicChainVerify__factory;
-  const contract = (await factory.deploy()) as RelicChainVerify;
+  const contract = (await factory.deploy(await registry.getAddress(), [
+    await auctionModule.getAddress(),
+    await claimsModule.getAddress(),
+    await authenticatorsModule.getAddress(),
+    await sharingModule.getAddress(),
+    await adminModule.getAddress(),
+    await viewsModule.getAddress(),
+  ])) as RelicChainVerify;
   const contractAddress = await contract.getAddress();
 
-  return { contract, contractAddress };
+  // Module calls go to the marketplace address, which delegates them by selector
+  const auctions = RelicChainAuctions__factory.connect(contractAddress, contract.runner) as RelicChainAuctions;
+  const claims = RelicChainClaims__factory.connect(contractAddress, contract.runner) as RelicChainClaims;
+  const authenticators = RelicChainAuthenticators__factory.connect(
+    contractAddress,
+    contract.runner,
+  ) as RelicChainAuthenticators;
+  const sharing = RelicChainSharing__factory.connect(contractAddress, contract.runner) as RelicChainSharing;
+  const marketplaceAdmin = RelicChainAdmin__factory.connect(contractAddress, contract.runner) as RelicChainAdmin;
+  const views = RelicChainViews__factory.connect(contractAddress, contract.runner) as RelicChainViews;
+
+  return { registry, contract, contractAddress, auctions, claims, authenticators, sharing, marketplaceAdmin, views };
+}
+
+async function listTestCollectible(
+  contract: RelicChainVerify,
+  contractAddress: string,
+  owner: HardhatEthersSigner,
+  serialNumber: bigint = 16751969001n,
+  certNumber: string = "GIA-2231-XK",
+  royaltyBps: number = 0,
+) {
+  // Encrypt all metadata fields in a single batch (same inputProof required)
+  const encrypted = await fhevm
+    .createEncryptedInput(contractAddress, owner.address)
+    .add64(1000) // purchasePrice
+    .add256(encodeShortString(certNumber)) // certNumber
+    .add128(serialNumber) // serialNumber
+    .add256(encodeShortString("CH")) // originCode
+    .encrypt();
+
+  const tx = await contract
+    .connect(owner)
+    .listCollectible("Test", "ipfs://test", 0, encrypted.handles, encrypted.inputProof, royaltyBps);
+  await tx.wait();
+}
+
+async function requestTestPurchase(
+  contract: RelicChainVerify,
+  contractAddress: string,
+  buyer: HardhatEthersSigner,
+  tokenId: number,
+  escrow: bigint,
+  expiresAt: number = 0,
+  offer: bigint = escrow,
+) {
+  // The offer is encrypted in gwei; the escrowed ETH is its public cap
+  const encrypted = await fhevm
+    .createEncryptedInput(contractAddress, buyer.address)
+    .add64(offer / 1_000_000_000n)
+    .encrypt();
+
+  return contract
+    .connect(buyer)
+    .requestPurchase(tokenId, expiresAt, encrypted.handles[0], encrypted.inputProof, { value: escrow });
+}
+
+async function approveAndSettle(contract: RelicChainVerify, owner: HardhatEthersSigner, requestId: number) {
+  const tx = await contract.connect(owner).approvePurchase(requestId);
+  const receipt = await tx.wait();
+  // The sale settles in the oracle callback once the offer is decrypted
+  await fhevm.awaitDecryptionOracle();
+  return receipt!.blockNumber;
+}
+
+async function canUserDecrypt(
+  handle: string,
+  contractAddress: string,
+  user: HardhatEthersSigner,
+  type: FhevmTypeEuint = FhevmType.euint64,
+) {
+  try {
+    await fhevm.userDecryptEuint(type, handle, contractAddress, user);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 describe("RelicChainVerify", function () {
   let signers: Signers;
   let contract: RelicChainVerify;
   let contractAddress: string;
+  let registry: CategoryRegistry;
+  let auctions: RelicChainAuctions;
+  let claims: RelicChainClaims;
+  let authenticators: RelicChainAuthenticators;
+  let sharing: RelicChainSharing;
+  let marketplaceAdmin: RelicChainAdmin;
+  let views: RelicChainViews;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -35,37 +189,30 @@ describe("RelicChainVerify", function () {
       this.skip();
     }
 
-    ({ contract, contractAddress } = await deployFixture());
+    ({ registry, contract, contractAddress, auctions, claims, authenticators, sharing, marketplaceAdmin, views } =
+      await deployFixture());
   });
 
   it("should list a new collectible with encrypted metadata", async function () {
     const name = "Vintage Rolex";
     const imageUri = "ipfs://QmTest123";
     const purchasePrice = 92000;
-    const certNumber = 987654;
-    const serialNumber = 16751969; // Fixed: within uint32 range (max: 4294967295)
-    const originCode = 1969;
+    const certNumber = "GIA-2231-XK";
+    const serialNumber = 16751969001n;
+    const originCode = "Geneva, CH";
 
     // Encrypt all metadata fields in a single batch (same inputProof required)
     const encrypted = await fhevm
       .createEncryptedInput(contractAddress, signers.alice.address)
-      .add32(purchasePrice)
-      .add32(certNumber)
-      .add32(serialNumber)
-      .add32(originCode)
+      .add64(purchasePrice)
+      .add256(encodeShortString(certNumber))
+      .add128(serialNumber)
+      .add256(encodeShortString(originCode))
       .encrypt();
 
     const tx = await contract
       .connect(signers.alice)
-      .listCollectible(
-        name,
-        imageUri,
-        encrypted.handles[0], // purchasePrice
-        encrypted.handles[1], // certNumber
-        encrypted.handles[2], // serialNumber
-        encrypted.handles[3], // originCode
-        encrypted.inputProof
-      );
+      .listCollectible(name, imageUri, 0, encrypted.handles, encrypted.inputProof, 0);
     await tx.wait();
 
     const tokenId = 0;
@@ -75,6 +222,21 @@ describe("RelicChainVerify", function () {
     expect(info.imageUri).to.eq(imageUri);
     expect(info.owner).to.eq(signers.alice.address);
     expect(info.exists).to.be.true;
+
+    // Values beyond uint32 and short strings round-trip through decryption
+    const metadata = await contract.getEncryptedMetadata(tokenId);
+    expect(metadata.categoryId).to.eq(0);
+    const [price, cert, serial, origin] = metadata.encryptedAttributes;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, price, contractAddress, signers.alice)).to.eq(purchasePrice);
+    expect(
+      decodeShortString(await fhevm.userDecryptEuint(FhevmType.euint256, cert, contractAddress, signers.alice)),
+    ).to.eq(certNumber);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, serial, contractAddress, signers.alice)).to.eq(
+      serialNumber,
+    );
+    expect(
+      decodeShortString(await fhevm.userDecryptEuint(FhevmType.euint256, origin, contractAddress, signers.alice)),
+    ).to.eq(originCode);
   });
 
   it("should allow purchase and transfer ownership with ACL update", async function () {
@@ -82,30 +244,22 @@ describe("RelicChainVerify", function () {
     const name = "Test Item";
     const imageUri = "ipfs://QmTest";
     const purchasePrice = 1000;
-    const certNumber = 123456;
-    const serialNumber = 1234567; // Fixed: within uint32 range
-    const originCode = 2024;
+    const certNumber = "GIA-2231-XK";
+    const serialNumber = 16751969001n;
+    const originCode = "CH";
 
     // Encrypt all metadata fields in a single batch (same inputProof required)
     const encrypted = await fhevm
       .createEncryptedInput(contractAddress, signers.alice.address)
-      .add32(purchasePrice)
-      .add32(certNumber)
-      .add32(serialNumber)
-      .add32(originCode)
+      .add64(purchasePrice)
+      .add256(encodeShortString(certNumber))
+      .add128(serialNumber)
+      .add256(encodeShortString(originCode))
       .encrypt();
 
     let tx = await contract
       .connect(signers.alice)
-      .listCollectible(
-        name,
-        imageUri,
-        encrypted.handles[0], // purchasePrice
-        encrypted.handles[1], // certNumber
-        encrypted.handles[2], // serialNumber
-        encrypted.handles[3], // originCode
-        encrypted.inputProof
-      );
+      .listCollectible(name, imageUri, 0, encrypted.handles, encrypted.inputProof, 0);
     await tx.wait();
 
     const tokenId = 0;
@@ -113,8 +267,8 @@ describe("RelicChainVerify", function () {
     // Verify Alice can decrypt before purchase
     const encryptedMetadataBefore = await contract.getEncryptedMetadata(tokenId);
     const decryptedPriceBefore = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedMetadataBefore.encryptedPrice,
+      FhevmType.euint64,
+      encryptedMetadataBefore.encryptedAttributes[0],
       contractAddress,
       signers.alice,
     );
@@ -125,11 +279,11 @@ describe("RelicChainVerify", function () {
     const bobBalanceBefore = await ethers.provider.getBalance(signers.bob.address);
     const aliceBalanceBefore = await ethers.provider.getBalance(signers.alice.address);
 
-    tx = await contract
-      .connect(signers.bob)
-      .purchaseCollectible(tokenId, { value: purchaseAmount });
+    tx = await requestTestPurchase(contract, contractAddress, signers.bob, tokenId, purchaseAmount);
     await tx.wait();
 
+    await approveAndSettle(contract, signers.alice, 0);
+
     // Verify ownership transfer
     const info = await contract.getCollectibleInfo(tokenId);
     expect(info.owner).to.eq(signers.bob.address);
@@ -137,27 +291,25 @@ describe("RelicChainVerify", function () {
     // Verify Bob can decrypt after purchase
     const encryptedMetadataAfter = await contract.getEncryptedMetadata(tokenId);
     const decryptedPriceAfter = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedMetadataAfter.encryptedPrice,
+      FhevmType.euint64,
+      encryptedMetadataAfter.encryptedAttributes[0],
       contractAddress,
       signers.bob,
     );
     expect(decryptedPriceAfter).to.eq(purchasePrice);
 
     // Verify Alice can no longer decrypt (should fail)
-    try {
-      await fhevm.userDecryptEuint(
-        FhevmType.euint32,
-        encryptedMetadataAfter.encryptedPrice,
-        contractAddress,
-        signers.alice,
-      );
-      expect.fail("Alice should not be able to decrypt after transfer");
-    } catch (error) {
-      // Expected to fail
-    }
+    expect(
+      await canUserDecrypt(encryptedMetadataAfter.encryptedAttributes[0], contractAddress, signers.alice),
+      "Alice should not be able to decrypt after transfer",
+    ).to.be.false;
+
+    // Verify payment was credited to Alice and can be withdrawn
+    expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(purchaseAmount);
+    tx = await contract.connect(signers.alice).withdraw();
+    await tx.wait();
+    expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(0);
 
-    // Verify payment was transferred
     const aliceBalanceAfter = await ethers.provider.getBalance(signers.alice.address);
     expect(aliceBalanceAfter).to.be.gt(aliceBalanceBefore);
   });
@@ -166,39 +318,1470 @@ describe("RelicChainVerify", function () {
     // List collectible - encrypt all fields in a single batch
     const encrypted = await fhevm
       .createEncryptedInput(contractAddress, signers.alice.address)
-      .add32(1000)      // purchasePrice
-      .add32(123456)    // certNumber
-      .add32(1234567)   // serialNumber (fixed: within uint32 range)
-      .add32(2024)      // originCode
+      .add64(1000)                              // purchasePrice
+      .add256(encodeShortString("GIA-2231-XK")) // certNumber
+      .add128(16751969001n)                     // serialNumber
+      .add256(encodeShortString("CH"))          // originCode
       .encrypt();
 
     let tx = await contract
       .connect(signers.alice)
-      .listCollectible(
-        "Test",
-        "ipfs://test",
-        encrypted.handles[0], // purchasePrice
-        encrypted.handles[1], // certNumber
-        encrypted.handles[2], // serialNumber
-        encrypted.handles[3], // originCode
-        encrypted.inputProof
-      );
-    await tx.wait();
+      .listCollectible("Test", "ipfs://test", 0, encrypted.handles, encrypted.inputProof, 0);
+    const listReceipt = await tx.wait();
 
     const tokenId = 0;
 
     // Purchase
-    tx = await contract
-      .connect(signers.bob)
-      .purchaseCollectible(tokenId, { value: ethers.parseEther("1.0") });
+    tx = await requestTestPurchase(contract, contractAddress, signers.bob, tokenId, ethers.parseEther("1.0"));
     await tx.wait();
 
-    // Check provenance
+    await approveAndSettle(contract, signers.alice, 0);
+
+    // Check provenance: the mint, then the sale
     const provenance = await contract.getProvenance(tokenId);
-    expect(provenance.length).to.eq(1);
-    expect(provenance[0].from).to.eq(signers.alice.address);
-    expect(provenance[0].to).to.eq(signers.bob.address);
+    expect(provenance.length).to.eq(2);
+    expect(provenance[0].from).to.eq(ethers.ZeroAddress);
+    expect(provenance[0].to).to.eq(signers.alice.address);
+    expect(provenance[0].kind).to.eq(TransferKind.Mint);
+    expect(provenance[0].blockNumber).to.eq(listReceipt!.blockNumber);
+    expect(provenance[1].from).to.eq(signers.alice.address);
+    expect(provenance[1].to).to.eq(signers.bob.address);
+    expect(provenance[1].kind).to.eq(TransferKind.Sale);
+    expect(provenance[1].requestId).to.eq(0n);
+    // The decrypted offer, paid from the 1 ETH escrow
+    expect(provenance[1].price).to.eq(ethers.parseEther("1.0"));
+
+    // The record's block holds the transaction that emitted the token's Transfer event
+    const [transfer] = await contract.queryFilter(
+      contract.filters.Transfer(signers.alice.address, signers.bob.address, tokenId),
+    );
+    expect(BigInt(transfer.blockNumber)).to.eq(provenance[1].blockNumber);
   });
-});
 
+  it("should let the buyer cancel a pending request and refund the offer", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const offer = ethers.parseEther("1.0");
+    let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, offer);
+    await tx.wait();
+    expect(await contract.getOwnerPendingRequests(signers.alice.address)).to.deep.eq([0n]);
+
+    // Only the buyer can cancel a request that has no expiry
+    await expect(contract.connect(signers.deployer).cancelPurchaseRequest(0)).to.be.revertedWith(
+      "Only buyer can cancel before expiry",
+    );
+
+    tx = await contract.connect(signers.bob).cancelPurchaseRequest(0);
+    await expect(tx).to.emit(contract, "WithdrawalCredited").withArgs(signers.bob.address, offer);
+    await expect(tx)
+      .to.emit(contract, "PurchaseCancelled")
+      .withArgs(0, 0, signers.bob.address, signers.bob.address);
+
+    const request = await contract.getPurchaseRequest(0);
+    expect(request.isPending).to.be.false;
+    expect(request.isApproved).to.be.false;
+    expect(await contract.getOwnerPendingRequests(signers.alice.address)).to.deep.eq([]);
+    expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(offer);
+
+    await expect(contract.connect(signers.alice).approvePurchase(0)).to.be.revertedWith("Request is not pending");
+
+    await expect(contract.connect(signers.bob).withdraw()).to.changeEtherBalances(
+      [signers.bob, contract],
+      [offer, -offer],
+    );
+  });
+
+  it("should let anyone refund an expired request and block its approval", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const offer = ethers.parseEther("0.5");
+    const expiresAt = (await time.latest()) + 3600;
+    const tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, offer, expiresAt);
+    await tx.wait();
+    expect((await contract.getPurchaseRequest(0)).expiresAt).to.eq(expiresAt);
+
+    await expect(contract.connect(signers.deployer).cancelPurchaseRequest(0)).to.be.revertedWith(
+      "Only buyer can cancel before expiry",
+    );
+
+    await time.increaseTo(expiresAt);
+
+    await expect(contract.connect(signers.alice).approvePurchase(0)).to.be.revertedWith("Request has expired");
+    await expect(contract.connect(signers.deployer).cancelPurchaseRequest(0))
+      .to.emit(contract, "WithdrawalCredited")
+      .withArgs(signers.bob.address, offer);
+    expect(await contract.getOwnerPendingRequests(signers.alice.address)).to.deep.eq([]);
+  });
+
+  it("should reject an expiry timestamp in the past", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const expiresAt = await time.latest();
+    await expect(
+      requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("0.1"), expiresAt),
+    ).to.be.revertedWith("Expiry must be in the future");
+  });
+
+  it("should credit seller proceeds and refunds even when a buyer rejects ETH", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const revertingBuyer = await (await ethers.getContractFactory("RevertingBuyer")).deploy(contractAddress);
+    const revertingBuyerAddress = await revertingBuyer.getAddress();
+
+    const maliciousOffer = ethers.parseEther("0.3");
+    const bobOffer = ethers.parseEther("1.0");
+    const maliciousInput = await fhevm
+      .createEncryptedInput(contractAddress, revertingBuyerAddress)
+      .add64(maliciousOffer / 1_000_000_000n)
+      .encrypt();
+    let tx = await revertingBuyer
+      .connect(signers.deployer)
+      .requestPurchase(0, maliciousInput.handles[0], maliciousInput.inputProof, { value: maliciousOffer });
+    await tx.wait();
+    tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, bobOffer);
+    await tx.wait();
+
+    // Approving Bob auto-rejects the malicious offer; its refund is credited instead of pushed
+    const balanceBefore = await ethers.provider.getBalance(contractAddress);
+    const approvedAt = await approveAndSettle(contract, signers.alice, 1);
+    const rejected = await contract.queryFilter(contract.filters.PurchaseRejected(), approvedAt);
+    expect(rejected.map((e) => [e.args.requestId, e.args.buyer])).to.deep.eq([[0n, revertingBuyerAddress]]);
+    expect(await ethers.provider.getBalance(contractAddress)).to.eq(balanceBefore);
+
+    expect((await contract.getCollectibleInfo(0)).owner).to.eq(signers.bob.address);
+    expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(bobOffer);
+    expect(await contract.pendingWithdrawals(revertingBuyerAddress)).to.eq(maliciousOffer);
+
+    // The malicious buyer only hurts itself: its withdrawal fails and the credit is kept
+    await expect(revertingBuyer.withdraw()).to.be.revertedWith("Withdrawal failed");
+    expect(await contract.pendingWithdrawals(revertingBuyerAddress)).to.eq(maliciousOffer);
+
+    await expect(contract.connect(signers.alice).withdraw())
+      .to.emit(contract, "Withdrawn")
+      .withArgs(signers.alice.address, bobOffer);
+    await expect(contract.connect(signers.alice).withdraw()).to.be.revertedWith("Nothing to withdraw");
+  });
+
+  it("should credit refunds for rejected offers", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const offer = ethers.parseEther("0.2");
+    let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, offer);
+    await tx.wait();
+
+    tx = await contract.connect(signers.alice).rejectPurchase(0);
+    await expect(tx).to.changeEtherBalance(signers.bob, 0);
+    expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(offer);
+
+    await expect(contract.connect(signers.bob).withdraw()).to.changeEtherBalance(signers.bob, offer);
+  });
+
+  it("should mint an ERC-721 token on listing", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    expect(await contract.ownerOf(0)).to.eq(signers.alice.address);
+    expect(await contract.balanceOf(signers.alice.address)).to.eq(1);
+    expect(await contract.getOwnerCollectibles(signers.alice.address)).to.deep.eq([0n]);
+    expect(await contract.supportsInterface("0x80ac58cd")).to.be.true; // IERC721
+    expect(await contract.supportsInterface("0x5b5e139f")).to.be.true; // IERC721Metadata
+
+    const uri = await contract.tokenURI(0);
+    const prefix = "data:application/json;base64,";
+    expect(uri.startsWith(prefix)).to.be.true;
+    const metadata = JSON.parse(Buffer.from(uri.slice(prefix.length), "base64").toString("utf8"));
+    expect(metadata.name).to.eq("Test");
+    expect(metadata.image).to.eq("ipfs://test");
+
+    await expect(contract.tokenURI(1)).to.be.revertedWithCustomError(contract, "ERC721NonexistentToken");
+  });
+
+  it("should emit Transfer and update balances when a purchase is approved", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1.0"));
+    await tx.wait();
+
+    const approvedAt = await approveAndSettle(contract, signers.alice, 0);
+    const transfers = await contract.queryFilter(contract.filters.Transfer(), approvedAt);
+    expect(transfers.map((e) => [e.args.from, e.args.to, e.args.tokenId])).to.deep.eq([
+      [signers.alice.address, signers.bob.address, 0n],
+    ]);
+
+    expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+    expect(await contract.balanceOf(signers.alice.address)).to.eq(0);
+    expect(await contract.balanceOf(signers.bob.address)).to.eq(1);
+    expect(await contract.getOwnerCollectibles(signers.alice.address)).to.deep.eq([]);
+    expect(await contract.getOwnerCollectibles(signers.bob.address)).to.deep.eq([0n]);
+  });
+
+  it("should handle ERC-721 transfers like any other transfer path", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const offer = ethers.parseEther("0.4");
+    let tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, offer);
+    await tx.wait();
+
+    // An approved operator moves the token with safeTransferFrom
+    tx = await contract.connect(signers.alice).setApprovalForAll(signers.deployer.address, true);
+    await tx.wait();
+    tx = await contract
+      .connect(signers.deployer)
+      ["safeTransferFrom(address,address,uint256)"](signers.alice.address, signers.bob.address, 0);
+    await expect(tx).to.emit(contract, "Transfer").withArgs(signers.alice.address, signers.bob.address, 0);
+
+    // Outstanding offers are auto-rejected and refunded
+    await expect(tx).to.emit(contract, "PurchaseRejected").withArgs(0, 0, signers.deployer.address);
+    expect((await contract.getPurchaseRequest(0)).isPending).to.be.false;
+    expect(await contract.getOwnerPendingRequests(signers.alice.address)).to.deep.eq([]);
+    expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(offer);
+
+    // The collectible record, owner lists and provenance follow the token
+    expect((await contract.getCollectibleInfo(0)).owner).to.eq(signers.bob.address);
+    expect(await contract.getOwnerCollectibles(signers.bob.address)).to.deep.eq([0n]);
+    const provenance = await contract.getProvenance(0);
+    expect(provenance.length).to.eq(2);
+    expect(provenance[1].from).to.eq(signers.alice.address);
+    expect(provenance[1].to).to.eq(signers.bob.address);
+    expect(provenance[1].kind).to.eq(TransferKind.Transfer);
+    expect(provenance[1].price).to.eq(0n);
+
+    // The recipient can decrypt all four encrypted fields
+    const [price, cert, serial, origin] = (await contract.getEncryptedMetadata(0)).encryptedAttributes;
+    expect(await fhevm.userDecryptEuint(FhevmType.euint64, price, contractAddress, signers.bob)).to.eq(1000);
+    expect(
+      decodeShortString(await fhevm.userDecryptEuint(FhevmType.euint256, cert, contractAddress, signers.bob)),
+    ).to.eq("GIA-2231-XK");
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, serial, contractAddress, signers.bob)).to.eq(
+      16751969001n,
+    );
+    expect(
+      decodeShortString(await fhevm.userDecryptEuint(FhevmType.euint256, origin, contractAddress, signers.bob)),
+    ).to.eq("CH");
+
+    // The previous owner can no longer approve offers or move the token
+    await expect(
+      contract.connect(signers.alice).transferFrom(signers.bob.address, signers.alice.address, 0),
+    ).to.be.revertedWithCustomError(contract, "ERC721InsufficientApproval");
+  });
+
+  it("should let the owner gift a collectible and hand over the encrypted metadata", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const offer = ethers.parseEther("0.7");
+    let tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, offer);
+    await tx.wait();
+
+    await expect(
+      contract.connect(signers.bob).transferCollectible(0, signers.bob.address),
+    ).to.be.revertedWith("Only owner can transfer");
+    await expect(contract.connect(signers.alice).transferCollectible(0, ethers.ZeroAddress)).to.be.revertedWith(
+      "Invalid recipient",
+    );
+    await expect(
+      contract.connect(signers.alice).transferCollectible(0, signers.alice.address),
+    ).to.be.revertedWith("Cannot transfer to self");
+
+    tx = await contract.connect(signers.alice).transferCollectible(0, signers.bob.address);
+    await expect(tx).to.emit(contract, "CollectibleTransferred");
+    await expect(tx).to.emit(contract, "Transfer").withArgs(signers.alice.address, signers.bob.address, 0);
+    await expect(tx).to.emit(contract, "PurchaseRejected").withArgs(0, 0, signers.deployer.address);
+
+    expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+    expect(await contract.getOwnerCollectibles(signers.alice.address)).to.deep.eq([]);
+    expect(await contract.getOwnerCollectibles(signers.bob.address)).to.deep.eq([0n]);
+    expect(await contract.getOwnerPendingRequests(signers.alice.address)).to.deep.eq([]);
+    expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(offer);
+    // A gift carries no payment for the previous owner
+    expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(0);
+
+    const provenance = await contract.getProvenance(0);
+    expect(provenance.length).to.eq(2);
+    expect(provenance[1].from).to.eq(signers.alice.address);
+    expect(provenance[1].to).to.eq(signers.bob.address);
+    expect(provenance[1].kind).to.eq(TransferKind.Gift);
+    expect(provenance[1].price).to.eq(0n);
+
+    const metadata = await contract.getEncryptedMetadata(0);
+    const serial = await fhevm.userDecryptEuint(
+      FhevmType.euint128,
+      metadata.encryptedAttributes[2],
+      contractAddress,
+      signers.bob,
+    );
+    expect(serial).to.eq(16751969001n);
+  });
+
+  it("should rotate metadata handles so former owners lose decryption rights", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+    const listed = await contract.getEncryptedMetadata(0);
+
+    let tx = await contract.connect(signers.alice).transferCollectible(0, signers.bob.address);
+    await tx.wait();
+    const afterFirstTransfer = await contract.getEncryptedMetadata(0);
+
+    // Every field is served from a fresh handle
+    expect(afterFirstTransfer.encryptedAttributes[0]).to.not.eq(listed.encryptedAttributes[0]);
+    expect(afterFirstTransfer.encryptedAttributes[1]).to.not.eq(listed.encryptedAttributes[1]);
+    expect(afterFirstTransfer.encryptedAttributes[2]).to.not.eq(listed.encryptedAttributes[2]);
+    expect(afterFirstTransfer.encryptedAttributes[3]).to.not.eq(listed.encryptedAttributes[3]);
+
+    for (const [handle, type] of [
+      [afterFirstTransfer.encryptedAttributes[0], FhevmType.euint64],
+      [afterFirstTransfer.encryptedAttributes[1], FhevmType.euint256],
+      [afterFirstTransfer.encryptedAttributes[2], FhevmType.euint128],
+      [afterFirstTransfer.encryptedAttributes[3], FhevmType.euint256],
+    ] as const) {
+      expect(await canUserDecrypt(handle, contractAddress, signers.bob, type)).to.be.true;
+      expect(await canUserDecrypt(handle, contractAddress, signers.alice, type)).to.be.false;
+    }
+
+    // The rotation repeats on every transfer, so Bob loses access after passing it on
+    tx = await contract.connect(signers.bob).transferCollectible(0, signers.deployer.address);
+    await tx.wait();
+    const afterSecondTransfer = await contract.getEncryptedMetadata(0);
+
+    const certHandle = afterSecondTransfer.encryptedAttributes[1];
+    expect(await canUserDecrypt(certHandle, contractAddress, signers.bob, FhevmType.euint256)).to.be.false;
+    expect(await canUserDecrypt(certHandle, contractAddress, signers.alice, FhevmType.euint256)).to.be.false;
+    const cert = await fhevm.userDecryptEuint(FhevmType.euint256, certHandle, contractAddress, signers.deployer);
+    expect(decodeShortString(cert)).to.eq("GIA-2231-XK");
+  });
+
+  it("should sell atomically at a fixed asking price with buyNow", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const price = ethers.parseEther("2.0");
+    const offer = ethers.parseEther("1.0");
+    await expect(contract.connect(signers.bob).setSalePrice(0, price)).to.be.revertedWith("Only owner can set price");
+    await expect(contract.connect(signers.bob).buyNow(0, { value: price })).to.be.revertedWith(
+      "Collectible is not for sale",
+    );
+
+    await expect(contract.connect(signers.alice).setSalePrice(0, price))
+      .to.emit(contract, "SalePriceSet")
+      .withArgs(0, signers.alice.address, price);
+
+    // A pending lower offer is auto-rejected when the item sells
+    let tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, offer);
+    await tx.wait();
+
+    await expect(contract.connect(signers.bob).buyNow(0, { value: offer })).to.be.revertedWith(
+      "Incorrect payment amount",
+    );
+
+    tx = await contract.connect(signers.bob).buyNow(0, { value: price });
+    await expect(tx).to.emit(contract, "Transfer").withArgs(signers.alice.address, signers.bob.address, 0);
+    await expect(tx).to.emit(contract, "CollectiblePurchased");
+    await expect(tx).to.emit(contract, "PurchaseRejected").withArgs(0, 0, signers.deployer.address);
+
+    expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+    expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(price);
+    expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(offer);
+
+    const [, sale] = await contract.getProvenance(0);
+    expect(sale.kind).to.eq(TransferKind.BuyNow);
+    expect(sale.price).to.eq(price);
+
+    // The listing does not survive the transfer
+    expect(await contract.salePrices(0)).to.eq(0);
+    await expect(contract.connect(signers.deployer).buyNow(0, { value: price })).to.be.revertedWith(
+      "Collectible is not for sale",
+    );
+
+    const metadata = await contract.getEncryptedMetadata(0);
+    expect(await canUserDecrypt(metadata.encryptedAttributes[0], contractAddress, signers.bob)).to.be.true;
+    expect(await canUserDecrypt(metadata.encryptedAttributes[0], contractAddress, signers.alice)).to.be.false;
+  });
+
+  it("should let the owner cancel a fixed-price listing", async function () {
+    await listTestCollectible(contract, contractAddress, signers.alice);
+
+    const price = ethers.parseEther("1.5");
+    const tx = await contract.connect(signers.alice).setSalePrice(0, price);
+    await tx.wait();
+
+    await expect(contract.connect(signers.bob).cancelSale(0)).to.be.revertedWith("Only owner can cancel sale");
+    await expect(contract.connect(signers.alice).cancelSale(0))
+      .to.emit(contract, "SaleCancelled")
+      .withArgs(0, signers.alice.address);
+    await expect(contract.connect(signers.alice).cancelSale(0)).to.be.revertedWith("Collectible is not for sale");
+
+    await expect(contract.connect(signers.bob).buyNow(0, { value: price })).to.be.revertedWith(
+      "Collectible is not for sale",
+    );
+  });
+
+  describe("category schemas", function () {
+    const WINE_FIELDS = [
+      { name: "Chateau", fieldType: AttributeType.ShortString, unique: false },
+      { name: "Vintage", fieldType: AttributeType.Uint64, unique: false },
+      { name: "Cask Number", fieldType: AttributeType.Uint128, unique: false },
+      { name: "Provenance Hash", fieldType: AttributeType.Uint256, unique: true },
+    ];
+    const WINE_TYPES = [FhevmType.euint256, FhevmType.euint64, FhevmType.euint128, FhevmType.euint256] as const;
+
+    it("should store and rotate attributes of any registered category", async function () {
+      await expect(registry.connect(signers.bob).registerCategory("Wine", WINE_FIELDS))
+        .to.emit(registry, "CategoryRegistered")
+        .withArgs(1, signers.bob.address, "Wine", 4);
+
+      const schema = await registry.getCategory(1);
+      expect(schema.name).to.eq("Wine");
+      expect(schema.creator).to.eq(signers.bob.address);
+      expect(schema.fields.map((field) => [field.name, field.fieldType, field.unique])).to.deep.eq(
+        WINE_FIELDS.map((field) => [field.name, BigInt(field.fieldType), field.unique]),
+      );
+      expect(await registry.getUniqueFields(1)).to.deep.eq([3n]);
+
+      const provenanceHash = BigInt(ethers.keccak256(ethers.toUtf8Bytes("cellar ledger #42")));
+      const values = [encodeShortString("Margaux"), 1961n, 340282366920938463463374607431768211455n, provenanceHash];
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(values[0])
+        .add64(values[1])
+        .add128(values[2])
+        .add256(values[3])
+        .encrypt();
+      const tx = await contract
+        .connect(signers.alice)
+        .listCollectible("Margaux 1961", "ipfs://wine", 1, encrypted.handles, encrypted.inputProof, 0);
+      await tx.wait();
+
+      const listed = await contract.getEncryptedMetadata(0);
+      expect(listed.categoryId).to.eq(1);
+      for (let i = 0; i < values.length; i++) {
+        const handle = listed.encryptedAttributes[i];
+        expect(await fhevm.userDecryptEuint(WINE_TYPES[i], handle, contractAddress, signers.alice)).to.eq(values[i]);
+      }
+
+      // Every field is rotated according to its schema type on transfer
+      await (await contract.connect(signers.alice).transferCollectible(0, signers.bob.address)).wait();
+      const rotated = await contract.getEncryptedMetadata(0);
+      for (let i = 0; i < values.length; i++) {
+        const handle = rotated.encryptedAttributes[i];
+        expect(handle).to.not.eq(listed.encryptedAttributes[i]);
+        expect(await fhevm.userDecryptEuint(WINE_TYPES[i], handle, contractAddress, signers.bob)).to.eq(values[i]);
+        expect(await canUserDecrypt(handle, contractAddress, signers.alice, WINE_TYPES[i])).to.be.false;
+      }
+    });
+
+    it("should reject invalid schemas and listings that do not match their schema", async function () {
+      await expect(registry.registerCategory("", WATCH_FIELDS)).to.be.revertedWith("Name required");
+      await expect(registry.registerCategory("Empty", [])).to.be.revertedWith("Fields required");
+      const tooMany = Array.from({ length: 17 }, (_, i) => ({
+        name: `Field ${i}`,
+        fieldType: AttributeType.Uint64,
+        unique: false,
+      }));
+      await expect(registry.registerCategory("Huge", tooMany)).to.be.revertedWith("Too many fields");
+      await expect(
+        registry.registerCategory("Unnamed", [{ name: "", fieldType: AttributeType.Uint64, unique: false }]),
+      ).to.be.revertedWith("Field name required");
+      await expect(registry.getCategory(1)).to.be.revertedWith("Category does not exist");
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1000)
+        .add256(encodeShortString("GIA-2231-XK"))
+        .encrypt();
+      await expect(
+        contract.connect(signers.alice).listCollectible("Test", "ipfs://test", 1, encrypted.handles, encrypted.inputProof, 0),
+      ).to.be.revertedWith("Category does not exist");
+      await expect(
+        contract.connect(signers.alice).listCollectible("Test", "ipfs://test", 0, encrypted.handles, encrypted.inputProof, 0),
+      ).to.be.revertedWith("Attribute count mismatch");
+    });
+  });
+
+  describe("sealed-bid auctions", function () {
+    async function placeBid(auctionId: number, bidder: HardhatEthersSigner, bidGwei: bigint, deposit: bigint) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, bidder.address).add64(bidGwei).encrypt();
+      const tx = await auctions
+        .connect(bidder)
+        .placeBid(auctionId, encrypted.handles[0], encrypted.inputProof, { value: deposit });
+      await tx.wait();
+    }
+
+    it("should reveal the highest covered bid and settle through the ledger", async function () {
+      const carol = (await ethers.getSigners())[3];
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      await expect(auctions.connect(signers.bob).createAuction(0, 3600)).to.be.revertedWith(
+        "Only owner can create auction",
+      );
+      await expect(auctions.connect(signers.alice).createAuction(0, 0)).to.be.revertedWith("Invalid auction duration");
+      await expect(auctions.connect(signers.alice).createAuction(0, 3600)).to.emit(contract, "AuctionCreated");
+
+      // Bob bids 1 ETH, carol bids 3 ETH but only deposits 2 ETH, deployer bids 1.5 ETH
+      await placeBid(0, signers.bob, 1_000_000_000n, ethers.parseEther("1.2"));
+      await placeBid(0, carol, 3_000_000_000n, ethers.parseEther("2"));
+      await placeBid(0, signers.deployer, 1_500_000_000n, ethers.parseEther("2"));
+      await expect(placeBid(0, signers.bob, 2_000_000_000n, ethers.parseEther("2"))).to.be.revertedWith("Already bid");
+
+      // Bidders can decrypt their own bid only; an uncovered bid counts as zero
+      const bobBid = await auctions.getBid(0, signers.bob.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, bobBid, contractAddress, signers.bob)).to.eq(
+        1_000_000_000n,
+      );
+      const carolBid = await auctions.getBid(0, carol.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, carolBid, contractAddress, carol)).to.eq(0n);
+
+      // The collectible is locked while the auction is open
+      await expect(contract.connect(signers.alice).transferCollectible(0, signers.bob.address)).to.be.revertedWith(
+        "Collectible is in auction",
+      );
+
+      await expect(auctions.revealAuction(0)).to.be.revertedWith("Auction has not ended");
+      await time.increase(3600);
+      await expect(placeBid(0, signers.bob, 1n, 1n)).to.be.revertedWith("Auction has ended");
+
+      await expect(auctions.revealAuction(0)).to.emit(contract, "AuctionRevealRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const price = ethers.parseEther("1.5");
+      const auction = await auctions.getAuction(0);
+      expect(auction.status).to.eq(3); // Settled
+      expect(auction.winner).to.eq(signers.deployer.address);
+      expect(auction.winningBid).to.eq(1_500_000_000n);
+      expect(await contract.ownerOf(0)).to.eq(signers.deployer.address);
+      const [, sale] = await contract.getProvenance(0);
+      expect(sale.kind).to.eq(TransferKind.Auction);
+      expect(sale.price).to.eq(price);
+      expect(sale.requestId).to.eq(0n);
+
+      // Seller receives the winning bid, the winner the excess of their deposit
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(price);
+      expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(ethers.parseEther("2") - price);
+      await expect(auctions.connect(signers.deployer).reclaimBidDeposit(0)).to.be.revertedWith(
+        "No deposit to reclaim",
+      );
+
+      // Losing bidders reclaim their deposits
+      let tx = await auctions.connect(signers.bob).reclaimBidDeposit(0);
+      await tx.wait();
+      tx = await auctions.connect(carol).reclaimBidDeposit(0);
+      await tx.wait();
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(ethers.parseEther("1.2"));
+      expect(await contract.pendingWithdrawals(carol.address)).to.eq(ethers.parseEther("2"));
+
+      const metadata = await contract.getEncryptedMetadata(0);
+      expect(await canUserDecrypt(metadata.encryptedAttributes[0], contractAddress, signers.deployer)).to.be.true;
+      expect(await canUserDecrypt(metadata.encryptedAttributes[0], contractAddress, signers.alice)).to.be.false;
+    });
+
+    it("should let the seller cancel an auction without bids", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
 
+      let tx = await auctions.connect(signers.alice).createAuction(0, 3600);
+      await tx.wait();
+      await expect(auctions.connect(signers.alice).createAuction(0, 3600)).to.be.revertedWith("Auction already open");
+      await expect(auctions.connect(signers.bob).cancelAuction(0)).to.be.revertedWith(
+        "Only seller can cancel auction",
+      );
+      await expect(auctions.connect(signers.alice).cancelAuction(0)).to.emit(contract, "AuctionCancelled").withArgs(0, 0);
+
+      // Once cancelled, the collectible can move again
+      tx = await contract.connect(signers.alice).transferCollectible(0, signers.bob.address);
+      await tx.wait();
+      expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+
+      // A bid locks the auction against cancellation
+      tx = await auctions.connect(signers.bob).createAuction(0, 3600);
+      await tx.wait();
+      await placeBid(1, signers.alice, 1_000_000_000n, ethers.parseEther("1"));
+      await expect(auctions.connect(signers.bob).cancelAuction(1)).to.be.revertedWith("Auction has bids");
+      await expect(auctions.connect(signers.alice).reclaimBidDeposit(1)).to.be.revertedWith("Auction is not closed");
+    });
+
+    it("should cancel an auction whose reveal the oracle never answers", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await (await auctions.connect(signers.alice).createAuction(0, 3600)).wait();
+      await placeBid(0, signers.bob, 1_000_000_000n, ethers.parseEther("1"));
+      await time.increase(3600);
+      await expect(auctions.cancelStalledAuction(0)).to.be.revertedWith("Auction is not revealing");
+      await (await auctions.revealAuction(0)).wait();
+
+      await expect(auctions.cancelStalledAuction(0)).to.be.revertedWith("Reveal has not timed out");
+      await time.increase(await contract.ORACLE_TIMEOUT());
+      await expect(auctions.connect(signers.deployer).cancelStalledAuction(0))
+        .to.emit(contract, "AuctionCancelled")
+        .withArgs(0, 0);
+      expect((await auctions.getAuction(0)).status).to.eq(4); // Cancelled
+
+      // Deposits are reclaimable, the seller keeps the collectible and a late answer is rejected
+      await (await auctions.connect(signers.bob).reclaimBidDeposit(0)).wait();
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(ethers.parseEther("1"));
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Auction is not revealing");
+      expect(await contract.ownerOf(0)).to.eq(signers.alice.address);
+      await (await contract.connect(signers.alice).transferCollectible(0, signers.bob.address)).wait();
+    });
+  });
+
+  describe("confidential offers", function () {
+    it("should keep offers encrypted for buyer and owner and settle at the revealed amount", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      // Bob escrows 2 ETH but only offers 1.25 ETH
+      const escrow = ethers.parseEther("2");
+      const offer = ethers.parseEther("1.25");
+      const tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, escrow, 0, offer);
+      await tx.wait();
+
+      const request = await contract.getPurchaseRequest(0);
+      expect(request.offerAmount).to.eq(escrow);
+      for (const account of [signers.bob, signers.alice]) {
+        expect(
+          await fhevm.userDecryptEuint(FhevmType.euint64, request.encryptedOffer, contractAddress, account),
+        ).to.eq(1_250_000_000n);
+      }
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, request.encryptedOffer, contractAddress, signers.deployer),
+      ).to.be.rejected;
+
+      await expect(contract.connect(signers.alice).approvePurchase(0)).to.emit(contract, "PurchaseSettlementRequested");
+
+      // The collectible is locked while the oracle reveals the offer
+      expect(await contract.saleSettling(0)).to.be.true;
+      await expect(contract.connect(signers.alice).transferCollectible(0, signers.deployer.address)).to.be.revertedWith(
+        "Sale is settling",
+      );
+      await expect(auctions.connect(signers.alice).createAuction(0, 3600)).to.be.revertedWith("Sale is settling");
+
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await contract.saleSettling(0)).to.be.false;
+      expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(offer);
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(escrow - offer);
+    });
+
+    it("should let the buyer or owner cancel a settlement the oracle never answers", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      const escrow = ethers.parseEther("1");
+      const tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, escrow);
+      await tx.wait();
+      await (await contract.connect(signers.alice).approvePurchase(0)).wait();
+
+      // The oracle has not answered yet
+      await expect(contract.connect(signers.bob).cancelStalledSettlement(0)).to.be.revertedWith(
+        "Settlement has not timed out",
+      );
+      await time.increase(await contract.ORACLE_TIMEOUT());
+      await expect(contract.connect(signers.deployer).cancelStalledSettlement(0)).to.be.revertedWith(
+        "Only buyer or owner can cancel settlement",
+      );
+
+      await expect(contract.connect(signers.alice).cancelStalledSettlement(0))
+        .to.emit(contract, "PurchaseCancelled")
+        .withArgs(0, 0, signers.bob.address, signers.alice.address);
+      expect(await contract.saleSettling(0)).to.be.false;
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(escrow);
+      const request = await contract.getPurchaseRequest(0);
+      expect(request.isPending).to.be.false;
+      expect(request.isApproved).to.be.false;
+      await expect(contract.connect(signers.bob).cancelStalledSettlement(0)).to.be.revertedWith(
+        "Settlement is not pending",
+      );
+
+      // The collectible is unlocked and a late answer does not settle the cancelled sale
+      await (await contract.connect(signers.alice).transferCollectible(0, signers.deployer.address)).wait();
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Unknown settlement");
+      expect(await contract.ownerOf(0)).to.eq(signers.deployer.address);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(0);
+    });
+
+    it("should cap an offer above the escrow at the escrowed amount", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      const escrow = ethers.parseEther("1");
+      const tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, escrow, 0, ethers.parseEther("5"));
+      await tx.wait();
+
+      const request = await contract.getPurchaseRequest(0);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint64, request.encryptedOffer, contractAddress, signers.alice),
+      ).to.eq(1_000_000_000n);
+
+      await approveAndSettle(contract, signers.alice, 0);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(escrow);
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(0);
+    });
+  });
+
+  describe("viewer grants", function () {
+    // Purchase Price and Serial Number
+    const PRICE_AND_SERIAL = 0b0101;
+
+    it("should let a viewer decrypt only the granted fields until revoked", async function () {
+      const insurer = (await ethers.getSigners())[3];
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      const expiresAt = (await time.latest()) + 3600;
+      await expect(sharing.connect(signers.alice).grantViewer(0, insurer.address, PRICE_AND_SERIAL, expiresAt))
+        .to.emit(sharing, "ViewerGranted")
+        .withArgs(0, insurer.address, PRICE_AND_SERIAL, expiresAt);
+
+      const grants = await sharing.getViewerGrants(0);
+      expect(grants.map((grant) => [grant.viewer, grant.fieldMask, grant.expiresAt])).to.deep.eq([
+        [insurer.address, BigInt(PRICE_AND_SERIAL), BigInt(expiresAt)],
+      ]);
+
+      // The viewer gets fresh handles, never the owner's
+      const owned = await contract.getEncryptedMetadata(0);
+      const shared = await sharing.getSharedMetadata(0, insurer.address);
+      expect(shared.categoryId).to.eq(0);
+      expect(shared.encryptedAttributes[0]).to.not.eq(owned.encryptedAttributes[0]);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, shared.encryptedAttributes[0], contractAddress, insurer)).to.eq(1000);
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint128, shared.encryptedAttributes[2], contractAddress, insurer),
+      ).to.eq(16751969001n);
+      expect(shared.encryptedAttributes[1]).to.eq(ethers.ZeroHash);
+      expect(shared.encryptedAttributes[3]).to.eq(ethers.ZeroHash);
+      expect(await canUserDecrypt(owned.encryptedAttributes[0], contractAddress, insurer)).to.be.false;
+
+      await expect(sharing.connect(signers.bob).revokeViewer(0, insurer.address)).to.be.revertedWith(
+        "Only owner can revoke access",
+      );
+      await expect(sharing.connect(signers.alice).revokeViewer(0, insurer.address))
+        .to.emit(sharing, "ViewerRevoked")
+        .withArgs(0, insurer.address);
+      await expect(sharing.getSharedMetadata(0, insurer.address)).to.be.revertedWith("No active grant");
+      expect(await sharing.getViewerGrants(0)).to.have.length(0);
+      await expect(sharing.connect(signers.alice).revokeViewer(0, insurer.address)).to.be.revertedWith(
+        "Viewer not granted",
+      );
+    });
+
+    it("should stop serving handles after expiry and drop grants on transfer", async function () {
+      const insurer = (await ethers.getSigners())[3];
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      const expiresAt = (await time.latest()) + 3600;
+      await (await sharing.connect(signers.alice).grantViewer(0, insurer.address, 0b0001, expiresAt)).wait();
+      await time.increaseTo(expiresAt);
+      await expect(sharing.getSharedMetadata(0, insurer.address)).to.be.revertedWith("No active grant");
+
+      // Granting again replaces the expired grant
+      const renewedUntil = (await time.latest()) + 3600;
+      await (await sharing.connect(signers.alice).grantViewer(0, insurer.address, 0b0010, renewedUntil)).wait();
+      expect(await sharing.getViewerGrants(0)).to.have.length(1);
+      const shared = await sharing.getSharedMetadata(0, insurer.address);
+      expect(shared.encryptedAttributes[0]).to.eq(ethers.ZeroHash);
+      expect(
+        decodeShortString(
+          await fhevm.userDecryptEuint(FhevmType.euint256, shared.encryptedAttributes[1], contractAddress, insurer),
+        ),
+      ).to.eq("GIA-2231-XK");
+
+      // Grants belong to the owner who made them
+      await expect(contract.connect(signers.alice).transferCollectible(0, signers.bob.address))
+        .to.emit(contract, "ViewerRevoked")
+        .withArgs(0, insurer.address);
+      expect(await sharing.getViewerGrants(0)).to.have.length(0);
+      await expect(sharing.getSharedMetadata(0, insurer.address)).to.be.revertedWith("No active grant");
+    });
+
+    it("should validate grants", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      const expiresAt = (await time.latest()) + 3600;
+
+      await expect(
+        sharing.connect(signers.bob).grantViewer(0, signers.bob.address, 1, expiresAt),
+      ).to.be.revertedWith("Only owner can grant access");
+      await expect(
+        sharing.connect(signers.alice).grantViewer(0, signers.alice.address, 1, expiresAt),
+      ).to.be.revertedWith("Invalid viewer");
+      await expect(
+        sharing.connect(signers.alice).grantViewer(0, signers.bob.address, 1, await time.latest()),
+      ).to.be.revertedWith("Expiry must be in the future");
+      await expect(
+        sharing.connect(signers.alice).grantViewer(0, signers.bob.address, 0, expiresAt),
+      ).to.be.revertedWith("Invalid field mask");
+      // The watch schema has four fields
+      await expect(
+        sharing.connect(signers.alice).grantViewer(0, signers.bob.address, 0b10000, expiresAt),
+      ).to.be.revertedWith("Invalid field mask");
+    });
+  });
+
+  describe("claim verification", function () {
+    async function verifyClaim(verifier: HardhatEthersSigner, field: number, encrypt: (input: any) => any) {
+      const encrypted = await encrypt(fhevm.createEncryptedInput(contractAddress, verifier.address)).encrypt();
+      const tx = await claims.connect(verifier).verifyClaim(0, field, encrypted.handles[0], encrypted.inputProof);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => claims.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ClaimVerified");
+      return event!.args.result as string;
+    }
+
+    it("should answer encrypted claims without revealing the stored value", async function () {
+      const carol = (await ethers.getSigners())[3];
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      const serialMatches = await verifyClaim(signers.bob, 2, (input) => input.add128(16751969001n));
+      expect(await fhevm.userDecryptEbool(serialMatches, contractAddress, signers.bob)).to.be.true;
+
+      // Only the verifier can read the answer
+      await expect(fhevm.userDecryptEbool(serialMatches, contractAddress, signers.alice)).to.be.rejected;
+
+      const certMatches = await verifyClaim(carol, 1, (input) => input.add256(encodeShortString("GIA-0000-XX")));
+      expect(await fhevm.userDecryptEbool(certMatches, contractAddress, carol)).to.be.false;
+    });
+
+    it("should rate-limit claims per verifier and reject unknown fields", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add64(1000).encrypt();
+      await expect(
+        claims.connect(signers.bob).verifyClaim(0, 4, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWith("Invalid field");
+
+      await verifyClaim(signers.bob, 0, (input) => input.add64(999));
+      await expect(
+        claims.connect(signers.bob).verifyClaim(0, 0, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWith("Claim cooldown active");
+
+      await time.increase(Number(await contract.CLAIM_COOLDOWN()));
+      const priceMatches = await verifyClaim(signers.bob, 0, (input) => input.add64(1000));
+      expect(await fhevm.userDecryptEbool(priceMatches, contractAddress, signers.bob)).to.be.true;
+    });
+
+    it("should limit claims per token however many accounts guess", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      const limit = Number(await contract.MAX_CLAIMS_PER_WINDOW());
+      const verifiers = (await ethers.getSigners()).slice(3, 4 + limit);
+
+      for (const verifier of verifiers.slice(0, limit)) {
+        await verifyClaim(verifier, 0, (input) => input.add64(999));
+      }
+      const latecomer = verifiers[limit];
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, latecomer.address).add64(1000).encrypt();
+      await expect(
+        claims.connect(latecomer).verifyClaim(0, 0, encrypted.handles[0], encrypted.inputProof),
+      ).to.be.revertedWith("Token claim limit reached");
+
+      // A new window opens once CLAIM_COOLDOWN has passed
+      await time.increase(Number(await contract.CLAIM_COOLDOWN()));
+      const priceMatches = await verifyClaim(latecomer, 0, (input) => input.add64(1000));
+      expect(await fhevm.userDecryptEbool(priceMatches, contractAddress, latecomer)).to.be.true;
+    });
+
+    it("should route module calls by selector and reject unknown ones", async function () {
+      const selector = claims.interface.getFunction("verifyClaim").selector;
+      expect(await contract.moduleOf(selector)).to.not.eq(ethers.ZeroAddress);
+      await expect(
+        signers.alice.sendTransaction({ to: contractAddress, data: "0x12345678" }),
+      ).to.be.revertedWith("Unknown function");
+    });
+  });
+
+  describe("threshold proofs", function () {
+    const UINT64_MAX = 2n ** 64n - 1n;
+    // Mirrors RelicChainVerifyBase.ProofStatus
+    const ProofStatus = { Requested: 1n, Answered: 2n, Publishing: 3n, Published: 4n, Declined: 5n } as const;
+
+    it("should prove a price range privately to the requester", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      // "The purchase price was at least 500"
+      await expect(claims.connect(signers.bob).requestThresholdProof(0, 0, 500, UINT64_MAX))
+        .to.emit(claims, "ThresholdProofRequested")
+        .withArgs(0, 0, signers.bob.address, 0, 500, UINT64_MAX);
+      await (await claims.connect(signers.bob).requestThresholdProof(0, 0, 2000, 5000)).wait();
+      expect(await claims.getTokenThresholdProofs(0)).to.deep.eq([0n, 1n]);
+
+      await expect(claims.connect(signers.bob).answerThresholdProof(0, false)).to.be.revertedWith(
+        "Only owner can answer proof",
+      );
+      await expect(claims.connect(signers.alice).answerThresholdProof(0, false))
+        .to.emit(claims, "ThresholdProofAnswered")
+        .withArgs(0, 0, signers.bob.address, false);
+      await (await claims.connect(signers.alice).answerThresholdProof(1, false)).wait();
+
+      const atLeast = await claims.getThresholdProof(0);
+      expect(atLeast.status).to.eq(ProofStatus.Answered);
+      expect(await fhevm.userDecryptEbool(atLeast.result, contractAddress, signers.bob)).to.be.true;
+      await expect(fhevm.userDecryptEbool(atLeast.result, contractAddress, signers.alice)).to.be.rejected;
+
+      const inRange = await claims.getThresholdProof(1);
+      expect(await fhevm.userDecryptEbool(inRange.result, contractAddress, signers.bob)).to.be.false;
+    });
+
+    it("should publish the result through the oracle when the owner consents", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await (await claims.connect(signers.bob).requestThresholdProof(0, 0, 0, 1000)).wait();
+
+      await (await claims.connect(signers.alice).answerThresholdProof(0, true)).wait();
+      expect((await claims.getThresholdProof(0)).status).to.eq(ProofStatus.Publishing);
+
+      await fhevm.awaitDecryptionOracle();
+      const proof = await claims.getThresholdProof(0);
+      expect(proof.status).to.eq(ProofStatus.Published);
+      expect(proof.holds).to.be.true;
+    });
+
+    it("should withdraw a publication the oracle never reveals", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await (await claims.connect(signers.bob).requestThresholdProof(0, 0, 0, 1000)).wait();
+      await expect(claims.resetStalledThresholdProof(0)).to.be.revertedWith("Proof is not publishing");
+
+      await (await claims.connect(signers.alice).answerThresholdProof(0, true)).wait();
+      await expect(claims.resetStalledThresholdProof(0)).to.be.revertedWith("Proof has not timed out");
+      await time.increase(await contract.ORACLE_TIMEOUT());
+      await expect(claims.connect(signers.deployer).resetStalledThresholdProof(0))
+        .to.emit(claims, "ThresholdProofReset")
+        .withArgs(0, 0);
+
+      // The requester still reads the result privately, and a late oracle answer is rejected
+      const proof = await claims.getThresholdProof(0);
+      expect(proof.status).to.eq(ProofStatus.Answered);
+      expect(await fhevm.userDecryptEbool(proof.result, contractAddress, signers.bob)).to.be.true;
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Proof is not publishing");
+      expect((await claims.getThresholdProof(0)).status).to.eq(ProofStatus.Answered);
+    });
+
+    it("should validate requests and let the owner decline", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+
+      await expect(claims.connect(signers.alice).requestThresholdProof(0, 0, 0, 1)).to.be.revertedWith(
+        "Owner cannot request a proof",
+      );
+      await expect(claims.connect(signers.bob).requestThresholdProof(0, 1, 0, 1)).to.be.revertedWith(
+        "Field is not comparable",
+      );
+      await expect(claims.connect(signers.bob).requestThresholdProof(0, 0, 2, 1)).to.be.revertedWith(
+        "Invalid range",
+      );
+      await expect(claims.connect(signers.bob).requestThresholdProof(0, 0, 0, UINT64_MAX + 1n)).to.be.revertedWith(
+        "Bound exceeds field width",
+      );
+      // Serial numbers are Uint128, so wider bounds are fine
+      await (await claims.connect(signers.bob).requestThresholdProof(0, 2, 0, UINT64_MAX + 1n)).wait();
+
+      await expect(claims.connect(signers.alice).declineThresholdProof(0))
+        .to.emit(claims, "ThresholdProofDeclined")
+        .withArgs(0, 0);
+      expect((await claims.getThresholdProof(0)).status).to.eq(ProofStatus.Declined);
+      await expect(claims.connect(signers.alice).answerThresholdProof(0, false)).to.be.revertedWith(
+        "Proof is not requested",
+      );
+    });
+  });
+
+  describe("duplicate detection", function () {
+    // Mirrors RelicChainVerifyBase.DuplicateStatus
+    const DuplicateStatus = { Unchecked: 0n, Checking: 1n, Unique: 2n, Duplicate: 3n } as const;
+
+    async function checkAndReveal(tokenId: number) {
+      await (await claims.checkDuplicates(tokenId)).wait();
+      await fhevm.awaitDecryptionOracle();
+      return (await claims.getDuplicateCheck(tokenId)).status;
+    }
+
+    it("should flag a collectible that reuses a registered serial or certificate", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      expect((await claims.getDuplicateCheck(0)).status).to.eq(DuplicateStatus.Unchecked);
+      expect(await checkAndReveal(0)).to.eq(DuplicateStatus.Unique);
+
+      // Same serial, different certificate
+      await listTestCollectible(contract, contractAddress, signers.bob, 16751969001n, "FAKE-0001");
+      await expect(claims.checkDuplicates(1)).to.emit(claims, "DuplicateCheckRequested");
+      await fhevm.awaitDecryptionOracle();
+      expect((await claims.getDuplicateCheck(1)).status).to.eq(DuplicateStatus.Duplicate);
+
+      // Same certificate, different serial
+      await listTestCollectible(contract, contractAddress, signers.bob, 1n);
+      expect(await checkAndReveal(2)).to.eq(DuplicateStatus.Duplicate);
+
+      await listTestCollectible(contract, contractAddress, signers.bob, 2n, "GIA-9999-ZZ");
+      expect(await checkAndReveal(3)).to.eq(DuplicateStatus.Unique);
+
+      await expect(claims.checkDuplicates(3)).to.be.revertedWith("Duplicate check not runnable");
+    });
+
+    it("should check large categories in batches while holding the category lock", async function () {
+      const batch = Number(await contract.MAX_DUPLICATE_BATCH());
+      for (let i = 0; i <= batch; i++) {
+        await listTestCollectible(contract, contractAddress, signers.alice, BigInt(i), `CERT-${i}`);
+        expect(await checkAndReveal(i)).to.eq(DuplicateStatus.Unique);
+      }
+
+      const tokenId = batch + 1;
+      await listTestCollectible(contract, contractAddress, signers.bob, BigInt(tokenId), `CERT-${tokenId}`);
+      await listTestCollectible(contract, contractAddress, signers.bob, BigInt(tokenId), `CERT-${tokenId}`);
+      await expect(claims.checkDuplicates(tokenId))
+        .to.emit(claims, "DuplicateCheckProgress")
+        .withArgs(tokenId, batch, batch + 1);
+
+      // The copy cannot be checked until the first collectible has joined the registry
+      await expect(claims.checkDuplicates(tokenId + 1)).to.be.revertedWith("Category check in progress");
+
+      expect(await checkAndReveal(tokenId)).to.eq(DuplicateStatus.Unique);
+      await (await claims.checkDuplicates(tokenId + 1)).wait();
+      expect(await checkAndReveal(tokenId + 1)).to.eq(DuplicateStatus.Duplicate);
+    });
+
+    it("should release the category lock when the oracle never reveals a check", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      expect(await checkAndReveal(0)).to.eq(DuplicateStatus.Unique);
+
+      await listTestCollectible(contract, contractAddress, signers.bob, 16751969001n, "FAKE-0001");
+      await listTestCollectible(contract, contractAddress, signers.bob, 2n, "GIA-9999-ZZ");
+      await (await claims.checkDuplicates(1)).wait();
+      await expect(claims.checkDuplicates(2)).to.be.revertedWith("Category check in progress");
+
+      await expect(claims.resetStalledDuplicateCheck(0)).to.be.revertedWith("Duplicate check is not revealing");
+      await expect(claims.resetStalledDuplicateCheck(1)).to.be.revertedWith("Duplicate check has not timed out");
+      await time.increase(await contract.ORACLE_TIMEOUT());
+      await expect(claims.connect(signers.alice).resetStalledDuplicateCheck(1))
+        .to.emit(claims, "DuplicateCheckReset")
+        .withArgs(1, 0);
+      expect((await claims.getDuplicateCheck(1)).status).to.eq(DuplicateStatus.Unchecked);
+
+      // A late oracle answer no longer matches a pending check
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejectedWith("Duplicate check is not revealing");
+
+      expect(await checkAndReveal(2)).to.eq(DuplicateStatus.Unique);
+      expect(await checkAndReveal(1)).to.eq(DuplicateStatus.Duplicate);
+    });
+
+    it("should require unique fields in the category", async function () {
+      await (
+        await registry.registerCategory("Postcard", [{ name: "Caption", fieldType: AttributeType.ShortString, unique: false }])
+      ).wait();
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add256(encodeShortString("Greetings"))
+        .encrypt();
+      await (
+        await contract.connect(signers.alice).listCollectible("Card", "ipfs://card", 1, encrypted.handles, encrypted.inputProof, 0)
+      ).wait();
+
+      await expect(claims.checkDuplicates(0)).to.be.revertedWith("Category has no unique fields");
+    });
+  });
+
+  describe("authenticators", function () {
+    async function attestTestCollectible(authenticator: HardhatEthersSigner, tokenId: number, payload: string) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, authenticator.address)
+        .add256(encodeShortString(payload))
+        .encrypt();
+      const tx = await authenticators
+        .connect(authenticator)
+        .attest(tokenId, encrypted.handles[0], encrypted.inputProof);
+      await tx.wait();
+    }
+
+    it("should let only the admin manage the authenticator registry", async function () {
+      expect(await contract.admin()).to.eq(signers.deployer.address);
+      await expect(
+        authenticators.connect(signers.alice).addAuthenticator(signers.alice.address, "Alice Grading"),
+      ).to.be.revertedWith("Only admin");
+
+      await expect(authenticators.addAuthenticator(signers.bob.address, "Rolex"))
+        .to.emit(authenticators, "AuthenticatorAdded")
+        .withArgs(signers.bob.address, "Rolex");
+      await expect(authenticators.addAuthenticator(signers.bob.address, "Rolex")).to.be.revertedWith(
+        "Already an authenticator",
+      );
+
+      await (await marketplaceAdmin.transferAdmin(signers.alice.address)).wait();
+      await expect(authenticators.removeAuthenticator(signers.bob.address)).to.be.revertedWith("Only admin");
+      await (await authenticators.connect(signers.alice).removeAuthenticator(signers.bob.address)).wait();
+      await (await authenticators.connect(signers.alice).addAuthenticator(signers.bob.address, "Rolex SA")).wait();
+
+      // Re-adding keeps a single registry entry
+      expect(await authenticators.getAuthenticators()).to.deep.eq([signers.bob.address]);
+      const entry = await authenticators.getAuthenticator(signers.bob.address);
+      expect(entry.name).to.eq("Rolex SA");
+      expect(entry.active).to.eq(true);
+    });
+
+    it("should attest a collectible with a payload readable by the authenticator and owner", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await expect(attestTestCollectible(signers.bob, 0, "ROLEX-CERT-77")).to.be.revertedWith(
+        "Only authenticators can attest",
+      );
+
+      await (await authenticators.addAuthenticator(signers.bob.address, "Rolex")).wait();
+      await attestTestCollectible(signers.bob, 0, "ROLEX-CERT-77");
+      await expect(attestTestCollectible(signers.bob, 0, "ROLEX-CERT-78")).to.be.revertedWith("Already attested");
+      expect(await authenticators.getVerifiedBy(0)).to.deep.eq([signers.bob.address]);
+
+      const attestation = await authenticators.getAttestation(0);
+      expect(attestation.tokenId).to.eq(0n);
+      expect(attestation.authenticator).to.eq(signers.bob.address);
+      for (const reader of [signers.alice, signers.bob]) {
+        const payload = await fhevm.userDecryptEuint(FhevmType.euint256, attestation.payload, contractAddress, reader);
+        expect(decodeShortString(payload)).to.eq("ROLEX-CERT-77");
+      }
+      expect(await canUserDecrypt(attestation.payload, contractAddress, signers.deployer, FhevmType.euint256)).to.eq(false);
+
+      // A new owner claims access to the payload after the transfer
+      await (await contract.connect(signers.alice).transferCollectible(0, signers.deployer.address)).wait();
+      await expect(authenticators.connect(signers.alice).claimAttestationAccess(0)).to.be.revertedWith(
+        "Only owner can access attestation",
+      );
+      await (await authenticators.connect(signers.deployer).claimAttestationAccess(0)).wait();
+      expect(await canUserDecrypt(attestation.payload, contractAddress, signers.deployer, FhevmType.euint256)).to.eq(true);
+    });
+
+    it("should stop counting revoked attestations and removed authenticators", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await (await authenticators.addAuthenticator(signers.bob.address, "Rolex")).wait();
+      await (await authenticators.addAuthenticator(signers.deployer.address, "Watch Grading Co")).wait();
+      await attestTestCollectible(signers.bob, 0, "ROLEX-CERT-77");
+      await attestTestCollectible(signers.deployer, 0, "WGC-5521");
+      expect(await authenticators.getVerifiedBy(0)).to.deep.eq([signers.bob.address, signers.deployer.address]);
+
+      await expect(authenticators.revokeAttestation(0)).to.be.revertedWith("Only the authenticator can revoke");
+      await expect(authenticators.connect(signers.bob).revokeAttestation(0))
+        .to.emit(authenticators, "AttestationRevoked")
+        .withArgs(0, 0, signers.bob.address);
+      await expect(authenticators.connect(signers.bob).revokeAttestation(0)).to.be.revertedWith(
+        "Attestation already revoked",
+      );
+      expect(await authenticators.getVerifiedBy(0)).to.deep.eq([signers.deployer.address]);
+
+      await (await authenticators.removeAuthenticator(signers.deployer.address)).wait();
+      expect(await authenticators.getVerifiedBy(0)).to.deep.eq([]);
+      expect(await authenticators.getTokenAttestations(0)).to.deep.eq([0n, 1n]);
+
+      // A revoked attestation can be replaced
+      await attestTestCollectible(signers.bob, 0, "ROLEX-CERT-77B");
+      expect(await authenticators.getVerifiedBy(0)).to.deep.eq([signers.bob.address]);
+    });
+  });
+
+  describe("royalties", function () {
+    it("should cap the royalty and expose it through EIP-2981", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add64(1000)
+        .add256(encodeShortString("GIA-2231-XK"))
+        .add128(16751969001n)
+        .add256(encodeShortString("CH"))
+        .encrypt();
+      await expect(
+        contract
+          .connect(signers.alice)
+          .listCollectible("Test", "ipfs://test", 0, encrypted.handles, encrypted.inputProof, 1001),
+      ).to.be.revertedWith("Royalty too high");
+
+      await listTestCollectible(contract, contractAddress, signers.alice, 1n, "CERT-1", 500);
+      await listTestCollectible(contract, contractAddress, signers.alice, 2n, "CERT-2");
+
+      const [receiver, amount] = await contract.royaltyInfo(0, ethers.parseEther("2"));
+      expect(receiver).to.eq(signers.alice.address);
+      expect(amount).to.eq(ethers.parseEther("0.1"));
+      const [, noRoyalty] = await contract.royaltyInfo(1, ethers.parseEther("2"));
+      expect(noRoyalty).to.eq(0n);
+
+      expect(await contract.supportsInterface("0x2a55205a")).to.be.true; // ERC-2981
+      expect(await contract.supportsInterface("0x80ac58cd")).to.be.true; // ERC-721
+    });
+
+    it("should pay the original lister on every resale but not on its own sale", async function () {
+      const carol = (await ethers.getSigners())[3];
+      await listTestCollectible(contract, contractAddress, signers.alice, 16751969001n, "GIA-2231-XK", 500);
+
+      // Primary sale: the lister is the seller, so no royalty; bob gets back the escrow above his offer
+      let tx = await requestTestPurchase(
+        contract,
+        contractAddress,
+        signers.bob,
+        0,
+        ethers.parseEther("1"),
+        0,
+        ethers.parseEther("0.8"),
+      );
+      await tx.wait();
+      const approvedAt = await approveAndSettle(contract, signers.alice, 0);
+      expect(await contract.queryFilter(contract.filters.RoyaltyPaid(), approvedAt)).to.have.length(0);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(ethers.parseEther("0.8"));
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(ethers.parseEther("0.2"));
+
+      // Buy-now resale: 5% of 2 ETH goes to alice, the rest to bob
+      await (await contract.connect(signers.bob).setSalePrice(0, ethers.parseEther("2"))).wait();
+      tx = await contract.connect(signers.deployer).buyNow(0, { value: ethers.parseEther("2") });
+      await expect(tx).to.emit(contract, "RoyaltyPaid").withArgs(0, signers.alice.address, ethers.parseEther("0.1"));
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(ethers.parseEther("0.9"));
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(ethers.parseEther("2.1"));
+
+      // Auction resale: carol wins at 3 ETH with a 4 ETH deposit
+      await (await auctions.connect(signers.deployer).createAuction(0, 3600)).wait();
+      const bid = await fhevm.createEncryptedInput(contractAddress, carol.address).add64(3_000_000_000n).encrypt();
+      tx = await auctions
+        .connect(carol)
+        .placeBid(0, bid.handles[0], bid.inputProof, { value: ethers.parseEther("4") });
+      await tx.wait();
+      await time.increase(3600);
+      tx = await auctions.revealAuction(0);
+      const revealedAt = (await tx.wait())!.blockNumber;
+      await fhevm.awaitDecryptionOracle();
+
+      const royalties = await contract.queryFilter(contract.filters.RoyaltyPaid(), revealedAt);
+      expect(royalties.map((e) => [e.args.receiver, e.args.amount])).to.deep.eq([
+        [signers.alice.address, ethers.parseEther("0.15")],
+      ]);
+      expect(await contract.ownerOf(0)).to.eq(carol.address);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(ethers.parseEther("1.05"));
+      expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(ethers.parseEther("2.85"));
+      expect(await contract.pendingWithdrawals(carol.address)).to.eq(ethers.parseEther("1"));
+
+      // Every credit is backed by ETH held by the contract
+      const credits = [signers.alice, signers.bob, signers.deployer, carol].map((account) =>
+        contract.pendingWithdrawals(account.address),
+      );
+      const total = (await Promise.all(credits)).reduce((sum, credit) => sum + credit, 0n);
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(total);
+    });
+  });
+
+  describe("access control, fees and pause", function () {
+    it("should let only the admin grant roles and only role holders use them", async function () {
+      await expect(
+        marketplaceAdmin.connect(signers.alice).grantRole(Role.FeeManager, signers.alice.address),
+      ).to.be.revertedWith("Only admin");
+      await expect(marketplaceAdmin.grantRole(Role.FeeManager, signers.alice.address))
+        .to.emit(marketplaceAdmin, "RoleGranted")
+        .withArgs(Role.FeeManager, signers.alice.address);
+      await expect(marketplaceAdmin.grantRole(Role.FeeManager, signers.alice.address)).to.be.revertedWith(
+        "Role already granted",
+      );
+      expect(await marketplaceAdmin.hasRole(Role.FeeManager, signers.alice.address)).to.be.true;
+      expect(await marketplaceAdmin.hasRole(Role.Pauser, signers.alice.address)).to.be.false;
+
+      // The admin holds no role unless granted
+      await expect(marketplaceAdmin.setMarketplaceFee(100)).to.be.revertedWith("Only fee manager");
+      await expect(marketplaceAdmin.pause()).to.be.revertedWith("Only pauser");
+      await expect(marketplaceAdmin.connect(signers.alice).pause()).to.be.revertedWith("Only pauser");
+
+      await expect(marketplaceAdmin.connect(signers.alice).setMarketplaceFee(1001)).to.be.revertedWith("Fee too high");
+      await expect(marketplaceAdmin.connect(signers.alice).setMarketplaceFee(250))
+        .to.emit(marketplaceAdmin, "MarketplaceFeeUpdated")
+        .withArgs(250);
+      expect(await contract.marketplaceFeeBps()).to.eq(250);
+
+      await expect(marketplaceAdmin.revokeRole(Role.FeeManager, signers.alice.address))
+        .to.emit(marketplaceAdmin, "RoleRevoked")
+        .withArgs(Role.FeeManager, signers.alice.address);
+      await expect(marketplaceAdmin.revokeRole(Role.FeeManager, signers.alice.address)).to.be.revertedWith(
+        "Role not granted",
+      );
+      await expect(marketplaceAdmin.connect(signers.alice).setMarketplaceFee(0)).to.be.revertedWith(
+        "Only fee manager",
+      );
+    });
+
+    it("should take the fee from every sale into a treasury the fee manager withdraws", async function () {
+      const feeManager = (await ethers.getSigners())[3];
+      await (await marketplaceAdmin.grantRole(Role.FeeManager, feeManager.address)).wait();
+      await (await marketplaceAdmin.connect(feeManager).setMarketplaceFee(250)).wait();
+      await listTestCollectible(contract, contractAddress, signers.alice, 16751969001n, "GIA-2231-XK", 500);
+
+      // Offer sale at 1 ETH: 2.5% to the treasury, no royalty on the lister's own sale
+      let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1"));
+      await tx.wait();
+      const approvedAt = await approveAndSettle(contract, signers.alice, 0);
+      const fees = await contract.queryFilter(contract.filters.MarketplaceFeeCollected(), approvedAt);
+      expect(fees.map((e) => [e.args.tokenId, e.args.amount])).to.deep.eq([[0n, ethers.parseEther("0.025")]]);
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(ethers.parseEther("0.975"));
+
+      // Buy-now resale at 2 ETH: 0.05 fee, 0.1 royalty, the rest to bob
+      await (await contract.connect(signers.bob).setSalePrice(0, ethers.parseEther("2"))).wait();
+      await (await contract.connect(signers.deployer).buyNow(0, { value: ethers.parseEther("2") })).wait();
+      expect(await contract.treasuryBalance()).to.eq(ethers.parseEther("0.075"));
+      expect(await contract.pendingWithdrawals(signers.alice.address)).to.eq(ethers.parseEther("1.075"));
+      expect(await contract.pendingWithdrawals(signers.bob.address)).to.eq(ethers.parseEther("1.85"));
+
+      await expect(
+        marketplaceAdmin.withdrawTreasury(signers.deployer.address, ethers.parseEther("0.075")),
+      ).to.be.revertedWith("Only fee manager");
+      await expect(
+        marketplaceAdmin.connect(feeManager).withdrawTreasury(feeManager.address, ethers.parseEther("0.1")),
+      ).to.be.revertedWith("Insufficient treasury balance");
+
+      const treasury = ethers.Wallet.createRandom().address;
+      await expect(marketplaceAdmin.connect(feeManager).withdrawTreasury(treasury, ethers.parseEther("0.075")))
+        .to.emit(marketplaceAdmin, "TreasuryWithdrawn")
+        .withArgs(treasury, ethers.parseEther("0.075"));
+      expect(await ethers.provider.getBalance(treasury)).to.eq(ethers.parseEther("0.075"));
+      expect(await contract.treasuryBalance()).to.eq(0n);
+
+      // What remains in the contract is exactly what accounts can withdraw
+      const credits = await Promise.all(
+        [signers.alice, signers.bob].map((account) => contract.pendingWithdrawals(account.address)),
+      );
+      expect(await ethers.provider.getBalance(contractAddress)).to.eq(credits[0] + credits[1]);
+    });
+
+    it("should block new business while paused but keep refunds open", async function () {
+      const pauser = (await ethers.getSigners())[3];
+      await (await marketplaceAdmin.grantRole(Role.Pauser, pauser.address)).wait();
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      await (await contract.connect(signers.alice).setSalePrice(0, ethers.parseEther("2"))).wait();
+      let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1"));
+      await tx.wait();
+      tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, ethers.parseEther("0.5"));
+      await tx.wait();
+
+      await expect(marketplaceAdmin.connect(pauser).pause())
+        .to.emit(marketplaceAdmin, "Paused")
+        .withArgs(pauser.address);
+      await expect(marketplaceAdmin.connect(pauser).pause()).to.be.revertedWith("Already paused");
+      expect(await contract.paused()).to.be.true;
+
+      await expect(listTestCollectible(contract, contractAddress, signers.alice, 2n)).to.be.revertedWith(
+        "Marketplace is paused",
+      );
+      await expect(
+        requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1")),
+      ).to.be.revertedWith("Marketplace is paused");
+      await expect(contract.connect(signers.alice).approvePurchase(0)).to.be.revertedWith("Marketplace is paused");
+      await expect(contract.connect(signers.bob).buyNow(0, { value: ethers.parseEther("2") })).to.be.revertedWith(
+        "Marketplace is paused",
+      );
+      await expect(auctions.connect(signers.alice).createAuction(0, 3600)).to.be.revertedWith(
+        "Marketplace is paused",
+      );
+
+      // Refunds and withdrawals keep working
+      await (await contract.connect(signers.alice).rejectPurchase(1)).wait();
+      await (await contract.connect(signers.bob).cancelPurchaseRequest(0)).wait();
+      await expect(contract.connect(signers.bob).withdraw())
+        .to.emit(contract, "Withdrawn")
+        .withArgs(signers.bob.address, ethers.parseEther("1"));
+      expect(await contract.pendingWithdrawals(signers.deployer.address)).to.eq(ethers.parseEther("0.5"));
+
+      await expect(marketplaceAdmin.connect(pauser).unpause())
+        .to.emit(marketplaceAdmin, "Unpaused")
+        .withArgs(pauser.address);
+      await expect(marketplaceAdmin.connect(pauser).unpause()).to.be.revertedWith("Not paused");
+      await (await contract.connect(signers.bob).buyNow(0, { value: ethers.parseEther("2") })).wait();
+      expect(await contract.ownerOf(0)).to.eq(signers.bob.address);
+    });
+  });
+
+  describe("paginated views", function () {
+    it("should page through all collectibles and an owner's collectibles", async function () {
+      for (let i = 0n; i < 5n; i++) {
+        await listTestCollectible(contract, contractAddress, i % 2n === 0n ? signers.alice : signers.bob, i);
+      }
+      await (await contract.connect(signers.bob).setSalePrice(3, ethers.parseEther("1"))).wait();
+
+      const [first, total] = await views.getCollectiblesPage(0, 2);
+      expect(total).to.eq(5n);
+      expect(first.map((item) => item.tokenId)).to.deep.eq([0n, 1n]);
+      expect(first[1].owner).to.eq(signers.bob.address);
+      expect(first[1].name).to.eq("Test");
+
+      const [last] = await views.getCollectiblesPage(4, 2);
+      expect(last.map((item) => item.tokenId)).to.deep.eq([4n]);
+      const [beyond] = await views.getCollectiblesPage(10, 2);
+      expect(beyond).to.have.length(0);
+      await expect(views.getCollectiblesPage(0, 101)).to.be.revertedWith("Page too large");
+
+      const [bobs, bobTotal] = await views.getOwnerCollectiblesPage(signers.bob.address, 1, 10);
+      expect(bobTotal).to.eq(2n);
+      expect(bobs.map((item) => [item.tokenId, item.salePrice])).to.deep.eq([[3n, ethers.parseEther("1")]]);
+    });
+
+    it("should load several purchase requests in one call", async function () {
+      await listTestCollectible(contract, contractAddress, signers.alice);
+      let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1"));
+      await tx.wait();
+      tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, ethers.parseEther("2"));
+      await tx.wait();
+      await (await contract.connect(signers.bob).cancelPurchaseRequest(0)).wait();
+
+      const requests = await views.getPurchaseRequestsBatch([1, 0, 7]);
+      expect(requests.map((request) => [request.buyer, request.offerAmount, request.isPending])).to.deep.eq([
+        [signers.deployer.address, ethers.parseEther("2"), true],
+        [signers.bob.address, ethers.parseEther("1"), false],
+        [ethers.ZeroAddress, 0n, false],
+      ]);
+    });
+
+    it("should count offers and report the latest sale and verification of each collectible", async function () {
+      for (let i = 0n; i < 3n; i++) {
+        await listTestCollectible(contract, contractAddress, signers.alice, i);
+      }
+
+      // Token 0 sells to the deployer, which rejects bob's offer, and bob offers again
+      let tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("1"));
+      await tx.wait();
+      tx = await requestTestPurchase(contract, contractAddress, signers.deployer, 0, ethers.parseEther("2"));
+      await tx.wait();
+      await approveAndSettle(contract, signers.alice, 1);
+      tx = await requestTestPurchase(contract, contractAddress, signers.bob, 0, ethers.parseEther("3"));
+      await tx.wait();
+
+      // Token 1 only has an expired offer
+      const expiresAt = (await time.latest()) + 3600;
+      tx = await requestTestPurchase(contract, contractAddress, signers.bob, 1, ethers.parseEther("1"), expiresAt);
+      await tx.wait();
+      await time.increaseTo(expiresAt);
+
+      await (await authenticators.addAuthenticator(signers.bob.address, "Rolex")).wait();
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.bob.address)
+        .add256(encodeShortString("CERT-1"))
+        .encrypt();
+      await (await authenticators.connect(signers.bob).attest(2, encrypted.handles[0], encrypted.inputProof)).wait();
+
+      const [stats, total] = await views.getCollectibleStatsPage(0, 10);
+      expect(total).to.eq(3n);
+      expect(
+        stats.map((item) => [item.tokenId, item.offerCount, item.pendingOfferCount, item.lastSalePrice, item.verified]),
+      ).to.deep.eq([
+        [0n, 3n, 1n, ethers.parseEther("2"), false],
+        [1n, 1n, 0n, 0n, false],
+        [2n, 0n, 0n, 0n, true],
+      ]);
+      expect(stats[0].lastSaleAt).to.be.gt(0n);
+      expect(stats[2].verifiedBy).to.deep.eq([signers.bob.address]);
+
+      // Removing the authenticator drops its verifications
+      await (await authenticators.removeAuthenticator(signers.bob.address)).wait();
+      const [page] = await views.getCollectibleStatsPage(2, 1);
+      expect(page[0].verified).to.eq(false);
+      expect(page[0].verifiedBy).to.deep.eq([]);
+      await expect(views.getCollectibleStatsPage(0, 101)).to.be.revertedWith("Page too large");
+    });
+
+    it("should report the open auction and duplicate check of each collectible", async function () {
+      for (let i = 0n; i < 3n; i++) {
+        await listTestCollectible(contract, contractAddress, signers.alice, i, `CERT-${i}`);
+      }
+      await (await auctions.connect(signers.alice).createAuction(0, 3600)).wait();
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add64(1_000_000n).encrypt();
+      await (
+        await auctions
+          .connect(signers.bob)
+          .placeBid(0, encrypted.handles[0], encrypted.inputProof, { value: ethers.parseEther("1") })
+      ).wait();
+      await (await claims.checkDuplicates(1)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      // DuplicateStatus.Unchecked = 0, DuplicateStatus.Unique = 2
+      const [stats] = await views.getCollectibleStatsPage(0, 10);
+      expect(stats.map((item) => [item.tokenId, item.inAuction, item.auctionBidCount, item.duplicateStatus])).to.deep.eq([
+        [0n, true, 1n, 0n],
+        [1n, false, 0n, 2n],
+        [2n, false, 0n, 0n],
+      ]);
+
+      const batch = await views.getCollectibleStatsBatch([2, 1]);
+      expect(batch.map((item) => [item.tokenId, item.duplicateStatus])).to.deep.eq([
+        [2n, 0n],
+        [1n, 2n],
+      ]);
+      await expect(views.getCollectibleStatsBatch(Array.from({ length: 101 }, (_, i) => i))).to.be.revertedWith(
+        "Page too large",
+      );
+    });
+  });
+});
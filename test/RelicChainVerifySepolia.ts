@@ -45,39 +45,31 @@ describe("RelicChainVerifySepolia", function () {
   });
 
   it("should list and purchase a collectible on Sepolia", async function () {
-    steps = 15;
+    steps = 18;
 
-    this.timeout(4 * 40000);
+    this.timeout(8 * 40000);
 
     const name = "Vintage Rolex";
     const imageUri = "ipfs://QmTest123";
     const purchasePrice = 92000;
-    const certNumber = 987654;
-    const serialNumber = 16751969; // Fixed: within uint32 range (max: 4294967295)
-    const originCode = 1969;
+    const certNumber = "GIA-2231-XK";
+    const serialNumber = 16751969001n;
+    const originCode = "Geneva, CH";
 
     progress("Encrypting all metadata fields in a single batch...");
     // Encrypt all metadata fields in a single batch (same inputProof required)
     const encrypted = await fhevm
       .createEncryptedInput(contractAddress, signers.alice.address)
-      .add32(purchasePrice)
-      .add32(certNumber)
-      .add32(serialNumber)
-      .add32(originCode)
+      .add64(purchasePrice)
+      .add256(BigInt(ethers.encodeBytes32String(certNumber)))
+      .add128(serialNumber)
+      .add256(BigInt(ethers.encodeBytes32String(originCode)))
       .encrypt();
 
     progress(`Listing collectible: ${name}...`);
     let tx = await contract
       .connect(signers.alice)
-      .listCollectible(
-        name,
-        imageUri,
-        encrypted.handles[0], // purchasePrice
-        encrypted.handles[1], // certNumber
-        encrypted.handles[2], // serialNumber
-        encrypted.handles[3], // originCode
-        encrypted.inputProof
-      );
+      .listCollectible(name, imageUri, 0, encrypted.handles, encrypted.inputProof, 0); // 0 = Watch
     await tx.wait();
 
     progress("Getting collectible info...");
@@ -89,21 +81,36 @@ describe("RelicChainVerifySepolia", function () {
     progress("Decrypting encrypted price (Alice should be able to)...");
     const encryptedMetadata = await contract.getEncryptedMetadata(tokenId);
     const decryptedPrice = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedMetadata.encryptedPrice,
+      FhevmType.euint64,
+      encryptedMetadata.encryptedAttributes[0],
       contractAddress,
       signers.alice,
     );
     progress(`Decrypted price: ${decryptedPrice}`);
     expect(decryptedPrice).to.eq(purchasePrice);
 
-    progress("Bob purchasing collectible...");
+    progress("Encrypting Bob's offer...");
     const purchaseAmount = ethers.parseEther("0.1");
+    const encryptedOffer = await fhevm
+      .createEncryptedInput(contractAddress, signers.bob.address)
+      .add64(purchaseAmount / 1_000_000_000n)
+      .encrypt();
+
+    progress("Bob purchasing collectible...");
     tx = await contract
       .connect(signers.bob)
-      .purchaseCollectible(tokenId, { value: purchaseAmount });
+      .requestPurchase(tokenId, 0, encryptedOffer.handles[0], encryptedOffer.inputProof, { value: purchaseAmount });
     await tx.wait();
 
+    progress("Alice approving purchase request...");
+    tx = await contract.connect(signers.alice).approvePurchase(0);
+    await tx.wait();
+
+    progress("Waiting for the decryption oracle to settle the sale...");
+    while (await contract.saleSettling(tokenId)) {
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+    }
+
     progress("Verifying ownership transfer...");
     const infoAfter = await contract.getCollectibleInfo(tokenId);
     expect(infoAfter.owner).to.eq(signers.bob.address);
@@ -111,8 +118,8 @@ describe("RelicChainVerifySepolia", function () {
     progress("Decrypting encrypted price (Bob should be able to now)...");
     const encryptedMetadataAfter = await contract.getEncryptedMetadata(tokenId);
     const decryptedPriceAfter = await fhevm.userDecryptEuint(
-      FhevmType.euint32,
-      encryptedMetadataAfter.encryptedPrice,
+      FhevmType.euint64,
+      encryptedMetadataAfter.encryptedAttributes[0],
       contractAddress,
       signers.bob,
     );